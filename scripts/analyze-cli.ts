@@ -0,0 +1,553 @@
+/**
+ * Bulk Video Analyzer CLI
+ *
+ * Analyzes every video in a folder through the app's analyze-video endpoint,
+ * so provider keys, the result cache and the per-client rate limit apply
+ * exactly as in the browser. Progress is checkpointed after each video:
+ * running the same command again resumes where it stopped.
+ *
+ * Loaded by scripts/analyze.js; the app must be running (npm run dev).
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream, openAsBlob, promises as fs } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { loadEnvConfig } from '@next/env';
+import {
+  AnalysisOptions,
+  VideoAnalysisApiResponse,
+  VideoAnalysisResult,
+  DEFAULT_RATE_LIMIT_PER_MINUTE,
+  SUPPORTED_VIDEO_FORMATS,
+} from '@/types/video-analysis';
+import { getProviderInfo } from '@/lib/providers/catalog';
+import {
+  BUILT_IN_FIELD_KEYS,
+  DEFAULT_ANALYSIS_FIELDS,
+  getAnalysisFields,
+  getNoFieldsMessage,
+  getModelFields,
+  isBuiltInFieldKey,
+  normalizeAnalysisOptions,
+} from '@/lib/utils/analysisFields';
+import { validateVideoFile, getFileExtension, getVideoMimeType, formatFileSize, combineVideoMetadata } from '@/lib/utils/videoUtils';
+import { parseContainerMetadata } from '@/lib/utils/containerMetadata';
+import { formatResultsAsCSV, formatResultsAsJSON, generateExportSummary } from '@/lib/utils/exportUtils';
+
+const PROJECT_ROOT = path.resolve(__dirname, '..');
+const CHECKPOINT_VERSION = 1;
+const MAX_RETRIES = 3;
+const RETRY_BACKOFF_BASE = 2000; // 2 seconds base delay
+const MIN_REQUEST_DELAY = 1000;
+const REQUEST_TIMEOUT = 10 * 60 * 1000; // large uploads through the Files API take a while
+
+// Same transient failures the browser queue retries
+const RETRYABLE_ERRORS = [
+  'network',
+  'fetch failed',
+  'timeout',
+  'rate limit',
+  'temporary',
+  'service unavailable',
+  'internal server error',
+];
+
+const USAGE = `Usage: npm run analyze -- <folder> [options]
+
+Analyzes every video in <folder> (and its subfolders) with the running app
+and writes the results in the same CSV/JSON format as the web export.
+
+Options:
+  --fields <keys>       Comma-separated built-in fields (default: all)
+                        ${BUILT_IN_FIELD_KEYS.join(', ')}
+  --options <file>      JSON analysis options with custom fields, provider and model
+  --provider <id>       Analysis provider (default: gemini)
+  --model <id>          Model of the provider (default: the provider's default)
+  --hook-window <sec>   Analyze only the first <sec> seconds (hooks and opening script)
+  --out <file>          Output file, .csv or .json (default: results.csv)
+  --checkpoint <file>   Progress file for resuming (default: <out>.checkpoint.json)
+  --server <url>        App URL (default: $VIDEO_ANALYZER_URL or http://localhost:3000)
+  --api-key <key>       Gemini API key (default: $GOOGLE_API_KEY from .env.local)
+  --force               Re-analyze videos the result cache already knows
+  --retry-failed        Analyze videos that failed in an earlier run again
+  --restart             Ignore an existing checkpoint and start over
+  --no-recursive        Only analyze videos directly inside <folder>
+  --help                Show this help
+`;
+
+interface CliArgs {
+  folder: string;
+  analysisOptions: AnalysisOptions;
+  outPath: string;
+  checkpointPath: string;
+  serverUrl: string;
+  apiKey: string;
+  force: boolean;
+  retryFailed: boolean;
+  restart: boolean;
+  recursive: boolean;
+}
+
+interface Checkpoint {
+  version: number;
+  folder: string;
+  optionsKey: string; // provider, model and fields the results were produced with
+  results: Record<string, VideoAnalysisResult>; // by path relative to the folder
+}
+
+interface VideoEntry {
+  relativePath: string;
+  absolutePath: string;
+  size: number;
+}
+
+class CliError extends Error {
+  constructor(message: string, public code: string, public retryAfter?: number) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+// Helper function to wait, resolving early when the signal is aborted
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done, { once: true });
+
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+// Options file contents; normalizeAnalysisOptions validates the fields themselves
+async function readOptionsFile(filePath: string): Promise<Partial<AnalysisOptions>> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (error) {
+    throw new CliError(`Could not read analysis options from ${filePath}: ${(error as Error).message}`, 'INVALID_OPTIONS');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new CliError(`Analysis options in ${filePath} must be a JSON object`, 'INVALID_OPTIONS');
+  }
+  return parsed as Partial<AnalysisOptions>;
+}
+
+async function readAnalysisOptions(values: Record<string, string | boolean | undefined>): Promise<AnalysisOptions> {
+  const raw: Partial<AnalysisOptions> = typeof values.options === 'string' ? await readOptionsFile(values.options) : {};
+
+  if (typeof values.fields === 'string') {
+    const keys = values.fields.split(',').map(key => key.trim()).filter(Boolean);
+    const unknown = keys.filter(key => !isBuiltInFieldKey(key));
+    if (unknown.length > 0) {
+      throw new CliError(`Unknown field(s): ${unknown.join(', ')}. Use --options for custom fields.`, 'INVALID_OPTIONS');
+    }
+    raw.fields = DEFAULT_ANALYSIS_FIELDS.map(field => ({ ...field, enabled: keys.includes(field.key) }));
+  }
+  if (typeof values.provider === 'string') {
+    const provider = getProviderInfo(values.provider);
+    if (!provider) {
+      throw new CliError(`Unknown provider: ${values.provider}`, 'INVALID_OPTIONS');
+    }
+    raw.provider = provider.id;
+    raw.model = typeof values.model === 'string' ? values.model : undefined;
+  } else if (typeof values.model === 'string') {
+    raw.model = values.model;
+  }
+  if (typeof values['hook-window'] === 'string') {
+    const seconds = Number(values['hook-window']);
+    if (!Number.isFinite(seconds) || seconds <= 0) {
+      throw new CliError(`--hook-window must be a number of seconds, got "${values['hook-window']}"`, 'INVALID_OPTIONS');
+    }
+    raw.hookWindow = { enabled: true, seconds };
+  }
+
+  let options: AnalysisOptions;
+  try {
+    options = normalizeAnalysisOptions(raw);
+  } catch (error) {
+    throw new CliError(`Invalid analysis options: ${(error as Error).message}`, 'INVALID_OPTIONS');
+  }
+  if (getAnalysisFields(options).length === 0) {
+    throw new CliError(getNoFieldsMessage(options), 'INVALID_OPTIONS');
+  }
+  return options;
+}
+
+async function parseCliArgs(argv: string[]): Promise<CliArgs | null> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      fields: { type: 'string' },
+      options: { type: 'string' },
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      'hook-window': { type: 'string' },
+      out: { type: 'string' },
+      checkpoint: { type: 'string' },
+      server: { type: 'string' },
+      'api-key': { type: 'string' },
+      force: { type: 'boolean' },
+      'retry-failed': { type: 'boolean' },
+      restart: { type: 'boolean' },
+      'no-recursive': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) return null;
+  if (positionals.length !== 1) {
+    throw new CliError(`Expected one folder to analyze.\n\n${USAGE}`, 'INVALID_ARGS');
+  }
+
+  const outPath = path.resolve(values.out || 'results.csv');
+  if (!['.csv', '.json'].includes(path.extname(outPath).toLowerCase())) {
+    throw new CliError('--out must end in .csv or .json', 'INVALID_ARGS');
+  }
+
+  return {
+    folder: path.resolve(positionals[0]),
+    analysisOptions: await readAnalysisOptions(values),
+    outPath,
+    checkpointPath: path.resolve(values.checkpoint || `${outPath}.checkpoint.json`),
+    serverUrl: (values.server || process.env.VIDEO_ANALYZER_URL || 'http://localhost:3000').replace(/\/+$/, ''),
+    apiKey: values['api-key'] || process.env.GOOGLE_API_KEY || '',
+    force: Boolean(values.force),
+    retryFailed: Boolean(values['retry-failed']),
+    restart: Boolean(values.restart),
+    recursive: !values['no-recursive'],
+  };
+}
+
+// Video files under the folder, in a stable order
+async function collectVideos(folder: string, recursive: boolean): Promise<VideoEntry[]> {
+  const entries: VideoEntry[] = [];
+
+  async function walk(directory: string): Promise<void> {
+    const items = await fs.readdir(directory, { withFileTypes: true });
+    for (const item of items) {
+      if (item.name.startsWith('.')) continue;
+      const absolutePath = path.join(directory, item.name);
+
+      if (item.isDirectory()) {
+        if (recursive) await walk(absolutePath);
+      } else if (item.isFile() && SUPPORTED_VIDEO_FORMATS.includes(getFileExtension(item.name))) {
+        const { size } = await fs.stat(absolutePath);
+        entries.push({ relativePath: path.relative(folder, absolutePath).split(path.sep).join('/'), absolutePath, size });
+      }
+    }
+  }
+
+  await walk(folder);
+  return entries.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+}
+
+function getOptionsKey(options: AnalysisOptions): string {
+  return JSON.stringify({ provider: options.provider, model: options.model, fields: getModelFields(options) });
+}
+
+async function loadCheckpoint(args: CliArgs): Promise<Checkpoint> {
+  const fresh: Checkpoint = {
+    version: CHECKPOINT_VERSION,
+    folder: args.folder,
+    optionsKey: getOptionsKey(args.analysisOptions),
+    results: {},
+  };
+  if (args.restart) return fresh;
+
+  let saved: Checkpoint;
+  try {
+    saved = JSON.parse(await fs.readFile(args.checkpointPath, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fresh;
+    throw new CliError(`Could not read checkpoint ${args.checkpointPath}: ${(error as Error).message}`, 'INVALID_CHECKPOINT');
+  }
+
+  if (saved.version !== CHECKPOINT_VERSION || saved.folder !== fresh.folder || saved.optionsKey !== fresh.optionsKey) {
+    throw new CliError(
+      `${args.checkpointPath} belongs to a run with a different folder or analysis options. ` +
+      'Pass --restart to start over or --checkpoint to use another file.',
+      'CHECKPOINT_MISMATCH'
+    );
+  }
+  return saved;
+}
+
+// Write to a temp file first so an interrupted run never leaves a truncated checkpoint
+async function saveCheckpoint(checkpointPath: string, checkpoint: Checkpoint): Promise<void> {
+  const tempPath = `${checkpointPath}.tmp`;
+  await fs.mkdir(path.dirname(checkpointPath), { recursive: true });
+  await fs.writeFile(tempPath, JSON.stringify(checkpoint, null, 2));
+  await fs.rename(tempPath, checkpointPath);
+}
+
+function hashVideo(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof CliError && (error.code === 'QUOTA_EXCEEDED' || error.code === 'TIMEOUT')) return true;
+  const message = (error instanceof Error ? error.message : String(error)).toLowerCase();
+  return RETRYABLE_ERRORS.some(pattern => message.includes(pattern));
+}
+
+/**
+ * Reads codec, frame rate and audio details from the file's container.
+ * Metadata is informational, so unreadable containers are skipped silently.
+ */
+async function readVideoMetadata(entry: VideoEntry): Promise<VideoAnalysisResult['videoMetadata']> {
+  try {
+    const blob = await openAsBlob(entry.absolutePath);
+    const container = await parseContainerMetadata(blob);
+    const { thumbnail: _thumbnail, ...metadata } = combineVideoMetadata({ name: entry.relativePath, size: blob.size }, container);
+    return metadata;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Sends videos one at a time, spaced to the server's rate limit
+ */
+class BulkAnalyzer {
+  private nextRequestAt = 0;
+  private rateLimitPerMinute = DEFAULT_RATE_LIMIT_PER_MINUTE;
+
+  constructor(private args: CliArgs, private signal: AbortSignal) {}
+
+  async analyze(entry: VideoEntry, id: string): Promise<VideoAnalysisResult> {
+    const createdAt = new Date();
+    const videoMetadata = await readVideoMetadata(entry);
+    const base = { id, filename: entry.relativePath, createdAt, videoMetadata };
+    const contentHash = await hashVideo(entry.absolutePath);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const data = await this.request(entry, contentHash);
+        return {
+          ...base,
+          status: 'completed',
+          visualHook: data.visualHook,
+          textHook: data.textHook,
+          voiceHook: data.voiceHook,
+          videoScript: data.videoScript,
+          painPoint: data.painPoint,
+          customFields: data.customFields,
+          hookCategories: data.hookCategories,
+          hookWindowSeconds: data.hookWindowSeconds,
+          provider: data.provider,
+          model: data.model,
+          cached: data.cached,
+          processingTime: data.processingTime,
+          completedAt: new Date(),
+        };
+      } catch (error) {
+        if (this.signal.aborted) throw error;
+
+        // Server-side rate limit: wait it out without using up a retry
+        if (error instanceof CliError && error.code === 'RATE_LIMIT_EXCEEDED') {
+          const waitSeconds = error.retryAfter || 60;
+          console.log(`   Rate limited, waiting ${waitSeconds}s...`);
+          await sleep(waitSeconds * 1000, this.signal);
+          attempt--;
+          continue;
+        }
+
+        if (attempt < MAX_RETRIES && isRetryable(error)) {
+          const delay = RETRY_BACKOFF_BASE * Math.pow(2, attempt - 1);
+          console.log(`   ${(error as Error).message} - retrying in ${formatSeconds(delay)}`);
+          await sleep(delay, this.signal);
+          continue;
+        }
+
+        return {
+          ...base,
+          status: 'error',
+          error: error instanceof Error ? error.message : String(error),
+          completedAt: new Date(),
+        };
+      }
+    }
+  }
+
+  private async request(entry: VideoEntry, contentHash: string): Promise<NonNullable<VideoAnalysisApiResponse['data']>> {
+    const waitTime = this.nextRequestAt - Date.now();
+    if (waitTime > 0) await sleep(waitTime, this.signal);
+    if (this.signal.aborted) throw new CliError('Analysis cancelled', 'CANCELLED');
+    this.nextRequestAt = Date.now() + Math.max(MIN_REQUEST_DELAY, 60000 / this.rateLimitPerMinute);
+
+    const filename = path.basename(entry.absolutePath);
+    const formData = new FormData();
+    formData.append('video', await openAsBlob(entry.absolutePath, { type: getVideoMimeType(filename) }), filename);
+    formData.append('options', JSON.stringify(this.args.analysisOptions));
+    formData.append('apiKey', this.args.apiKey);
+    formData.append('contentHash', contentHash);
+    formData.append('forceReanalysis', String(this.args.force));
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.args.serverUrl}/api/gemini/analyze-video`, {
+        method: 'POST',
+        body: formData,
+        signal: AbortSignal.any([this.signal, AbortSignal.timeout(REQUEST_TIMEOUT)]),
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new CliError('Request timeout - video may be too large or complex', 'TIMEOUT');
+      }
+      throw error;
+    }
+
+    const apiResponse: VideoAnalysisApiResponse = await response.json();
+
+    // Keep pace with the server's limit; wait for the window to reset once it is used up
+    if (apiResponse.rateLimitInfo) {
+      const { maxRequestsPerMinute, remaining, resetTime } = apiResponse.rateLimitInfo;
+      this.rateLimitPerMinute = maxRequestsPerMinute || DEFAULT_RATE_LIMIT_PER_MINUTE;
+      if (remaining <= 0) {
+        this.nextRequestAt = Math.max(this.nextRequestAt, resetTime);
+      }
+    }
+
+    if (response.status === 429) {
+      throw new CliError(
+        apiResponse.error?.message || 'Rate limit exceeded',
+        'RATE_LIMIT_EXCEEDED',
+        apiResponse.error?.details?.retryAfter || 60
+      );
+    }
+    if (!response.ok || !apiResponse.success || !apiResponse.data) {
+      throw new CliError(apiResponse.error?.message || 'Analysis failed', apiResponse.error?.code || 'ANALYSIS_FAILED');
+    }
+    return apiResponse.data;
+  }
+}
+
+async function writeResults(outPath: string, results: VideoAnalysisResult[]): Promise<void> {
+  const content = outPath.toLowerCase().endsWith('.json') ? formatResultsAsJSON(results) : formatResultsAsCSV(results);
+  await fs.mkdir(path.dirname(outPath), { recursive: true });
+  await fs.writeFile(outPath, content);
+}
+
+export async function main(argv: string[]): Promise<number> {
+  loadEnvConfig(PROJECT_ROOT, false, { info: () => {}, error: console.error });
+
+  const args = await parseCliArgs(argv);
+  if (!args) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const providerInfo = getProviderInfo(args.analysisOptions.provider)!;
+  if (!providerInfo.supportsNativeVideo) {
+    throw new CliError(
+      `${providerInfo.label} analyzes keyframes sampled in the browser, which the CLI can't do. Use the web app or a Gemini model.`,
+      'UNSUPPORTED_PROVIDER'
+    );
+  }
+  if (providerInfo.requiresUserApiKey && !args.apiKey) {
+    throw new CliError('No Gemini API key. Pass --api-key or run `npm run setup` to store it in .env.local.', 'MISSING_API_KEY');
+  }
+
+  const videos = await collectVideos(args.folder, args.recursive).catch(error => {
+    throw new CliError(`Could not read ${args.folder}: ${error.message}`, 'INVALID_ARGS');
+  });
+  if (videos.length === 0) {
+    throw new CliError(`No videos found in ${args.folder} (${SUPPORTED_VIDEO_FORMATS.join(', ')})`, 'NO_VIDEOS');
+  }
+
+  // Fail fast instead of recording every video as a network error
+  try {
+    await fetch(`${args.serverUrl}/api/gemini/analyze-video`);
+  } catch (error) {
+    throw new CliError(`Could not reach the app at ${args.serverUrl}. Start it with \`npm run dev\` or pass --server.`, 'SERVER_UNREACHABLE');
+  }
+
+  const checkpoint = await loadCheckpoint(args);
+  const isDone = (result?: VideoAnalysisResult) =>
+    result?.status === 'completed' || (result?.status === 'error' && !args.retryFailed);
+  const pending = videos.filter(video => !isDone(checkpoint.results[video.relativePath]));
+
+  console.log(`\nVideo Analyzer – bulk analysis with ${providerInfo.label} (${args.analysisOptions.model})`);
+  console.log(`Found ${videos.length} videos, ${pending.length} to analyze` +
+    (pending.length < videos.length ? ` (resuming from ${path.basename(args.checkpointPath)})` : ''));
+
+  // Ctrl+C stops after saving what is done; rerunning the command resumes
+  const controller = new AbortController();
+  const onInterrupt = () => {
+    console.log('\nStopping... run the same command again to resume.');
+    controller.abort();
+  };
+  process.once('SIGINT', onInterrupt);
+
+  const analyzer = new BulkAnalyzer(args, controller.signal);
+  try {
+    for (let index = 0; index < pending.length; index++) {
+      if (controller.signal.aborted) break;
+
+      const video = pending[index];
+      const label = `[${index + 1}/${pending.length}] ${video.relativePath}`;
+      const id = `video_${videos.indexOf(video)}`;
+      const validation = validateVideoFile({
+        name: video.relativePath,
+        size: video.size,
+        type: getVideoMimeType(video.relativePath),
+      });
+
+      let result: VideoAnalysisResult;
+      if (!validation.isValid) {
+        const now = new Date();
+        result = { id, filename: video.relativePath, status: 'error', error: validation.errors.join('; '), createdAt: now, completedAt: now };
+      } else {
+        console.log(`${label} (${formatFileSize(video.size)})`);
+        try {
+          result = await analyzer.analyze(video, id);
+        } catch (error) {
+          if (controller.signal.aborted) break;
+          throw error;
+        }
+      }
+
+      checkpoint.results[video.relativePath] = result;
+      await saveCheckpoint(args.checkpointPath, checkpoint);
+
+      if (result.status === 'completed') {
+        console.log(`   ✅ ${result.cached ? 'cached' : formatSeconds(result.processingTime || 0)}`);
+      } else {
+        console.log(`${validation.isValid ? '   ' : `${label}\n   `}❌ ${result.error}`);
+      }
+    }
+  } finally {
+    process.removeListener('SIGINT', onInterrupt);
+  }
+
+  const results = videos
+    .map(video => checkpoint.results[video.relativePath])
+    .filter((result): result is VideoAnalysisResult => Boolean(result));
+  const summary = generateExportSummary(results);
+
+  if (results.length > 0) {
+    await writeResults(args.outPath, results);
+    console.log(`\nWrote ${results.length} results to ${args.outPath}`);
+  }
+  console.log(`Completed: ${summary.completedCount}, failed: ${summary.errorCount}, ` +
+    `not analyzed yet: ${videos.length - results.length}`);
+
+  if (controller.signal.aborted) return 130;
+  return summary.errorCount > 0 ? 1 : 0;
+}
@@ -0,0 +1,20 @@
+#!/usr/bin/env node
+// Command-line bulk analyzer: analyze every video in a folder and write CSV/JSON.
+// Runs the TypeScript in analyze-cli.ts directly so it shares the app's
+// validation and export code. See `npm run analyze -- --help`.
+
+const path = require('path');
+
+const projectRoot = path.resolve(__dirname, '..');
+const jiti = require('jiti')(__filename, {
+  alias: { '@': path.join(projectRoot, 'src') },
+  interopDefault: true,
+});
+
+jiti('./analyze-cli.ts')
+  .main(process.argv.slice(2))
+  .then((exitCode) => process.exit(exitCode))
+  .catch((error) => {
+    console.error(`\n❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  });
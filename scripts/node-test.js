@@ -0,0 +1,4 @@
+// node:test for TypeScript tests loaded through jiti, which strips the
+// "node:" prefix and can't resolve built-ins that only exist with it.
+// scripts/test.js aliases "test" to this file.
+module.exports = { ...require('node:test') };
@@ -0,0 +1,31 @@
+#!/usr/bin/env node
+// Offline tests: runs every src/**/*.test.ts with Node's built-in test runner.
+// The TypeScript is loaded through jiti, like the CLI, so tests import app
+// modules with the same "@/" paths.
+
+const fs = require('fs');
+const path = require('path');
+
+const projectRoot = path.resolve(__dirname, '..');
+
+// Loaded natively first, so jiti reuses it from the require cache
+require('./node-test');
+
+const jiti = require('jiti')(__filename, {
+  alias: {
+    '@': path.join(projectRoot, 'src'),
+    test: path.join(__dirname, 'node-test.js'), // "node:test" after jiti strips the prefix
+  },
+  interopDefault: true,
+});
+
+function findTests(directory) {
+  return fs.readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) return findTests(entryPath);
+    return entry.name.endsWith('.test.ts') ? [entryPath] : [];
+  });
+}
+
+// node:test runs the registered tests once every file is loaded
+findTests(path.join(projectRoot, 'src')).forEach((testPath) => jiti(testPath));
@@ -1,186 +1,50 @@
-import { GoogleGenerativeAI, SchemaType } from '@google/generative-ai';
 import { NextRequest, NextResponse } from 'next/server';
-import { VideoAnalysisApiResponse, AnalysisOptions } from '@/types/video-analysis';
+import { VideoAnalysisApiResponse, AnalysisOptions, VideoAnalysisResult, VideoKeyframe } from '@/types/video-analysis';
+import { resolveUploadMode } from '@/lib/gemini/videoFileStore';
+import { normalizeAnalysisOptions, getAnalysisFields, getNoFieldsMessage } from '@/lib/utils/analysisFields';
+import { readCachedAnalysis, writeCachedAnalysis, hashFile, CachedAnalysisData } from '@/lib/cache/analysisCache';
+import { getProviderInfo } from '@/lib/providers/catalog';
+import {
+  RATE_LIMIT_PER_MINUTE,
+  checkRateLimit,
+  peekRateLimit,
+  getClientIp,
+  defaultRateLimitInfo,
+} from '@/lib/analysis/rateLimit';
+import {
+  getAnalysisCacheTarget,
+  getMaxVideoSize,
+  runVideoAnalysis,
+  describeAnalysisError,
+} from '@/lib/analysis/analyzeVideo';
+import { getRequestOwner } from '@/lib/analysis/clientAuth';
+import { getWebhookDispatcher } from '@/lib/webhooks/webhookDispatcher';
+import { BatchReference, parseBatchReference, recordBatchResult } from '@/lib/webhooks/batchTracker';
+import { isRetryableAnalysisError } from '@/lib/utils/errorHandling';
 
 // Note: Gemini AI is initialized per-request with user-provided API key
-// No server-side API key required - users provide their own keys
-
-// Enhanced rate limiting storage with better tracking
-interface RateLimitData {
-  count: number;
-  resetTime: number;
-  requests: Array<{ timestamp: number; id: string }>;
-  lastCleanup: number;
-}
-
-const rateLimitStore = new Map<string, RateLimitData>();
-
-// Rate limiting configuration
-const RATE_LIMIT_PER_MINUTE = parseInt(process.env.RATE_LIMIT_PER_MINUTE || '10');
-const RATE_LIMIT_WINDOW_MS = 60000; // 1 minute
-const MAX_VIDEO_SIZE_BYTES = parseInt(process.env.MAX_VIDEO_SIZE_MB || '100') * 1024 * 1024;
-const CLEANUP_INTERVAL_MS = 300000; // 5 minutes
-
-// Cleanup old rate limit entries periodically
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, data] of Array.from(rateLimitStore.entries())) {
-    if (now > data.resetTime + CLEANUP_INTERVAL_MS) {
-      rateLimitStore.delete(key);
-    }
-  }
-}, CLEANUP_INTERVAL_MS);
-
-// Analysis prompts
-const ANALYSIS_PROMPT = `
-Analyze the provided video and extract marketing insights:
-
-1. **Visual Hook**: Identify the most compelling visual element that grabs attention in the first 3 seconds. Focus on colors, movement, composition, and visual storytelling elements.
-
-2. **Text Hook**: Extract or suggest the most engaging text/caption that would accompany this video. This should be a short, attention-grabbing phrase or question.
-
-3. **Voice Hook**: Analyze the audio/speech and identify the most compelling verbal hook, tagline, or opening line that creates curiosity and engagement.
-
-4. **Video Script**: Provide a COMPLETE and DETAILED transcript of ALL spoken content in the video. Include every word spoken, with precise timestamps in [MM:SS] format. Do not summarize or truncate - capture the entire verbal content from start to finish. If no speech is detected, indicate "No spoken content detected".
-
-5. **Pain Point**: Identify what problem this video addresses and how it positions the solution. What frustration or desire does it tap into?
-
-Keep each field concise but informative (max 200 words per field).
-`;
-
-// Define the structured output schema  
-const OUTPUT_SCHEMA = {
-  type: SchemaType.OBJECT as const,
-  properties: {
-    visualHook: {
-      type: SchemaType.STRING as const,
-      description: "Description of the most compelling visual element that grabs attention"
-    },
-    textHook: {
-      type: SchemaType.STRING as const, 
-      description: "Suggested engaging text or caption for the video"
-    },
-    voiceHook: {
-      type: SchemaType.STRING as const,
-      description: "Compelling verbal hook, tagline, or opening line"
-    },
-    videoScript: {
-      type: SchemaType.STRING as const,
-      description: "Complete transcript of all spoken content with timestamps"
-    },
-    painPoint: {
-      type: SchemaType.STRING as const,
-      description: "Problem this video addresses and solution positioning"
-    }
-  },
-  required: ["visualHook", "textHook", "voiceHook", "videoScript", "painPoint"]
-};
-
-// Enhanced rate limit checker with sliding window
-function checkRateLimit(ip: string, requestId?: string): { 
-  allowed: boolean; 
-  remaining: number; 
-  resetTime: number; 
-  requestsInLastMinute: number;
-  retryAfter?: number;
-} {
-  const now = Date.now();
-  const key = ip;
-  let limitData = rateLimitStore.get(key);
-
-  // Initialize if doesn't exist
-  if (!limitData) {
-    limitData = {
-      count: 0,
-      resetTime: now + RATE_LIMIT_WINDOW_MS,
-      requests: [],
-      lastCleanup: now
-    };
-    rateLimitStore.set(key, limitData);
+// No server-side API key required for Gemini - users provide their own keys.
+// OpenAI and Anthropic analysis use the server keys from the environment.
+
+// Requests with a client token report their outcome to that client's webhooks.
+// Failures are only reported once the browser queue won't retry them. The
+// last video of a browser batch to report also completes the batch.
+function notifyWebhooks(ownerId: string | null, batch: BatchReference | null, result: VideoAnalysisResult): void {
+  if (!ownerId) return;
+  const dispatcher = getWebhookDispatcher();
+  dispatcher.emitVideoResult(ownerId, result)
+    .catch(error => console.error('Failed to queue webhook deliveries:', error));
+
+  const batchResults = batch && recordBatchResult(ownerId, batch, result);
+  if (batchResults) {
+    dispatcher.emitBatchCompleted(ownerId, batchResults)
+      .catch(error => console.error('Failed to queue webhook deliveries:', error));
   }
-
-  // Clean up old requests (sliding window approach)
-  const oneMinuteAgo = now - RATE_LIMIT_WINDOW_MS;
-  limitData.requests = limitData.requests.filter(req => req.timestamp > oneMinuteAgo);
-  
-  // Update count based on cleaned requests
-  limitData.count = limitData.requests.length;
-
-  // Reset window if needed
-  if (now > limitData.resetTime) {
-    limitData.resetTime = now + RATE_LIMIT_WINDOW_MS;
-  }
-
-  // Check if rate limit exceeded
-  if (limitData.count >= RATE_LIMIT_PER_MINUTE) {
-    const oldestRequest = limitData.requests[0];
-    const retryAfter = oldestRequest ? Math.ceil((oldestRequest.timestamp + RATE_LIMIT_WINDOW_MS - now) / 1000) : 60;
-    
-    return { 
-      allowed: false, 
-      remaining: 0, 
-      resetTime: limitData.resetTime,
-      requestsInLastMinute: limitData.count,
-      retryAfter
-    };
-  }
-
-  // Add current request
-  const currentRequestId = requestId || `req_${now}_${Math.random().toString(36).substr(2, 9)}`;
-  limitData.requests.push({ timestamp: now, id: currentRequestId });
-  limitData.count = limitData.requests.length;
-
-  return { 
-    allowed: true, 
-    remaining: RATE_LIMIT_PER_MINUTE - limitData.count, 
-    resetTime: limitData.resetTime,
-    requestsInLastMinute: limitData.count
-  };
 }
 
-// Helper function to convert File to base64
-async function fileToBase64(file: File): Promise<string> {
-  const bytes = await file.arrayBuffer();
-  const buffer = Buffer.from(bytes);
-  return buffer.toString('base64');
-}
-
-// Helper function to get video format
-function getVideoMimeType(filename: string): string {
-  const ext = filename.toLowerCase().split('.').pop();
-  const mimeTypes: { [key: string]: string } = {
-    'mp4': 'video/mp4',
-    'mov': 'video/quicktime',
-    'avi': 'video/x-msvideo',
-    'mkv': 'video/x-matroska',
-    'webm': 'video/webm',
-    'm4v': 'video/mp4',
-  };
-  return mimeTypes[ext || 'mp4'] || 'video/mp4';
-}
-
-// Helper function to validate analysis options
-function validateAnalysisOptions(options: any): AnalysisOptions {
-  return {
-    includeVisualHook: options?.includeVisualHook ?? true,
-    includeTextHook: options?.includeTextHook ?? true,
-    includeVoiceHook: options?.includeVoiceHook ?? true,
-    includeVideoScript: options?.includeVideoScript ?? true,
-    includePainPoint: options?.includePainPoint ?? true,
-  };
-}
-
-// Helper function to filter analysis results based on options
-function filterAnalysisResults(results: any, options: AnalysisOptions) {
-  const filtered: any = {};
-  
-  if (options.includeVisualHook) filtered.visualHook = results.visualHook;
-  if (options.includeTextHook) filtered.textHook = results.textHook;
-  if (options.includeVoiceHook) filtered.voiceHook = results.voiceHook;
-  if (options.includeVideoScript) filtered.videoScript = results.videoScript;
-  if (options.includePainPoint) filtered.painPoint = results.painPoint;
-  
-  return filtered;
+// Result properties only; the upload path is an implementation detail of the request
+function toResultData({ uploadMode: _uploadMode, ...data }: CachedAnalysisData) {
+  return data;
 }
 
 export async function POST(request: NextRequest): Promise<NextResponse<VideoAnalysisApiResponse>> {
@@ -192,48 +56,102 @@ export async function POST(request: NextRequest): Promise<NextResponse<VideoAnal
     const videoFile = formData.get('video') as File;
     const optionsString = formData.get('options') as string;
     const apiKey = formData.get('apiKey') as string;
+    const requestedUploadMode = formData.get('uploadMode') as string | null;
+    const keyframesString = formData.get('keyframes') as string | null;
+    const contentHash = formData.get('contentHash') as string | null;
+    const forceReanalysis = formData.get('forceReanalysis') === 'true';
+    const resultId = formData.get('resultId') as string | null;
+    const filename = formData.get('filename') as string | null;
+    const finalAttempt = formData.get('finalAttempt') !== 'false';
+    const ownerId = getRequestOwner(request.headers);
+    const batch = parseBatchReference(formData.get('batchId'), formData.get('batchSize'));
+
+    // Parse and validate analysis options (the provider decides which key is needed)
+    let analysisOptions: AnalysisOptions;
+    try {
+      const parsedOptions = optionsString ? JSON.parse(optionsString) : {};
+      analysisOptions = normalizeAnalysisOptions(parsedOptions);
+    } catch (error) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          message: 'Invalid analysis options format',
+          code: 'INVALID_OPTIONS',
+          details: error instanceof Error ? error.message : String(error),
+        },
+        rateLimitInfo: defaultRateLimitInfo(),
+      }, { status: 400 });
+    }
+
+    const providerInfo = getProviderInfo(analysisOptions.provider)!;
 
     // Validate user-provided API key
-    if (!apiKey || typeof apiKey !== 'string') {
+    if (providerInfo.requiresUserApiKey && (!apiKey || typeof apiKey !== 'string')) {
       return NextResponse.json({
         success: false,
         error: {
           message: 'API key is required. Please configure your Google Gemini API key in the settings.',
           code: 'MISSING_API_KEY',
         },
-        rateLimitInfo: {
-          remaining: RATE_LIMIT_PER_MINUTE,
-          resetTime: Date.now() + 60000,
-          requestsInLastMinute: 0,
-          maxRequestsPerMinute: RATE_LIMIT_PER_MINUTE,
-        },
+        rateLimitInfo: defaultRateLimitInfo(),
       }, { status: 400 });
     }
 
     // Validate API key format (Google Gemini keys start with "AIza")
-    if (!apiKey.startsWith('AIza')) {
+    if (providerInfo.requiresUserApiKey && !apiKey.startsWith('AIza')) {
       return NextResponse.json({
         success: false,
         error: {
           message: 'Invalid API key format. Google Gemini API keys start with "AIza"',
           code: 'INVALID_API_KEY',
         },
-        rateLimitInfo: {
-          remaining: RATE_LIMIT_PER_MINUTE,
-          resetTime: Date.now() + 60000,
-          requestsInLastMinute: 0,
-          maxRequestsPerMinute: RATE_LIMIT_PER_MINUTE,
-        },
+        rateLimitInfo: defaultRateLimitInfo(),
       }, { status: 400 });
     }
 
     // Get client IP for rate limiting
-    const ip = request.headers.get('x-forwarded-for')?.split(',')[0] || 
-              request.headers.get('x-real-ip') || 
-              'unknown';
+    const ip = getClientIp(request.headers);
 
-    // Check rate limit with enhanced tracking
     const requestId = `analysis_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const webhookResult: VideoAnalysisResult = {
+      id: resultId || requestId,
+      filename: filename || videoFile?.name || requestId,
+      contentHash: contentHash || undefined,
+      status: 'processing',
+      createdAt: new Date(startTime),
+    };
+
+    // Serve identical videos from the result cache without calling the model
+    const cacheTarget = getAnalysisCacheTarget(analysisOptions, contentHash);
+
+    if (cacheTarget && !forceReanalysis) {
+      const cachedData = await readCachedAnalysis(cacheTarget.store, cacheTarget.key);
+      if (cachedData) {
+        notifyWebhooks(ownerId, batch, {
+          ...webhookResult,
+          ...toResultData(cachedData),
+          status: 'completed',
+          cached: true,
+          processingTime: Date.now() - startTime,
+          completedAt: new Date(),
+        });
+        return NextResponse.json({
+          success: true,
+          data: {
+            ...cachedData,
+            id: requestId,
+            processingTime: Date.now() - startTime,
+            cached: true,
+          },
+          rateLimitInfo: {
+            ...peekRateLimit(ip),
+            maxRequestsPerMinute: RATE_LIMIT_PER_MINUTE,
+          },
+        }, { status: 200 });
+      }
+    }
+
+    // Check rate limit with enhanced tracking
     const rateLimitCheck = checkRateLimit(ip, requestId);
     const rateLimitInfo = {
       remaining: rateLimitCheck.remaining,
@@ -278,88 +196,92 @@ export async function POST(request: NextRequest): Promise<NextResponse<VideoAnal
       }, { status: 400 });
     }
 
-    // Check file size
-    if (videoFile.size > MAX_VIDEO_SIZE_BYTES) {
+    // Check file size against the limit of the selected upload path
+    const uploadMode = resolveUploadMode(requestedUploadMode, videoFile.size);
+    const maxSize = getMaxVideoSize(uploadMode);
+    if (videoFile.size > maxSize) {
       return NextResponse.json({
         success: false,
         error: {
-          message: `Video file too large. Maximum size is ${MAX_VIDEO_SIZE_BYTES / 1024 / 1024}MB`,
+          message: `Video file too large. Maximum size is ${maxSize / 1024 / 1024}MB`,
           code: 'FILE_TOO_LARGE',
-          details: { maxSize: MAX_VIDEO_SIZE_BYTES, actualSize: videoFile.size },
+          details: { maxSize, actualSize: videoFile.size, uploadMode },
         },
         rateLimitInfo,
       }, { status: 400 });
     }
 
-    // Parse and validate analysis options
-    let analysisOptions: AnalysisOptions;
-    try {
-      const parsedOptions = optionsString ? JSON.parse(optionsString) : {};
-      analysisOptions = validateAnalysisOptions(parsedOptions);
-    } catch (error) {
+    // Only the enabled fields are requested from the model (hooks and script in hook-window mode)
+    if (getAnalysisFields(analysisOptions).length === 0) {
       return NextResponse.json({
         success: false,
         error: {
-          message: 'Invalid analysis options format',
+          message: getNoFieldsMessage(analysisOptions),
           code: 'INVALID_OPTIONS',
         },
         rateLimitInfo,
       }, { status: 400 });
     }
 
-    // Convert video to base64 for Gemini API
-    const videoBase64 = await fileToBase64(videoFile);
-    const mimeType = getVideoMimeType(videoFile.name);
-
-    // Initialize Gemini AI with user-provided API key
-    const genAI = new GoogleGenerativeAI(apiKey);
-
-    // Initialize Gemini model with structured output configuration
-    const model = genAI.getGenerativeModel({ 
-      model: 'gemini-2.5-flash',
-      generationConfig: {
-        responseMimeType: "application/json",
-        responseSchema: OUTPUT_SCHEMA,
-      },
-    });
+    // Providers without native video support analyze sampled keyframes
+    let keyframes: VideoKeyframe[] | undefined;
+    try {
+      keyframes = keyframesString ? JSON.parse(keyframesString) : undefined;
+    } catch (error) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          message: 'Invalid keyframes format',
+          code: 'INVALID_KEYFRAMES',
+          details: error instanceof Error ? error.message : String(error),
+        },
+        rateLimitInfo,
+      }, { status: 400 });
+    }
 
-    // Prepare the request
-    const videoPart = {
-      inlineData: {
-        data: videoBase64,
-        mimeType: mimeType,
-      },
-    };
+    if (!providerInfo.supportsNativeVideo && (!Array.isArray(keyframes) || keyframes.length === 0)) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          message: `${providerInfo.label} analyzes sampled keyframes, but none were provided`,
+          code: 'MISSING_KEYFRAMES',
+        },
+        rateLimitInfo,
+      }, { status: 400 });
+    }
 
     try {
-      // Generate content using Gemini with structured output
-      const result = await model.generateContent([ANALYSIS_PROMPT, videoPart]);
-      const response = await result.response;
-      const text = response.text();
+      const responseData = await runVideoAnalysis({
+        video: videoFile,
+        analysisOptions,
+        apiKey,
+        uploadMode,
+        keyframes,
+        signal: request.signal, // aborted when the client cancels or disconnects
+      });
 
-      // Parse the JSON response (structured output guarantees valid JSON)
-      let analysisResults;
-      try {
-        analysisResults = JSON.parse(text);
-      } catch (parseError) {
-        console.error('Structured output JSON parsing failed:', parseError);
-        console.log('Raw response text:', text);
-        
-        // If structured output fails, return error
-        throw new Error('Failed to parse structured output response');
+      // Only cache under the claimed hash once it matches the uploaded bytes
+      if (cacheTarget && await hashFile(videoFile) === contentHash) {
+        await writeCachedAnalysis(cacheTarget.store, cacheTarget.key, responseData);
       }
 
-      // Filter results based on analysis options
-      const filteredResults = filterAnalysisResults(analysisResults, analysisOptions);
-
       const processingTime = Date.now() - startTime;
+      notifyWebhooks(ownerId, batch, {
+        ...webhookResult,
+        ...toResultData(responseData),
+        status: 'completed',
+        cached: false,
+        processingTime,
+        completedAt: new Date(),
+      });
 
       return NextResponse.json({
         success: true,
         data: {
           id: requestId,
-          ...filteredResults,
+          ...responseData,
           processingTime,
+          cached: false,
         },
         rateLimitInfo,
       }, { 
@@ -371,27 +293,29 @@ export async function POST(request: NextRequest): Promise<NextResponse<VideoAnal
         }
       });
 
-    } catch (geminiError) {
-      console.error('Gemini API Error:', geminiError);
-      
-      // Handle specific Gemini API errors
-      let errorMessage = 'Failed to analyze video';
-      let errorCode = 'ANALYSIS_FAILED';
-      
-      if (geminiError instanceof Error) {
-        if (geminiError.message.includes('quota')) {
-          errorMessage = 'API quota exceeded. Please try again later or check your API key limits.';
-          errorCode = 'QUOTA_EXCEEDED';
-        } else if (geminiError.message.includes('safety')) {
-          errorMessage = 'Video content was blocked by safety filters.';
-          errorCode = 'CONTENT_BLOCKED';
-        } else if (geminiError.message.includes('unsupported')) {
-          errorMessage = 'Video format not supported for analysis.';
-          errorCode = 'UNSUPPORTED_FORMAT';
-        } else if (geminiError.message.includes('API key') || geminiError.message.includes('invalid')) {
-          errorMessage = 'Invalid API key. Please check your Google Gemini API key and try again.';
-          errorCode = 'INVALID_API_KEY';
-        }
+    } catch (providerError) {
+      // The client cancelled: the model call was abandoned and nobody reads the response
+      if (request.signal.aborted) {
+        return NextResponse.json({
+          success: false,
+          error: {
+            message: 'Analysis was cancelled',
+            code: 'REQUEST_CANCELLED',
+          },
+          rateLimitInfo,
+        }, { status: 499 });
+      }
+
+      console.error(`${providerInfo.label} API Error:`, providerError);
+      const { message: errorMessage, code: errorCode } = describeAnalysisError(providerError, providerInfo);
+      if (finalAttempt || !isRetryableAnalysisError(errorMessage, errorCode)) {
+        notifyWebhooks(ownerId, batch, {
+          ...webhookResult,
+          status: 'error',
+          error: errorMessage,
+          processingTime: Date.now() - startTime,
+          completedAt: new Date(),
+        });
       }
 
       return NextResponse.json({
@@ -399,7 +323,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<VideoAnal
         error: {
           message: errorMessage,
           code: errorCode,
-          details: geminiError instanceof Error ? geminiError.message : String(geminiError),
+          details: providerError instanceof Error ? providerError.message : String(providerError),
         },
         rateLimitInfo,
       }, { status: 500 });
@@ -415,12 +339,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<VideoAnal
         code: 'INTERNAL_ERROR',
         details: error instanceof Error ? error.message : String(error),
       },
-      rateLimitInfo: {
-        remaining: RATE_LIMIT_PER_MINUTE,
-        resetTime: Date.now() + 60000,
-        requestsInLastMinute: 0,
-        maxRequestsPerMinute: RATE_LIMIT_PER_MINUTE,
-      },
+      rateLimitInfo: defaultRateLimitInfo(),
     }, { status: 500 });
   }
 }
@@ -433,11 +352,6 @@ export async function GET(): Promise<NextResponse> {
       message: 'Method not allowed. Use POST to analyze videos.',
       code: 'METHOD_NOT_ALLOWED',
     },
-    rateLimitInfo: {
-      remaining: RATE_LIMIT_PER_MINUTE,
-      resetTime: Date.now() + 60000,
-      requestsInLastMinute: 0,
-      maxRequestsPerMinute: RATE_LIMIT_PER_MINUTE,
-    },
+    rateLimitInfo: defaultRateLimitInfo(),
   }, { status: 405 });
 } 
\ No newline at end of file
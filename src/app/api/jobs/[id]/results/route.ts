@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AnalysisJobApiResponse, VideoAnalysisResult } from '@/types/video-analysis';
+import { getRequestOwner, unauthorizedError } from '@/lib/analysis/clientAuth';
+import { getAnalysisJobWorker } from '@/lib/jobs/jobWorker';
+
+// Results of every video in the job so far, including pending and failed ones
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<AnalysisJobApiResponse<VideoAnalysisResult[]>>> {
+  const ownerId = getRequestOwner(request.headers);
+  if (!ownerId) return NextResponse.json(unauthorizedError(), { status: 401 });
+
+  const job = await getAnalysisJobWorker().getOwnedJob(params.id, ownerId);
+  if (!job) {
+    return NextResponse.json({
+      success: false,
+      error: { message: `Job not found: ${params.id}`, code: 'JOB_NOT_FOUND' },
+    }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true, data: job.videos.map(video => video.result) });
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AnalysisJobApiResponse, AnalysisJobSummary } from '@/types/video-analysis';
+import { getRequestOwner, unauthorizedError } from '@/lib/analysis/clientAuth';
+import { getAnalysisJobWorker, summarizeJob } from '@/lib/jobs/jobWorker';
+
+type JobResponse = NextResponse<AnalysisJobApiResponse<AnalysisJobSummary>>;
+
+function notFound(id: string): JobResponse {
+  return NextResponse.json({
+    success: false,
+    error: { message: `Job not found: ${id}`, code: 'JOB_NOT_FOUND' },
+  }, { status: 404 });
+}
+
+// Job status with per-video progress, in the same shape as the browser queue status
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<JobResponse> {
+  const ownerId = getRequestOwner(request.headers);
+  if (!ownerId) return NextResponse.json(unauthorizedError(), { status: 401 });
+
+  const job = await getAnalysisJobWorker().getOwnedJob(params.id, ownerId);
+  if (!job) return notFound(params.id);
+
+  return NextResponse.json({ success: true, data: summarizeJob(job) });
+}
+
+// Cancel a queued or running job; finished videos keep their results
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<JobResponse> {
+  const ownerId = getRequestOwner(request.headers);
+  if (!ownerId) return NextResponse.json(unauthorizedError(), { status: 401 });
+
+  const worker = getAnalysisJobWorker();
+  if (!(await worker.getOwnedJob(params.id, ownerId))) return notFound(params.id);
+
+  const job = await worker.cancel(params.id);
+  if (!job) return notFound(params.id);
+
+  return NextResponse.json({ success: true, data: summarizeJob(job) });
+}
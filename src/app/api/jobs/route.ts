@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  AnalysisJobApiResponse,
+  AnalysisJobSummary,
+  AnalysisOptions,
+  VideoKeyframe,
+  DEFAULT_MAX_VIDEOS_PER_BATCH,
+} from '@/types/video-analysis';
+import { resolveUploadMode } from '@/lib/gemini/videoFileStore';
+import { normalizeAnalysisOptions, getAnalysisFields, getNoFieldsMessage } from '@/lib/utils/analysisFields';
+import { hashFile } from '@/lib/cache/analysisCache';
+import { getProviderInfo } from '@/lib/providers/catalog';
+import { getClientIp } from '@/lib/analysis/rateLimit';
+import { getRequestOwner, unauthorizedError } from '@/lib/analysis/clientAuth';
+import { getMaxVideoSize } from '@/lib/analysis/analyzeVideo';
+import { generateJobId } from '@/lib/jobs/jobStore';
+import { getAnalysisJobWorker, summarizeJob } from '@/lib/jobs/jobWorker';
+import { AnalysisJob, AnalysisJobError } from '@/lib/jobs/types';
+
+// Submit a batch for background analysis on the server. The job belongs to the client token
+// in the Authorization header. Form fields: videos (one entry per file), options, apiKey,
+// forceReanalysis, keyframes (JSON array with one keyframe list per video, for providers
+// without native video)
+
+const MAX_VIDEOS_PER_BATCH = parseInt(process.env.MAX_VIDEOS_PER_BATCH || String(DEFAULT_MAX_VIDEOS_PER_BATCH));
+
+type JobResponse = NextResponse<AnalysisJobApiResponse<AnalysisJobSummary>>;
+
+function errorResponse(message: string, code: string, status: number, details?: any): JobResponse {
+  return NextResponse.json({ success: false, error: { message, code, details } }, { status });
+}
+
+export async function POST(request: NextRequest): Promise<JobResponse> {
+  const ownerId = getRequestOwner(request.headers);
+  if (!ownerId) return NextResponse.json(unauthorizedError(), { status: 401 });
+
+  try {
+    const formData = await request.formData();
+    const videoFiles = formData.getAll('videos').filter((entry): entry is File => entry instanceof File);
+    const optionsString = formData.get('options') as string | null;
+    const apiKey = formData.get('apiKey') as string | null;
+    const keyframesString = formData.get('keyframes') as string | null;
+    const forceReanalysis = formData.get('forceReanalysis') === 'true';
+
+    if (videoFiles.length === 0) {
+      return errorResponse('No video files provided', 'MISSING_VIDEO_FILE', 400);
+    }
+    if (videoFiles.length > MAX_VIDEOS_PER_BATCH) {
+      return errorResponse(`Too many videos. Maximum batch size is ${MAX_VIDEOS_PER_BATCH}`, 'TOO_MANY_VIDEOS', 400);
+    }
+
+    // Parse and validate analysis options (the provider decides which key is needed)
+    let analysisOptions: AnalysisOptions;
+    try {
+      analysisOptions = normalizeAnalysisOptions(optionsString ? JSON.parse(optionsString) : {});
+    } catch (error) {
+      return errorResponse('Invalid analysis options format', 'INVALID_OPTIONS', 400,
+        error instanceof Error ? error.message : String(error));
+    }
+    if (getAnalysisFields(analysisOptions).length === 0) {
+      return errorResponse(getNoFieldsMessage(analysisOptions), 'INVALID_OPTIONS', 400);
+    }
+
+    const providerInfo = getProviderInfo(analysisOptions.provider)!;
+    if (providerInfo.requiresUserApiKey) {
+      if (!apiKey) {
+        return errorResponse(
+          'API key is required. Please configure your Google Gemini API key in the settings.',
+          'MISSING_API_KEY',
+          400
+        );
+      }
+      if (!apiKey.startsWith('AIza')) {
+        return errorResponse('Invalid API key format. Google Gemini API keys start with "AIza"', 'INVALID_API_KEY', 400);
+      }
+    }
+
+    // Every video must fit the upload path it will take
+    const oversized = videoFiles.find(file => file.size > getMaxVideoSize(resolveUploadMode(null, file.size)));
+    if (oversized) {
+      const maxSize = getMaxVideoSize(resolveUploadMode(null, oversized.size));
+      return errorResponse(`Video file too large: ${oversized.name}. Maximum size is ${maxSize / 1024 / 1024}MB`,
+        'FILE_TOO_LARGE', 400, { filename: oversized.name, maxSize, actualSize: oversized.size });
+    }
+
+    // Providers without native video support analyze keyframes sampled by the client
+    let keyframes: VideoKeyframe[][] | undefined;
+    try {
+      keyframes = keyframesString ? JSON.parse(keyframesString) : undefined;
+    } catch (error) {
+      return errorResponse('Invalid keyframes format', 'INVALID_KEYFRAMES', 400,
+        error instanceof Error ? error.message : String(error));
+    }
+    if (!providerInfo.supportsNativeVideo &&
+        (!Array.isArray(keyframes) || keyframes.length !== videoFiles.length || keyframes.some(frames => !frames?.length))) {
+      return errorResponse(
+        `${providerInfo.label} analyzes sampled keyframes; provide one keyframe list per video`,
+        'MISSING_KEYFRAMES',
+        400
+      );
+    }
+
+    const now = new Date();
+    const files = new Map<string, File>();
+    const job: AnalysisJob = {
+      id: generateJobId(),
+      status: 'queued',
+      analysisOptions,
+      forceReanalysis,
+      rateLimitKey: getClientIp(request.headers),
+      ownerId,
+      videos: await Promise.all(videoFiles.map(async (file, index) => {
+        const id = `video_${index}_${Math.random().toString(36).substr(2, 9)}`;
+        files.set(id, file);
+        const contentHash = await hashFile(file);
+        return {
+          id,
+          filename: file.name,
+          size: file.size,
+          contentHash,
+          keyframes: providerInfo.supportsNativeVideo ? undefined : keyframes![index],
+          result: { id, filename: file.name, contentHash, status: 'pending' as const, createdAt: now },
+        };
+      })),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+
+    await getAnalysisJobWorker().submit(job, files, apiKey || undefined);
+
+    return NextResponse.json({ success: true, data: summarizeJob(job) }, { status: 202 });
+
+  } catch (error) {
+    console.error('Job submission error:', error);
+
+    if (error instanceof AnalysisJobError) {
+      return errorResponse(error.message, error.code, 400);
+    }
+    return errorResponse('Internal server error', 'INTERNAL_ERROR', 500,
+      error instanceof Error ? error.message : String(error));
+  }
+}
@@ -1,6 +1,7 @@
 import { openai } from "@ai-sdk/openai";
 import { convertToCoreMessages, streamText } from "ai";
 import { NextResponse } from "next/server";
+import { buildChatSystemPrompt } from "@/lib/utils/videoChat";
 
 export const runtime = "edge";
 
@@ -12,11 +13,12 @@ export async function POST(req: Request) {
     );
   }
 
-  const { messages } = await req.json();
+  // videoContext grounds the conversation in analyzed videos (see lib/utils/videoChat)
+  const { messages, videoContext } = await req.json();
   const result = await streamText({
     model: openai("gpt-4o"),
     messages: convertToCoreMessages(messages),
-    system: "You are a helpful AI assistant",
+    system: buildChatSystemPrompt(videoContext),
   });
 
   return result.toDataStreamResponse();
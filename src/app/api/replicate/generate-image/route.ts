@@ -1,37 +1,34 @@
 import { NextResponse } from "next/server";
-import Replicate from "replicate";
-
-const replicate = new Replicate({
-  auth: process.env.REPLICATE_API_TOKEN,
-});
+import { normalizeStoryboardOptions, StoryboardError } from "@/lib/storyboard/storyboardPrompts";
+import { createImageGenerator } from "@/lib/storyboard/imageGenerator";
 
+// Single image from a prompt, on the storyboard image generator.
+// JSON body: { prompt, model?, aspectRatio?, parameters? } (defaults as for storyboards)
 export async function POST(request: Request) {
-  if (!process.env.REPLICATE_API_TOKEN) {
-    throw new Error(
-      "The REPLICATE_API_TOKEN environment variable is not set. See README.md for instructions on how to set it."
-    );
-  }
+  const { prompt, model, aspectRatio, parameters } = await request.json();
 
-  const { prompt } = await request.json();
+  if (typeof prompt !== "string" || !prompt.trim()) {
+    return NextResponse.json({ error: "A prompt is required" }, { status: 400 });
+  }
 
   try {
-    const output = await replicate.run(
-      "stability-ai/stable-diffusion:db21e45d3f7023abc2a46ee38a23973f6dce16bb082a930b0c49861f96d1e5bf",
-      {
-        input: {
-          prompt: prompt,
-          image_dimensions: "512x512",
-          num_outputs: 1,
-          num_inference_steps: 50,
-          guidance_scale: 7.5,
-          scheduler: "DPMSolverMultistep",
-        },
-      }
-    );
+    const options = normalizeStoryboardOptions({ model, aspectRatio, parameters });
+    const generator = createImageGenerator();
+    const output = await generator.generate({
+      prompt,
+      caption: prompt,
+      model: options.model,
+      aspectRatio: options.aspectRatio,
+      parameters: options.parameters,
+      signal: request.signal,
+    });
 
-    return NextResponse.json({ output }, { status: 200 });
+    return NextResponse.json({ output: [output], generator: generator.id }, { status: 200 });
   } catch (error) {
-    console.error("Error from Replicate API:", error);
-    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+    console.error("Error generating image:", error);
+    const status = error instanceof StoryboardError
+      ? error.code === "INVALID_OPTIONS" ? 400 : error.code === "PROVIDER_NOT_CONFIGURED" ? 501 : 502
+      : 500;
+    return NextResponse.json({ error: (error as Error).message }, { status });
   }
 }
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { StoryboardApiResponse, StoryboardFrame, StoryboardOptions, StoryboardRequest } from '@/types/video-analysis';
+import { checkRateLimit, getClientIp } from '@/lib/analysis/rateLimit';
+import {
+  buildStoryboardPrompts,
+  normalizeStoryboardOptions,
+  StoryboardError,
+  StoryboardPrompt,
+} from '@/lib/storyboard/storyboardPrompts';
+import { createImageGenerator } from '@/lib/storyboard/imageGenerator';
+
+// Generate a storyboard of concept frames for an analyzed video.
+// JSON body: StoryboardRequest (source with visualHook/videoScript/painPoint, options)
+
+type StoryboardResponse = NextResponse<StoryboardApiResponse>;
+
+function errorResponse(message: string, code: string, status: number, details?: any): StoryboardResponse {
+  return NextResponse.json({ success: false, error: { message, code, details } }, { status });
+}
+
+export async function POST(request: NextRequest): Promise<StoryboardResponse> {
+  let body: Partial<StoryboardRequest>;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return errorResponse('Invalid request body', 'INVALID_REQUEST', 400,
+      error instanceof Error ? error.message : String(error));
+  }
+
+  const { source } = body;
+  if (!source || typeof source.filename !== 'string') {
+    return errorResponse('No source video provided', 'INVALID_SOURCE', 400);
+  }
+
+  let options: StoryboardOptions;
+  let prompts: StoryboardPrompt[];
+  try {
+    options = normalizeStoryboardOptions(body.options);
+    prompts = buildStoryboardPrompts(source, options);
+  } catch (error) {
+    if (error instanceof StoryboardError) {
+      return errorResponse(error.message, error.code, 400);
+    }
+    throw error;
+  }
+
+  // Each frame is one generation, so the whole storyboard counts once against the shared limit
+  const ip = getClientIp(request.headers);
+  const rateLimitCheck = checkRateLimit(ip, `storyboard_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+  if (!rateLimitCheck.allowed) {
+    return errorResponse(
+      `Rate limit exceeded. Please wait ${rateLimitCheck.retryAfter || 60} seconds before making another request.`,
+      'RATE_LIMIT_EXCEEDED',
+      429,
+      { retryAfter: rateLimitCheck.retryAfter }
+    );
+  }
+
+  try {
+    const generator = createImageGenerator();
+    const frames: StoryboardFrame[] = [];
+
+    // One at a time: image models queue per account anyway, and a failure stops the rest
+    for (const prompt of prompts) {
+      const imageUrl = await generator.generate({
+        prompt: prompt.prompt,
+        caption: prompt.caption,
+        model: options.model,
+        aspectRatio: options.aspectRatio,
+        parameters: options.parameters,
+        signal: request.signal,
+      });
+      frames.push({ id: `frame_${Date.now()}_${frames.length}`, ...prompt, imageUrl });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        frames,
+        generator: generator.id,
+        model: generator.id === 'placeholder' ? 'placeholder' : options.model,
+        aspectRatio: options.aspectRatio,
+        createdAt: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error('Storyboard generation error:', error);
+    if (error instanceof StoryboardError) {
+      return errorResponse(error.message, error.code, error.code === 'PROVIDER_NOT_CONFIGURED' ? 501 : 502);
+    }
+    return errorResponse('Failed to generate the storyboard', 'GENERATION_FAILED', 500,
+      error instanceof Error ? error.message : String(error));
+  }
+}
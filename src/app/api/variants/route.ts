@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ScriptVariantsApiResponse, ScriptVariantsRequest } from '@/types/video-analysis';
+import { getProviderInfo } from '@/lib/providers/catalog';
+import { checkRateLimit, getClientIp } from '@/lib/analysis/rateLimit';
+import { describeAnalysisError } from '@/lib/analysis/analyzeVideo';
+import { generateScriptVariants, MAX_BRIEF_LENGTH, MAX_SCRIPT_VARIANTS } from '@/lib/variants/scriptVariants';
+
+// Generate ad script variants from an analyzed video.
+// JSON body: ScriptVariantsRequest (source, brief, count, provider, model, apiKey)
+
+type VariantsResponse = NextResponse<ScriptVariantsApiResponse>;
+
+function errorResponse(message: string, code: string, status: number, details?: any): VariantsResponse {
+  return NextResponse.json({ success: false, error: { message, code, details } }, { status });
+}
+
+export async function POST(request: NextRequest): Promise<VariantsResponse> {
+  let body: Partial<ScriptVariantsRequest>;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return errorResponse('Invalid request body', 'INVALID_REQUEST', 400,
+      error instanceof Error ? error.message : String(error));
+  }
+
+  const { source, provider, model, apiKey } = body;
+  const brief = typeof body.brief === 'string' ? body.brief.trim() : '';
+  const count = Number(body.count);
+
+  if (!source || typeof source.filename !== 'string' || !(source.videoScript || source.textHook || source.voiceHook)) {
+    return errorResponse('The source video has no analysis to build variants from', 'INVALID_SOURCE', 400);
+  }
+  if (!brief) {
+    return errorResponse('Describe the brand in the brief', 'MISSING_BRIEF', 400);
+  }
+  if (brief.length > MAX_BRIEF_LENGTH) {
+    return errorResponse(`The brief can be at most ${MAX_BRIEF_LENGTH} characters`, 'INVALID_BRIEF', 400);
+  }
+  if (!Number.isInteger(count) || count < 1 || count > MAX_SCRIPT_VARIANTS) {
+    return errorResponse(`Request between 1 and ${MAX_SCRIPT_VARIANTS} variants`, 'INVALID_COUNT', 400);
+  }
+
+  const providerInfo = provider ? getProviderInfo(provider) : undefined;
+  if (!providerInfo || typeof model !== 'string' || !providerInfo.models.includes(model)) {
+    return errorResponse('Unknown provider or model', 'INVALID_OPTIONS', 400);
+  }
+  if (providerInfo.requiresUserApiKey && (typeof apiKey !== 'string' || !apiKey.startsWith('AIza'))) {
+    return errorResponse(
+      'API key is required. Please configure your Google Gemini API key in the settings.',
+      'MISSING_API_KEY',
+      400
+    );
+  }
+
+  // Generation shares the per-client limit with analysis
+  const ip = getClientIp(request.headers);
+  const rateLimitCheck = checkRateLimit(ip, `variants_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+  if (!rateLimitCheck.allowed) {
+    return errorResponse(
+      `Rate limit exceeded. Please wait ${rateLimitCheck.retryAfter || 60} seconds before making another request.`,
+      'RATE_LIMIT_EXCEEDED',
+      429,
+      { retryAfter: rateLimitCheck.retryAfter }
+    );
+  }
+
+  try {
+    const variants = await generateScriptVariants({
+      source: {
+        filename: source.filename,
+        visualHook: source.visualHook,
+        textHook: source.textHook,
+        voiceHook: source.voiceHook,
+        videoScript: source.videoScript,
+        painPoint: source.painPoint,
+      },
+      brief,
+      count,
+      provider: providerInfo.id,
+      model,
+      apiKey,
+    });
+
+    return NextResponse.json({ success: true, data: { variants } });
+  } catch (error) {
+    console.error('Script variant generation error:', error);
+    const { message, code } = describeAnalysisError(error, providerInfo);
+    const status = code === 'PROVIDER_NOT_CONFIGURED' ? 501 : code === 'QUOTA_EXCEEDED' ? 429 : 500;
+    return errorResponse(
+      code === 'ANALYSIS_FAILED' ? 'Failed to generate script variants' : message,
+      code === 'ANALYSIS_FAILED' ? 'GENERATION_FAILED' : code,
+      status,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WebhookApiResponse } from '@/types/video-analysis';
+import { getWebhookDispatcher } from '@/lib/webhooks/webhookDispatcher';
+import { getRequestOwner, unauthorizedError } from '@/lib/analysis/clientAuth';
+
+// Remove one of the client's webhooks; deliveries still retrying for it stop after their current attempt
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<WebhookApiResponse<{ id: string }>>> {
+  const ownerId = getRequestOwner(request.headers);
+  if (!ownerId) return NextResponse.json(unauthorizedError(), { status: 401 });
+
+  // Other clients' webhooks are reported as missing
+  const store = getWebhookDispatcher().store;
+  const owned = (await store.listWebhooks()).some(webhook => webhook.id === params.id && webhook.ownerId === ownerId);
+  if (!owned || !(await store.deleteWebhook(params.id))) {
+    return NextResponse.json({
+      success: false,
+      error: { message: `Webhook not found: ${params.id}`, code: 'WEBHOOK_NOT_FOUND' },
+    }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true, data: { id: params.id } });
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WebhookApiResponse } from '@/types/video-analysis';
+import { getWebhookDispatcher } from '@/lib/webhooks/webhookDispatcher';
+import { closeBatch } from '@/lib/webhooks/batchTracker';
+import { getRequestOwner, unauthorizedError } from '@/lib/analysis/clientAuth';
+
+// The browser queue finished a batch that still has unreported videos (cancelled, or lost before
+// reaching the server): send batch.completed with the results the analyze route recorded for it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<WebhookApiResponse<{ id: string; completed: boolean }>>> {
+  const ownerId = getRequestOwner(request.headers);
+  if (!ownerId) return NextResponse.json(unauthorizedError(), { status: 401 });
+
+  // Batches that completed on their own (or never reported anything) have nothing left to send
+  const results = closeBatch(ownerId, params.id);
+  if (results) {
+    await getWebhookDispatcher().emitBatchCompleted(ownerId, results);
+  }
+
+  return NextResponse.json({ success: true, data: { id: params.id, completed: Boolean(results) } });
+}
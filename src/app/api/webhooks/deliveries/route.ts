@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WebhookApiResponse, WebhookDelivery } from '@/types/video-analysis';
+import { getWebhookDispatcher } from '@/lib/webhooks/webhookDispatcher';
+import { getRequestOwner, unauthorizedError } from '@/lib/analysis/clientAuth';
+
+export const dynamic = 'force-dynamic';
+
+// Recent deliveries to the client's webhooks, newest first
+export async function GET(request: NextRequest): Promise<NextResponse<WebhookApiResponse<WebhookDelivery[]>>> {
+  const ownerId = getRequestOwner(request.headers);
+  if (!ownerId) return NextResponse.json(unauthorizedError(), { status: 401 });
+
+  const store = getWebhookDispatcher().store;
+  const webhookIds = (await store.listWebhooks())
+    .filter(webhook => webhook.ownerId === ownerId)
+    .map(webhook => webhook.id);
+  const deliveries = await store.listDeliveries();
+  return NextResponse.json({ success: true, data: deliveries.filter(delivery => webhookIds.includes(delivery.webhookId)) });
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WEBHOOK_EVENTS, WebhookApiResponse, WebhookEventType, WebhookSubscription } from '@/types/video-analysis';
+import { getWebhookDispatcher, generateWebhookSecret, toWebhookSubscription } from '@/lib/webhooks/webhookDispatcher';
+import { assertPublicWebhookTarget } from '@/lib/webhooks/webhookTargets';
+import { StoredWebhook, WebhookError } from '@/lib/webhooks/types';
+import { getRequestOwner, unauthorizedError } from '@/lib/analysis/clientAuth';
+
+export const dynamic = 'force-dynamic';
+
+const MIN_SECRET_LENGTH = 16;
+
+function errorResponse(message: string, code: string, status: number, details?: any) {
+  return NextResponse.json({ success: false, error: { message, code, details } }, { status });
+}
+
+function isWebhookEvent(value: unknown): value is WebhookEventType {
+  return typeof value === 'string' && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
+
+// The client's registered webhooks; secrets are reduced to a hint
+export async function GET(request: NextRequest): Promise<NextResponse<WebhookApiResponse<WebhookSubscription[]>>> {
+  const ownerId = getRequestOwner(request.headers);
+  if (!ownerId) return NextResponse.json(unauthorizedError(), { status: 401 });
+
+  const webhooks = (await getWebhookDispatcher().store.listWebhooks()).filter(webhook => webhook.ownerId === ownerId);
+  return NextResponse.json({ success: true, data: webhooks.map(toWebhookSubscription) });
+}
+
+// Register a webhook for the client. Body: { url, events, secret? }; a secret is generated when
+// none is given and returned once in the response. URLs must resolve to public addresses.
+export async function POST(request: NextRequest): Promise<NextResponse<WebhookApiResponse<WebhookSubscription>>> {
+  const ownerId = getRequestOwner(request.headers);
+  if (!ownerId) return NextResponse.json(unauthorizedError(), { status: 401 });
+
+  let body: { url?: unknown; events?: unknown; secret?: unknown };
+  try {
+    body = await request.json();
+  } catch (error) {
+    return errorResponse('Invalid JSON body', 'INVALID_REQUEST', 400);
+  }
+
+  let url: URL;
+  try {
+    url = new URL(String(body.url));
+  } catch (error) {
+    return errorResponse('Enter a valid webhook URL', 'INVALID_URL', 400);
+  }
+  try {
+    await assertPublicWebhookTarget(url);
+  } catch (error) {
+    if (error instanceof WebhookError) return errorResponse(error.message, error.code, 400);
+    throw error;
+  }
+
+  const events = Array.isArray(body.events) ? Array.from(new Set(body.events)) : [];
+  if (events.length === 0 || !events.every(isWebhookEvent)) {
+    return errorResponse(`Select at least one event: ${WEBHOOK_EVENTS.join(', ')}`, 'INVALID_EVENTS', 400);
+  }
+
+  const secret = body.secret ? String(body.secret) : generateWebhookSecret();
+  if (secret.length < MIN_SECRET_LENGTH) {
+    return errorResponse(`Signing secrets need at least ${MIN_SECRET_LENGTH} characters`, 'INVALID_SECRET', 400);
+  }
+
+  const webhook: StoredWebhook = {
+    id: `wh_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    url: url.toString(),
+    events,
+    secret,
+    ownerId,
+    createdAt: new Date().toISOString(),
+  };
+  await getWebhookDispatcher().store.addWebhook(webhook);
+
+  return NextResponse.json({ success: true, data: { ...toWebhookSubscription(webhook), secret } }, { status: 201 });
+}
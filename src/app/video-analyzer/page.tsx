@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useCallback, useRef, useEffect } from "react";
+import React, { useState, useCallback, useRef, useEffect, useMemo } from "react";
 import { 
   Play, 
   Upload as UploadIcon, 
@@ -10,83 +10,134 @@ import {
   CheckCircle2,
   AlertCircle,
   Clock,
-  Key
+  Key,
+  RotateCcw,
+  Webhook,
+  FileUp,
+  MessageSquare
 } from "lucide-react";
 import VideoUpload from "@/components/VideoUpload";
 import VideoAnalysisTable from "@/components/VideoAnalysisTable";
 import RateLimitManager from "@/components/RateLimitManager";
-import ApiKeySettings, { getStoredApiKey, hasStoredApiKey } from "@/components/ApiKeySettings";
+import AnalysisJobPanel from "@/components/AnalysisJobPanel";
+import AnalysisFieldsEditor from "@/components/AnalysisFieldsEditor";
+import HookTaxonomyEditor from "@/components/HookTaxonomyEditor";
+import HookWindowEditor from "@/components/HookWindowEditor";
+import AnalysisProviderSelect from "@/components/AnalysisProviderSelect";
+import ApiKeySettings, { getStoredApiKey } from "@/components/ApiKeySettings";
+import WebhookSettings from "@/components/WebhookSettings";
+import ResultsImportDialog from "@/components/ResultsImportDialog";
+import InsightsDashboard from "@/components/InsightsDashboard";
+import VideoChatPanel from "@/components/VideoChatPanel";
+import CompliancePresetsEditor from "@/components/CompliancePresetsEditor";
 import { 
   UploadedVideo, 
   VideoAnalysisResult, 
-  QueueStatus, 
-  RateLimitInfo,
+  VideoAnalysisRequest,
   AnalysisOptions,
-  DEFAULT_RATE_LIMIT_PER_MINUTE,
-  DEFAULT_MAX_VIDEOS_PER_BATCH
+  ExportFormat,
+  ComplianceSettings,
+  DEFAULT_MAX_VIDEOS_PER_BATCH,
+  MAX_FILE_UPLOAD_SIZE_BYTES,
+  MAX_CONCURRENCY_LIMIT
 } from "@/types/video-analysis";
-
-// Persistent storage keys
+import {
+  DEFAULT_ANALYSIS_FIELDS,
+  DEFAULT_HOOK_TAXONOMY,
+  DEFAULT_HOOK_WINDOW,
+  getAnalysisFields,
+  normalizeAnalysisOptions,
+} from "@/lib/utils/analysisFields";
+import { DEFAULT_PROVIDER_ID, getProviderInfo } from "@/lib/providers/catalog";
+import {
+  InterruptedBatch,
+  isBatchPersistenceAvailable,
+  loadInterruptedBatch,
+  clearPersistedBatch,
+  STORED_ATTACHMENT_KEYS,
+  StoredAttachmentKey,
+  StoredAttachments,
+  syncResultAttachments,
+  loadResultAttachments,
+  clearResultAttachments,
+} from "@/lib/utils/batchPersistence";
+import {
+  DEFAULT_COMPLIANCE_SETTINGS,
+  getEnabledPresets,
+  loadComplianceSettings,
+  saveComplianceSettings,
+} from "@/lib/utils/compliance";
+import { createContactSheet } from "@/lib/utils/contactSheet";
+import { useAnalysisQueue } from "@/lib/hooks/useAnalysisQueue";
+
+// Persistent storage keys (queue state is persisted by the queue itself)
 const STORAGE_KEYS = {
   ANALYSIS_RESULTS: 'video-analysis-results',
-  QUEUE_STATUS: 'video-analysis-queue-status',
-  RATE_LIMIT_INFO: 'video-analysis-rate-limit',
-  PROCESSING_STATS: 'video-analysis-stats',
   ANALYSIS_OPTIONS: 'video-analysis-options',
-  SESSION_ID: 'video-analysis-session-id'
+  SESSION_ID: 'video-analysis-session-id',
+  ATTACHED_JOB_ID: 'video-analysis-attached-job'
 };
 
 type AnalysisStep = 'upload' | 'configure' | 'analyze' | 'results';
 
+// Added to a result by this page (script variants, storyboards, contact sheets);
+// the queue and server jobs never return them, so updated results carry them over
+type AttachedFields = Pick<VideoAnalysisResult, 'variants' | 'storyboard' | 'contactSheet'>;
+
+function withAttachedFields(result: VideoAnalysisResult, existing: VideoAnalysisResult): VideoAnalysisResult {
+  const { variants, storyboard, contactSheet }: AttachedFields = existing;
+  return {
+    ...result,
+    variants: result.variants ?? variants,
+    storyboard: result.storyboard ?? storyboard,
+    contactSheet: result.contactSheet ?? contactSheet,
+  };
+}
+
 export default function VideoAnalyzerPage() {
   // API Key state
   const [apiKey, setApiKey] = useState<string>('');
   const [showApiKeyModal, setShowApiKeyModal] = useState(false);
   const [apiKeyChecked, setApiKeyChecked] = useState(false);
+  const [showWebhookModal, setShowWebhookModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [resultsView, setResultsView] = useState<'table' | 'insights'>('table');
+  const [selectedResultIds, setSelectedResultIds] = useState<string[]>([]);
 
   // Core state
   const [currentStep, setCurrentStep] = useState<AnalysisStep>('upload');
   const [uploadedVideos, setUploadedVideos] = useState<UploadedVideo[]>([]);
   const [analysisResults, setAnalysisResults] = useState<VideoAnalysisResult[]>([]);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
 
   // Analysis configuration
   const [analysisOptions, setAnalysisOptions] = useState<AnalysisOptions>({
-    includeVisualHook: true,
-    includeTextHook: true,
-    includeVoiceHook: true,
-    includeVideoScript: true,
-    includePainPoint: true,
-  });
-
-  // Queue and rate limiting state
-  const [queueStatus, setQueueStatus] = useState<QueueStatus>({
-    position: 0,
-    estimatedWaitTime: 0,
-    isProcessing: false,
-    isPaused: false,
-    totalInQueue: 0,
-    completedCount: 0,
-    errorCount: 0,
+    fields: DEFAULT_ANALYSIS_FIELDS,
+    hookTaxonomy: DEFAULT_HOOK_TAXONOMY,
+    hookWindow: DEFAULT_HOOK_WINDOW,
+    provider: DEFAULT_PROVIDER_ID,
+    model: getProviderInfo(DEFAULT_PROVIDER_ID)!.defaultModel,
   });
+  const [forceReanalysis, setForceReanalysis] = useState(false);
+
+  // Queue engine: processing, retries, rate limiting and batch persistence
+  const handleQueueResult = useCallback((result: VideoAnalysisResult) => {
+    setAnalysisResults(prev =>
+      prev.map(resultItem => {
+        if (resultItem.id !== result.id) return resultItem;
+        // Status-only updates (e.g. 'processing') keep what is already known about the video
+        if (result.status === 'processing') return { ...resultItem, status: result.status };
+        return withAttachedFields(result, resultItem);
+      })
+    );
+  }, []);
+  const { status: queueStatus, persistenceNotice, concurrency, queue } = useAnalysisQueue(handleQueueResult);
+  const isAnalyzing = queueStatus.isProcessing;
 
-  const [rateLimitInfo, setRateLimitInfo] = useState<RateLimitInfo>({
-    remaining: DEFAULT_RATE_LIMIT_PER_MINUTE,
-    resetTime: Date.now() + 60000,
-    requestsInLastMinute: 0,
-    maxRequestsPerMinute: DEFAULT_RATE_LIMIT_PER_MINUTE,
-  });
+  // Server-side job this page follows (see /api/jobs)
+  const [attachedJobId, setAttachedJobId] = useState<string | null>(null);
 
-  // Enhanced processing queue for large batches
-  const processingQueue = useRef<string[]>([]);
-  const processingTimeout = useRef<NodeJS.Timeout | null>(null);
-  const [batchSize, setBatchSize] = useState(50); // Process in batches for better UI responsiveness
-  const [processingStartTime, setProcessingStartTime] = useState<Date | null>(null);
-  const [processingStats, setProcessingStats] = useState({
-    avgProcessingTime: 0,
-    successRate: 0,
-    totalElapsedTime: 0,
-  });
+  // Interrupted batch restored from IndexedDB, offered for resuming
+  const [interruptedBatch, setInterruptedBatch] = useState<InterruptedBatch | null>(null);
   
   const [sessionId, setSessionId] = useState<string>("");
   const [isClient, setIsClient] = useState(false);
@@ -125,33 +176,92 @@ export default function VideoAnalyzerPage() {
     }
   }, [isClient, apiKeyChecked]);
 
+  // Keep the queue's API key in sync with the settings
+  useEffect(() => {
+    queue?.setApiKey(apiKey);
+  }, [queue, apiKey]);
+
+  // Platforms uploads are checked against, kept in this browser
+  const [complianceSettings, setComplianceSettings] = useState<ComplianceSettings>(DEFAULT_COMPLIANCE_SETTINGS);
+  const compliancePresets = useMemo(() => getEnabledPresets(complianceSettings), [complianceSettings]);
+
+  useEffect(() => {
+    if (isClient) setComplianceSettings(loadComplianceSettings());
+  }, [isClient]);
+
+  const handleComplianceChange = useCallback((settings: ComplianceSettings) => {
+    setComplianceSettings(settings);
+    saveComplianceSettings(settings);
+  }, []);
+
+  // Look for a batch that was interrupted by a reload or closed tab
+  useEffect(() => {
+    if (!isClient || !isBatchPersistenceAvailable()) return;
+    loadInterruptedBatch()
+      .then(batch => setInterruptedBatch(batch))
+      .catch(error => console.warn('Failed to load interrupted batch:', error));
+  }, [isClient]);
+
+  // Move to the results step once the queue finishes a batch
+  const wasAnalyzing = useRef(false);
+  useEffect(() => {
+    if (wasAnalyzing.current && !isAnalyzing) {
+      setCurrentStep('results');
+    }
+    wasAnalyzing.current = isAnalyzing;
+  }, [isAnalyzing]);
+
   // Handler for saving API key
   const handleApiKeySave = useCallback((key: string) => {
     setApiKey(key);
     setShowApiKeyModal(false);
   }, []);
 
-  // Persistent storage helpers
+  // Persistent storage helpers. Contact sheet and storyboard images would
+  // overflow the localStorage quota, so they are kept in IndexedDB by result id.
+  const storedAttachments = useRef<{ [K in StoredAttachmentKey]: Map<string, StoredAttachments[K]> }>({
+    contactSheet: new Map(),
+    storyboard: new Map(),
+  });
+
+  const saveAttachments = useCallback(<K extends StoredAttachmentKey>(key: K, results: VideoAnalysisResult[]) => {
+    const stored: Map<string, StoredAttachments[K]> = storedAttachments.current[key];
+    const resultIds = results.map(result => result.id);
+    const changed: Record<string, StoredAttachments[K]> = {};
+    results.forEach(result => {
+      const value = result[key] as StoredAttachments[K] | undefined;
+      if (value && stored.get(result.id) !== value) {
+        changed[result.id] = value;
+      }
+    });
+    const removed = Array.from(stored.keys()).filter(id => !resultIds.includes(id));
+    if (Object.keys(changed).length === 0 && removed.length === 0) return;
+
+    Object.keys(changed).forEach(id => stored.set(id, changed[id]));
+    removed.forEach(id => stored.delete(id));
+    syncResultAttachments(key, changed, resultIds).catch(error => {
+      console.warn(`Failed to save ${key} images:`, error);
+    });
+  }, []);
+
   const saveToStorage = useCallback(() => {
     if (!isClient) return; // Don't save during SSR
     try {
-      localStorage.setItem(STORAGE_KEYS.ANALYSIS_RESULTS, JSON.stringify(analysisResults));
-      localStorage.setItem(STORAGE_KEYS.QUEUE_STATUS, JSON.stringify(queueStatus));
-      localStorage.setItem(STORAGE_KEYS.RATE_LIMIT_INFO, JSON.stringify(rateLimitInfo));
-      localStorage.setItem(STORAGE_KEYS.PROCESSING_STATS, JSON.stringify(processingStats));
+      const storedResults = analysisResults.map(({ contactSheet: _contactSheet, storyboard: _storyboard, ...result }) => result);
+      localStorage.setItem(STORAGE_KEYS.ANALYSIS_RESULTS, JSON.stringify(storedResults));
       localStorage.setItem(STORAGE_KEYS.ANALYSIS_OPTIONS, JSON.stringify(analysisOptions));
     } catch (error) {
       console.warn('Failed to save to localStorage:', error);
     }
-  }, [isClient, analysisResults, queueStatus, rateLimitInfo, processingStats, analysisOptions]);
+    if (isBatchPersistenceAvailable()) {
+      STORED_ATTACHMENT_KEYS.forEach(key => saveAttachments(key, analysisResults));
+    }
+  }, [isClient, analysisResults, analysisOptions, saveAttachments]);
 
   const loadFromStorage = useCallback(() => {
     if (!isClient) return; // Don't load during SSR
     try {
       const savedResults = localStorage.getItem(STORAGE_KEYS.ANALYSIS_RESULTS);
-      const savedQueueStatus = localStorage.getItem(STORAGE_KEYS.QUEUE_STATUS);
-      const savedRateLimit = localStorage.getItem(STORAGE_KEYS.RATE_LIMIT_INFO);
-      const savedStats = localStorage.getItem(STORAGE_KEYS.PROCESSING_STATS);
       const savedOptions = localStorage.getItem(STORAGE_KEYS.ANALYSIS_OPTIONS);
 
       if (savedResults) {
@@ -162,34 +272,27 @@ export default function VideoAnalyzerPage() {
         }
       }
 
-      if (savedQueueStatus) {
-        const status = JSON.parse(savedQueueStatus);
-        // Don't restore processing state to avoid confusion
-        setQueueStatus({
-          ...status,
-          isProcessing: false,
-          isPaused: false,
-        });
-      }
-
-      if (savedRateLimit) {
-        const rateLimit = JSON.parse(savedRateLimit);
-        // Only restore if not expired
-        if (rateLimit.resetTime > Date.now()) {
-          setRateLimitInfo(rateLimit);
-        }
-      }
-
-      if (savedStats) {
-        setProcessingStats(JSON.parse(savedStats));
-      }
-
       if (savedOptions) {
-        setAnalysisOptions(JSON.parse(savedOptions));
+        setAnalysisOptions(normalizeAnalysisOptions(JSON.parse(savedOptions)));
       }
+
+      setAttachedJobId(localStorage.getItem(STORAGE_KEYS.ATTACHED_JOB_ID));
     } catch (error) {
       console.warn('Failed to load from localStorage:', error);
     }
+
+    if (!isBatchPersistenceAvailable()) return;
+    const loadAttachments = async <K extends StoredAttachmentKey>(key: K) => {
+      const attachments = await loadResultAttachments(key);
+      const stored: Map<string, StoredAttachments[K]> = storedAttachments.current[key];
+      Object.keys(attachments).forEach(id => stored.set(id, attachments[id]));
+      setAnalysisResults(prev => prev.map(result =>
+        !result[key] && attachments[result.id] ? { ...result, [key]: attachments[result.id] } : result
+      ));
+    };
+    STORED_ATTACHMENT_KEYS.forEach(key => {
+      loadAttachments(key).catch(error => console.warn(`Failed to load ${key} images:`, error));
+    });
   }, [isClient]);
 
   const clearStorage = useCallback(() => {
@@ -197,6 +300,10 @@ export default function VideoAnalyzerPage() {
     Object.values(STORAGE_KEYS).forEach(key => {
       localStorage.removeItem(key);
     });
+    STORED_ATTACHMENT_KEYS.forEach(key => storedAttachments.current[key].clear());
+    if (isBatchPersistenceAvailable()) {
+      clearResultAttachments().catch(error => console.warn('Failed to clear stored images:', error));
+    }
   }, [isClient]);
 
   // Load from storage on component mount
@@ -209,7 +316,17 @@ export default function VideoAnalyzerPage() {
     if (analysisResults.length > 0) {
       saveToStorage();
     }
-  }, [analysisResults, queueStatus, rateLimitInfo, processingStats, analysisOptions, saveToStorage]);
+  }, [analysisResults, analysisOptions, saveToStorage]);
+
+  // Custom field definitions are kept even before any results exist
+  useEffect(() => {
+    if (!isClient) return;
+    try {
+      localStorage.setItem(STORAGE_KEYS.ANALYSIS_OPTIONS, JSON.stringify(analysisOptions));
+    } catch (error) {
+      console.warn('Failed to save analysis options:', error);
+    }
+  }, [isClient, analysisOptions]);
 
   // Handle video upload changes
   const handleVideosChange = useCallback((videos: UploadedVideo[]) => {
@@ -223,384 +340,228 @@ export default function VideoAnalyzerPage() {
     }
   }, [currentStep]);
 
-  // Enhanced start analysis process for large batches
-  const startAnalysis = useCallback(async () => {
-    if (uploadedVideos.length === 0) return;
-
-    // Check for API key
-    if (!apiKey) {
+  // Requires the user's API key for providers that run on it
+  const ensureApiKey = useCallback((options: AnalysisOptions): boolean => {
+    if (getProviderInfo(options.provider)?.requiresUserApiKey && !apiKey) {
       alert('Please configure your Google Gemini API key first. Click the settings icon to add your key.');
       setShowApiKeyModal(true);
-      return;
+      return false;
+    }
+    return true;
+  }, [apiKey]);
+
+  // Contact sheets are made one video at a time alongside the analysis; a video
+  // the browser can't decode just gets none. Starting over cancels the previous run.
+  const contactSheetAbort = useRef<AbortController | null>(null);
+  const attachContactSheets = useCallback(async (videos: Array<{ id: string; file: File }>) => {
+    contactSheetAbort.current?.abort();
+    const controller = new AbortController();
+    contactSheetAbort.current = controller;
+
+    for (const video of videos) {
+      if (controller.signal.aborted) return;
+      try {
+        const contactSheet = await createContactSheet(video.file, { signal: controller.signal });
+        setAnalysisResults(prev => prev.map(result => result.id === video.id ? { ...result, contactSheet } : result));
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.warn(`Failed to make a contact sheet for ${video.file.name}:`, error);
+        }
+      }
     }
+  }, []);
 
-    setIsAnalyzing(true);
-    setCurrentStep('analyze');
-    setProcessingStartTime(new Date());
+  // Start analysis of the uploaded videos as a new batch
+  const startAnalysis = useCallback(async () => {
+    if (!queue || uploadedVideos.length === 0) return;
+    if (!ensureApiKey(analysisOptions)) return;
 
-    // Initialize queue
-    const videoIds = uploadedVideos.map(v => v.id);
-    processingQueue.current = [...videoIds];
-    
-    // Calculate more accurate estimated wait time
-    const estimatedTimePerVideo = 60 / rateLimitInfo.maxRequestsPerMinute; // seconds per video
-    const totalEstimatedTime = videoIds.length * estimatedTimePerVideo;
-    
-    setQueueStatus({
-      position: videoIds.length,
-      estimatedWaitTime: totalEstimatedTime,
-      isProcessing: true,
-      isPaused: false,
-      totalInQueue: videoIds.length,
-      completedCount: 0,
-      errorCount: 0,
-    });
+    setInterruptedBatch(null);
+    setCurrentStep('analyze');
 
-    // Initialize analysis results with batching for large lists
-    const initialResults: VideoAnalysisResult[] = uploadedVideos.map(video => ({
+    // Initialize analysis results
+    setAnalysisResults(uploadedVideos.map(video => ({
       id: video.id,
       filename: video.filename,
+      contentHash: video.contentHash,
+      videoMetadata: video.metadata,
       status: 'pending',
       createdAt: new Date(),
-    }));
-    setAnalysisResults(initialResults);
-
-    // Start processing
-    processNextVideo();
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [uploadedVideos, rateLimitInfo.maxRequestsPerMinute, apiKey]);
-
-  // Enhanced process videos with better queue management for large batches
-  const processNextVideo = useCallback(async () => {
-    if (processingQueue.current.length === 0) {
-      // Analysis complete
-      setQueueStatus(prev => ({
-        ...prev,
-        isProcessing: false,
-        position: 0,
-        estimatedWaitTime: 0,
-      }));
-      setCurrentStep('results');
-      setIsAnalyzing(false);
-      return;
-    }
+    })));
 
-    // Check rate limit with better handling
-    if (rateLimitInfo.remaining <= 0) {
-      const waitTime = rateLimitInfo.resetTime - Date.now();
-      if (waitTime > 0) {
-        console.log(`Rate limit reached. Waiting ${Math.ceil(waitTime / 1000)}s before next request.`);
-        processingTimeout.current = setTimeout(processNextVideo, waitTime);
-        return;
-      } else {
-        // Reset rate limit
-        setRateLimitInfo(prev => ({
-          ...prev,
-          remaining: prev.maxRequestsPerMinute,
-          resetTime: Date.now() + 60000,
-          requestsInLastMinute: 0,
-        }));
-      }
-    }
+    void attachContactSheets(uploadedVideos);
 
-    const videoId = processingQueue.current.shift()!;
-    const video = uploadedVideos.find(v => v.id === videoId);
-    
-    if (!video) {
-      // Video not found, continue with next
-      setTimeout(processNextVideo, 100);
-      return;
-    }
+    const requests: VideoAnalysisRequest[] = uploadedVideos.map(video => ({
+      id: video.id,
+      videoFile: video.file,
+      filename: video.filename,
+      analysisOptions,
+      contentHash: video.contentHash,
+      videoMetadata: video.metadata,
+      forceReanalysis,
+      createdAt: new Date(),
+    }));
 
-    // Update status to processing
-    setAnalysisResults(prev => 
-      prev.map(result => 
-        result.id === videoId 
-          ? { ...result, status: 'processing' as const }
-          : result
-      )
-    );
+    await queue.startBatch(requests);
+  }, [queue, uploadedVideos, analysisOptions, forceReanalysis, ensureApiKey, attachContactSheets]);
 
-    // Update queue status with better time estimation
-    const remainingVideos = processingQueue.current.length;
-    const estimatedTimePerVideo = 60 / rateLimitInfo.maxRequestsPerMinute;
-    const dynamicEstimatedTime = remainingVideos * estimatedTimePerVideo;
-    
-    setQueueStatus(prev => ({
-      ...prev,
-      position: remainingVideos,
-      estimatedWaitTime: dynamicEstimatedTime,
-    }));
+  const discardInterruptedBatch = useCallback(() => {
+    setInterruptedBatch(null);
+    clearPersistedBatch().catch(error => console.warn('Failed to clear persisted batch:', error));
+  }, []);
 
-    try {
-      // Make API call with timeout handling
-      const startTime = Date.now();
-      const formData = new FormData();
-      formData.append('video', video.file);
-      formData.append('options', JSON.stringify(analysisOptions));
-      formData.append('apiKey', apiKey); // Pass user's API key
-
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 120000); // 2 minute timeout
-
-      const response = await fetch('/api/gemini/analyze-video', {
-        method: 'POST',
-        body: formData,
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-      const apiResult = await response.json();
-      const processingTime = Date.now() - startTime;
-
-      if (!response.ok || !apiResult.success) {
-        // Handle rate limit errors specifically
-        if (response.status === 429) {
-          const retryAfter = apiResult.error?.details?.retryAfter || 60;
-          console.log(`Rate limited. Retrying after ${retryAfter} seconds.`);
-          
-          // Put video back in queue and wait
-          processingQueue.current.unshift(videoId);
-          processingTimeout.current = setTimeout(processNextVideo, retryAfter * 1000);
-          return;
-        }
-        
-        throw new Error(apiResult.error?.message || 'Analysis failed');
-      }
+  // Restore an interrupted batch and continue with the videos that were still queued
+  const resumeInterruptedBatch = useCallback(() => {
+    if (!queue || !interruptedBatch) return;
+    const { state, requests } = interruptedBatch;
+    if (!ensureApiKey(state.analysisOptions)) return;
 
-      // Process successful result
-      const result: VideoAnalysisResult = {
-        id: videoId,
-        filename: video.filename,
-        status: 'completed',
-        visualHook: apiResult.data?.visualHook,
-        textHook: apiResult.data?.textHook,
-        voiceHook: apiResult.data?.voiceHook,
-        videoScript: apiResult.data?.videoScript,
-        painPoint: apiResult.data?.painPoint,
-        processingTime: apiResult.data?.processingTime || processingTime,
-        createdAt: new Date(),
-        completedAt: new Date(),
-      };
-
-      // Update with real results
-      setAnalysisResults(prev => 
-        prev.map(resultItem => 
-          resultItem.id === videoId ? result : resultItem
-        )
-      );
-
-      setQueueStatus(prev => ({
-        ...prev,
-        completedCount: prev.completedCount + 1,
-      }));
-
-      // Update processing statistics
-      setProcessingStats(prev => {
-        const newCompletedCount = queueStatus.completedCount + 1;
-        const newAvgTime = ((prev.avgProcessingTime * (newCompletedCount - 1)) + processingTime) / newCompletedCount;
-        const successRate = newCompletedCount / (newCompletedCount + queueStatus.errorCount);
-        const totalElapsed = processingStartTime ? Date.now() - processingStartTime.getTime() : 0;
-        
-        return {
-          avgProcessingTime: newAvgTime,
-          successRate,
-          totalElapsedTime: totalElapsed,
-        };
-      });
-
-      // Update rate limit with real API response data
-      if (apiResult.rateLimitInfo) {
-        setRateLimitInfo(apiResult.rateLimitInfo);
-      } else {
-        setRateLimitInfo(prev => ({
-          ...prev,
-          remaining: Math.max(0, prev.remaining - 1),
-          requestsInLastMinute: prev.requestsInLastMinute + 1,
+    setInterruptedBatch(null);
+    setAnalysisOptions(state.analysisOptions);
+    setForceReanalysis(state.forceReanalysis);
+    setCurrentStep('analyze');
+
+    // Results of finished videos were restored from localStorage; queued ones start over
+    const queued = new Set(state.queue);
+    setAnalysisResults(prev => {
+      const existingIds = new Set(prev.map(result => result.id));
+      const missing: VideoAnalysisResult[] = requests
+        .filter(request => !existingIds.has(request.id))
+        .map(request => ({
+          id: request.id,
+          filename: request.filename,
+          contentHash: request.contentHash,
+          videoMetadata: request.videoMetadata,
+          status: 'pending',
+          createdAt: request.createdAt,
         }));
-      }
 
-    } catch (error) {
-      let errorMessage = 'Analysis failed';
-      let shouldRetry = false;
-
-      if (error instanceof Error) {
-        errorMessage = error.message;
-        // Check if error is retryable
-        if (error.name === 'AbortError') {
-          errorMessage = 'Request timeout - video may be too large or complex';
-          shouldRetry = true;
-        } else if (errorMessage.includes('network') || errorMessage.includes('timeout')) {
-          shouldRetry = true;
-        }
-      }
+      return [
+        ...prev.map(result => queued.has(result.id)
+          ? { ...result, status: 'pending' as const, error: undefined }
+          : result),
+        ...missing,
+      ];
+    });
 
-      // Handle retryable errors (put back in queue with retry count)
-      if (shouldRetry && !(video as any).retryCount) {
-        (video as any).retryCount = 1;
-        processingQueue.current.push(videoId);
-        console.log(`Retrying video ${video.filename} due to ${errorMessage}`);
-      } else {
-        // Handle permanent error
-        setAnalysisResults(prev => 
-          prev.map(result => 
-            result.id === videoId 
-              ? { 
-                  ...result, 
-                  status: 'error' as const,
-                  error: errorMessage,
-                  completedAt: new Date(),
-                }
-              : result
-          )
-        );
-
-        setQueueStatus(prev => ({
-          ...prev,
-          errorCount: prev.errorCount + 1,
-        }));
-      }
-    }
+    const withSheets = new Set(analysisResults.filter(result => result.contactSheet).map(result => result.id));
+    void attachContactSheets(requests
+      .filter(request => !withSheets.has(request.id))
+      .map(request => ({ id: request.id, file: request.videoFile })));
 
-    // Dynamic delay based on current rate limit
-    const delay = rateLimitInfo.remaining > 0 
-      ? Math.max(1000, 60000 / rateLimitInfo.maxRequestsPerMinute) // Minimum 1 second delay
-      : 60000; // Wait full minute if no requests remaining
-    
-    processingTimeout.current = setTimeout(processNextVideo, delay);
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [uploadedVideos, analysisOptions, rateLimitInfo, apiKey]);
-
-  // Queue control handlers
-  const pauseProcessing = useCallback(() => {
-    if (processingTimeout.current) {
-      clearTimeout(processingTimeout.current);
-      processingTimeout.current = null;
-    }
-    setQueueStatus(prev => ({ ...prev, isPaused: true }));
+    queue.resumeInterruptedBatch(interruptedBatch);
+  }, [queue, interruptedBatch, ensureApiKey, analysisResults, attachContactSheets]);
+
+  // Server job handlers: job results replace rows with the same id and append the rest
+  const handleAttachJob = useCallback((jobId: string) => {
+    setAttachedJobId(jobId);
+    localStorage.setItem(STORAGE_KEYS.ATTACHED_JOB_ID, jobId);
+  }, []);
+
+  const handleDetachJob = useCallback(() => {
+    setAttachedJobId(null);
+    localStorage.removeItem(STORAGE_KEYS.ATTACHED_JOB_ID);
   }, []);
 
-  const resumeProcessing = useCallback(() => {
-    setQueueStatus(prev => ({ ...prev, isPaused: false }));
-    processNextVideo();
-  }, [processNextVideo]);
+  const handleJobResults = useCallback((results: VideoAnalysisResult[]) => {
+    if (results.length === 0) return;
+    setAnalysisResults(prev => {
+      const incoming = new Map(results.map(result => [result.id, result]));
+      const known = new Set(prev.map(result => result.id));
+      return [
+        ...prev.map(result => {
+          const update = incoming.get(result.id);
+          return update ? withAttachedFields(update, result) : result;
+        }),
+        ...results.filter(result => !known.has(result.id)),
+      ];
+    });
+    setCurrentStep('results');
+  }, []);
 
-  const stopProcessing = useCallback(() => {
-    if (processingTimeout.current) {
-      clearTimeout(processingTimeout.current);
-      processingTimeout.current = null;
+  // Results merged from an exported CSV/JSON file
+  const handleImportResults = useCallback((results: VideoAnalysisResult[]) => {
+    setAnalysisResults(results);
+    if (results.length > 0) {
+      setCurrentStep('results');
     }
-    processingQueue.current = [];
-    setQueueStatus(prev => ({
-      ...prev,
-      isProcessing: false,
-      isPaused: false,
-      position: 0,
-      estimatedWaitTime: 0,
-    }));
-    setIsAnalyzing(false);
   }, []);
 
   const handleClearSession = useCallback(() => {
     if (window.confirm('This will clear all analysis results and reset the session. Are you sure?')) {
       clearStorage();
+      queue?.clearQueue();
+      contactSheetAbort.current?.abort();
+      setAttachedJobId(null);
       setAnalysisResults([]);
       setUploadedVideos([]);
       setCurrentStep('upload');
-      setIsAnalyzing(false);
-      stopProcessing();
-      setProcessingStats({
-        avgProcessingTime: 0,
-        successRate: 0,
-        totalElapsedTime: 0,
-      });
     }
-  }, [clearStorage, stopProcessing]);
+  }, [clearStorage, queue]);
 
   // Result handlers
+  const retryResults = useCallback((resultIds: string[]) => {
+    if (!queue) return;
+
+    const retryableIds = analysisResults
+      .filter(result => resultIds.includes(result.id) && (result.status === 'error' || result.status === 'cancelled'))
+      .map(result => result.id);
+    const queuedIds = queue.retryRequests(retryableIds);
+    if (queuedIds.length === 0) return;
+
+    setAnalysisResults(prev => 
+      prev.map(r => queuedIds.includes(r.id) ? { ...r, status: 'pending' as const, error: undefined } : r)
+    );
+    setCurrentStep('analyze');
+  }, [queue, analysisResults]);
+
   const handleRetry = useCallback((resultId: string) => {
-    const result = analysisResults.find(r => r.id === resultId);
-    if (result && result.status === 'error') {
-      processingQueue.current.push(resultId);
-      setAnalysisResults(prev => 
-        prev.map(r => r.id === resultId ? { ...r, status: 'pending' as const, error: undefined } : r)
-      );
-      
-      if (!queueStatus.isProcessing) {
-        setQueueStatus(prev => ({
-          ...prev,
-          isProcessing: true,
-          totalInQueue: prev.totalInQueue + 1,
-          errorCount: Math.max(0, prev.errorCount - 1),
-        }));
-        processNextVideo();
-      }
-    }
-  }, [analysisResults, queueStatus.isProcessing, processNextVideo]);
+    retryResults([resultId]);
+  }, [retryResults]);
+
+  const handleCancel = useCallback((resultId: string) => {
+    queue?.cancelRequest(resultId);
+  }, [queue]);
 
   const handleDelete = useCallback((resultId: string) => {
     setAnalysisResults(prev => prev.filter(r => r.id !== resultId));
   }, []);
 
-  // Batch operations for large datasets
-  const handleRetryAllFailed = useCallback(() => {
-    const failedResults = analysisResults.filter(r => r.status === 'error');
-    if (failedResults.length === 0) return;
-
-    failedResults.forEach(result => {
-      processingQueue.current.push(result.id);
-      setAnalysisResults(prev => 
-        prev.map(r => r.id === result.id ? { ...r, status: 'pending' as const, error: undefined } : r)
-      );
-    });
+  // Edits that belong to a result, e.g. its script variants
+  const handleUpdateResult = useCallback((resultId: string, changes: Partial<VideoAnalysisResult>) => {
+    setAnalysisResults(prev => prev.map(r => r.id === resultId ? { ...r, ...changes } : r));
+  }, []);
 
-    setQueueStatus(prev => ({
-      ...prev,
-      isProcessing: true,
-      totalInQueue: prev.totalInQueue + failedResults.length,
-      errorCount: Math.max(0, prev.errorCount - failedResults.length),
-    }));
+  // Script variants are generated with the provider configured for analysis
+  const variantOptions = useMemo(() => ({
+    provider: analysisOptions.provider,
+    model: analysisOptions.model,
+    apiKey: apiKey || undefined,
+  }), [analysisOptions.provider, analysisOptions.model, apiKey]);
 
-    if (!isAnalyzing) {
-      setIsAnalyzing(true);
-      processNextVideo();
-    }
-  }, [analysisResults, isAnalyzing, processNextVideo]);
+  // Batch operations for large datasets
+  const handleRetryAllFailed = useCallback(() => {
+    retryResults(analysisResults.filter(r => r.status === 'error').map(r => r.id));
+  }, [analysisResults, retryResults]);
 
   const handleDeleteSelected = useCallback((selectedIds: string[]) => {
     setAnalysisResults(prev => prev.filter(r => !selectedIds.includes(r.id)));
   }, []);
 
   const handleRetrySelected = useCallback((selectedIds: string[]) => {
-    const selectedResults = analysisResults.filter(r => selectedIds.includes(r.id) && r.status === 'error');
-    if (selectedResults.length === 0) return;
-
-    selectedResults.forEach(result => {
-      processingQueue.current.push(result.id);
-      setAnalysisResults(prev => 
-        prev.map(r => r.id === result.id ? { ...r, status: 'pending' as const, error: undefined } : r)
-      );
-    });
-
-    setQueueStatus(prev => ({
-      ...prev,
-      isProcessing: true,
-      totalInQueue: prev.totalInQueue + selectedResults.length,
-      errorCount: Math.max(0, prev.errorCount - selectedResults.length),
-    }));
+    retryResults(selectedIds);
+  }, [retryResults]);
 
-    if (!isAnalyzing) {
-      setIsAnalyzing(true);
-      processNextVideo();
-    }
-  }, [analysisResults, isAnalyzing, processNextVideo]);
-
-  const handleExport = useCallback((format: 'csv' | 'json', results: VideoAnalysisResult[]) => {
+  const handleExport = useCallback((format: ExportFormat, results: VideoAnalysisResult[]) => {
     try {
       if (format === 'csv') {
         import('@/lib/utils/exportUtils').then(({ exportToCSV }) => {
           exportToCSV(results);
         });
+      } else if (format === 'xlsx') {
+        import('@/lib/utils/exportUtils').then(({ exportToXLSX }) => {
+          exportToXLSX(results);
+        });
       } else {
         import('@/lib/utils/exportUtils').then(({ exportToJSON }) => {
           exportToJSON(results);
@@ -664,6 +625,24 @@ export default function VideoAnalyzerPage() {
                   <span className="text-sm text-amber-700 font-medium">API Key Required</span>
                 </div>
               )}
+              {/* Import Button */}
+              <button
+                onClick={() => setShowImportModal(true)}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                title="Load results from a CSV or JSON export"
+              >
+                <FileUp className="w-4 h-4" />
+                <span className="text-sm font-medium">Import</span>
+              </button>
+              {/* Webhooks Button */}
+              <button
+                onClick={() => setShowWebhookModal(true)}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                title="Configure webhook notifications"
+              >
+                <Webhook className="w-4 h-4" />
+                <span className="text-sm font-medium">Webhooks</span>
+              </button>
               {/* Settings Button */}
               <button
                 onClick={() => setShowApiKeyModal(true)}
@@ -706,6 +685,44 @@ export default function VideoAnalyzerPage() {
           </div>
         </div>
 
+        {/* Interrupted Batch */}
+        {interruptedBatch && !isAnalyzing && (
+          <div className="mb-8 flex items-center justify-between gap-4 bg-amber-50 border border-amber-200 rounded-lg p-4">
+            <div className="flex items-center gap-3">
+              <AlertCircle className="w-5 h-5 text-amber-600" />
+              <div>
+                <p className="text-sm font-medium text-amber-800">Interrupted batch found</p>
+                <p className="text-xs text-amber-700">
+                  {interruptedBatch.state.queue.length} of {interruptedBatch.state.totalVideos} videos were not analyzed yet
+                  (started {new Date(interruptedBatch.state.startedAt).toLocaleString()}).
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={resumeInterruptedBatch}
+                className="flex items-center gap-2 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Resume interrupted batch
+              </button>
+              <button
+                onClick={discardInterruptedBatch}
+                className="px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        )}
+
+        {persistenceNotice && isAnalyzing && (
+          <div className="mb-8 flex items-center gap-3 bg-amber-50 border border-amber-200 rounded-lg p-4">
+            <AlertCircle className="w-5 h-5 text-amber-600" />
+            <p className="text-sm text-amber-800">{persistenceNotice}</p>
+          </div>
+        )}
+
         {/* Main Content */}
         <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
           {/* Left Column - Upload & Configure */}
@@ -727,9 +744,18 @@ export default function VideoAnalyzerPage() {
               <VideoUpload
                 onVideosChange={handleVideosChange}
                 maxFiles={DEFAULT_MAX_VIDEOS_PER_BATCH}
-                maxSizePerFile={100}
+                maxSizePerFile={MAX_FILE_UPLOAD_SIZE_BYTES / (1024 * 1024)}
+                compliancePresets={compliancePresets}
                 disabled={isAnalyzing}
               />
+
+              <div className="mt-6 pt-6 border-t">
+                <CompliancePresetsEditor
+                  settings={complianceSettings}
+                  onChange={handleComplianceChange}
+                  disabled={isAnalyzing}
+                />
+              </div>
             </div>
 
             {/* Configuration Section */}
@@ -742,37 +768,81 @@ export default function VideoAnalyzerPage() {
                   <div>
                     <h2 className="text-xl font-semibold text-gray-900">Analysis Configuration</h2>
                     <p className="text-sm text-gray-500">
-                      Choose which insights to extract from your videos
+                      Choose the model and which insights to extract from your videos
                     </p>
                   </div>
                 </div>
 
-                <div className="space-y-4">
-                  {Object.entries(analysisOptions).map(([key, enabled]) => (
-                    <label key={key} className="flex items-center">
-                      <input
-                        type="checkbox"
-                        checked={enabled}
-                        onChange={(e) => 
-                          setAnalysisOptions(prev => ({
-                            ...prev,
-                            [key]: e.target.checked
-                          }))
-                        }
-                        disabled={isAnalyzing}
-                        className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
-                      />
-                      <span className="ml-3 text-sm font-medium text-gray-700">
-                        {key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase()).replace(/include /i, '')}
-                      </span>
-                    </label>
-                  ))}
+                <div className="mb-6 pb-6 border-b">
+                  <AnalysisProviderSelect
+                    provider={analysisOptions.provider}
+                    model={analysisOptions.model}
+                    onChange={(selection) => setAnalysisOptions(prev => ({ ...prev, ...selection }))}
+                    disabled={isAnalyzing}
+                  />
+                </div>
+
+                <AnalysisFieldsEditor
+                  fields={analysisOptions.fields}
+                  onChange={(fields) => setAnalysisOptions(prev => ({ ...prev, fields }))}
+                  disabled={isAnalyzing}
+                />
+
+                <div className="mt-6 pt-6 border-t">
+                  <HookTaxonomyEditor
+                    taxonomy={analysisOptions.hookTaxonomy || DEFAULT_HOOK_TAXONOMY}
+                    onChange={(hookTaxonomy) => setAnalysisOptions(prev => ({ ...prev, hookTaxonomy }))}
+                    disabled={isAnalyzing}
+                  />
+                </div>
+
+                <div className="mt-6 pt-6 border-t">
+                  <HookWindowEditor
+                    hookWindow={analysisOptions.hookWindow || DEFAULT_HOOK_WINDOW}
+                    onChange={(hookWindow) => setAnalysisOptions(prev => ({ ...prev, hookWindow }))}
+                    disabled={isAnalyzing}
+                  />
+                </div>
+
+                <label className="flex items-center mt-6">
+                  <input
+                    type="checkbox"
+                    checked={forceReanalysis}
+                    onChange={(e) => setForceReanalysis(e.target.checked)}
+                    disabled={isAnalyzing}
+                    className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                  />
+                  <span className="ml-3">
+                    <span className="block text-sm font-medium text-gray-700">Force re-analysis</span>
+                    <span className="block text-xs text-gray-500">
+                      Ignore cached results for videos that were analyzed before with the same settings
+                    </span>
+                  </span>
+                </label>
+
+                <div className="flex items-center justify-between gap-4 mt-4">
+                  <label htmlFor="max-concurrency">
+                    <span className="block text-sm font-medium text-gray-700">Max concurrent analyses</span>
+                    <span className="block text-xs text-gray-500">
+                      Starts at 1 and grows while requests succeed; halves when the API reports a rate limit or quota error
+                    </span>
+                  </label>
+                  <select
+                    id="max-concurrency"
+                    value={concurrency.max}
+                    onChange={(e) => queue?.setMaxConcurrency(Number(e.target.value))}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {Array.from({ length: MAX_CONCURRENCY_LIMIT }, (_, index) => index + 1).map(value => (
+                      <option key={value} value={value}>{value}</option>
+                    ))}
+                  </select>
                 </div>
 
                 <div className="mt-6 pt-6 border-t">
                   <button
                     onClick={startAnalysis}
-                    disabled={isAnalyzing || uploadedVideos.length === 0 || !Object.values(analysisOptions).some(Boolean)}
+                    disabled={isAnalyzing || uploadedVideos.length === 0 || getAnalysisFields(analysisOptions).length === 0}
                     className="flex items-center gap-2 px-6 py-3 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
                   >
                     <Play className="w-5 h-5" />
@@ -784,29 +854,72 @@ export default function VideoAnalyzerPage() {
 
             {/* Results Section */}
             {analysisResults.length > 0 && (
+              <div className="bg-white rounded-lg shadow-sm p-6">
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 bg-blue-100 rounded-lg">
+                      <BarChart3 className="w-5 h-5 text-blue-600" />
+                    </div>
+                    <div>
+                      <h2 className="text-xl font-semibold text-gray-900">Analysis Results</h2>
+                      <p className="text-sm text-gray-500">
+                        Review and export your video analysis insights
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex bg-gray-100 rounded-lg p-1">
+                    {(['table', 'insights'] as const).map(view => (
+                      <button
+                        key={view}
+                        onClick={() => setResultsView(view)}
+                        className={`px-4 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                          resultsView === view ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                        }`}
+                      >
+                        {view === 'table' ? 'Results' : 'Insights'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {resultsView === 'insights' ? (
+                  <InsightsDashboard results={analysisResults} />
+                ) : (
+                  <VideoAnalysisTable
+                    results={analysisResults}
+                    onRetry={handleRetry}
+                    onCancel={handleCancel}
+                    onDelete={handleDelete}
+                    onExport={handleExport}
+                    onRetryAllFailed={handleRetryAllFailed}
+                    onDeleteSelected={handleDeleteSelected}
+                    onRetrySelected={handleRetrySelected}
+                    onSelectionChange={setSelectedResultIds}
+                    onUpdateResult={handleUpdateResult}
+                    variantOptions={variantOptions}
+                    compliancePresets={compliancePresets}
+                    loading={isAnalyzing}
+                  />
+                )}
+              </div>
+            )}
+
+            {/* Chat Section */}
+            {analysisResults.some(result => result.status === 'completed') && (
               <div className="bg-white rounded-lg shadow-sm p-6">
                 <div className="flex items-center gap-3 mb-6">
-                  <div className="p-2 bg-blue-100 rounded-lg">
-                    <BarChart3 className="w-5 h-5 text-blue-600" />
+                  <div className="p-2 bg-indigo-100 rounded-lg">
+                    <MessageSquare className="w-5 h-5 text-indigo-600" />
                   </div>
                   <div>
-                    <h2 className="text-xl font-semibold text-gray-900">Analysis Results</h2>
+                    <h2 className="text-xl font-semibold text-gray-900">Chat with Your Videos</h2>
                     <p className="text-sm text-gray-500">
-                      Review and export your video analysis insights
+                      Ask questions answered from the transcripts, hooks and pain points
                     </p>
                   </div>
                 </div>
 
-                <VideoAnalysisTable
-                  results={analysisResults}
-                  onRetry={handleRetry}
-                  onDelete={handleDelete}
-                  onExport={handleExport}
-                  onRetryAllFailed={handleRetryAllFailed}
-                  onDeleteSelected={handleDeleteSelected}
-                  onRetrySelected={handleRetrySelected}
-                  loading={isAnalyzing}
-                />
+                <VideoChatPanel results={analysisResults} selectedIds={selectedResultIds} />
               </div>
             )}
           </div>
@@ -823,7 +936,7 @@ export default function VideoAnalyzerPage() {
                     <li>• Upload multiple video files (up to {DEFAULT_MAX_VIDEOS_PER_BATCH})</li>
                     <li>• Choose analysis options</li>
                     <li>• AI analyzes videos with rate limiting</li>
-                    <li>• Export results as CSV or JSON</li>
+                    <li>• Export results as CSV, JSON, XLSX or to Google Sheets, subtitles as SRT/VTT, and contact sheets as PDF or ZIP</li>
                     <li>• Progress is automatically saved</li>
                   </ul>
                 </div>
@@ -856,15 +969,17 @@ export default function VideoAnalyzerPage() {
               </div>
             )}
 
+            {/* Server-side job */}
+            <AnalysisJobPanel
+              jobId={attachedJobId}
+              onAttach={handleAttachJob}
+              onDetach={handleDetachJob}
+              onResults={handleJobResults}
+            />
+
             {/* Rate Limit Manager */}
             {(isAnalyzing || analysisResults.length > 0) && (
-              <RateLimitManager
-                queueStatus={queueStatus}
-                rateLimitInfo={rateLimitInfo}
-                onPause={pauseProcessing}
-                onResume={resumeProcessing}
-                onStop={stopProcessing}
-              />
+              <RateLimitManager />
             )}
           </div>
         </div>
@@ -877,6 +992,21 @@ export default function VideoAnalyzerPage() {
         onSave={handleApiKeySave}
         currentKey={apiKey}
       />
+
+      {/* Webhook Settings Modal */}
+      <WebhookSettings
+        isOpen={showWebhookModal}
+        onClose={() => setShowWebhookModal(false)}
+      />
+
+      {/* Results Import Modal */}
+      <ResultsImportDialog
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        currentResults={analysisResults}
+        knownFields={analysisOptions.fields}
+        onImport={handleImportResults}
+      />
     </div>
   );
 } 
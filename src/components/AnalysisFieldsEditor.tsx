@@ -0,0 +1,176 @@
+import React, { useState } from "react";
+import { Plus, Trash2, AlertCircle } from "lucide-react";
+import { AnalysisFieldDefinition, AnalysisFieldType } from "@/types/video-analysis";
+import { ANALYSIS_FIELD_TYPES, MAX_ANALYSIS_FIELDS, createCustomField } from "@/lib/utils/analysisFields";
+
+interface AnalysisFieldsEditorProps {
+  fields: AnalysisFieldDefinition[];
+  onChange: (fields: AnalysisFieldDefinition[]) => void;
+  disabled?: boolean;
+}
+
+export default function AnalysisFieldsEditor({ fields, onChange, disabled = false }: AnalysisFieldsEditorProps) {
+  const [showForm, setShowForm] = useState(false);
+  const [label, setLabel] = useState('');
+  const [instruction, setInstruction] = useState('');
+  const [type, setType] = useState<AnalysisFieldType>('string');
+  const [enumValues, setEnumValues] = useState('');
+  const [error, setError] = useState('');
+
+  const toggleField = (key: string, enabled: boolean) => {
+    onChange(fields.map(field => field.key === key ? { ...field, enabled } : field));
+  };
+
+  const removeField = (key: string) => {
+    onChange(fields.filter(field => field.key !== key));
+  };
+
+  const resetForm = () => {
+    setLabel('');
+    setInstruction('');
+    setType('string');
+    setEnumValues('');
+    setError('');
+    setShowForm(false);
+  };
+
+  const addField = () => {
+    try {
+      const field = createCustomField(
+        { label, instruction, type, enumValues: enumValues.split(',') },
+        fields
+      );
+      onChange([...fields, field]);
+      resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid field');
+    }
+  };
+
+  const getTypeLabel = (fieldType: AnalysisFieldType) =>
+    ANALYSIS_FIELD_TYPES.find(t => t.type === fieldType)?.label || fieldType;
+
+  return (
+    <div className="space-y-4">
+      {fields.map(field => (
+        <div key={field.key} className="flex items-start justify-between gap-3">
+          <label className="flex items-start">
+            <input
+              type="checkbox"
+              checked={field.enabled}
+              onChange={(e) => toggleField(field.key, e.target.checked)}
+              disabled={disabled}
+              className="w-4 h-4 mt-0.5 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+            />
+            <span className="ml-3">
+              <span className="block text-sm font-medium text-gray-700">{field.label}</span>
+              {!field.builtIn && (
+                <span className="block text-xs text-gray-500">
+                  {getTypeLabel(field.type)}
+                  {field.type === 'enum' && field.enumValues ? ` (${field.enumValues.join(', ')})` : ''}
+                  {' • '}{field.instruction}
+                </span>
+              )}
+            </span>
+          </label>
+          {!field.builtIn && (
+            <button
+              onClick={() => removeField(field.key)}
+              disabled={disabled}
+              className="text-red-600 hover:text-red-900 p-1 rounded disabled:opacity-50"
+              title="Remove field"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ))}
+
+      {showForm ? (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-3 bg-gray-50">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="fieldLabel" className="block text-xs font-medium text-gray-700 mb-1">Field name</label>
+              <input
+                id="fieldLabel"
+                type="text"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="e.g. Target persona"
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="fieldType" className="block text-xs font-medium text-gray-700 mb-1">Type</label>
+              <select
+                id="fieldType"
+                value={type}
+                onChange={(e) => setType(e.target.value as AnalysisFieldType)}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+              >
+                {ANALYSIS_FIELD_TYPES.map(option => (
+                  <option key={option.type} value={option.type}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label htmlFor="fieldInstruction" className="block text-xs font-medium text-gray-700 mb-1">Instruction</label>
+            <textarea
+              id="fieldInstruction"
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              placeholder="e.g. Describe who this ad is targeting (age, lifestyle, situation)."
+              rows={2}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          {type === 'enum' && (
+            <div>
+              <label htmlFor="fieldEnumValues" className="block text-xs font-medium text-gray-700 mb-1">
+                Allowed values (comma separated)
+              </label>
+              <input
+                id="fieldEnumValues"
+                type="text"
+                value={enumValues}
+                onChange={(e) => setEnumValues(e.target.value)}
+                placeholder="e.g. Shop now, Learn more, Sign up"
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          )}
+          {error && (
+            <div className="flex items-center gap-2 text-red-600 text-sm">
+              <AlertCircle className="w-4 h-4" />
+              <span>{error}</span>
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <button
+              onClick={addField}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+            >
+              Add Field
+            </button>
+            <button
+              onClick={resetForm}
+              className="px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setShowForm(true)}
+          disabled={disabled || fields.length >= MAX_ANALYSIS_FIELDS}
+          className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-800 font-medium disabled:text-gray-400 disabled:cursor-not-allowed"
+        >
+          <Plus className="w-4 h-4" />
+          Add custom field
+        </button>
+      )}
+    </div>
+  );
+}
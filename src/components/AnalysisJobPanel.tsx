@@ -0,0 +1,146 @@
+import React, { useState } from "react";
+import { Server, Link2, Unlink, Square, AlertTriangle, Copy, Check } from "lucide-react";
+import { AnalysisJobStatus, VideoAnalysisResult } from "@/types/video-analysis";
+import { useAnalysisJob } from "@/lib/hooks/useAnalysisJob";
+import { getClientToken } from "@/lib/utils/clientToken";
+
+interface AnalysisJobPanelProps {
+  jobId: string | null;
+  onAttach: (jobId: string) => void;
+  onDetach: () => void;
+  onResults: (results: VideoAnalysisResult[]) => void;
+}
+
+const STATUS_STYLES: Record<AnalysisJobStatus, string> = {
+  queued: "text-gray-700 bg-gray-100",
+  running: "text-blue-700 bg-blue-100",
+  completed: "text-green-700 bg-green-100",
+  cancelled: "text-amber-700 bg-amber-100",
+  failed: "text-red-700 bg-red-100",
+};
+
+export default function AnalysisJobPanel({ jobId, onAttach, onDetach, onResults }: AnalysisJobPanelProps) {
+  const [jobIdInput, setJobIdInput] = useState("");
+  const [tokenCopied, setTokenCopied] = useState(false);
+  const { job, error, cancel } = useAnalysisJob(jobId, onResults);
+
+  // Jobs submitted with this token can be followed from this browser
+  const copyClientToken = async () => {
+    try {
+      await navigator.clipboard.writeText(getClientToken());
+      setTokenCopied(true);
+      setTimeout(() => setTokenCopied(false), 2000);
+    } catch (copyError) {
+      console.warn("Failed to copy the client token:", copyError);
+    }
+  };
+
+  const handleAttach = () => {
+    const id = jobIdInput.trim();
+    if (!id) return;
+    onAttach(id);
+    setJobIdInput("");
+  };
+
+  const isActive = job?.status === "queued" || job?.status === "running";
+  const progress = job && job.queueStatus.totalInQueue > 0
+    ? ((job.queueStatus.completedCount + job.queueStatus.errorCount) / job.queueStatus.totalInQueue) * 100
+    : 0;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Server className="w-5 h-5 text-gray-600" />
+        <h3 className="font-medium text-gray-900">Server Job</h3>
+      </div>
+
+      {!jobId ? (
+        <>
+          <p className="text-xs text-gray-600">
+            Follow a batch submitted to the jobs API. It keeps running on the server when this tab is closed.
+            Submit it with this browser&apos;s client token as <code>Authorization: Bearer &lt;token&gt;</code>;
+            jobs can only be followed with the token they were submitted with.
+          </p>
+          <button
+            onClick={copyClientToken}
+            className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800 font-medium"
+          >
+            {tokenCopied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+            {tokenCopied ? "Copied" : "Copy client token"}
+          </button>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={jobIdInput}
+              onChange={(e) => setJobIdInput(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleAttach()}
+              placeholder="job_..."
+              className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              onClick={handleAttach}
+              disabled={!jobIdInput.trim()}
+              className="flex items-center gap-1 px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Link2 className="w-4 h-4" />
+              Attach
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="flex items-center justify-between gap-2">
+            <code className="text-xs text-gray-700 truncate">{jobId}</code>
+            {job && (
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[job.status]}`}>
+                {job.status}
+              </span>
+            )}
+          </div>
+
+          {job && (
+            <div>
+              <div className="flex justify-between text-xs text-gray-600 mb-1">
+                <span>
+                  {job.queueStatus.completedCount} of {job.queueStatus.totalInQueue} completed
+                  {job.queueStatus.errorCount > 0 && `, ${job.queueStatus.errorCount} failed`}
+                </span>
+                <span>{Math.round(progress)}%</span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div className="bg-blue-600 h-2 rounded-full transition-all duration-300" style={{ width: `${progress}%` }} />
+              </div>
+              {job.error && <p className="text-xs text-red-600 mt-2">{job.error}</p>}
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-start gap-2 text-xs text-red-600">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            {isActive && (
+              <button
+                onClick={cancel}
+                className="flex items-center gap-1 px-3 py-1.5 text-xs bg-red-600 text-white rounded-lg hover:bg-red-700"
+              >
+                <Square className="w-3 h-3" />
+                Cancel Job
+              </button>
+            )}
+            <button
+              onClick={onDetach}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+            >
+              <Unlink className="w-3 h-3" />
+              Detach
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import React from "react";
+import { AnalysisProviderId } from "@/types/video-analysis";
+import { getProviderInfo, getSelectableProviders } from "@/lib/providers/catalog";
+
+interface AnalysisProviderSelectProps {
+  provider: AnalysisProviderId;
+  model: string;
+  onChange: (selection: { provider: AnalysisProviderId; model: string }) => void;
+  disabled?: boolean;
+}
+
+export default function AnalysisProviderSelect({ provider, model, onChange, disabled = false }: AnalysisProviderSelectProps) {
+  const providers = getSelectableProviders();
+  const providerInfo = getProviderInfo(provider);
+
+  const handleProviderChange = (id: AnalysisProviderId) => {
+    const info = getProviderInfo(id);
+    if (info) {
+      onChange({ provider: info.id, model: info.defaultModel });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="analysisProvider" className="block text-xs font-medium text-gray-700 mb-1">Provider</label>
+          <select
+            id="analysisProvider"
+            value={provider}
+            onChange={(e) => handleProviderChange(e.target.value as AnalysisProviderId)}
+            disabled={disabled}
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+          >
+            {providers.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="analysisModel" className="block text-xs font-medium text-gray-700 mb-1">Model</label>
+          <select
+            id="analysisModel"
+            value={model}
+            onChange={(e) => onChange({ provider, model: e.target.value })}
+            disabled={disabled}
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+          >
+            {(providerInfo?.models || []).map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {providerInfo && !providerInfo.supportsNativeVideo && (
+        <p className="text-xs text-gray-500">
+          {providerInfo.label} can&apos;t watch video directly. Sampled keyframes and an audio transcript are sent instead,
+          so motion and audio details may be less precise.
+        </p>
+      )}
+    </div>
+  );
+}
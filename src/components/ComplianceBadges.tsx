@@ -0,0 +1,43 @@
+import React from "react";
+import { CheckCircle2, AlertTriangle, XCircle } from "lucide-react";
+import { CompliancePreset, ComplianceStatus, VideoFileMetadata } from "@/types/video-analysis";
+import { checkCompliance } from "@/lib/utils/compliance";
+
+interface ComplianceBadgesProps {
+  metadata?: VideoFileMetadata;
+  presets: CompliancePreset[];
+}
+
+const STATUS_STYLES: Record<ComplianceStatus, { className: string; icon: typeof CheckCircle2 }> = {
+  pass: { className: 'bg-green-50 text-green-700 border-green-200', icon: CheckCircle2 },
+  warn: { className: 'bg-amber-50 text-amber-700 border-amber-200', icon: AlertTriangle },
+  fail: { className: 'bg-red-50 text-red-700 border-red-200', icon: XCircle },
+};
+
+// One badge per platform; hovering lists what was checked
+export default function ComplianceBadges({ metadata, presets }: ComplianceBadgesProps) {
+  if (presets.length === 0) return null;
+  if (!metadata) {
+    return <span className="text-xs text-gray-400" title="The video's details could not be read">Not checked</span>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {presets.map(preset => {
+        const report = checkCompliance(metadata, preset);
+        const { className, icon: Icon } = STATUS_STYLES[report.status];
+        const details = report.checks.map(check => `${check.status.toUpperCase()}: ${check.message}`).join('\n');
+        return (
+          <span
+            key={preset.id}
+            className={`inline-flex items-center gap-1 px-1.5 py-0.5 text-xs font-medium border rounded ${className}`}
+            title={`${report.presetName}\n${details}`}
+          >
+            <Icon className="w-3 h-3" />
+            {report.presetName}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import React, { useState } from "react";
+import { AlertCircle, Braces } from "lucide-react";
+import { ComplianceSettings, CompliancePreset } from "@/types/video-analysis";
+import { DEFAULT_COMPLIANCE_PRESETS, validateCompliancePresets } from "@/lib/utils/compliance";
+
+interface CompliancePresetsEditorProps {
+  settings: ComplianceSettings;
+  onChange: (settings: ComplianceSettings) => void;
+  disabled?: boolean;
+}
+
+const formatPresets = (presets: CompliancePreset[]) => JSON.stringify(presets, null, 2);
+
+export default function CompliancePresetsEditor({ settings, onChange, disabled = false }: CompliancePresetsEditorProps) {
+  const [draft, setDraft] = useState<string | null>(null); // JSON being edited
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const togglePreset = (id: string, enabled: boolean) => {
+    onChange({
+      ...settings,
+      enabledPresetIds: enabled
+        ? [...settings.enabledPresetIds, id]
+        : settings.enabledPresetIds.filter(presetId => presetId !== id),
+    });
+  };
+
+  const updatePresets = (presets: CompliancePreset[]) => {
+    const ids = presets.map(preset => preset.id);
+    onChange({ presets, enabledPresetIds: settings.enabledPresetIds.filter(id => ids.includes(id)) });
+  };
+
+  const applyDraft = () => {
+    if (draft === null) return;
+    let presets: unknown;
+    try {
+      presets = JSON.parse(draft);
+    } catch (error) {
+      setErrors([`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`]);
+      return;
+    }
+    const problems = validateCompliancePresets(presets);
+    setErrors(problems);
+    if (problems.length > 0) return;
+    updatePresets(presets as CompliancePreset[]);
+    setDraft(null);
+  };
+
+  const resetPresets = () => {
+    updatePresets(DEFAULT_COMPLIANCE_PRESETS);
+    setDraft(null);
+    setErrors([]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <span className="block text-sm font-medium text-gray-700">Platform compliance</span>
+        <span className="block text-xs text-gray-500">
+          Check each video&apos;s aspect ratio, resolution, duration, file size, codec and audio against ad platform specs
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-x-6 gap-y-2">
+        {settings.presets.map(preset => (
+          <label key={preset.id} className="flex items-center">
+            <input
+              type="checkbox"
+              checked={settings.enabledPresetIds.includes(preset.id)}
+              onChange={(e) => togglePreset(preset.id, e.target.checked)}
+              disabled={disabled}
+              className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+            />
+            <span className="ml-2 text-sm text-gray-700">{preset.name}</span>
+          </label>
+        ))}
+      </div>
+
+      {draft === null ? (
+        <button
+          onClick={() => setDraft(formatPresets(settings.presets))}
+          disabled={disabled}
+          className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 font-medium disabled:text-gray-400 disabled:cursor-not-allowed"
+        >
+          <Braces className="w-4 h-4" />
+          Edit presets (JSON)
+        </button>
+      ) : (
+        <div className="space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={14}
+            spellCheck={false}
+            disabled={disabled}
+            className="w-full px-3 py-2 text-xs font-mono border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <p className="text-xs text-gray-500">
+            Ratios are written like &quot;9:16&quot;, sizes in pixels on the shorter edge, durations in seconds and file sizes in MB.
+            Values outside the accepted limits fail; the recommended ones only warn.
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={applyDraft}
+              disabled={disabled}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300"
+            >
+              Apply
+            </button>
+            <button
+              onClick={() => { setDraft(null); setErrors([]); }}
+              className="text-sm text-gray-500 hover:text-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={resetPresets}
+              disabled={disabled}
+              className="text-sm text-gray-500 hover:text-gray-700 disabled:text-gray-400"
+            >
+              Reset to defaults
+            </button>
+          </div>
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <div className="space-y-1">
+          {errors.map(error => (
+            <div key={error} className="flex items-center gap-2 text-red-600 text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
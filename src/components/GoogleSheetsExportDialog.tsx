@@ -0,0 +1,175 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { X, Sheet, AlertCircle } from 'lucide-react';
+import {
+  getLastSpreadsheetTarget,
+  parseSpreadsheetId,
+  SpreadsheetTarget,
+} from '@/lib/utils/googleSheetsExport';
+
+interface GoogleSheetsExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // null exports to a new spreadsheet
+  onExport: (target: SpreadsheetTarget | null) => void;
+  resultCount: number;
+}
+
+const DEFAULT_SHEET_TITLE = 'Analysis Results';
+
+export default function GoogleSheetsExportDialog({ isOpen, onClose, onExport, resultCount }: GoogleSheetsExportDialogProps) {
+  const [mode, setMode] = useState<'new' | 'existing'>('new');
+  const [spreadsheet, setSpreadsheet] = useState('');
+  const [sheetTitle, setSheetTitle] = useState(DEFAULT_SHEET_TITLE);
+  const [error, setError] = useState('');
+
+  // Start from the target used last in this session
+  useEffect(() => {
+    if (!isOpen) return;
+    const lastTarget = getLastSpreadsheetTarget();
+    setError('');
+    if (lastTarget) {
+      setMode('existing');
+      setSpreadsheet(lastTarget.spreadsheetId);
+      setSheetTitle(lastTarget.sheetTitle);
+    }
+  }, [isOpen]);
+
+  const handleExport = () => {
+    if (mode === 'new') {
+      onExport(null);
+      return;
+    }
+
+    const spreadsheetId = parseSpreadsheetId(spreadsheet);
+    if (!spreadsheetId) {
+      setError('Paste the spreadsheet URL or its ID');
+      return;
+    }
+    if (!sheetTitle.trim()) {
+      setError('Enter the name of the tab to update');
+      return;
+    }
+
+    onExport({ spreadsheetId, sheetTitle: sheetTitle.trim() });
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-emerald-100 rounded-lg">
+              <Sheet className="w-6 h-6 text-emerald-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Export to Google Sheets</h2>
+              <p className="text-sm text-gray-500">{resultCount} result{resultCount === 1 ? '' : 's'}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="radio"
+              checked={mode === 'new'}
+              onChange={() => setMode('new')}
+              className="mt-1"
+            />
+            <span>
+              <span className="block font-medium text-gray-900">Create a new spreadsheet</span>
+              <span className="block text-sm text-gray-500">A fresh spreadsheet for this export</span>
+            </span>
+          </label>
+
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="radio"
+              checked={mode === 'existing'}
+              onChange={() => setMode('existing')}
+              className="mt-1"
+            />
+            <span>
+              <span className="block font-medium text-gray-900">Update an existing spreadsheet</span>
+              <span className="block text-sm text-gray-500">
+                Rows of videos already in the tab are updated, new videos are added, and missing columns are created
+              </span>
+            </span>
+          </label>
+
+          {mode === 'existing' && (
+            <div className="space-y-3 pl-7">
+              <div>
+                <label htmlFor="sheetsTarget" className="block text-sm font-medium text-gray-700 mb-1">
+                  Spreadsheet URL or ID
+                </label>
+                <input
+                  id="sheetsTarget"
+                  type="text"
+                  value={spreadsheet}
+                  onChange={(e) => {
+                    setSpreadsheet(e.target.value);
+                    setError('');
+                  }}
+                  placeholder="https://docs.google.com/spreadsheets/d/..."
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label htmlFor="sheetsTab" className="block text-sm font-medium text-gray-700 mb-1">
+                  Tab
+                </label>
+                <input
+                  id="sheetsTab"
+                  type="text"
+                  value={sheetTitle}
+                  onChange={(e) => {
+                    setSheetTitle(e.target.value);
+                    setError('');
+                  }}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                />
+                <p className="mt-1 text-xs text-gray-500">Created if the spreadsheet doesn&apos;t have it yet</p>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center gap-2 text-red-600 text-sm">
+              <AlertCircle className="w-4 h-4" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex items-center justify-end gap-3 pt-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleExport}
+              className="px-4 py-2 text-sm bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors font-medium"
+            >
+              Export
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
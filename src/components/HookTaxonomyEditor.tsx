@@ -0,0 +1,115 @@
+import React, { useState } from "react";
+import { Plus, X, AlertCircle } from "lucide-react";
+import { HookTaxonomy } from "@/types/video-analysis";
+import {
+  DEFAULT_HOOK_CATEGORIES,
+  MAX_HOOK_CATEGORIES,
+  validateHookCategories,
+} from "@/lib/utils/analysisFields";
+
+interface HookTaxonomyEditorProps {
+  taxonomy: HookTaxonomy;
+  onChange: (taxonomy: HookTaxonomy) => void;
+  disabled?: boolean;
+}
+
+export default function HookTaxonomyEditor({ taxonomy, onChange, disabled = false }: HookTaxonomyEditorProps) {
+  const [newCategory, setNewCategory] = useState('');
+  const [error, setError] = useState('');
+
+  const updateCategories = (categories: string[]) => {
+    const errors = validateHookCategories(categories);
+    if (errors.length > 0) {
+      setError(errors.join('; '));
+      return false;
+    }
+    setError('');
+    onChange({ ...taxonomy, categories });
+    return true;
+  };
+
+  const addCategory = () => {
+    const category = newCategory.trim();
+    if (!category) return;
+    if (updateCategories([...taxonomy.categories, category])) {
+      setNewCategory('');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-start">
+        <input
+          type="checkbox"
+          checked={taxonomy.enabled}
+          onChange={(e) => onChange({ ...taxonomy, enabled: e.target.checked })}
+          disabled={disabled}
+          className="w-4 h-4 mt-0.5 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+        />
+        <span className="ml-3">
+          <span className="block text-sm font-medium text-gray-700">Classify hooks</span>
+          <span className="block text-xs text-gray-500">
+            Sort each visual, text and voice hook into one of these categories, with a confidence score (two more fields per hook in each analysis)
+          </span>
+        </span>
+      </label>
+
+      {taxonomy.enabled && (
+        <div className="pl-7 space-y-3">
+          <div className="flex flex-wrap gap-2">
+            {taxonomy.categories.map(category => (
+              <span
+                key={category}
+                className="inline-flex items-center gap-1 px-2.5 py-1 text-xs font-medium bg-purple-50 text-purple-800 border border-purple-200 rounded-full"
+              >
+                {category}
+                <button
+                  onClick={() => updateCategories(taxonomy.categories.filter(c => c !== category))}
+                  disabled={disabled}
+                  className="text-purple-400 hover:text-purple-700 disabled:opacity-50"
+                  title={`Remove ${category}`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={newCategory}
+              onChange={(e) => setNewCategory(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addCategory()}
+              placeholder="e.g. Social proof"
+              disabled={disabled || taxonomy.categories.length >= MAX_HOOK_CATEGORIES}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              onClick={addCategory}
+              disabled={disabled || !newCategory.trim()}
+              className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 font-medium disabled:text-gray-400 disabled:cursor-not-allowed"
+            >
+              <Plus className="w-4 h-4" />
+              Add category
+            </button>
+            <button
+              onClick={() => updateCategories(DEFAULT_HOOK_CATEGORIES)}
+              disabled={disabled}
+              className="text-sm text-gray-500 hover:text-gray-700 disabled:text-gray-400"
+            >
+              Reset to defaults
+            </button>
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 text-red-600 text-sm">
+              <AlertCircle className="w-4 h-4" />
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import React from "react";
+import { Timer } from "lucide-react";
+import { HookWindow } from "@/types/video-analysis";
+import { MAX_HOOK_WINDOW_SECONDS, MIN_HOOK_WINDOW_SECONDS } from "@/lib/utils/analysisFields";
+
+interface HookWindowEditorProps {
+  hookWindow: HookWindow;
+  onChange: (hookWindow: HookWindow) => void;
+  disabled?: boolean;
+}
+
+export default function HookWindowEditor({ hookWindow, onChange, disabled = false }: HookWindowEditorProps) {
+  const updateSeconds = (value: string) => {
+    const seconds = Number(value);
+    if (!Number.isFinite(seconds)) return;
+    onChange({
+      ...hookWindow,
+      seconds: Math.min(MAX_HOOK_WINDOW_SECONDS, Math.max(MIN_HOOK_WINDOW_SECONDS, seconds)),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-start">
+        <input
+          type="checkbox"
+          checked={hookWindow.enabled}
+          onChange={(e) => onChange({ ...hookWindow, enabled: e.target.checked })}
+          disabled={disabled}
+          className="w-4 h-4 mt-0.5 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+        />
+        <span className="ml-3">
+          <span className="block text-sm font-medium text-gray-700">Hook-window mode</span>
+          <span className="block text-xs text-gray-500">
+            Analyze only the opening seconds of each video for the visual, text and voice hooks and the opening script.
+            Faster and cheaper; pain point and custom fields are skipped.
+          </span>
+        </span>
+      </label>
+
+      {hookWindow.enabled && (
+        <div className="pl-7 flex items-center gap-2">
+          <Timer className="w-4 h-4 text-gray-400" />
+          <label htmlFor="hook-window-seconds" className="text-sm text-gray-700">First</label>
+          <input
+            id="hook-window-seconds"
+            type="number"
+            min={MIN_HOOK_WINDOW_SECONDS}
+            max={MAX_HOOK_WINDOW_SECONDS}
+            step={1}
+            value={hookWindow.seconds}
+            onChange={(e) => updateSeconds(e.target.value)}
+            disabled={disabled}
+            className="w-20 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <span className="text-sm text-gray-700">seconds</span>
+        </div>
+      )}
+    </div>
+  );
+}
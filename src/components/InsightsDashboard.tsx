@@ -0,0 +1,210 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Lightbulb, FileText, Download } from 'lucide-react';
+import { VideoAnalysisResult } from '@/types/video-analysis';
+import {
+  exportInsightsReport,
+  generateBatchInsights,
+  getOutcomeFields,
+  PhraseCount,
+} from '@/lib/utils/insightsUtils';
+
+interface InsightsDashboardProps {
+  results: VideoAnalysisResult[];
+}
+
+interface BarProps {
+  label: string;
+  detail?: string;
+  value: number;
+  max: number;
+  valueLabel: string;
+  color: string;
+}
+
+function Bar({ label, detail, value, max, valueLabel, color }: BarProps) {
+  const width = max > 0 ? Math.max((value / max) * 100, 2) : 0;
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between gap-3 text-sm">
+        <span className="font-medium text-gray-800 truncate" title={label}>{label}</span>
+        <span className="text-gray-500 flex-shrink-0">{valueLabel}</span>
+      </div>
+      <div className="mt-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+        <div className={`h-full rounded-full ${color}`} style={{ width: `${width}%` }} />
+      </div>
+      {detail && <p className="mt-1 text-xs text-gray-500 line-clamp-2">{detail}</p>}
+    </div>
+  );
+}
+
+function Panel({ title, subtitle, children }: { title: string; subtitle?: string; children: React.ReactNode }) {
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <h3 className="font-semibold text-gray-900">{title}</h3>
+      {subtitle && <p className="text-xs text-gray-500 mt-0.5">{subtitle}</p>}
+      <div className="mt-4 space-y-3">{children}</div>
+    </div>
+  );
+}
+
+function EmptyPanel() {
+  return <p className="text-sm text-gray-400">Not enough data yet</p>;
+}
+
+function PhraseBars({ phrases, color }: { phrases: PhraseCount[]; color: string }) {
+  if (phrases.length === 0) return <EmptyPanel />;
+  const max = phrases[0].videos;
+
+  return (
+    <>
+      {phrases.slice(0, 8).map(phrase => (
+        <Bar
+          key={phrase.phrase}
+          label={phrase.phrase}
+          value={phrase.videos}
+          max={max}
+          valueLabel={`${phrase.videos} video${phrase.videos === 1 ? '' : 's'}`}
+          color={color}
+        />
+      ))}
+    </>
+  );
+}
+
+export default function InsightsDashboard({ results }: InsightsDashboardProps) {
+  const outcomeFields = useMemo(() => getOutcomeFields(results), [results]);
+  const [outcomeKey, setOutcomeKey] = useState('status');
+
+  const outcomeField = outcomeFields.find(field => field.key === outcomeKey) || outcomeFields[0];
+  const insights = useMemo(() => generateBatchInsights(results, outcomeField), [results, outcomeField]);
+
+  if (insights.analyzedCount === 0) {
+    return (
+      <div className="text-center py-12">
+        <Lightbulb className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+        <p className="text-gray-500">Insights appear once at least one video has been analyzed</p>
+      </div>
+    );
+  }
+
+  const { summary } = insights;
+  const maxCluster = insights.painPointClusters[0]?.count || 0;
+  const maxHookType = Math.max(0, ...insights.hookTypes.map(hook => hook.textHooks + hook.voiceHooks));
+  const maxDuration = Math.max(0, ...insights.durationByOutcome.map(group => group.averageDuration || 0));
+
+  return (
+    <div className="space-y-6">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm">
+          <label htmlFor="insightsOutcome" className="text-gray-600">Group outcomes by</label>
+          <select
+            id="insightsOutcome"
+            value={outcomeField.key}
+            onChange={(e) => setOutcomeKey(e.target.value)}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {outcomeFields.map(field => (
+              <option key={field.key} value={field.key}>{field.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => exportInsightsReport(insights, 'md')}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <FileText className="w-4 h-4" />
+            Report (.md)
+          </button>
+          <button
+            onClick={() => exportInsightsReport(insights, 'json')}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            JSON
+          </button>
+        </div>
+      </div>
+
+      {/* Overview */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Videos', value: summary.totalVideos },
+          { label: 'Analyzed', value: insights.analyzedCount },
+          { label: 'Failed', value: summary.errorCount },
+          { label: 'Pain point clusters', value: insights.painPointClusters.length },
+        ].map(card => (
+          <div key={card.label} className="bg-gray-50 rounded-lg p-4">
+            <p className="text-xs text-gray-500">{card.label}</p>
+            <p className="text-2xl font-bold text-gray-900">{card.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <Panel title="Pain point clusters" subtitle="Similar pain points grouped together">
+          {insights.painPointClusters.length === 0 ? <EmptyPanel /> : insights.painPointClusters.slice(0, 8).map(cluster => (
+            <Bar
+              key={cluster.label}
+              label={cluster.label}
+              detail={cluster.representative}
+              value={cluster.count}
+              max={maxCluster}
+              valueLabel={`${cluster.count} (${Math.round(cluster.share * 100)}%)`}
+              color="bg-red-400"
+            />
+          ))}
+        </Panel>
+
+        <Panel title="Hook types" subtitle="Hook taxonomy categories where classified; text hooks (dark) and voice hooks (light)">
+          {insights.hookTypes.length === 0 ? <EmptyPanel /> : insights.hookTypes.map(hook => (
+            <div key={hook.type}>
+              <div className="flex items-baseline justify-between gap-3 text-sm">
+                <span className="font-medium text-gray-800">{hook.type}</span>
+                <span className="text-gray-500">{hook.textHooks} text · {hook.voiceHooks} voice</span>
+              </div>
+              <div className="mt-1 h-2 bg-gray-100 rounded-full overflow-hidden flex">
+                <div className="h-full bg-purple-500" style={{ width: `${(hook.textHooks / maxHookType) * 100}%` }} />
+                <div className="h-full bg-purple-300" style={{ width: `${(hook.voiceHooks / maxHookType) * 100}%` }} />
+              </div>
+            </div>
+          ))}
+        </Panel>
+
+        <Panel title="Recurring text hook phrases" subtitle="Phrases used in the on-screen hooks of several videos">
+          <PhraseBars phrases={insights.textHookPhrases} color="bg-blue-400" />
+        </Panel>
+
+        <Panel title="Transcript keywords" subtitle="Words most videos say">
+          <PhraseBars phrases={insights.transcriptKeywords} color="bg-green-400" />
+        </Panel>
+
+        <Panel title="Transcript phrases" subtitle="Phrases repeated across video scripts">
+          <PhraseBars phrases={insights.transcriptPhrases} color="bg-teal-400" />
+        </Panel>
+
+        <Panel
+          title={`Average length by ${outcomeField.label.toLowerCase()}`}
+          subtitle="Length of the video file, or the last script timestamp for results without file metadata"
+        >
+          {insights.durationByOutcome.length === 0 ? <EmptyPanel /> : insights.durationByOutcome.map(group => (
+            <Bar
+              key={group.outcome}
+              label={group.outcome}
+              value={group.averageDuration || 0}
+              max={maxDuration}
+              valueLabel={group.averageDuration === null
+                ? `length unknown (${group.videos})`
+                : `${group.averageDuration.toFixed(1)}s (${group.measured} of ${group.videos})`}
+              color="bg-amber-400"
+            />
+          ))}
+        </Panel>
+      </div>
+    </div>
+  );
+}
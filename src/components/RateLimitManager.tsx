@@ -10,17 +10,17 @@ import {
   XCircle,
   Timer,
   BarChart3,
-  Zap
+  Zap,
+  Layers
 } from "lucide-react";
-import { RateLimitManagerProps } from "@/types/video-analysis";
+import { useAnalysisQueue } from "@/lib/hooks/useAnalysisQueue";
 
-export default function RateLimitManager({
-  queueStatus,
-  rateLimitInfo,
-  onPause,
-  onResume,
-  onStop,
-}: RateLimitManagerProps) {
+export default function RateLimitManager() {
+  const { status: queueStatus, rateLimitInfo, concurrency, throughputPerMinute, queue } = useAnalysisQueue();
+
+  const onPause = () => queue?.pauseProcessing();
+  const onResume = () => queue?.resumeProcessing();
+  const onStop = () => queue?.stopProcessing();
   
   const formatTime = (seconds: number): string => {
     if (seconds < 60) {
@@ -111,7 +111,7 @@ export default function RateLimitManager({
   
   const getProcessingRate = (): string => {
     if (!queueStatus.isProcessing) return '0';
-    return `${rateLimitInfo.maxRequestsPerMinute}/min`;
+    return `${throughputPerMinute.toFixed(1)}/min`;
   };
 
   return (
@@ -136,7 +136,7 @@ export default function RateLimitManager({
       </div>
 
       {/* Enhanced Queue Statistics for Large Batches */}
-      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
         {/* Total in Queue */}
         <div className="text-center p-3 bg-gray-50 rounded-lg">
           <div className="text-2xl font-bold text-gray-900">{queueStatus.totalInQueue}</div>
@@ -174,6 +174,13 @@ export default function RateLimitManager({
           <div className="text-sm text-purple-600 font-medium">Rate</div>
           <div className="text-xs text-purple-500 mt-1">videos/min</div>
         </div>
+
+        {/* Concurrency */}
+        <div className="text-center p-3 bg-indigo-50 rounded-lg">
+          <div className="text-2xl font-bold text-indigo-600">{concurrency.current}</div>
+          <div className="text-sm text-indigo-600 font-medium">Concurrency</div>
+          <div className="text-xs text-indigo-500 mt-1">{concurrency.inFlight} active, max {concurrency.max}</div>
+        </div>
       </div>
 
       {/* Progress Bars */}
@@ -332,9 +339,14 @@ export default function RateLimitManager({
         <div className="bg-blue-50 rounded-lg p-3">
           <div className="flex items-center gap-2 text-sm text-blue-700">
             <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse" />
+            <Layers className="w-4 h-4" />
             <span>
-              Processing videos at maximum rate (1 every {60 / rateLimitInfo.maxRequestsPerMinute} seconds)
+              {concurrency.inFlight} of {concurrency.current} worker{concurrency.current > 1 ? 's' : ''} busy,
+              starting at most 1 request every {Math.max(1, 60 / rateLimitInfo.maxRequestsPerMinute)} seconds
             </span>
+            {concurrency.current < concurrency.max && (
+              <span className="text-blue-500">(scaling up to {concurrency.max} while requests succeed)</span>
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,186 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import { X, FileUp, AlertCircle, AlertTriangle } from 'lucide-react';
+import {
+  AnalysisFieldDefinition,
+  ImportConflictStrategy,
+  VideoAnalysisResult,
+} from '@/types/video-analysis';
+import type { ParsedImport } from '@/lib/utils/importUtils';
+
+interface ResultsImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentResults: VideoAnalysisResult[];
+  knownFields: AnalysisFieldDefinition[]; // maps CSV custom columns back to field keys and types
+  onImport: (results: VideoAnalysisResult[]) => void;
+}
+
+const CONFLICT_OPTIONS: Array<{ strategy: ImportConflictStrategy; label: string; description: string }> = [
+  { strategy: 'skip', label: 'Keep current', description: 'Ignore rows for videos already in this session' },
+  { strategy: 'replace', label: 'Replace', description: 'Overwrite the session results with the imported ones' },
+  { strategy: 'keepBoth', label: 'Keep both', description: 'Add the imported rows as separate results' },
+];
+
+export default function ResultsImportDialog({
+  isOpen,
+  onClose,
+  currentResults,
+  knownFields,
+  onImport,
+}: ResultsImportDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [conflicts, setConflicts] = useState(0);
+  const [strategy, setStrategy] = useState<ImportConflictStrategy>('skip');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFileName('');
+    setParsed(null);
+    setConflicts(0);
+    setError('');
+  }, [isOpen]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // allow picking the same file again
+    if (!file) return;
+
+    setFileName(file.name);
+    setParsed(null);
+    setError('');
+    try {
+      const { parseResultsFile, countImportConflicts } = await import('@/lib/utils/importUtils');
+      const result = await parseResultsFile(file, knownFields);
+      setParsed(result);
+      setConflicts(countImportConflicts(currentResults, result.results));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!parsed) return;
+    const { mergeImportedResults } = await import('@/lib/utils/importUtils');
+    const { results, added, replaced, skipped } = mergeImportedResults(currentResults, parsed.results, strategy);
+    onImport(results);
+    onClose();
+    alert(`Imported ${parsed.results.length} result(s): ${added} added, ${replaced} replaced, ${skipped} skipped.`);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-100 rounded-lg">
+              <FileUp className="w-6 h-6 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Import Results</h2>
+              <p className="text-sm text-gray-500">Load a CSV or JSON export back into this session</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full px-4 py-3 border-2 border-dashed border-gray-300 rounded-lg text-sm text-gray-600 hover:border-blue-400 hover:text-blue-600 transition-colors"
+            >
+              {fileName || 'Choose an exported .csv or .json file'}
+            </button>
+          </div>
+
+          {error && (
+            <div className="flex items-start gap-2 text-red-600 text-sm">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {parsed && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-700">
+                {parsed.results.length} result(s) in {parsed.format.toUpperCase()} format
+                {parsed.version ? ` (export version ${parsed.version})` : ''}.
+              </p>
+
+              {parsed.warnings.length > 0 && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-1">
+                  {parsed.warnings.map(warning => (
+                    <div key={warning} className="flex items-start gap-2 text-sm text-amber-800">
+                      <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                      <span>{warning}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {conflicts > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-gray-900">
+                    {conflicts} result(s) are already in this session:
+                  </p>
+                  {CONFLICT_OPTIONS.map(option => (
+                    <label key={option.strategy} className="flex items-start gap-3 cursor-pointer">
+                      <input
+                        type="radio"
+                        checked={strategy === option.strategy}
+                        onChange={() => setStrategy(option.strategy)}
+                        className="mt-1"
+                      />
+                      <span>
+                        <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                        <span className="block text-xs text-gray-500">{option.description}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex items-center justify-end gap-3 pt-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={!parsed}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              Import
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
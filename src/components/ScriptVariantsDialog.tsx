@@ -0,0 +1,268 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { X, Sparkles, AlertCircle, Download, Trash2, Loader2 } from 'lucide-react';
+import {
+  ScriptVariant,
+  ScriptVariantsApiResponse,
+  ScriptVariantsRequest,
+  VideoAnalysisResult,
+} from '@/types/video-analysis';
+import { getProviderInfo } from '@/lib/providers/catalog';
+import type { ScriptVariantsFormat } from '@/lib/utils/exportUtils';
+
+interface ScriptVariantsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  result: VideoAnalysisResult;
+  variantOptions: Pick<ScriptVariantsRequest, 'provider' | 'model' | 'apiKey'>;
+  onChange: (variants: ScriptVariant[]) => void;
+}
+
+// The last brief is kept so the next video starts from it
+const BRIEF_STORAGE_KEY = 'video-analysis-variant-brief';
+
+// Mirrors MAX_SCRIPT_VARIANTS in lib/variants/scriptVariants (server-only module)
+const VARIANT_COUNTS = [1, 2, 3, 4, 5];
+
+function generateVariantId(): string {
+  return `variant_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export default function ScriptVariantsDialog({
+  isOpen,
+  onClose,
+  result,
+  variantOptions,
+  onChange,
+}: ScriptVariantsDialogProps) {
+  const [brief, setBrief] = useState('');
+  const [count, setCount] = useState(3);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState('');
+  const variants = result.variants || [];
+  const providerLabel = getProviderInfo(variantOptions.provider)?.label || variantOptions.provider;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setBrief(localStorage.getItem(BRIEF_STORAGE_KEY) || '');
+    setError('');
+  }, [isOpen]);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError('');
+    localStorage.setItem(BRIEF_STORAGE_KEY, brief);
+
+    try {
+      const request: ScriptVariantsRequest = {
+        source: {
+          filename: result.filename,
+          visualHook: result.visualHook,
+          textHook: result.textHook,
+          voiceHook: result.voiceHook,
+          videoScript: result.videoScript,
+          painPoint: result.painPoint,
+        },
+        brief,
+        count,
+        ...variantOptions,
+      };
+      const response = await fetch('/api/variants', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      const data: ScriptVariantsApiResponse = await response.json();
+      if (!data.success || !data.data) {
+        throw new Error(data.error?.message || 'Failed to generate script variants');
+      }
+
+      const createdAt = new Date();
+      onChange([
+        ...variants,
+        ...data.data.variants.map(draft => ({
+          ...draft,
+          id: generateVariantId(),
+          brief,
+          provider: variantOptions.provider,
+          model: variantOptions.model,
+          createdAt,
+        })),
+      ]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate script variants');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const updateVariant = (id: string, changes: Partial<Pick<ScriptVariant, 'textHook' | 'voiceHook' | 'script'>>) => {
+    onChange(variants.map(variant => variant.id === id ? { ...variant, ...changes, edited: true } : variant));
+  };
+
+  const handleExport = async (format: ScriptVariantsFormat) => {
+    try {
+      const { exportScriptVariants } = await import('@/lib/utils/exportUtils');
+      exportScriptVariants(result, format);
+    } catch (err) {
+      console.error('Script variant export failed:', err);
+      alert(err instanceof Error ? err.message : 'Failed to export script variants');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-purple-100 rounded-lg">
+              <Sparkles className="w-6 h-6 text-purple-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Script Variants</h2>
+              <p className="text-sm text-gray-500 truncate max-w-md" title={result.filename}>
+                New hooks and scripts based on {result.filename}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Brand brief</label>
+            <textarea
+              value={brief}
+              onChange={(e) => setBrief(e.target.value)}
+              rows={4}
+              placeholder="Product, audience, tone of voice, claims you can make, words to avoid..."
+              disabled={isGenerating}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-gray-700">Variants</label>
+              <select
+                value={count}
+                onChange={(e) => setCount(Number(e.target.value))}
+                disabled={isGenerating}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+              >
+                {VARIANT_COUNTS.map(value => (
+                  <option key={value} value={value}>{value}</option>
+                ))}
+              </select>
+              <span className="text-xs text-gray-500">
+                using {providerLabel} ({variantOptions.model}) from the analysis configuration
+              </span>
+            </div>
+            <button
+              onClick={handleGenerate}
+              disabled={isGenerating || !brief.trim()}
+              className="flex items-center gap-2 px-4 py-2 text-sm bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors font-medium disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+              {isGenerating ? 'Generating...' : 'Generate variants'}
+            </button>
+          </div>
+
+          {error && (
+            <div className="flex items-start gap-2 text-red-600 text-sm">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {variants.length > 0 && (
+            <div className="space-y-4 pt-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium text-gray-900">{variants.length} saved variant(s)</h3>
+                <div className="flex items-center gap-2">
+                  {(['md', 'csv'] as ScriptVariantsFormat[]).map(format => (
+                    <button
+                      key={format}
+                      onClick={() => handleExport(format)}
+                      className="flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                    >
+                      <Download className="w-4 h-4" />
+                      .{format}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {variants.map((variant, index) => (
+                <div key={variant.id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-semibold text-gray-900">
+                      Variant {index + 1}
+                      {variant.edited && <span className="ml-2 text-xs font-normal text-gray-500">edited</span>}
+                    </span>
+                    <button
+                      onClick={() => onChange(variants.filter(v => v.id !== variant.id))}
+                      className="text-red-600 hover:text-red-900 p-1 rounded"
+                      title="Delete variant"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-500 mb-1">Text hook</label>
+                      <input
+                        type="text"
+                        value={variant.textHook}
+                        onChange={(e) => updateVariant(variant.id, { textHook: e.target.value })}
+                        className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-500 mb-1">Voice hook</label>
+                      <input
+                        type="text"
+                        value={variant.voiceHook}
+                        onChange={(e) => updateVariant(variant.id, { voiceHook: e.target.value })}
+                        className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-500 mb-1">Script</label>
+                    <textarea
+                      value={variant.script}
+                      onChange={(e) => updateVariant(variant.id, { script: e.target.value })}
+                      rows={5}
+                      className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex items-center justify-end gap-3 pt-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Image from 'next/image';
+import { X, Clapperboard, AlertCircle, Loader2, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
+import {
+  Storyboard,
+  StoryboardApiResponse,
+  StoryboardAspectRatio,
+  StoryboardOptions,
+  StoryboardRequest,
+  VideoAnalysisResult,
+} from '@/types/video-analysis';
+import {
+  DEFAULT_STORYBOARD_OPTIONS,
+  MAX_STORYBOARD_FRAMES,
+  STORYBOARD_ASPECT_RATIOS,
+} from '@/lib/storyboard/storyboardPrompts';
+import { downscaleStoryboard } from '@/lib/storyboard/storyboardImages';
+import { formatDuration } from '@/lib/utils/videoUtils';
+
+interface StoryboardDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  result: VideoAnalysisResult;
+  onChange: (storyboard: Storyboard | undefined) => void;
+}
+
+// Generation settings are shared by all videos and kept between sessions
+const OPTIONS_STORAGE_KEY = 'video-analysis-storyboard-options';
+
+const ASPECT_RATIO_CLASSES: Record<StoryboardAspectRatio, string> = {
+  '9:16': 'aspect-[9/16]',
+  '1:1': 'aspect-square',
+  '4:5': 'aspect-[4/5]',
+  '16:9': 'aspect-video',
+};
+
+function loadOptions(): StoryboardOptions {
+  try {
+    const saved = localStorage.getItem(OPTIONS_STORAGE_KEY);
+    return saved ? { ...DEFAULT_STORYBOARD_OPTIONS, ...JSON.parse(saved) } : DEFAULT_STORYBOARD_OPTIONS;
+  } catch {
+    return DEFAULT_STORYBOARD_OPTIONS;
+  }
+}
+
+export default function StoryboardDialog({ isOpen, onClose, result, onChange }: StoryboardDialogProps) {
+  const [options, setOptions] = useState<StoryboardOptions>(DEFAULT_STORYBOARD_OPTIONS);
+  const [parametersText, setParametersText] = useState('');
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState('');
+  const storyboard = result.storyboard;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const saved = loadOptions();
+    setOptions(saved);
+    setParametersText(JSON.stringify(saved.parameters, null, 2));
+    setError('');
+  }, [isOpen]);
+
+  const updateOptions = (changes: Partial<StoryboardOptions>) => {
+    setOptions(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleGenerate = async () => {
+    let parameters: Record<string, unknown>;
+    try {
+      parameters = parametersText.trim() ? JSON.parse(parametersText) : {};
+      if (!parameters || typeof parameters !== 'object' || Array.isArray(parameters)) throw new Error();
+    } catch {
+      setError('Model parameters must be a JSON object');
+      return;
+    }
+
+    const requestOptions = { ...options, parameters };
+    localStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify(requestOptions));
+    setIsGenerating(true);
+    setError('');
+
+    try {
+      const request: StoryboardRequest = {
+        source: {
+          filename: result.filename,
+          visualHook: result.visualHook,
+          videoScript: result.videoScript,
+          painPoint: result.painPoint,
+        },
+        options: requestOptions,
+      };
+      const response = await fetch('/api/storyboard', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      const data: StoryboardApiResponse = await response.json();
+      if (!data.success || !data.data) {
+        throw new Error(data.error?.message || 'Failed to generate the storyboard');
+      }
+      // Full-size frames would quickly fill the browser storage of the session
+      onChange(await downscaleStoryboard(data.data));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate the storyboard');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-amber-100 rounded-lg">
+              <Clapperboard className="w-6 h-6 text-amber-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Storyboard</h2>
+              <p className="text-sm text-gray-500 truncate max-w-md" title={result.filename}>
+                Concept frames from the visual hook and script of {result.filename}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-3">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Replicate model</label>
+              <input
+                type="text"
+                value={options.model}
+                onChange={(e) => updateOptions({ model: e.target.value })}
+                placeholder={DEFAULT_STORYBOARD_OPTIONS.model}
+                disabled={isGenerating}
+                className="w-full px-3 py-2 text-sm font-mono border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Aspect ratio</label>
+              <select
+                value={options.aspectRatio}
+                onChange={(e) => updateOptions({ aspectRatio: e.target.value as StoryboardAspectRatio })}
+                disabled={isGenerating}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+              >
+                {STORYBOARD_ASPECT_RATIOS.map(ratio => (
+                  <option key={ratio} value={ratio}>{ratio}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Frames</label>
+              <select
+                value={options.frameCount}
+                onChange={(e) => updateOptions({ frameCount: Number(e.target.value) })}
+                disabled={isGenerating}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+              >
+                {Array.from({ length: MAX_STORYBOARD_FRAMES }, (_, i) => i + 1).map(count => (
+                  <option key={count} value={count}>{count}</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 md:pt-6">
+              <input
+                type="checkbox"
+                checked={options.includeScriptBeats}
+                onChange={(e) => updateOptions({ includeScriptBeats: e.target.checked })}
+                disabled={isGenerating}
+                className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-700">Include script beats</span>
+            </label>
+            <div className="md:col-span-3">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Style</label>
+              <input
+                type="text"
+                value={options.style}
+                onChange={(e) => updateOptions({ style: e.target.value })}
+                disabled={isGenerating}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div>
+            <button
+              onClick={() => setShowAdvanced(!showAdvanced)}
+              className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+            >
+              {showAdvanced ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              Model parameters
+            </button>
+            {showAdvanced && (
+              <div className="mt-2 space-y-1">
+                <textarea
+                  value={parametersText}
+                  onChange={(e) => setParametersText(e.target.value)}
+                  rows={5}
+                  disabled={isGenerating}
+                  className="w-full px-3 py-2 text-xs font-mono border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-xs text-gray-500">
+                  Extra input for the model as JSON; prompt and aspect_ratio are always set from the options above.
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-end">
+            <button
+              onClick={handleGenerate}
+              disabled={isGenerating}
+              className="flex items-center gap-2 px-4 py-2 text-sm bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors font-medium disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Clapperboard className="w-4 h-4" />}
+              {isGenerating ? 'Generating frames...' : storyboard ? 'Regenerate storyboard' : 'Generate storyboard'}
+            </button>
+          </div>
+
+          {error && (
+            <div className="flex items-start gap-2 text-red-600 text-sm">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {storyboard && (
+            <div className="space-y-3 pt-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium text-gray-900">
+                  {storyboard.frames.length} frame(s)
+                  <span className="ml-2 text-xs font-normal text-gray-500">
+                    {storyboard.generator === 'placeholder' ? 'placeholder images' : storyboard.model}
+                  </span>
+                </h3>
+                <button
+                  onClick={() => onChange(undefined)}
+                  className="flex items-center gap-1 text-sm text-red-600 hover:text-red-800"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Remove storyboard
+                </button>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {storyboard.frames.map((frame, index) => (
+                  <figure key={frame.id} className="space-y-2">
+                    <div className={`relative ${ASPECT_RATIO_CLASSES[storyboard.aspectRatio] || 'aspect-[9/16]'} bg-gray-100 rounded-lg overflow-hidden`}>
+                      <Image src={frame.imageUrl} alt={frame.caption} fill unoptimized className="object-cover" />
+                    </div>
+                    <figcaption className="text-xs text-gray-600">
+                      <span className="font-medium text-gray-900">
+                        {index + 1}. {frame.source === 'visualHook' ? 'Visual hook' : formatDuration(frame.timestamp ?? 0)}
+                      </span>
+                      <span className="block line-clamp-3" title={frame.prompt}>{frame.caption}</span>
+                    </figcaption>
+                  </figure>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex items-center justify-end gap-3 pt-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -16,38 +16,77 @@ import {
   Eye,
   EyeOff,
   Sheet,
-  ExternalLink
+  ExternalLink,
+  Ban,
+  Captions,
+  FileSpreadsheet,
+  Sparkles,
+  Clapperboard,
+  Film
 } from "lucide-react";
-import { VideoAnalysisResult, VideoAnalysisTableProps } from "@/types/video-analysis";
+import Image from "next/image";
+import {
+  ExportFormat,
+  HookFieldKey,
+  SubtitleFormat,
+  VideoAnalysisResult,
+  VideoAnalysisTableProps,
+} from "@/types/video-analysis";
 import ClientOnly from "./ClientOnly";
+import GoogleSheetsExportDialog from "./GoogleSheetsExportDialog";
+import ScriptVariantsDialog from "./ScriptVariantsDialog";
+import StoryboardDialog from "./StoryboardDialog";
+import ComplianceBadges from "./ComplianceBadges";
 import { initializeGoogleAuth } from "@/lib/utils/googleSheetsAuth";
+import type { SpreadsheetTarget } from "@/lib/utils/googleSheetsExport";
+import type { ContactSheetExportFormat } from "@/lib/utils/exportUtils";
+import { formatAnalyzedWindow, formatFieldValue, HOOK_FIELD_KEYS } from "@/lib/utils/analysisFields";
+import { parseVideoScript } from "@/lib/utils/subtitleUtils";
+import { describeVideoMetadata, formatDuration } from "@/lib/utils/videoUtils";
 
 type SortField = 'filename' | 'status' | 'processingTime' | 'createdAt';
 type SortDirection = 'asc' | 'desc';
-type StatusFilter = 'all' | 'pending' | 'processing' | 'completed' | 'error';
+type StatusFilter = 'all' | 'pending' | 'processing' | 'completed' | 'error' | 'cancelled';
+
+// Failed and cancelled analyses can be queued again
+const isRetryable = (result: VideoAnalysisResult) => result.status === 'error' || result.status === 'cancelled';
+const isCancellable = (result: VideoAnalysisResult) => result.status === 'pending' || result.status === 'processing';
+
+// Categories any of the result's hooks were classified into
+const getHookCategories = (result: VideoAnalysisResult) =>
+  HOOK_FIELD_KEYS.map(key => result.hookCategories?.[key]?.category).filter((category): category is string => !!category);
 
 export default function VideoAnalysisTable({
   results,
   onRetry,
+  onCancel,
   onDelete,
   onExport,
   onRetryAllFailed,
   onDeleteSelected,
   onRetrySelected,
+  onSelectionChange,
+  onUpdateResult,
+  variantOptions,
+  compliancePresets = [],
   loading = false,
 }: VideoAnalysisTableProps) {
   const [sortField, setSortField] = useState<SortField>('createdAt');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
   const [searchTerm, setSearchTerm] = useState('');
+  const [hookCategoryFilter, setHookCategoryFilter] = useState<string | null>(null);
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
   const [selectedRows, setSelectedRows] = useState<Set<string>>(new Set());
+  const [variantsResultId, setVariantsResultId] = useState<string | null>(null);
+  const [storyboardResultId, setStoryboardResultId] = useState<string | null>(null);
   
   // Pagination for large datasets
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(50); // Start with 50 items per page
   
   // Google Sheets export state
+  const [isSheetsDialogOpen, setIsSheetsDialogOpen] = useState(false);
   const [isExportingToSheets, setIsExportingToSheets] = useState(false);
   const [sheetsExportStatus, setSheetsExportStatus] = useState<string>('');
   const [sheetsExportUrl, setSheetsExportUrl] = useState<string>('');
@@ -57,6 +96,22 @@ export default function VideoAnalysisTable({
     initializeGoogleAuth();
   }, []);
 
+  useEffect(() => {
+    onSelectionChange?.(Array.from(selectedRows));
+  }, [selectedRows, onSelectionChange]);
+
+  // Hook categories found in the results, most used first
+  const hookCategoryCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    results.forEach(result => {
+      new Set(getHookCategories(result)).forEach(category => {
+        counts.set(category, (counts.get(category) || 0) + 1);
+      });
+    });
+    return Array.from(counts, ([category, count]) => ({ category, count }))
+      .sort((a, b) => b.count - a.count || a.category.localeCompare(b.category));
+  }, [results]);
+
   // Filter and sort results with pagination
   const { filteredResults, paginatedResults, totalPages, totalFilteredCount } = useMemo(() => {
     let filtered = results.filter(result => {
@@ -70,6 +125,11 @@ export default function VideoAnalysisTable({
         return false;
       }
       
+      // Hook category filter
+      if (hookCategoryFilter && !getHookCategories(result).includes(hookCategoryFilter)) {
+        return false;
+      }
+      
       return true;
     });
     
@@ -113,12 +173,29 @@ export default function VideoAnalysisTable({
       totalPages,
       totalFilteredCount: filtered.length
     };
-  }, [results, sortField, sortDirection, statusFilter, searchTerm, currentPage, itemsPerPage]);
+  }, [results, sortField, sortDirection, statusFilter, searchTerm, hookCategoryFilter, currentPage, itemsPerPage]);
+
+  // Results whose script variants or storyboard dialog is open
+  const variantsResult = variantsResultId ? results.find(result => result.id === variantsResultId) : undefined;
+  const storyboardResult = storyboardResultId ? results.find(result => result.id === storyboardResultId) : undefined;
 
   // Reset to first page when filters change
   React.useEffect(() => {
     setCurrentPage(1);
-  }, [statusFilter, searchTerm, sortField, sortDirection]);
+  }, [statusFilter, searchTerm, hookCategoryFilter, sortField, sortDirection]);
+
+  const renderHookCategory = (result: VideoAnalysisResult, key: HookFieldKey) => {
+    const classification = result.hookCategories?.[key];
+    if (!classification) return null;
+    return (
+      <span
+        className="px-2 py-0.5 text-xs font-medium bg-purple-50 text-purple-800 border border-purple-200 rounded-full whitespace-nowrap"
+        title="Hook category and model confidence"
+      >
+        {classification.category} · {Math.round(classification.confidence * 100)}%
+      </span>
+    );
+  };
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -175,14 +252,50 @@ export default function VideoAnalysisTable({
     }
   };
 
-  const handleExport = (format: 'csv' | 'json') => {
+  const handleExport = (format: ExportFormat) => {
     const dataToExport = selectedRows.size > 0 
       ? results.filter(r => selectedRows.has(r.id))
       : filteredResults;
     onExport(format, dataToExport);
   };
   
-  const handleGoogleSheetsExport = async () => {
+  // Subtitles: one file per video, or a ZIP with both formats for the selection
+  const handleSubtitleExport = async (result: VideoAnalysisResult, format: SubtitleFormat) => {
+    try {
+      const { exportSubtitles } = await import('@/lib/utils/exportUtils');
+      exportSubtitles(result, format);
+    } catch (error) {
+      alert(`Subtitle export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleSubtitleZipExport = async () => {
+    try {
+      const { exportSubtitlesZip } = await import('@/lib/utils/exportUtils');
+      const { skipped } = exportSubtitlesZip(results.filter(r => selectedRows.has(r.id)));
+      if (skipped.length > 0) {
+        alert(`Skipped ${skipped.length} video(s) without timed speech: ${skipped.join(', ')}`);
+      }
+    } catch (error) {
+      alert(`Subtitle export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleContactSheetExport = async (format: ContactSheetExportFormat) => {
+    try {
+      const { exportContactSheets } = await import('@/lib/utils/exportUtils');
+      const { skipped } = exportContactSheets(results.filter(r => selectedRows.has(r.id)), format);
+      if (skipped.length > 0) {
+        alert(`Skipped ${skipped.length} video(s) without a contact sheet: ${skipped.join(', ')}`);
+      }
+    } catch (error) {
+      alert(`Contact sheet export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  // target: tab of an existing spreadsheet to upsert into, or null for a new spreadsheet
+  const handleGoogleSheetsExport = async (target: SpreadsheetTarget | null) => {
+    setIsSheetsDialogOpen(false);
     try {
       setIsExportingToSheets(true);
       setSheetsExportStatus('Preparing export...');
@@ -198,18 +311,24 @@ export default function VideoAnalysisTable({
       }
       
       // Dynamic import to avoid loading on initial page load
-      const { exportToGoogleSheetsWithProgress } = await import('@/lib/utils/exportUtils');
+      const { exportToGoogleSheetsWithProgress, upsertToGoogleSheetsWithProgress } = await import('@/lib/utils/exportUtils');
+      const onProgress = (progress: { stage: string; message: string }) => {
+        setSheetsExportStatus(progress.message);
+      };
       
-      const result = await exportToGoogleSheetsWithProgress(
-        dataToExport,
-        {},
-        (progress) => {
-          setSheetsExportStatus(progress.message);
-        }
-      );
+      let result: { success: boolean; spreadsheetUrl?: string; error?: string };
+      let successMessage = 'Export successful!';
+      if (target) {
+        const upsert = await upsertToGoogleSheetsWithProgress(dataToExport, target, {}, onProgress);
+        result = upsert;
+        successMessage = `Export successful! Updated ${upsert.updatedRows} row(s), added ${upsert.appendedRows} row(s)` +
+          (upsert.addedColumns?.length ? `, new columns: ${upsert.addedColumns.join(', ')}` : '');
+      } else {
+        result = await exportToGoogleSheetsWithProgress(dataToExport, {}, onProgress);
+      }
       
       if (result.success && result.spreadsheetUrl) {
-        setSheetsExportStatus('Export successful!');
+        setSheetsExportStatus(successMessage);
         setSheetsExportUrl(result.spreadsheetUrl);
         
         // Auto-open spreadsheet in new tab
@@ -241,6 +360,8 @@ export default function VideoAnalysisTable({
         return <Clock className="w-4 h-4 text-blue-500 animate-spin" />;
       case 'error':
         return <XCircle className="w-4 h-4 text-red-500" />;
+      case 'cancelled':
+        return <Ban className="w-4 h-4 text-gray-500" />;
       case 'pending':
       default:
         return <Clock className="w-4 h-4 text-gray-400" />;
@@ -256,6 +377,8 @@ export default function VideoAnalysisTable({
         return `${baseClasses} bg-blue-100 text-blue-700`;
       case 'error':
         return `${baseClasses} bg-red-100 text-red-700`;
+      case 'cancelled':
+        return `${baseClasses} bg-gray-200 text-gray-600`;
       case 'pending':
       default:
         return `${baseClasses} bg-gray-100 text-gray-700`;
@@ -336,6 +459,7 @@ export default function VideoAnalysisTable({
               <option value="processing">Processing</option>
               <option value="completed">Completed</option>
               <option value="error">Error</option>
+              <option value="cancelled">Cancelled</option>
             </select>
           </div>
         </div>
@@ -345,14 +469,14 @@ export default function VideoAnalysisTable({
           {/* Batch operations for selected items */}
           {selectedRows.size > 0 && (
             <>
-              {onRetrySelected && filteredResults.some(r => selectedRows.has(r.id) && r.status === 'error') && (
+              {onRetrySelected && filteredResults.some(r => selectedRows.has(r.id) && isRetryable(r)) && (
                 <button
                   onClick={() => onRetrySelected(Array.from(selectedRows))}
                   className="flex items-center gap-2 px-3 py-2 text-sm bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors shadow-sm font-medium"
                   disabled={loading}
                 >
                   <RefreshCw className="w-4 h-4" />
-                  Retry Selected ({Array.from(selectedRows).filter(id => filteredResults.find(r => r.id === id && r.status === 'error')).length})
+                  Retry Selected ({Array.from(selectedRows).filter(id => filteredResults.find(r => r.id === id && isRetryable(r))).length})
                 </button>
               )}
               {onDeleteSelected && (
@@ -370,6 +494,29 @@ export default function VideoAnalysisTable({
                   Delete Selected ({selectedRows.size})
                 </button>
               )}
+              <button
+                onClick={handleSubtitleZipExport}
+                className="flex items-center gap-2 px-3 py-2 text-sm bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors shadow-sm font-medium"
+                disabled={loading}
+                title="Download .srt and .vtt subtitles for the selected videos as a ZIP"
+              >
+                <Captions className="w-4 h-4" />
+                Subtitles ZIP ({selectedRows.size})
+              </button>
+              {results.some(r => selectedRows.has(r.id) && r.contactSheet) && (['pdf', 'zip'] as const).map(format => (
+                <button
+                  key={format}
+                  onClick={() => handleContactSheetExport(format)}
+                  className="flex items-center gap-2 px-3 py-2 text-sm bg-slate-600 text-white rounded-lg hover:bg-slate-700 transition-colors shadow-sm font-medium"
+                  disabled={loading}
+                  title={format === 'pdf'
+                    ? 'Download a PDF with the contact sheet and hooks of each selected video'
+                    : 'Download the contact sheets of the selected videos as JPEGs in a ZIP'}
+                >
+                  <Film className="w-4 h-4" />
+                  Contact Sheets {format.toUpperCase()} ({selectedRows.size})
+                </button>
+              ))}
             </>
           )}
           
@@ -403,7 +550,16 @@ export default function VideoAnalysisTable({
             Export JSON {selectedRows.size > 0 ? `(${selectedRows.size})` : ''}
           </button>
           <button
-            onClick={handleGoogleSheetsExport}
+            onClick={() => handleExport('xlsx')}
+            className="flex items-center gap-2 px-4 py-2 text-sm bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors shadow-sm font-medium"
+            disabled={loading}
+            title="Excel workbook with results, summary and errors sheets"
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            Export XLSX {selectedRows.size > 0 ? `(${selectedRows.size})` : ''}
+          </button>
+          <button
+            onClick={() => setIsSheetsDialogOpen(true)}
             className="flex items-center gap-2 px-4 py-2 text-sm bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors shadow-sm font-medium disabled:bg-gray-400 disabled:cursor-not-allowed"
             disabled={loading || isExportingToSheets}
             title="Export directly to Google Sheets"
@@ -423,6 +579,60 @@ export default function VideoAnalysisTable({
         </div>
       </div>
 
+      {/* Hook category filter chips */}
+      {hookCategoryCounts.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-gray-500">Hook type:</span>
+          {hookCategoryCounts.map(({ category, count }) => (
+            <button
+              key={category}
+              onClick={() => setHookCategoryFilter(hookCategoryFilter === category ? null : category)}
+              className={`px-3 py-1 text-xs font-medium rounded-full border transition-colors ${
+                hookCategoryFilter === category
+                  ? 'bg-purple-600 text-white border-purple-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:border-purple-400 hover:text-purple-700'
+              }`}
+            >
+              {category} ({count})
+            </button>
+          ))}
+          {hookCategoryFilter && (
+            <button
+              onClick={() => setHookCategoryFilter(null)}
+              className="text-xs text-gray-500 hover:text-gray-700"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      )}
+
+      <GoogleSheetsExportDialog
+        isOpen={isSheetsDialogOpen}
+        onClose={() => setIsSheetsDialogOpen(false)}
+        onExport={handleGoogleSheetsExport}
+        resultCount={selectedRows.size > 0 ? selectedRows.size : filteredResults.length}
+      />
+
+      {variantsResult && onUpdateResult && variantOptions && (
+        <ScriptVariantsDialog
+          isOpen
+          onClose={() => setVariantsResultId(null)}
+          result={variantsResult}
+          variantOptions={variantOptions}
+          onChange={(variants) => onUpdateResult(variantsResult.id, { variants })}
+        />
+      )}
+
+      {storyboardResult && onUpdateResult && (
+        <StoryboardDialog
+          isOpen
+          onClose={() => setStoryboardResultId(null)}
+          result={storyboardResult}
+          onChange={(storyboard) => onUpdateResult(storyboardResult.id, { storyboard })}
+        />
+      )}
+
       {/* Google Sheets Export Status */}
       {(sheetsExportStatus || sheetsExportUrl) && (
         <div className="bg-green-50 border border-green-200 rounded-lg p-4">
@@ -522,6 +732,11 @@ export default function VideoAnalysisTable({
                     {getSortIcon('status')}
                   </button>
                 </th>
+                {compliancePresets.length > 0 && (
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                    Compliance
+                  </th>
+                )}
                 <th className="w-24 px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
                   Actions
                 </th>
@@ -554,6 +769,14 @@ export default function VideoAnalysisTable({
                         <span className="text-sm font-medium text-gray-900 truncate" title={result.filename}>
                           {result.filename}
                         </span>
+                        {result.hookWindowSeconds !== undefined && (
+                          <span
+                            className="px-1.5 py-0.5 text-xs font-medium bg-sky-50 text-sky-700 border border-sky-200 rounded flex-shrink-0"
+                            title="Hook-window mode: only the opening seconds were analyzed"
+                          >
+                            {formatAnalyzedWindow(result.hookWindowSeconds)}
+                          </span>
+                        )}
                       </div>
                     </td>
                     <td className="px-4 py-4">
@@ -564,9 +787,14 @@ export default function VideoAnalysisTable({
                         </span>
                       </div>
                     </td>
+                    {compliancePresets.length > 0 && (
+                      <td className="px-4 py-4">
+                        <ComplianceBadges metadata={result.videoMetadata} presets={compliancePresets} />
+                      </td>
+                    )}
                     <td className="px-4 py-4 text-sm font-medium">
                       <div className="flex items-center gap-2">
-                        {result.status === 'error' && (
+                        {isRetryable(result) && (
                           <button
                             onClick={() => onRetry(result.id)}
                             className="text-blue-600 hover:text-blue-900 p-1 rounded"
@@ -575,6 +803,33 @@ export default function VideoAnalysisTable({
                             <RefreshCw className="w-4 h-4" />
                           </button>
                         )}
+                        {onCancel && isCancellable(result) && (
+                          <button
+                            onClick={() => onCancel(result.id)}
+                            className="text-gray-600 hover:text-gray-900 p-1 rounded"
+                            title="Cancel analysis"
+                          >
+                            <Ban className="w-4 h-4" />
+                          </button>
+                        )}
+                        {onUpdateResult && variantOptions && result.status === 'completed' && (
+                          <button
+                            onClick={() => setVariantsResultId(result.id)}
+                            className="text-purple-600 hover:text-purple-900 p-1 rounded"
+                            title={result.variants?.length ? `Script variants (${result.variants.length})` : 'Generate variants'}
+                          >
+                            <Sparkles className="w-4 h-4" />
+                          </button>
+                        )}
+                        {onUpdateResult && result.status === 'completed' && (result.visualHook || result.videoScript) && (
+                          <button
+                            onClick={() => setStoryboardResultId(result.id)}
+                            className="text-amber-600 hover:text-amber-900 p-1 rounded"
+                            title={result.storyboard ? 'View storyboard' : 'Generate storyboard'}
+                          >
+                            <Clapperboard className="w-4 h-4" />
+                          </button>
+                        )}
                         <button
                           onClick={() => onDelete(result.id)}
                           className="text-red-600 hover:text-red-900 p-1 rounded"
@@ -589,25 +844,34 @@ export default function VideoAnalysisTable({
                   {/* Expanded row content */}
                   {expandedRows.has(result.id) && (
                     <tr>
-                      <td colSpan={4} className="px-4 py-6 bg-gray-50">
+                      <td colSpan={compliancePresets.length > 0 ? 5 : 4} className="px-4 py-6 bg-gray-50">
                         <div className="space-y-6">
                           {/* Full analysis details */}
                           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                             {result.visualHook && (
                               <div className="bg-white p-4 rounded-lg shadow-sm">
-                                <h4 className="font-semibold text-gray-900 mb-3 text-base">🎯 Visual Hook</h4>
+                                <div className="flex items-center justify-between gap-3 mb-3">
+                                  <h4 className="font-semibold text-gray-900 text-base">🎯 Visual Hook</h4>
+                                  {renderHookCategory(result, 'visualHook')}
+                                </div>
                                 <p className="text-sm text-gray-700 leading-relaxed">{result.visualHook}</p>
                               </div>
                             )}
                             {result.textHook && (
                               <div className="bg-white p-4 rounded-lg shadow-sm">
-                                <h4 className="font-semibold text-gray-900 mb-3 text-base">📝 Text Hook</h4>
+                                <div className="flex items-center justify-between gap-3 mb-3">
+                                  <h4 className="font-semibold text-gray-900 text-base">📝 Text Hook</h4>
+                                  {renderHookCategory(result, 'textHook')}
+                                </div>
                                 <p className="text-sm text-gray-700 leading-relaxed">{result.textHook}</p>
                               </div>
                             )}
                             {result.voiceHook && (
                               <div className="bg-white p-4 rounded-lg shadow-sm">
-                                <h4 className="font-semibold text-gray-900 mb-3 text-base">🗣️ Voice Hook</h4>
+                                <div className="flex items-center justify-between gap-3 mb-3">
+                                  <h4 className="font-semibold text-gray-900 text-base">🗣️ Voice Hook</h4>
+                                  {renderHookCategory(result, 'voiceHook')}
+                                </div>
                                 <p className="text-sm text-gray-700 leading-relaxed">{result.voiceHook}</p>
                               </div>
                             )}
@@ -617,17 +881,93 @@ export default function VideoAnalysisTable({
                                 <p className="text-sm text-gray-700 leading-relaxed">{result.painPoint}</p>
                               </div>
                             )}
+                            {Object.entries(result.customFields || {}).map(([key, field]) => (
+                              <div key={key} className="bg-white p-4 rounded-lg shadow-sm">
+                                <h4 className="font-semibold text-gray-900 mb-3 text-base">{field.label}</h4>
+                                {Array.isArray(field.value) ? (
+                                  <ul className="text-sm text-gray-700 leading-relaxed list-disc list-inside">
+                                    {field.value.map((item, index) => <li key={index}>{item}</li>)}
+                                  </ul>
+                                ) : (
+                                  <p className="text-sm text-gray-700 leading-relaxed">{formatFieldValue(field.value)}</p>
+                                )}
+                              </div>
+                            ))}
                           </div>
                           
                           {result.videoScript && (
                             <div className="bg-white p-4 rounded-lg shadow-sm">
-                              <h4 className="font-semibold text-gray-900 mb-3 text-base">📄 Video Script</h4>
+                              <div className="flex items-center justify-between gap-3 mb-3">
+                                <h4 className="font-semibold text-gray-900 text-base">📄 Video Script</h4>
+                                {parseVideoScript(result.videoScript).length > 0 ? (
+                                  <div className="flex items-center gap-2">
+                                    {(['srt', 'vtt'] as const).map(format => (
+                                      <button
+                                        key={format}
+                                        onClick={() => handleSubtitleExport(result, format)}
+                                        className="flex items-center gap-1 px-2 py-1 text-xs border border-gray-300 text-gray-700 rounded hover:bg-gray-50"
+                                        title={`Download subtitles as .${format}`}
+                                      >
+                                        <Captions className="w-3 h-3" />
+                                        .{format}
+                                      </button>
+                                    ))}
+                                  </div>
+                                ) : (
+                                  <span className="text-xs text-gray-500">No timed speech for subtitles</span>
+                                )}
+                              </div>
                               <div className="bg-gray-50 p-4 rounded-lg text-sm text-gray-700 whitespace-pre-wrap leading-relaxed font-mono">
                                 {result.videoScript}
                               </div>
                             </div>
                           )}
                           
+                          {result.storyboard && (
+                            <div className="bg-white p-4 rounded-lg shadow-sm">
+                              <div className="flex items-center justify-between gap-3 mb-3">
+                                <h4 className="font-semibold text-gray-900 text-base">🎬 Storyboard</h4>
+                                {onUpdateResult && (
+                                  <button
+                                    onClick={() => setStoryboardResultId(result.id)}
+                                    className="text-xs text-blue-600 hover:text-blue-800"
+                                  >
+                                    Open
+                                  </button>
+                                )}
+                              </div>
+                              <div className="flex gap-3 overflow-x-auto pb-1">
+                                {result.storyboard.frames.map(frame => (
+                                  <div key={frame.id} className="relative w-24 h-32 flex-shrink-0 bg-gray-100 rounded overflow-hidden" title={frame.caption}>
+                                    <Image src={frame.imageUrl} alt={frame.caption} fill unoptimized className="object-cover" />
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+                          
+                          {result.contactSheet && (
+                            <div className="bg-white p-4 rounded-lg shadow-sm">
+                              <div className="flex items-center justify-between gap-3 mb-3">
+                                <h4 className="font-semibold text-gray-900 text-base">🎞️ Contact Sheet</h4>
+                                <span className="text-xs text-gray-500">
+                                  {result.contactSheet.sceneCount} scene{result.contactSheet.sceneCount === 1 ? '' : 's'} detected
+                                </span>
+                              </div>
+                              <Image
+                                src={result.contactSheet.imageUrl}
+                                alt={`Keyframes of ${result.filename}`}
+                                width={0}
+                                height={0}
+                                unoptimized
+                                className="w-full max-w-xl h-auto rounded"
+                              />
+                              <p className="mt-2 text-xs text-gray-500">
+                                Keyframes at {result.contactSheet.keyframes.map(keyframe => formatDuration(keyframe.timestamp)).join(', ')}
+                              </p>
+                            </div>
+                          )}
+                          
                           {result.error && (
                             <div>
                               <h4 className="font-medium text-red-900 mb-2">Error Details</h4>
@@ -638,6 +978,16 @@ export default function VideoAnalysisTable({
                           )}
                           
                           {/* Metadata */}
+                          {result.videoMetadata && (
+                            <div className="flex flex-wrap items-center gap-4 text-xs text-gray-500 pt-2 border-t">
+                              {describeVideoMetadata(result.videoMetadata).map(line => (
+                                <span key={line}>{line}</span>
+                              ))}
+                              {result.videoMetadata.creationTime && (
+                                <span>Recorded: {formatDate(new Date(result.videoMetadata.creationTime))}</span>
+                              )}
+                            </div>
+                          )}
                           <div className="flex items-center gap-4 text-xs text-gray-500 pt-2 border-t">
                             <span>Created: {formatDate(result.createdAt)}</span>
                             {result.completedAt && (
@@ -646,6 +996,12 @@ export default function VideoAnalysisTable({
                             {result.processingTime && (
                               <span>Processing time: {formatProcessingTime(result.processingTime)}</span>
                             )}
+                            {result.provider && (
+                              <span>Model: {result.provider} / {result.model}</span>
+                            )}
+                            {result.cached && (
+                              <span>Served from cache</span>
+                            )}
                           </div>
                         </div>
                       </td>
@@ -664,6 +1020,7 @@ export default function VideoAnalysisTable({
               onClick={() => {
                 setStatusFilter('all');
                 setSearchTerm('');
+                setHookCategoryFilter(null);
               }}
               className="mt-2 text-blue-600 hover:text-blue-800 text-sm"
             >
@@ -0,0 +1,207 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useChat } from 'ai/react';
+import ReactMarkdown from 'react-markdown';
+import { MessageSquare, Send, Square, RotateCcw, AlertCircle } from 'lucide-react';
+import { VideoAnalysisResult } from '@/types/video-analysis';
+import {
+  buildVideoChatContext,
+  CHAT_PROVIDERS,
+  ChatProviderId,
+  findCitedFilenames,
+  VideoChatContext,
+} from '@/lib/utils/videoChat';
+
+interface VideoChatPanelProps {
+  results: VideoAnalysisResult[];
+  selectedIds: string[]; // chat about these results; all results when empty
+}
+
+const EXAMPLE_QUESTIONS = [
+  'Which of these ads address price objections?',
+  'What do the strongest text hooks have in common?',
+  'Summarize the pain points these videos target.',
+];
+
+export default function VideoChatPanel({ results, selectedIds }: VideoChatPanelProps) {
+  const [providerId, setProviderId] = useState<ChatProviderId>('openai');
+  const [lastContext, setLastContext] = useState<VideoChatContext | null>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const provider = CHAT_PROVIDERS.find(p => p.id === providerId)!;
+
+  const chatResults = useMemo(() => {
+    const selected = results.filter(result => selectedIds.includes(result.id));
+    return (selected.length > 0 ? selected : results).filter(result => result.status === 'completed');
+  }, [results, selectedIds]);
+
+  const { messages, input, handleInputChange, handleSubmit, append, isLoading, stop, setMessages, error } = useChat({
+    api: provider.api,
+    keepLastMessageOnError: true,
+  });
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [messages]);
+
+  // Retrieval uses the previous question too, so follow-ups keep their videos
+  const getRequestBody = (question: string) => {
+    const previousQuestion = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+    const videoContext = buildVideoChatContext(`${previousQuestion} ${question}`, chatResults);
+    setLastContext(videoContext);
+    return { body: { videoContext } };
+  };
+
+  const submitQuestion = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!input.trim() || isLoading) return;
+    handleSubmit(event, getRequestBody(input));
+  };
+
+  const askExample = (question: string) => {
+    append({ role: 'user', content: question }, getRequestBody(question));
+  };
+
+  const filenames = chatResults.map(result => result.filename);
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-gray-600">
+          {selectedIds.length > 0
+            ? `Asking about ${chatResults.length} selected video${chatResults.length === 1 ? '' : 's'}`
+            : `Asking about all ${chatResults.length} analyzed video${chatResults.length === 1 ? '' : 's'} (select rows in the results to narrow it down)`}
+        </p>
+        <div className="flex items-center gap-2">
+          <select
+            value={providerId}
+            onChange={(e) => setProviderId(e.target.value as ChatProviderId)}
+            disabled={messages.length > 0}
+            title={messages.length > 0 ? 'Start a new chat to switch models' : 'Model provider'}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white disabled:bg-gray-100"
+          >
+            {CHAT_PROVIDERS.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+          {messages.length > 0 && (
+            <button
+              onClick={() => {
+                stop();
+                setMessages([]);
+                setLastContext(null);
+              }}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+            >
+              <RotateCcw className="w-4 h-4" />
+              New chat
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Messages */}
+      <div className="border border-gray-200 rounded-lg p-4 h-96 overflow-y-auto space-y-4 bg-gray-50">
+        {messages.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center text-center gap-3">
+            <MessageSquare className="w-10 h-10 text-gray-400" />
+            <p className="text-sm text-gray-500">Ask about hooks, pain points and transcripts. Answers cite the videos they use.</p>
+            <div className="flex flex-wrap justify-center gap-2">
+              {EXAMPLE_QUESTIONS.map(question => (
+                <button
+                  key={question}
+                  onClick={() => askExample(question)}
+                  disabled={chatResults.length === 0}
+                  className="px-3 py-1.5 text-xs bg-white border border-gray-300 text-gray-700 rounded-full hover:border-blue-400 hover:text-blue-700 disabled:opacity-50"
+                >
+                  {question}
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          messages.map(message => {
+            const cited = message.role === 'assistant' ? findCitedFilenames(message.content, filenames) : [];
+            return (
+              <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                <div
+                  className={`max-w-[85%] rounded-lg px-4 py-2 text-sm ${
+                    message.role === 'user' ? 'bg-blue-600 text-white' : 'bg-white border border-gray-200 text-gray-800'
+                  }`}
+                >
+                  {message.role === 'user' ? (
+                    <p className="whitespace-pre-wrap">{message.content}</p>
+                  ) : (
+                    <div className="space-y-2 [&_ul]:list-disc [&_ul]:pl-5 [&_ol]:list-decimal [&_ol]:pl-5 [&_strong]:font-semibold">
+                      <ReactMarkdown>{message.content}</ReactMarkdown>
+                    </div>
+                  )}
+                  {cited.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-1 mt-2 pt-2 border-t border-gray-100">
+                      <span className="text-xs text-gray-500">Sources:</span>
+                      {cited.map(filename => (
+                        <span key={filename} className="px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded">
+                          {filename}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+        <div ref={messagesEndRef} />
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 text-red-600 text-sm">
+          <AlertCircle className="w-4 h-4" />
+          <span>
+            {error.message.includes('not configured')
+              ? `${provider.label} chat needs an API key on the server`
+              : error.message || 'The chat request failed'}
+          </span>
+        </div>
+      )}
+
+      {lastContext?.retrieved && (
+        <p className="text-xs text-gray-500">
+          Too many videos to send at once: the last question used the {lastContext.filenames.length} most relevant of {lastContext.totalVideos}.
+        </p>
+      )}
+
+      {/* Input */}
+      <form onSubmit={submitQuestion} className="flex items-center gap-2">
+        <input
+          type="text"
+          value={input}
+          onChange={handleInputChange}
+          placeholder={chatResults.length > 0 ? 'Ask about these videos...' : 'Analyze videos to start chatting'}
+          disabled={chatResults.length === 0}
+          className="flex-1 px-4 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        {isLoading ? (
+          <button
+            type="button"
+            onClick={stop}
+            className="flex items-center gap-2 px-4 py-2 text-sm bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors font-medium"
+          >
+            <Square className="w-4 h-4" />
+            Stop
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!input.trim() || chatResults.length === 0}
+            className="flex items-center gap-2 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            <Send className="w-4 h-4" />
+            Send
+          </button>
+        )}
+      </form>
+    </div>
+  );
+}
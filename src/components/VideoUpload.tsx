@@ -1,24 +1,77 @@
 import React, { useState, useCallback, useRef, useEffect } from "react";
-import { Upload, X, Video, AlertCircle, FileVideo, Play } from "lucide-react";
+import { Upload, X, Video, AlertCircle, FileVideo, Play, Minimize2 } from "lucide-react";
 import { useDropzone } from "react-dropzone";
 import { VideoUploadProps, UploadedVideo, SUPPORTED_VIDEO_FORMATS, MAX_VIDEO_SIZE_BYTES } from "@/types/video-analysis";
+import {
+  computeFileHash,
+  describeVideoMetadata,
+  extractVideoMetadata,
+} from "@/lib/utils/videoUtils";
+import {
+  DEFAULT_TRANSCODE_SETTINGS,
+  TRANSCODE_RESOLUTIONS,
+  TranscodeSettings,
+  isTranscodingSupported,
+  transcodeVideo,
+} from "@/lib/utils/videoTranscoder";
+import ComplianceBadges from "./ComplianceBadges";
+
+// Videos still being transcoded are shown here but not handed to the analyzer yet
+const isReady = (video: UploadedVideo) => video.status === 'uploaded';
+
+// Duration and container details (codec, frame rate...) plus a thumbnail for the preview.
+// A video whose metadata can't be read is still uploaded.
+async function readMetadata(file: File): Promise<{ changes: Partial<UploadedVideo>; thumbnail?: string }> {
+  try {
+    const { thumbnail, ...metadata } = await extractVideoMetadata(file);
+    return { changes: { metadata, duration: metadata.duration || undefined }, thumbnail: thumbnail || undefined };
+  } catch (error) {
+    console.warn(`Failed to read metadata of ${file.name}:`, error);
+    return { changes: {} };
+  }
+}
 
 export default function VideoUpload({
   onVideosChange,
   maxFiles = 10,
   maxSizePerFile = 100, // MB
   acceptedFormats = SUPPORTED_VIDEO_FORMATS,
+  compliancePresets = [],
   disabled = false,
 }: VideoUploadProps) {
   const [videos, setVideos] = useState<UploadedVideo[]>([]);
   const [errors, setErrors] = useState<string[]>([]);
   const [previews, setPreviews] = useState<{[key: string]: string}>({});
 
-  const validateFile = (file: File): string[] => {
+  // Optional re-encoding before upload
+  const [transcodeSupported, setTranscodeSupported] = useState(false);
+  const [transcodeSettings, setTranscodeSettings] = useState<TranscodeSettings>(DEFAULT_TRANSCODE_SETTINGS);
+  const [transcodeProgress, setTranscodeProgress] = useState<{[key: string]: number}>({});
+  const videosRef = useRef<UploadedVideo[]>([]);
+  const transcodeControllers = useRef<Map<string, AbortController>>(new Map());
+  const isTranscodingRef = useRef(false);
+  const transcodeEnabled = transcodeSupported && transcodeSettings.enabled;
+
+  useEffect(() => {
+    setTranscodeSupported(isTranscodingSupported());
+  }, []);
+
+  // Single place that changes the list, so the transcoding queue always sees the latest videos
+  const commitVideos = useCallback((updatedVideos: UploadedVideo[]) => {
+    videosRef.current = updatedVideos;
+    setVideos(updatedVideos);
+    onVideosChange(updatedVideos.filter(isReady));
+  }, [onVideosChange]);
+
+  const updateVideo = useCallback((videoId: string, changes: Partial<UploadedVideo>) => {
+    commitVideos(videosRef.current.map(video => video.id === videoId ? { ...video, ...changes } : video));
+  }, [commitVideos]);
+
+  const validateFile = useCallback((file: File, allowOversize: boolean = false): string[] => {
     const errors: string[] = [];
     
-    // Check file size
-    if (file.size > maxSizePerFile * 1024 * 1024) {
+    // Check file size (oversized files may still fit once transcoded)
+    if (!allowOversize && file.size > maxSizePerFile * 1024 * 1024) {
       errors.push(`${file.name}: File size exceeds ${maxSizePerFile}MB limit`);
     }
     
@@ -29,37 +82,79 @@ export default function VideoUpload({
     }
     
     return errors;
+  }, [maxSizePerFile, acceptedFormats]);
+
+  // Hash contents so identical videos can be served from the result cache
+  const hashVideo = async (file: File): Promise<string | undefined> => {
+    try {
+      return await computeFileHash(file);
+    } catch (error) {
+      console.warn(`Failed to hash ${file.name}, it will not use cached results:`, error);
+      return undefined;
+    }
   };
 
-  const generateVideoThumbnail = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const video = document.createElement('video');
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      
-      video.addEventListener('loadedmetadata', () => {
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-        
-        video.currentTime = 1; // Seek to 1 second for thumbnail
-      });
-      
-      video.addEventListener('seeked', () => {
-        if (ctx) {
-          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-          const thumbnail = canvas.toDataURL('image/jpeg', 0.7);
-          resolve(thumbnail);
+  // Transcode queued videos one at a time; each runs in real time and uses the encoder fully
+  const runTranscodeQueue = useCallback(async (settings: TranscodeSettings) => {
+    if (isTranscodingRef.current) return;
+    isTranscodingRef.current = true;
+
+    try {
+      let next: UploadedVideo | undefined;
+      while ((next = videosRef.current.find(video => video.status === 'processing'))) {
+        const video = next;
+        const controller = new AbortController();
+        transcodeControllers.current.set(video.id, controller);
+        const maxBytes = maxSizePerFile * 1024 * 1024;
+
+        try {
+          const transcoded = await transcodeVideo(
+            video.file,
+            settings,
+            progress => setTranscodeProgress(prev => ({ ...prev, [video.id]: progress })),
+            controller.signal
+          );
+          const file = transcoded || video.file;
+          if (file.size > maxBytes) {
+            setErrors(prev => [...prev, `${video.filename}: Still larger than ${maxSizePerFile}MB after transcoding`]);
+            updateVideo(video.id, { status: 'error' });
+            continue;
+          }
+          // The re-encoded file has its own codec, bitrate and size
+          const { changes } = transcoded ? await readMetadata(transcoded) : { changes: {} };
+          updateVideo(video.id, {
+            file,
+            filename: file.name,
+            size: file.size,
+            originalSize: transcoded ? video.file.size : undefined,
+            contentHash: await hashVideo(file),
+            ...changes,
+            status: 'uploaded',
+          });
+        } catch (error) {
+          if (controller.signal.aborted) continue;
+          const message = error instanceof Error ? error.message : 'Transcoding failed';
+          // Fall back to the original file when it is within the limit
+          if (video.file.size <= maxBytes) {
+            setErrors(prev => [...prev, `${video.filename}: ${message}; using the original file`]);
+            updateVideo(video.id, { contentHash: await hashVideo(video.file), status: 'uploaded' });
+          } else {
+            setErrors(prev => [...prev, `${video.filename}: ${message}`]);
+            updateVideo(video.id, { status: 'error' });
+          }
+        } finally {
+          transcodeControllers.current.delete(video.id);
+          setTranscodeProgress(prev => {
+            const newProgress = { ...prev };
+            delete newProgress[video.id];
+            return newProgress;
+          });
         }
-      });
-      
-      video.addEventListener('error', () => {
-        reject(new Error('Failed to generate thumbnail'));
-      });
-      
-      video.src = URL.createObjectURL(file);
-      video.muted = true;
-    });
-  };
+      }
+    } finally {
+      isTranscodingRef.current = false;
+    }
+  }, [maxSizePerFile, updateVideo]);
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
     if (disabled) return;
@@ -75,7 +170,7 @@ export default function VideoUpload({
     }
     
     for (const file of acceptedFiles) {
-      const fileErrors = validateFile(file);
+      const fileErrors = validateFile(file, transcodeEnabled);
       if (fileErrors.length === 0) {
         const uploadedVideo: UploadedVideo = {
           id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
@@ -83,32 +178,37 @@ export default function VideoUpload({
           filename: file.name,
           size: file.size,
           uploadedAt: new Date(),
-          status: 'uploaded',
+          // Transcoding decides per video whether re-encoding is needed, then hashes the final file
+          status: transcodeEnabled ? 'processing' : 'uploaded',
         };
         
+        if (!transcodeEnabled) {
+          uploadedVideo.contentHash = await hashVideo(file);
+        }
+        
         newVideos.push(uploadedVideo);
         
-        // Generate thumbnail
-        try {
-          const thumbnail = await generateVideoThumbnail(file);
+        // Read metadata and generate thumbnail
+        const { changes, thumbnail } = await readMetadata(file);
+        Object.assign(uploadedVideo, changes);
+        if (thumbnail) {
           setPreviews(prev => ({ ...prev, [uploadedVideo.id]: thumbnail }));
-        } catch (error) {
-          console.warn(`Failed to generate thumbnail for ${file.name}:`, error);
         }
       } else {
         newErrors.push(...fileErrors);
       }
     }
     
-    const updatedVideos = [...videos, ...newVideos];
-    setVideos(updatedVideos);
+    commitVideos([...videosRef.current, ...newVideos]);
     setErrors(newErrors);
-    onVideosChange(updatedVideos);
-  }, [videos, maxFiles, maxSizePerFile, acceptedFormats, disabled, onVideosChange]);
+    if (transcodeEnabled) {
+      runTranscodeQueue(transcodeSettings);
+    }
+  }, [videos, maxFiles, disabled, validateFile, commitVideos, transcodeEnabled, transcodeSettings, runTranscodeQueue]);
 
   const removeVideo = (videoId: string) => {
-    const updatedVideos = videos.filter(v => v.id !== videoId);
-    setVideos(updatedVideos);
+    transcodeControllers.current.get(videoId)?.abort();
+    const updatedVideos = videosRef.current.filter(v => v.id !== videoId);
     
     // Clean up preview
     setPreviews(prev => {
@@ -123,14 +223,14 @@ export default function VideoUpload({
       setErrors(prev => prev.filter(error => !error.includes(videoToRemove.filename)));
     }
     
-    onVideosChange(updatedVideos);
+    commitVideos(updatedVideos);
   };
 
   const clearAll = () => {
-    setVideos([]);
+    transcodeControllers.current.forEach(controller => controller.abort());
+    commitVideos([]);
     setPreviews({});
     setErrors([]);
-    onVideosChange([]);
   };
 
   const formatFileSize = (bytes: number): string => {
@@ -147,15 +247,17 @@ export default function VideoUpload({
       'video/*': acceptedFormats,
     },
     maxFiles,
-    maxSize: maxSizePerFile * 1024 * 1024,
+    maxSize: transcodeEnabled ? undefined : maxSizePerFile * 1024 * 1024,
     disabled,
     multiple: true,
   });
 
-  // Cleanup URLs on unmount
+  // Cleanup URLs on unmount, for the previews shown last
+  const previewsRef = useRef(previews);
+  previewsRef.current = previews;
   useEffect(() => {
     return () => {
-      Object.values(previews).forEach(url => {
+      Object.values(previewsRef.current).forEach(url => {
         if (url.startsWith('blob:')) {
           URL.revokeObjectURL(url);
         }
@@ -201,6 +303,36 @@ export default function VideoUpload({
         </div>
       </div>
 
+      {/* Transcoding Options */}
+      {transcodeSupported && (
+        <div className="flex flex-wrap items-center gap-3 bg-gray-50 border border-gray-200 rounded-lg px-4 py-3">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={transcodeSettings.enabled}
+              onChange={(e) => setTranscodeSettings(prev => ({ ...prev, enabled: e.target.checked }))}
+              disabled={disabled}
+              className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+            />
+            <Minimize2 className="w-4 h-4 text-gray-500" />
+            Downscale before upload to
+          </label>
+          <select
+            value={transcodeSettings.maxShortSide}
+            onChange={(e) => setTranscodeSettings(prev => ({ ...prev, maxShortSide: Number(e.target.value) }))}
+            disabled={disabled || !transcodeSettings.enabled}
+            className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+          >
+            {TRANSCODE_RESOLUTIONS.map(resolution => (
+              <option key={resolution} value={resolution}>{resolution}p</option>
+            ))}
+          </select>
+          <span className="text-xs text-gray-500">
+            Videos above {transcodeSettings.maxShortSide}p or {transcodeSettings.targetSizeMB}MB are re-encoded in the browser (takes about as long as the video), so large files upload faster and cost fewer tokens
+          </span>
+        </div>
+      )}
+
       {/* Error Messages */}
       {errors.length > 0 && (
         <div className="bg-red-50 border border-red-200 rounded-lg p-4">
@@ -268,17 +400,48 @@ export default function VideoUpload({
                   <p className="font-medium text-sm text-gray-900 truncate" title={video.filename}>
                     {video.filename}
                   </p>
+                  {video.metadata && (
+                    <div
+                      className="text-xs text-gray-500"
+                      title={video.metadata.creationTime ? `Recorded ${new Date(video.metadata.creationTime).toLocaleString()}` : undefined}
+                    >
+                      {describeVideoMetadata(video.metadata).map(line => (
+                        <p key={line} className="truncate">{line}</p>
+                      ))}
+                    </div>
+                  )}
+                  {video.status === 'uploaded' && (
+                    <ComplianceBadges metadata={video.metadata} presets={compliancePresets} />
+                  )}
                   <div className="flex items-center justify-between text-xs text-gray-500">
-                    <span>{formatFileSize(video.size)}</span>
+                    <span title={video.originalSize ? 'Transcoded in the browser' : undefined}>
+                      {formatFileSize(video.size)}
+                      {video.originalSize && ` (was ${formatFileSize(video.originalSize)})`}
+                    </span>
                     <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                       video.status === 'uploaded' ? 'bg-green-100 text-green-700' :
                       video.status === 'processing' ? 'bg-blue-100 text-blue-700' :
                       video.status === 'error' ? 'bg-red-100 text-red-700' :
                       'bg-gray-100 text-gray-700'
                     }`}>
-                      {video.status}
+                      {video.status === 'processing' ? 'transcoding' : video.status}
                     </span>
                   </div>
+                  {video.status === 'processing' && (
+                    <div className="space-y-1">
+                      <div className="w-full bg-gray-200 rounded-full h-1.5">
+                        <div
+                          className="bg-blue-600 h-1.5 rounded-full transition-all"
+                          style={{ width: `${Math.round((transcodeProgress[video.id] ?? 0) * 100)}%` }}
+                        />
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {transcodeProgress[video.id] !== undefined
+                          ? `Transcoding ${Math.round(transcodeProgress[video.id] * 100)}%`
+                          : 'Waiting to transcode'}
+                      </p>
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
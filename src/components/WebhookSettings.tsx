@@ -0,0 +1,301 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { X, Webhook, Trash2, RefreshCw, AlertCircle, CheckCircle2, Clock } from 'lucide-react';
+import {
+  WEBHOOK_EVENTS,
+  WebhookApiResponse,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+  WebhookSubscription,
+} from '@/types/video-analysis';
+import { getClientAuthHeaders } from '@/lib/utils/clientToken';
+
+interface WebhookSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const DELIVERY_REFRESH_INTERVAL = 5000;
+
+const EVENT_DESCRIPTIONS: Record<WebhookEventType, string> = {
+  'video.completed': 'A video was analyzed',
+  'video.failed': 'A video failed after all retries',
+  'batch.completed': 'A browser batch or server-side job finished, with the export summary',
+};
+
+const DELIVERY_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'text-amber-700 bg-amber-100',
+  delivered: 'text-green-700 bg-green-100',
+  failed: 'text-red-700 bg-red-100',
+};
+
+// Webhooks belong to this browser's client token
+async function fetchWebhookApi<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, headers: { ...init.headers, ...getClientAuthHeaders() } });
+  const body: WebhookApiResponse<T> = await response.json();
+  if (!response.ok || !body.success || body.data === undefined) {
+    throw new Error(body.error?.message || `Request failed with status ${response.status}`);
+  }
+  return body.data;
+}
+
+export default function WebhookSettings({ isOpen, onClose }: WebhookSettingsProps) {
+  const [webhooks, setWebhooks] = useState<WebhookSubscription[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [url, setUrl] = useState('');
+  const [secret, setSecret] = useState('');
+  const [events, setEvents] = useState<WebhookEventType[]>([...WEBHOOK_EVENTS]);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadWebhooks = useCallback(async () => {
+    try {
+      setWebhooks(await fetchWebhookApi<WebhookSubscription[]>('/api/webhooks'));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : String(loadError));
+    }
+  }, []);
+
+  const loadDeliveries = useCallback(async () => {
+    try {
+      setDeliveries(await fetchWebhookApi<WebhookDelivery[]>('/api/webhooks/deliveries'));
+    } catch (loadError) {
+      console.warn('Failed to load webhook deliveries:', loadError);
+    }
+  }, []);
+
+  // Refresh the delivery log while the dialog is open
+  useEffect(() => {
+    if (!isOpen) return;
+    loadWebhooks();
+    loadDeliveries();
+    const interval = setInterval(loadDeliveries, DELIVERY_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isOpen, loadWebhooks, loadDeliveries]);
+
+  const toggleEvent = (event: WebhookEventType) => {
+    setEvents(prev => prev.includes(event) ? prev.filter(item => item !== event) : [...prev, event]);
+  };
+
+  const handleAdd = async () => {
+    setError('');
+    setCreatedSecret(null);
+    setIsSaving(true);
+    try {
+      const webhook = await fetchWebhookApi<WebhookSubscription>('/api/webhooks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url, events, secret: secret || undefined }),
+      });
+      setWebhooks(prev => [...prev, webhook]);
+      setCreatedSecret(webhook.secret || null);
+      setUrl('');
+      setSecret('');
+    } catch (addError) {
+      setError(addError instanceof Error ? addError.message : String(addError));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Remove this webhook? Deliveries still being retried for it will stop.')) return;
+    try {
+      await fetchWebhookApi<{ id: string }>(`/api/webhooks/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      setWebhooks(prev => prev.filter(webhook => webhook.id !== id));
+    } catch (deleteError) {
+      setError(deleteError instanceof Error ? deleteError.message : String(deleteError));
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-100 rounded-lg">
+              <Webhook className="w-6 h-6 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Webhooks</h2>
+              <p className="text-sm text-gray-500">Notify your tools when analyses finish</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          {/* Info Section */}
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-800">
+            Each delivery is a JSON POST signed with your secret: the <code>X-Webhook-Signature</code> header
+            is <code>t=&lt;timestamp&gt;,v1=&lt;HMAC-SHA256 of &quot;timestamp.body&quot;&gt;</code>.
+            Failed deliveries are retried with increasing delays.
+          </div>
+
+          {/* Registered webhooks */}
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-2">Registered Webhooks</h3>
+            {webhooks.length === 0 ? (
+              <p className="text-sm text-gray-500">No webhooks yet.</p>
+            ) : (
+              <ul className="divide-y border rounded-lg">
+                {webhooks.map(webhook => (
+                  <li key={webhook.id} className="flex items-center justify-between gap-3 p-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{webhook.url}</p>
+                      <p className="text-xs text-gray-500">
+                        {webhook.events.join(', ')} · secret ••••{webhook.secretHint}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleDelete(webhook.id)}
+                      className="text-gray-400 hover:text-red-600 transition-colors"
+                      title="Remove webhook"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Add webhook */}
+          <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+            <h3 className="font-semibold text-gray-900">Add Webhook</h3>
+            <div>
+              <label htmlFor="webhookUrl" className="block text-sm font-medium text-gray-700 mb-1">URL</label>
+              <input
+                id="webhookUrl"
+                type="url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://example.com/hooks/video-analysis"
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="webhookSecret" className="block text-sm font-medium text-gray-700 mb-1">
+                Signing secret <span className="font-normal text-gray-500">(optional, generated if empty)</span>
+              </label>
+              <input
+                id="webhookSecret"
+                type="password"
+                value={secret}
+                onChange={(e) => setSecret(e.target.value)}
+                placeholder="At least 16 characters"
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div className="space-y-1">
+              {WEBHOOK_EVENTS.map(event => (
+                <label key={event} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={events.includes(event)}
+                    onChange={() => toggleEvent(event)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <code className="text-xs">{event}</code>
+                  <span className="text-gray-500">- {EVENT_DESCRIPTIONS[event]}</span>
+                </label>
+              ))}
+            </div>
+
+            {error && (
+              <div className="flex items-center gap-2 text-red-600 text-sm">
+                <AlertCircle className="w-4 h-4" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            {createdSecret && (
+              <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-800">
+                <p className="flex items-center gap-2 font-medium">
+                  <CheckCircle2 className="w-4 h-4" />
+                  Webhook added. Copy the signing secret now, it won&apos;t be shown again:
+                </p>
+                <code className="block mt-1 break-all">{createdSecret}</code>
+              </div>
+            )}
+
+            <button
+              onClick={handleAdd}
+              disabled={!url || events.length === 0 || isSaving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Adding...' : 'Add Webhook'}
+            </button>
+          </div>
+
+          {/* Delivery log */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="font-semibold text-gray-900">Recent Deliveries</h3>
+              <button
+                onClick={loadDeliveries}
+                className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+              >
+                <RefreshCw className="w-4 h-4" />
+                Refresh
+              </button>
+            </div>
+            {deliveries.length === 0 ? (
+              <p className="text-sm text-gray-500">No deliveries yet.</p>
+            ) : (
+              <div className="overflow-x-auto border rounded-lg">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-xs text-gray-500 uppercase">
+                    <tr>
+                      <th className="px-3 py-2">Event</th>
+                      <th className="px-3 py-2">URL</th>
+                      <th className="px-3 py-2">Status</th>
+                      <th className="px-3 py-2">Attempts</th>
+                      <th className="px-3 py-2">Last Update</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {deliveries.map(delivery => (
+                      <tr key={delivery.id} title={delivery.error}>
+                        <td className="px-3 py-2"><code className="text-xs">{delivery.event}</code></td>
+                        <td className="px-3 py-2 max-w-[12rem] truncate text-gray-700">{delivery.url}</td>
+                        <td className="px-3 py-2">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${DELIVERY_STYLES[delivery.status]}`}>
+                            {delivery.status}
+                            {delivery.responseStatus !== undefined && ` (${delivery.responseStatus})`}
+                          </span>
+                          {delivery.status === 'pending' && delivery.nextAttemptAt && (
+                            <span className="flex items-center gap-1 mt-1 text-xs text-gray-500">
+                              <Clock className="w-3 h-3" />
+                              retry at {new Date(delivery.nextAttemptAt).toLocaleTimeString()}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-gray-700">{delivery.attempts}</td>
+                        <td className="px-3 py-2 text-gray-500 whitespace-nowrap">
+                          {new Date(delivery.updatedAt).toLocaleTimeString()}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+/**
+ * Video Analysis Pipeline
+ *
+ * The steps shared by the analyze route and the background job worker:
+ * result cache lookup, the provider call and mapping provider errors onto
+ * the error codes the client understands.
+ */
+
+import { AnalysisOptions, VideoKeyframe } from '@/types/video-analysis';
+import { VideoFileStoreError } from '@/lib/gemini/videoFileStore';
+import {
+  getAnalysisFields,
+  getHookWindowSeconds,
+  getModelFields,
+  mapAnalysisResults,
+  mapHookCategories,
+  ANALYSIS_PROMPT_VERSION,
+} from '@/lib/utils/analysisFields';
+import {
+  createAnalysisCacheStore,
+  buildAnalysisCacheKey,
+  isValidContentHash,
+  AnalysisCacheStore,
+  CachedAnalysisData,
+} from '@/lib/cache/analysisCache';
+import { AnalysisProviderInfo } from '@/lib/providers/catalog';
+import { createAnalysisProvider, AnalysisProviderError } from '@/lib/providers';
+
+export interface AnalysisCacheTarget {
+  store: AnalysisCacheStore;
+  key: string;
+}
+
+export interface VideoAnalysisInput {
+  video: File;
+  analysisOptions: AnalysisOptions;
+  apiKey?: string;
+  uploadMode: 'inline' | 'file';
+  keyframes?: VideoKeyframe[];
+  signal?: AbortSignal;
+}
+
+// Upload size limits
+const MAX_VIDEO_SIZE_BYTES = parseInt(process.env.MAX_VIDEO_SIZE_MB || '100') * 1024 * 1024;
+const MAX_FILE_UPLOAD_SIZE_BYTES = parseInt(process.env.MAX_FILE_UPLOAD_SIZE_MB || '2048') * 1024 * 1024;
+
+// Size limit of the upload path a video takes
+export function getMaxVideoSize(uploadMode: 'inline' | 'file'): number {
+  return uploadMode === 'file' ? MAX_FILE_UPLOAD_SIZE_BYTES : MAX_VIDEO_SIZE_BYTES;
+}
+
+// Helper function to get video format
+export function getVideoMimeType(filename: string): string {
+  const ext = filename.toLowerCase().split('.').pop();
+  const mimeTypes: { [key: string]: string } = {
+    'mp4': 'video/mp4',
+    'mov': 'video/quicktime',
+    'avi': 'video/x-msvideo',
+    'mkv': 'video/x-matroska',
+    'webm': 'video/webm',
+    'm4v': 'video/mp4',
+  };
+  return mimeTypes[ext || 'mp4'] || 'video/mp4';
+}
+
+/**
+ * Resolve where a video's result is cached. Returns null when caching is
+ * disabled or the content hash is missing or malformed.
+ */
+export function getAnalysisCacheTarget(
+  analysisOptions: AnalysisOptions,
+  contentHash: string | null | undefined
+): AnalysisCacheTarget | null {
+  const store = createAnalysisCacheStore();
+  if (!store || !isValidContentHash(contentHash)) return null;
+
+  return {
+    store,
+    key: buildAnalysisCacheKey(contentHash, ANALYSIS_PROMPT_VERSION, analysisOptions, getModelFields(analysisOptions)),
+  };
+}
+
+/**
+ * Analyze a video (or its hook window) with the selected provider and map the
+ * response onto built-in properties, custom fields and hook categories
+ */
+export async function runVideoAnalysis(input: VideoAnalysisInput): Promise<CachedAnalysisData> {
+  const { analysisOptions } = input;
+  const analysisFields = getAnalysisFields(analysisOptions);
+  const hookWindowSeconds = getHookWindowSeconds(analysisOptions);
+
+  const provider = createAnalysisProvider(analysisOptions.provider, { apiKey: input.apiKey });
+  const analysisResults = await provider.analyze({
+    video: input.video,
+    mimeType: getVideoMimeType(input.video.name),
+    fields: getModelFields(analysisOptions),
+    model: analysisOptions.model,
+    uploadMode: input.uploadMode,
+    keyframes: input.keyframes,
+    hookWindowSeconds,
+    signal: input.signal,
+  });
+
+  return {
+    ...mapAnalysisResults(analysisResults, analysisFields),
+    hookCategories: mapHookCategories(analysisResults, analysisOptions),
+    hookWindowSeconds,
+    uploadMode: input.uploadMode,
+    provider: analysisOptions.provider,
+    model: analysisOptions.model,
+  };
+}
+
+/**
+ * Translate a provider failure into a user-facing message and error code
+ */
+export function describeAnalysisError(
+  error: unknown,
+  providerInfo: AnalysisProviderInfo
+): { message: string; code: string } {
+  // Handle specific provider API errors
+  let message = 'Failed to analyze video';
+  let code = 'ANALYSIS_FAILED';
+
+  if (error instanceof VideoFileStoreError || error instanceof AnalysisProviderError) {
+    message = error.message;
+    code = error.code;
+  } else if (error instanceof Error) {
+    if (error.message.includes('quota')) {
+      message = 'API quota exceeded. Please try again later or check your API key limits.';
+      code = 'QUOTA_EXCEEDED';
+    } else if (error.message.includes('safety')) {
+      message = 'Video content was blocked by safety filters.';
+      code = 'CONTENT_BLOCKED';
+    } else if (error.message.includes('unsupported')) {
+      message = 'Video format not supported for analysis.';
+      code = 'UNSUPPORTED_FORMAT';
+    } else if (error.message.includes('API key') || error.message.includes('invalid')) {
+      message = providerInfo.requiresUserApiKey
+        ? 'Invalid API key. Please check your Google Gemini API key and try again.'
+        : `Invalid ${providerInfo.label} API key configured on the server.`;
+      code = 'INVALID_API_KEY';
+    }
+  }
+
+  return { message, code };
+}
@@ -0,0 +1,35 @@
+/**
+ * Client Authentication
+ *
+ * Each browser (or CLI run) sends a random token of its own as
+ * "Authorization: Bearer <token>". Webhooks and jobs belong to the hash of
+ * that token, so only the client that created them can list, read or delete
+ * them, and only its own analyses are delivered to its webhooks. The token
+ * itself is never stored on the server.
+ *
+ * Server-only: relies on Node's crypto module.
+ */
+
+import { createHash } from 'crypto';
+
+export const MIN_CLIENT_TOKEN_LENGTH = 32;
+
+/**
+ * Owner id for the request's bearer token, or null when it has none (or one
+ * too short to be unguessable)
+ */
+export function getRequestOwner(headers: Headers): string | null {
+  const match = headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i);
+  if (!match || match[1].length < MIN_CLIENT_TOKEN_LENGTH) return null;
+  return createHash('sha256').update(match[1]).digest('hex');
+}
+
+export function unauthorizedError() {
+  return {
+    success: false as const,
+    error: {
+      message: 'This request needs the client token of the browser that made it (Authorization: Bearer <token>)',
+      code: 'UNAUTHORIZED',
+    },
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Server Rate Limiter
+ *
+ * Sliding-window request limit per client, shared by the analyze route and
+ * the background job worker so both draw from the same per-minute budget.
+ * State is kept in memory of the running server process.
+ */
+
+import { RateLimitInfo } from '@/types/video-analysis';
+
+// Enhanced rate limiting storage with better tracking
+interface RateLimitData {
+  count: number;
+  resetTime: number;
+  requests: Array<{ timestamp: number; id: string }>;
+  lastCleanup: number;
+}
+
+export interface RateLimitCheck {
+  allowed: boolean;
+  remaining: number;
+  resetTime: number;
+  requestsInLastMinute: number;
+  retryAfter?: number;
+}
+
+const rateLimitStore = new Map<string, RateLimitData>();
+
+// Rate limiting configuration
+export const RATE_LIMIT_PER_MINUTE = parseInt(process.env.RATE_LIMIT_PER_MINUTE || '10');
+const RATE_LIMIT_WINDOW_MS = 60000; // 1 minute
+const CLEANUP_INTERVAL_MS = 300000; // 5 minutes
+
+// Cleanup old rate limit entries periodically
+setInterval(() => {
+  const now = Date.now();
+  for (const [key, data] of Array.from(rateLimitStore.entries())) {
+    if (now > data.resetTime + CLEANUP_INTERVAL_MS) {
+      rateLimitStore.delete(key);
+    }
+  }
+}, CLEANUP_INTERVAL_MS);
+
+/**
+ * Identify the client for rate limiting from proxy headers
+ */
+export function getClientIp(headers: Headers): string {
+  return headers.get('x-forwarded-for')?.split(',')[0] ||
+    headers.get('x-real-ip') ||
+    'unknown';
+}
+
+// Rate limit info for responses sent before a request was counted
+export function defaultRateLimitInfo(): RateLimitInfo {
+  return {
+    remaining: RATE_LIMIT_PER_MINUTE,
+    resetTime: Date.now() + 60000,
+    requestsInLastMinute: 0,
+    maxRequestsPerMinute: RATE_LIMIT_PER_MINUTE,
+  };
+}
+
+/**
+ * Enhanced rate limit checker with sliding window.
+ * Counts the request when it is allowed.
+ */
+export function checkRateLimit(key: string, requestId?: string): RateLimitCheck {
+  const now = Date.now();
+  let limitData = rateLimitStore.get(key);
+
+  // Initialize if doesn't exist
+  if (!limitData) {
+    limitData = {
+      count: 0,
+      resetTime: now + RATE_LIMIT_WINDOW_MS,
+      requests: [],
+      lastCleanup: now
+    };
+    rateLimitStore.set(key, limitData);
+  }
+
+  // Clean up old requests (sliding window approach)
+  const oneMinuteAgo = now - RATE_LIMIT_WINDOW_MS;
+  limitData.requests = limitData.requests.filter(req => req.timestamp > oneMinuteAgo);
+
+  // Update count based on cleaned requests
+  limitData.count = limitData.requests.length;
+
+  // Reset window if needed
+  if (now > limitData.resetTime) {
+    limitData.resetTime = now + RATE_LIMIT_WINDOW_MS;
+  }
+
+  // Check if rate limit exceeded
+  if (limitData.count >= RATE_LIMIT_PER_MINUTE) {
+    const oldestRequest = limitData.requests[0];
+    const retryAfter = oldestRequest ? Math.ceil((oldestRequest.timestamp + RATE_LIMIT_WINDOW_MS - now) / 1000) : 60;
+
+    return {
+      allowed: false,
+      remaining: 0,
+      resetTime: limitData.resetTime,
+      requestsInLastMinute: limitData.count,
+      retryAfter
+    };
+  }
+
+  // Add current request
+  const currentRequestId = requestId || `req_${now}_${Math.random().toString(36).substr(2, 9)}`;
+  limitData.requests.push({ timestamp: now, id: currentRequestId });
+  limitData.count = limitData.requests.length;
+
+  return {
+    allowed: true,
+    remaining: RATE_LIMIT_PER_MINUTE - limitData.count,
+    resetTime: limitData.resetTime,
+    requestsInLastMinute: limitData.count
+  };
+}
+
+// Read the current rate limit state without counting a request (used for cache hits)
+export function peekRateLimit(key: string): { remaining: number; resetTime: number; requestsInLastMinute: number } {
+  const now = Date.now();
+  const limitData = rateLimitStore.get(key);
+  const requestsInLastMinute = limitData
+    ? limitData.requests.filter(req => req.timestamp > now - RATE_LIMIT_WINDOW_MS).length
+    : 0;
+
+  return {
+    remaining: Math.max(0, RATE_LIMIT_PER_MINUTE - requestsInLastMinute),
+    resetTime: limitData && limitData.resetTime > now ? limitData.resetTime : now + RATE_LIMIT_WINDOW_MS,
+    requestsInLastMinute,
+  };
+}
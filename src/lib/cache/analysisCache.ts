@@ -0,0 +1,192 @@
+/**
+ * Analysis Result Cache
+ *
+ * Caches structured analysis results by video content hash, so re-uploading
+ * the same creative under a different filename doesn't cost another model call.
+ * The key also covers the prompt version, provider, model and field set, so
+ * changing any of them produces a fresh analysis.
+ *
+ * Server-only: the default store writes JSON files to disk.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AnalysisFieldDefinition, AnalysisOptions, VideoAnalysisApiResponse } from '@/types/video-analysis';
+
+// Cached response data; request-specific properties are filled in on each hit
+export type CachedAnalysisData = Omit<NonNullable<VideoAnalysisApiResponse['data']>, 'id' | 'processingTime' | 'cached'>;
+
+export interface CachedAnalysisEntry {
+  data: CachedAnalysisData;
+  createdAt: number;
+}
+
+export interface AnalysisCacheStore {
+  readonly backend: 'file' | 'memory';
+  get(key: string): Promise<CachedAnalysisEntry | null>;
+  set(key: string, entry: CachedAnalysisEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// Configuration
+const CACHE_DIR = process.env.ANALYSIS_CACHE_DIR || path.join(os.tmpdir(), 'video-analyzer-cache');
+const CACHE_TTL_MS = parseInt(process.env.ANALYSIS_CACHE_TTL_DAYS || '30') * 24 * 60 * 60 * 1000;
+
+const SHA256_PATTERN = /^[a-f0-9]{64}$/;
+
+export function isValidContentHash(hash: unknown): hash is string {
+  return typeof hash === 'string' && SHA256_PATTERN.test(hash);
+}
+
+/**
+ * Create the cache store selected by ANALYSIS_CACHE_STORE ('file' by default).
+ * Returns null when caching is disabled with ANALYSIS_CACHE_STORE=none.
+ */
+export function createAnalysisCacheStore(): AnalysisCacheStore | null {
+  switch (process.env.ANALYSIS_CACHE_STORE) {
+    case 'none':
+      return null;
+    case 'memory':
+      return memoryStore;
+    default:
+      return new FileSystemAnalysisCacheStore(CACHE_DIR);
+  }
+}
+
+/**
+ * Build the cache key for a video hash and the analysis configuration
+ */
+export function buildAnalysisCacheKey(
+  contentHash: string,
+  promptVersion: string,
+  options: Pick<AnalysisOptions, 'provider' | 'model'>,
+  fields: AnalysisFieldDefinition[]
+): string {
+  // Only the parts of a field that change the model output belong in the key
+  const fieldSignature = fields.map(field => ({
+    key: field.key,
+    label: field.label,
+    instruction: field.instruction,
+    type: field.type,
+    enumValues: field.enumValues,
+  }));
+
+  return createHash('sha256')
+    .update(JSON.stringify({
+      contentHash,
+      promptVersion,
+      provider: options.provider,
+      model: options.model,
+      fields: fieldSignature,
+    }))
+    .digest('hex');
+}
+
+/**
+ * Compute the SHA-256 of an uploaded file without buffering it whole
+ */
+export async function hashFile(file: File): Promise<string> {
+  const hash = createHash('sha256');
+  const reader = file.stream().getReader();
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    hash.update(value);
+  }
+
+  return hash.digest('hex');
+}
+
+/**
+ * Read an entry, treating expired entries and store failures as misses
+ */
+export async function readCachedAnalysis(store: AnalysisCacheStore, key: string): Promise<CachedAnalysisData | null> {
+  try {
+    const entry = await store.get(key);
+    if (!entry) return null;
+
+    if (CACHE_TTL_MS > 0 && Date.now() - entry.createdAt > CACHE_TTL_MS) {
+      await store.delete(key);
+      return null;
+    }
+
+    return entry.data;
+  } catch (error) {
+    console.warn(`Failed to read analysis cache entry ${key}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Write an entry, logging instead of throwing so caching never fails an analysis
+ */
+export async function writeCachedAnalysis(store: AnalysisCacheStore, key: string, data: CachedAnalysisData): Promise<void> {
+  try {
+    await store.set(key, { data, createdAt: Date.now() });
+  } catch (error) {
+    console.warn(`Failed to write analysis cache entry ${key}:`, error);
+  }
+}
+
+/**
+ * Default store: one JSON file per cache key
+ */
+export class FileSystemAnalysisCacheStore implements AnalysisCacheStore {
+  readonly backend = 'file' as const;
+
+  constructor(private directory: string) {}
+
+  async get(key: string): Promise<CachedAnalysisEntry | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.entryPath(key), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async set(key: string, entry: CachedAnalysisEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write to a temp file first so concurrent readers never see a partial entry
+    const entryPath = this.entryPath(key);
+    const tempPath = `${entryPath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entry));
+    await fs.rename(tempPath, entryPath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.entryPath(key), { force: true });
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
+
+/**
+ * In-memory store for tests and single-process deployments
+ */
+export class MemoryAnalysisCacheStore implements AnalysisCacheStore {
+  readonly backend = 'memory' as const;
+
+  private entries = new Map<string, CachedAnalysisEntry>();
+
+  async get(key: string): Promise<CachedAnalysisEntry | null> {
+    return this.entries.get(key) ?? null;
+  }
+
+  async set(key: string, entry: CachedAnalysisEntry): Promise<void> {
+    this.entries.set(key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+// Shared across requests so the memory backend actually retains entries
+const memoryStore = new MemoryAnalysisCacheStore();
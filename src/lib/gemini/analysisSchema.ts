@@ -0,0 +1,45 @@
+/**
+ * Gemini Response Schema
+ *
+ * Builds the structured output schema for the enabled analysis fields
+ */
+
+import { ObjectSchema, Schema, SchemaType } from '@google/generative-ai';
+import { AnalysisFieldDefinition } from '@/types/video-analysis';
+
+function buildFieldSchema(field: AnalysisFieldDefinition): Schema {
+  const description = `${field.label}: ${field.instruction}`;
+
+  switch (field.type) {
+    case 'enum':
+      return {
+        type: SchemaType.STRING,
+        format: 'enum',
+        enum: field.enumValues || [],
+        description,
+      };
+    case 'number':
+      return { type: SchemaType.NUMBER, description };
+    case 'string[]':
+      return {
+        type: SchemaType.ARRAY,
+        items: { type: SchemaType.STRING },
+        description,
+      };
+    default:
+      return { type: SchemaType.STRING, description };
+  }
+}
+
+export function buildResponseSchema(fields: AnalysisFieldDefinition[]): ObjectSchema {
+  const properties: { [key: string]: Schema } = {};
+  fields.forEach(field => {
+    properties[field.key] = buildFieldSchema(field);
+  });
+
+  return {
+    type: SchemaType.OBJECT,
+    properties,
+    required: fields.map(field => field.key),
+  };
+}
@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DEFAULT_ANALYSIS_FIELDS } from '@/lib/utils/analysisFields';
+import { MockAnalysisProvider } from '@/lib/providers/mockProvider';
+import {
+  LocalVideoFileStore,
+  VideoFileStoreError,
+  createVideoFileStore,
+  resolveUploadMode,
+  waitForFileActive,
+  cleanupUploadedFile,
+} from './videoFileStore';
+
+const MB = 1024 * 1024;
+
+function videoFile(name: string, size: number): File {
+  return new File([new Uint8Array(size).fill(7)], name, { type: 'video/mp4' });
+}
+
+async function withTempDir(run: (directory: string) => Promise<void>): Promise<void> {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'video-file-store-test-'));
+  try {
+    await run(directory);
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+}
+
+test('auto upload mode switches to the file store above the inline limit', () => {
+  assert.equal(resolveUploadMode('auto', 5 * MB), 'inline');
+  assert.equal(resolveUploadMode('auto', 50 * MB), 'file');
+  assert.equal(resolveUploadMode('inline', 50 * MB), 'inline');
+  assert.equal(resolveUploadMode('file', 1), 'file');
+});
+
+test('local store goes through upload, ACTIVE and delete', async () => {
+  await withTempDir(async directory => {
+    const store = new LocalVideoFileStore(directory, 50);
+    const file = videoFile('ad.mp4', 1024);
+
+    const uploaded = await store.upload(file, 'video/mp4');
+    assert.equal(uploaded.state, 'PROCESSING');
+    assert.equal(uploaded.sizeBytes, 1024);
+
+    const active = await waitForFileActive(store, uploaded.name, 5000);
+    assert.equal(active.state, 'ACTIVE');
+    assert.equal((await fs.readdir(directory)).length, 2); // video and metadata
+
+    await cleanupUploadedFile(store, uploaded.name);
+    assert.deepEqual(await fs.readdir(directory), []);
+    await assert.rejects(store.getFile(uploaded.name), { code: 'FILE_NOT_FOUND' });
+  });
+});
+
+test('waiting for a file stops when the signal is aborted', async () => {
+  await withTempDir(async directory => {
+    const store = new LocalVideoFileStore(directory, 60000);
+    const uploaded = await store.upload(videoFile('slow.mp4', 16), 'video/mp4');
+    const controller = new AbortController();
+    controller.abort();
+
+    await assert.rejects(
+      waitForFileActive(store, uploaded.name, 5000, controller.signal),
+      { code: 'REQUEST_CANCELLED' }
+    );
+  });
+});
+
+test('the local store is refused for Gemini', () => {
+  const previous = process.env.VIDEO_FILE_STORE;
+  process.env.VIDEO_FILE_STORE = 'local';
+  try {
+    assert.throws(
+      () => createVideoFileStore('gemini', 'AIza-test'),
+      (error: unknown) => error instanceof VideoFileStoreError && error.code === 'FILE_STORE_UNSUPPORTED'
+    );
+    assert.equal(createVideoFileStore('mock').backend, 'local');
+  } finally {
+    if (previous === undefined) delete process.env.VIDEO_FILE_STORE;
+    else process.env.VIDEO_FILE_STORE = previous;
+  }
+});
+
+test('mock provider analyzes file uploads through the local store', async () => {
+  const fields = DEFAULT_ANALYSIS_FIELDS.filter(field => field.enabled);
+  const input = {
+    video: videoFile('large.mp4', 2048),
+    mimeType: 'video/mp4',
+    model: 'mock-1',
+    fields,
+  };
+
+  const provider = new MockAnalysisProvider();
+  const viaFile = await provider.analyze({ ...input, uploadMode: 'file' });
+  const inline = await provider.analyze({ ...input, uploadMode: 'inline' });
+
+  assert.deepEqual(viaFile, inline);
+  assert.deepEqual(Object.keys(viaFile).sort(), fields.map(field => field.key).sort());
+});
@@ -0,0 +1,276 @@
+/**
+ * Video File Store
+ *
+ * Uploads videos to a file store so the model can reference them by URI
+ * instead of receiving the whole video as base64 inline data.
+ * The Gemini backend uses the Gemini Files API; the local backend keeps the
+ * same upload → ACTIVE → delete lifecycle on disk for offline development.
+ * Gemini can only read files the Files API issued, so the local backend is
+ * paired with the mock provider and never with Gemini.
+ *
+ * Server-only: relies on Node's fs and stream modules.
+ */
+
+import { createWriteStream, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { GoogleAIFileManager, FileMetadataResponse } from '@google/generative-ai/server';
+import { AnalysisProviderId, VideoUploadMode } from '@/types/video-analysis';
+
+export type StoredFileState = 'PROCESSING' | 'ACTIVE' | 'FAILED';
+
+export interface StoredVideoFile {
+  name: string;
+  uri: string;
+  mimeType: string;
+  sizeBytes: number;
+  state: StoredFileState;
+}
+
+export interface VideoFileStore {
+  readonly backend: 'gemini' | 'local';
+  upload(file: File, mimeType: string): Promise<StoredVideoFile>;
+  getFile(name: string): Promise<StoredVideoFile>;
+  deleteFile(name: string): Promise<void>;
+}
+
+export class VideoFileStoreError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'VideoFileStoreError';
+  }
+}
+
+// Configuration
+const INLINE_UPLOAD_MAX_BYTES = parseInt(process.env.INLINE_UPLOAD_MAX_MB || '20') * 1024 * 1024;
+const DEFAULT_UPLOAD_MODE = (process.env.VIDEO_UPLOAD_MODE || 'auto') as VideoUploadMode;
+const FILE_ACTIVE_TIMEOUT_MS = parseInt(process.env.FILE_ACTIVE_TIMEOUT_SECONDS || '300') * 1000;
+const FILE_POLL_INTERVAL_MS = 2000;
+const LOCAL_STORE_DIR = process.env.LOCAL_FILE_STORE_DIR || path.join(os.tmpdir(), 'video-analyzer-files');
+const LOCAL_PROCESSING_DELAY_MS = parseInt(process.env.LOCAL_FILE_STORE_PROCESSING_MS || '0');
+
+/**
+ * Decide whether a video is sent inline or through the file store.
+ * An explicit 'inline' or 'file' wins; 'auto' switches to the file store
+ * once the video is larger than INLINE_UPLOAD_MAX_MB.
+ */
+export function resolveUploadMode(
+  requested: string | null | undefined,
+  fileSize: number
+): Exclude<VideoUploadMode, 'auto'> {
+  const mode = requested === 'inline' || requested === 'file' || requested === 'auto'
+    ? requested
+    : DEFAULT_UPLOAD_MODE;
+
+  if (mode === 'inline' || mode === 'file') return mode;
+  return fileSize > INLINE_UPLOAD_MAX_BYTES ? 'file' : 'inline';
+}
+
+/**
+ * Create the file store for a provider: the Files API for Gemini, the local
+ * directory for the mock provider. VIDEO_FILE_STORE=local is refused for
+ * Gemini before anything is uploaded, since its file:// URIs can't be read.
+ */
+export function createVideoFileStore(provider: AnalysisProviderId, apiKey?: string): VideoFileStore {
+  if (provider === 'mock') {
+    return new LocalVideoFileStore(LOCAL_STORE_DIR);
+  }
+  if (provider !== 'gemini') {
+    throw new VideoFileStoreError(`Videos for ${provider} can't be uploaded to a file store`, 'FILE_STORE_UNSUPPORTED');
+  }
+  if (process.env.VIDEO_FILE_STORE === 'local') {
+    throw new VideoFileStoreError(
+      'VIDEO_FILE_STORE=local only works with the mock provider; Gemini needs the Files API. ' +
+      'Unset VIDEO_FILE_STORE or analyze with the mock provider.',
+      'FILE_STORE_UNSUPPORTED'
+    );
+  }
+  if (!apiKey) {
+    throw new VideoFileStoreError('The Gemini Files API requires an API key', 'MISSING_API_KEY');
+  }
+  return new GeminiVideoFileStore(apiKey);
+}
+
+/**
+ * Poll the store until the uploaded file is ACTIVE and ready to be referenced.
+ * Stops polling when the signal is aborted.
+ */
+export async function waitForFileActive(
+  store: VideoFileStore,
+  name: string,
+  timeoutMs: number = FILE_ACTIVE_TIMEOUT_MS,
+  signal?: AbortSignal
+): Promise<StoredVideoFile> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (true) {
+    if (signal?.aborted) {
+      throw new VideoFileStoreError('Stopped waiting for the uploaded video: request cancelled', 'REQUEST_CANCELLED');
+    }
+
+    const file = await store.getFile(name);
+
+    if (file.state === 'ACTIVE') return file;
+    if (file.state === 'FAILED') {
+      throw new VideoFileStoreError('Uploaded video failed processing', 'FILE_PROCESSING_FAILED');
+    }
+    if (Date.now() >= deadline) {
+      throw new VideoFileStoreError(
+        `Uploaded video was not ready after ${Math.round(timeoutMs / 1000)} seconds`,
+        'FILE_PROCESSING_TIMEOUT'
+      );
+    }
+
+    await new Promise(resolve => setTimeout(resolve, FILE_POLL_INTERVAL_MS));
+  }
+}
+
+/**
+ * Delete an uploaded file, logging instead of throwing so cleanup never
+ * masks the analysis result
+ */
+export async function cleanupUploadedFile(store: VideoFileStore, name: string): Promise<void> {
+  try {
+    await store.deleteFile(name);
+  } catch (error) {
+    console.warn(`Failed to delete uploaded file ${name}:`, error);
+  }
+}
+
+// Stream a browser File to disk without buffering it in memory
+async function writeFileToDisk(file: File, targetPath: string): Promise<void> {
+  const source = Readable.fromWeb(file.stream() as unknown as NodeReadableStream);
+  await pipeline(source, createWriteStream(targetPath));
+}
+
+function generateFileId(): string {
+  return `video_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Gemini Files API backend
+ */
+export class GeminiVideoFileStore implements VideoFileStore {
+  readonly backend = 'gemini' as const;
+  private fileManager: GoogleAIFileManager;
+
+  constructor(apiKey: string) {
+    this.fileManager = new GoogleAIFileManager(apiKey);
+  }
+
+  async upload(file: File, mimeType: string): Promise<StoredVideoFile> {
+    // The SDK uploads from a path, so spool the request body to a temp file first
+    const tempPath = path.join(os.tmpdir(), `${generateFileId()}${path.extname(file.name)}`);
+
+    try {
+      await writeFileToDisk(file, tempPath);
+      const response = await this.fileManager.uploadFile(tempPath, {
+        mimeType,
+        displayName: file.name,
+      });
+      return this.toStoredFile(response.file);
+    } catch (error) {
+      throw new VideoFileStoreError(
+        `Failed to upload video: ${error instanceof Error ? error.message : String(error)}`,
+        'UPLOAD_FAILED'
+      );
+    } finally {
+      await fs.unlink(tempPath).catch(() => undefined);
+    }
+  }
+
+  async getFile(name: string): Promise<StoredVideoFile> {
+    return this.toStoredFile(await this.fileManager.getFile(name));
+  }
+
+  async deleteFile(name: string): Promise<void> {
+    await this.fileManager.deleteFile(name);
+  }
+
+  private toStoredFile(file: FileMetadataResponse): StoredVideoFile {
+    const state = file.state === 'ACTIVE' || file.state === 'FAILED' ? file.state : 'PROCESSING';
+    return {
+      name: file.name,
+      uri: file.uri,
+      mimeType: file.mimeType,
+      sizeBytes: parseInt(file.sizeBytes || '0'),
+      state,
+    };
+  }
+}
+
+interface LocalFileRecord extends StoredVideoFile {
+  createdAt: number;
+}
+
+/**
+ * Local stand-in backend
+ * Stores videos in a directory and reports them ACTIVE after
+ * LOCAL_FILE_STORE_PROCESSING_MS, mimicking the Files API processing step.
+ */
+export class LocalVideoFileStore implements VideoFileStore {
+  readonly backend = 'local' as const;
+
+  constructor(private directory: string, private processingDelayMs: number = LOCAL_PROCESSING_DELAY_MS) {}
+
+  async upload(file: File, mimeType: string): Promise<StoredVideoFile> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const name = `files/${generateFileId()}`;
+    const videoPath = this.videoPath(name);
+
+    try {
+      await writeFileToDisk(file, videoPath);
+    } catch (error) {
+      throw new VideoFileStoreError(
+        `Failed to store video locally: ${error instanceof Error ? error.message : String(error)}`,
+        'UPLOAD_FAILED'
+      );
+    }
+
+    const record: LocalFileRecord = {
+      name,
+      uri: `file://${videoPath}`,
+      mimeType,
+      sizeBytes: file.size,
+      state: 'PROCESSING',
+      createdAt: Date.now(),
+    };
+    await fs.writeFile(this.metadataPath(name), JSON.stringify(record), 'utf8');
+
+    return this.withState(record);
+  }
+
+  async getFile(name: string): Promise<StoredVideoFile> {
+    try {
+      const record: LocalFileRecord = JSON.parse(await fs.readFile(this.metadataPath(name), 'utf8'));
+      return this.withState(record);
+    } catch (error) {
+      throw new VideoFileStoreError(`File not found: ${name}`, 'FILE_NOT_FOUND');
+    }
+  }
+
+  async deleteFile(name: string): Promise<void> {
+    await Promise.all([
+      fs.rm(this.videoPath(name), { force: true }),
+      fs.rm(this.metadataPath(name), { force: true }),
+    ]);
+  }
+
+  private withState(record: LocalFileRecord): StoredVideoFile {
+    const { createdAt, ...file } = record;
+    const ready = Date.now() - createdAt >= this.processingDelayMs;
+    return { ...file, state: ready ? 'ACTIVE' : 'PROCESSING' };
+  }
+
+  private videoPath(name: string): string {
+    return path.join(this.directory, `${path.basename(name)}.video`);
+  }
+
+  private metadataPath(name: string): string {
+    return path.join(this.directory, `${path.basename(name)}.json`);
+  }
+}
@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { AnalysisJobApiResponse, AnalysisJobSummary, VideoAnalysisResult } from "@/types/video-analysis";
+import { getClientAuthHeaders } from "@/lib/utils/clientToken";
+
+const JOB_POLL_INTERVAL = 3000;
+
+function isJobActive(job: AnalysisJobSummary): boolean {
+  return job.status === "queued" || job.status === "running";
+}
+
+// Jobs can only be read with the client token they were submitted with
+async function fetchJobApi<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, headers: { ...init.headers, ...getClientAuthHeaders() } });
+  const body: AnalysisJobApiResponse<T> = await response.json();
+  if (!response.ok || !body.success || body.data === undefined) {
+    throw new Error(body.error?.message || `Request failed with status ${response.status}`);
+  }
+  return body.data;
+}
+
+/**
+ * Attach to a server-side analysis job: polls its status while it runs and
+ * passes the results to onResults whenever they change
+ */
+export function useAnalysisJob(
+  jobId: string | null,
+  onResults?: (results: VideoAnalysisResult[]) => void
+): { job: AnalysisJobSummary | null; error: string | null; cancel: () => Promise<void> } {
+  const [job, setJob] = useState<AnalysisJobSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Latest callback without restarting the polling loop
+  const onResultsRef = useRef(onResults);
+  useEffect(() => {
+    onResultsRef.current = onResults;
+  }, [onResults]);
+
+  useEffect(() => {
+    setJob(null);
+    setError(null);
+    if (!jobId) return;
+
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let lastUpdatedAt = "";
+
+    const poll = async () => {
+      try {
+        const summary = await fetchJobApi<AnalysisJobSummary>(`/api/jobs/${encodeURIComponent(jobId)}`);
+        if (stopped) return;
+        setJob(summary);
+        setError(null);
+
+        if (summary.updatedAt !== lastUpdatedAt) {
+          lastUpdatedAt = summary.updatedAt;
+          const results = await fetchJobApi<VideoAnalysisResult[]>(`/api/jobs/${encodeURIComponent(jobId)}/results`);
+          if (!stopped) onResultsRef.current?.(results);
+        }
+
+        if (isJobActive(summary) && !stopped) {
+          timer = setTimeout(poll, JOB_POLL_INTERVAL);
+        }
+      } catch (pollError) {
+        if (stopped) return;
+        setError(pollError instanceof Error ? pollError.message : String(pollError));
+        timer = setTimeout(poll, JOB_POLL_INTERVAL * 2);
+      }
+    };
+
+    poll();
+
+    return () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [jobId]);
+
+  const cancel = useCallback(async () => {
+    if (!jobId) return;
+    try {
+      setJob(await fetchJobApi<AnalysisJobSummary>(`/api/jobs/${encodeURIComponent(jobId)}`, { method: "DELETE" }));
+    } catch (cancelError) {
+      setError(cancelError instanceof Error ? cancelError.message : String(cancelError));
+    }
+  }, [jobId]);
+
+  return { job, error, cancel };
+}
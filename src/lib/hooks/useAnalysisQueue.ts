@@ -0,0 +1,33 @@
+import { useEffect, useSyncExternalStore } from "react";
+import {
+  getVideoAnalysisQueue,
+  INITIAL_QUEUE_SNAPSHOT,
+  QueueSnapshot,
+  ResultCallback,
+  VideoAnalysisQueue,
+} from "../utils/rateLimitQueue";
+
+const noopSubscribe = () => () => {};
+const getInitialSnapshot = () => INITIAL_QUEUE_SNAPSHOT;
+
+/**
+ * Subscribe to the shared analysis queue. Every component using the hook sees
+ * the same queue; pass onResult to receive per-video result updates.
+ */
+export function useAnalysisQueue(onResult?: ResultCallback): QueueSnapshot & { queue: VideoAnalysisQueue | null } {
+  // The queue reads browser storage, so it's only created on the client
+  const queue = typeof window === "undefined" ? null : getVideoAnalysisQueue();
+
+  const snapshot = useSyncExternalStore(
+    queue ? queue.subscribe : noopSubscribe,
+    queue ? queue.getSnapshot : getInitialSnapshot,
+    getInitialSnapshot
+  );
+
+  useEffect(() => {
+    if (!queue || !onResult) return;
+    return queue.onResult(onResult);
+  }, [queue, onResult]);
+
+  return { ...snapshot, queue };
+}
@@ -0,0 +1,187 @@
+/**
+ * Analysis Job Store
+ *
+ * Persists server-side analysis jobs and their uploaded videos until the
+ * background worker has processed them. The default backend keeps one
+ * directory per job on disk, so jobs survive a server restart.
+ *
+ * Server-only: relies on Node's fs and stream modules.
+ */
+
+import { createWriteStream, openAsBlob, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { getVideoMimeType } from '@/lib/analysis/analyzeVideo';
+import { AnalysisJob, AnalysisJobStore, AnalysisJobVideo, AnalysisJobError } from './types';
+
+// Configuration
+const JOB_STORE_DIR = process.env.JOB_STORE_DIR || path.join(os.tmpdir(), 'video-analyzer-jobs');
+
+const JOB_ID_PATTERN = /^job_[a-z0-9_]+$/;
+
+export function isValidJobId(id: unknown): id is string {
+  return typeof id === 'string' && JOB_ID_PATTERN.test(id);
+}
+
+export function generateJobId(): string {
+  return `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Create the job store selected by JOB_STORE ('file' by default)
+ */
+export function createAnalysisJobStore(): AnalysisJobStore {
+  if (process.env.JOB_STORE === 'memory') {
+    return memoryStore;
+  }
+  return new FileSystemAnalysisJobStore(JOB_STORE_DIR);
+}
+
+// Stream a browser File to disk without buffering it in memory
+async function writeFileToDisk(file: File, targetPath: string): Promise<void> {
+  const source = Readable.fromWeb(file.stream() as unknown as NodeReadableStream);
+  await pipeline(source, createWriteStream(targetPath));
+}
+
+/**
+ * Default store: <dir>/<job id>/job.json plus the videos next to it
+ */
+export class FileSystemAnalysisJobStore implements AnalysisJobStore {
+  readonly backend = 'file' as const;
+
+  constructor(private directory: string) {}
+
+  async create(job: AnalysisJob, files: Map<string, File>): Promise<void> {
+    await fs.mkdir(this.videosDir(job.id), { recursive: true });
+
+    try {
+      for (const video of job.videos) {
+        const file = files.get(video.id);
+        if (!file) {
+          throw new AnalysisJobError(`Missing upload for ${video.filename}`, 'MISSING_VIDEO_FILE');
+        }
+        await writeFileToDisk(file, this.videoPath(job.id, video.id));
+      }
+      await this.update(job);
+    } catch (error) {
+      await fs.rm(this.jobDir(job.id), { recursive: true, force: true });
+      throw error;
+    }
+  }
+
+  async get(id: string): Promise<AnalysisJob | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.jobPath(id), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async update(job: AnalysisJob): Promise<void> {
+    // Write to a temp file first so status polls never see a partial record
+    const jobPath = this.jobPath(job.id);
+    const tempPath = `${jobPath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(job));
+    await fs.rename(tempPath, jobPath);
+  }
+
+  async list(): Promise<AnalysisJob[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const jobs = await Promise.all(entries.filter(isValidJobId).map(id => this.get(id).catch(() => null)));
+    return jobs.filter((job): job is AnalysisJob => Boolean(job));
+  }
+
+  // Backed by the file on disk: providers stream it instead of loading it into memory
+  async readVideo(job: AnalysisJob, video: AnalysisJobVideo): Promise<File> {
+    try {
+      const type = getVideoMimeType(video.filename);
+      const blob = await openAsBlob(this.videoPath(job.id, video.id), { type });
+      return new File([blob], video.filename, { type });
+    } catch (error) {
+      throw new AnalysisJobError(`Stored video ${video.filename} is no longer available`, 'VIDEO_NOT_FOUND');
+    }
+  }
+
+  async deleteVideos(id: string): Promise<void> {
+    await fs.rm(this.videosDir(id), { recursive: true, force: true });
+  }
+
+  async delete(id: string): Promise<void> {
+    await fs.rm(this.jobDir(id), { recursive: true, force: true });
+  }
+
+  private jobDir(id: string): string {
+    return path.join(this.directory, id);
+  }
+
+  private jobPath(id: string): string {
+    return path.join(this.jobDir(id), 'job.json');
+  }
+
+  private videosDir(id: string): string {
+    return path.join(this.jobDir(id), 'videos');
+  }
+
+  private videoPath(jobId: string, videoId: string): string {
+    return path.join(this.videosDir(jobId), videoId);
+  }
+}
+
+/**
+ * In-memory store for tests and single-process deployments
+ */
+export class MemoryAnalysisJobStore implements AnalysisJobStore {
+  readonly backend = 'memory' as const;
+
+  private jobs = new Map<string, string>(); // serialized, so callers never share a record
+  private videos = new Map<string, Map<string, File>>();
+
+  async create(job: AnalysisJob, files: Map<string, File>): Promise<void> {
+    this.videos.set(job.id, new Map(files));
+    await this.update(job);
+  }
+
+  async get(id: string): Promise<AnalysisJob | null> {
+    const job = this.jobs.get(id);
+    return job ? JSON.parse(job) : null;
+  }
+
+  async update(job: AnalysisJob): Promise<void> {
+    this.jobs.set(job.id, JSON.stringify(job));
+  }
+
+  async list(): Promise<AnalysisJob[]> {
+    return Array.from(this.jobs.values(), job => JSON.parse(job));
+  }
+
+  async readVideo(job: AnalysisJob, video: AnalysisJobVideo): Promise<File> {
+    const file = this.videos.get(job.id)?.get(video.id);
+    if (!file) {
+      throw new AnalysisJobError(`Stored video ${video.filename} is no longer available`, 'VIDEO_NOT_FOUND');
+    }
+    return file;
+  }
+
+  async deleteVideos(id: string): Promise<void> {
+    this.videos.delete(id);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.jobs.delete(id);
+    this.videos.delete(id);
+  }
+}
+
+// Shared across requests so the memory backend actually retains jobs
+const memoryStore = new MemoryAnalysisJobStore();
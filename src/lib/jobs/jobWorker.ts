@@ -0,0 +1,379 @@
+/**
+ * Analysis Job Worker
+ *
+ * Processes submitted jobs in the background of the server process, one
+ * video at a time per job, under the same per-client rate limit as direct
+ * analyze requests. User API keys are held in memory only: after a restart,
+ * jobs that need one are marked failed instead of resumed.
+ */
+
+import { AnalysisJobSummary, VideoAnalysisResult } from '@/types/video-analysis';
+import { resolveUploadMode } from '@/lib/gemini/videoFileStore';
+import { readCachedAnalysis, writeCachedAnalysis, CachedAnalysisData } from '@/lib/cache/analysisCache';
+import { getProviderInfo } from '@/lib/providers/catalog';
+import { RATE_LIMIT_PER_MINUTE, checkRateLimit } from '@/lib/analysis/rateLimit';
+import { getAnalysisCacheTarget, runVideoAnalysis, describeAnalysisError } from '@/lib/analysis/analyzeVideo';
+import { WebhookDispatcher, getWebhookDispatcher } from '@/lib/webhooks/webhookDispatcher';
+import { isRetryableAnalysisError } from '@/lib/utils/errorHandling';
+import { createAnalysisJobStore, isValidJobId } from './jobStore';
+import { AnalysisJob, AnalysisJobStore, AnalysisJobVideo } from './types';
+
+const MAX_RETRIES = 3;
+const RETRY_BACKOFF_BASE = 2000; // 2 seconds base delay
+const JOB_RETENTION_MS = parseInt(process.env.JOB_RETENTION_HOURS || '24') * 60 * 60 * 1000;
+
+const FINISHED_VIDEO_STATUSES: VideoAnalysisResult['status'][] = ['completed', 'error', 'cancelled'];
+
+// Helper function to wait, resolving early when the signal is aborted
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done, { once: true });
+
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+// Finished jobs are kept for their results until the retention window has passed
+function isExpired(job: AnalysisJob, now: number): boolean {
+  return Boolean(job.completedAt) && now - Date.parse(job.completedAt!) > JOB_RETENTION_MS;
+}
+
+// Result properties only; the upload path is an implementation detail of the request
+function toResultData({ uploadMode: _uploadMode, ...data }: CachedAnalysisData) {
+  return data;
+}
+
+/**
+ * Status of a job in the shape the browser queue reports
+ */
+export function summarizeJob(job: AnalysisJob): AnalysisJobSummary {
+  const results = job.videos.map(video => video.result);
+  const remaining = results.filter(result => result.status === 'pending' || result.status === 'processing').length;
+
+  return {
+    id: job.id,
+    status: job.status,
+    provider: job.analysisOptions.provider,
+    model: job.analysisOptions.model,
+    queueStatus: {
+      position: remaining,
+      estimatedWaitTime: remaining * (60 / RATE_LIMIT_PER_MINUTE),
+      isProcessing: job.status === 'queued' || job.status === 'running',
+      isPaused: false,
+      totalInQueue: results.length,
+      completedCount: results.filter(result => result.status === 'completed').length,
+      errorCount: results.filter(result => result.status === 'error').length,
+    },
+    videos: results.map(({ id, filename, status, error }) => ({ id, filename, status, error })),
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    completedAt: job.completedAt,
+    error: job.error,
+  };
+}
+
+export class AnalysisJobWorker {
+  private running = new Map<string, AbortController>();
+  private apiKeys = new Map<string, string>();
+  private recovery: Promise<void> | null = null;
+
+  constructor(readonly store: AnalysisJobStore) {}
+
+  /**
+   * Store a new job with its videos and start processing it
+   */
+  async submit(job: AnalysisJob, files: Map<string, File>, apiKey?: string): Promise<void> {
+    await this.store.create(job, files);
+    if (apiKey) {
+      this.apiKeys.set(job.id, apiKey);
+    }
+    this.start(job.id);
+
+    this.pruneExpiredJobs().catch(error => console.error('Failed to remove expired analysis jobs:', error));
+  }
+
+  /**
+   * The job, if it belongs to the client. Other clients' jobs and jobs past
+   * their retention are reported as missing.
+   */
+  async getOwnedJob(jobId: string, ownerId: string): Promise<AnalysisJob | null> {
+    if (!isValidJobId(jobId)) return null;
+    const job = await this.store.get(jobId);
+    if (!job || job.ownerId !== ownerId || isExpired(job, Date.now())) return null;
+    return job;
+  }
+
+  /**
+   * Delete finished jobs past their retention, with any videos they left behind
+   */
+  async pruneExpiredJobs(): Promise<void> {
+    const now = Date.now();
+    const expired = (await this.store.list()).filter(job => isExpired(job, now) && !this.running.has(job.id));
+    await Promise.all(expired.map(job => this.store.delete(job.id)));
+  }
+
+  /**
+   * Cancel a queued or running job. Videos already analyzed keep their results.
+   */
+  async cancel(jobId: string): Promise<AnalysisJob | null> {
+    const job = await this.store.get(jobId);
+    if (!job) return null;
+    if (job.status !== 'queued' && job.status !== 'running') return job;
+
+    // Mark it in the store first: the worker checks there between videos
+    this.finishJob(job, 'cancelled');
+    await this.save(job);
+    this.running.get(jobId)?.abort();
+    await this.store.deleteVideos(jobId);
+
+    return job;
+  }
+
+  /**
+   * Pick up jobs a previous server process left unfinished (runs once)
+   */
+  recoverUnfinishedJobs(): Promise<void> {
+    if (!this.recovery) {
+      this.recovery = this.recover().catch(error => console.error('Failed to recover analysis jobs:', error));
+    }
+    return this.recovery;
+  }
+
+  private async recover(): Promise<void> {
+    await this.pruneExpiredJobs();
+    const jobs = await this.store.list();
+
+    for (const job of jobs) {
+      if ((job.status !== 'queued' && job.status !== 'running') || this.running.has(job.id)) continue;
+
+      if (getProviderInfo(job.analysisOptions.provider)?.requiresUserApiKey && !this.apiKeys.has(job.id)) {
+        job.error = 'The server restarted before this job finished. Submit the remaining videos again with your API key.';
+        this.finishJob(job, 'failed');
+        await this.store.update(job);
+        await this.store.deleteVideos(job.id);
+        continue;
+      }
+
+      this.start(job.id);
+    }
+  }
+
+  private start(jobId: string): void {
+    if (this.running.has(jobId)) return;
+
+    const controller = new AbortController();
+    this.running.set(jobId, controller);
+
+    this.run(jobId, controller.signal)
+      .catch(error => this.failJob(jobId, error))
+      .finally(() => {
+        this.running.delete(jobId);
+        this.apiKeys.delete(jobId);
+      });
+  }
+
+  private async run(jobId: string, signal: AbortSignal): Promise<void> {
+    let job = await this.store.get(jobId);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) return;
+
+    job.status = 'running';
+    await this.save(job);
+
+    for (const video of job.videos) {
+      if (FINISHED_VIDEO_STATUSES.includes(video.result.status)) continue;
+
+      // Cancellation may come from a request handled by another module instance
+      const latest = await this.store.get(jobId);
+      if (signal.aborted || !latest || latest.status === 'cancelled') {
+        return this.recordCancellation(jobId);
+      }
+
+      video.result = { ...video.result, status: 'processing', error: undefined };
+      await this.save(job);
+
+      try {
+        video.result = await this.analyzeVideo(job, video, signal);
+      } catch (error) {
+        if (signal.aborted) return this.recordCancellation(jobId);
+        throw error;
+      }
+
+      job = await this.mergeProgress(job, video);
+      this.notifyWebhooks(job, (dispatcher, ownerId) => dispatcher.emitVideoResult(ownerId, video.result, jobId));
+      if (job.status === 'cancelled') return;
+    }
+
+    this.finishJob(job, 'completed');
+    await this.save(job);
+    await this.store.deleteVideos(jobId);
+
+    const results = job.videos.map(video => video.result);
+    this.notifyWebhooks(job, (dispatcher, ownerId) => dispatcher.emitBatchCompleted(ownerId, results, jobId));
+  }
+
+  // Events go to the submitting client's webhooks. Webhook problems show up in
+  // the delivery log and never fail the job.
+  private notifyWebhooks(job: AnalysisJob, send: (dispatcher: WebhookDispatcher, ownerId: string) => Promise<number>): void {
+    if (!job.ownerId) return;
+    send(getWebhookDispatcher(), job.ownerId).catch(error => console.error('Failed to queue webhook deliveries:', error));
+  }
+
+  // Unexpected failure (e.g. the store became unwritable): record it rather than leave the job running
+  private async failJob(jobId: string, error: unknown): Promise<void> {
+    console.error(`Analysis job ${jobId} failed:`, error);
+
+    try {
+      const job = await this.store.get(jobId);
+      if (!job || (job.status !== 'queued' && job.status !== 'running')) return;
+
+      job.error = error instanceof Error ? error.message : String(error);
+      this.finishJob(job, 'failed');
+      await this.save(job);
+      await this.store.deleteVideos(jobId);
+    } catch (storeError) {
+      console.error(`Failed to record failure of analysis job ${jobId}:`, storeError);
+    }
+  }
+
+  // A progress save can race cancel(); make sure the cancellation is what sticks
+  private async recordCancellation(jobId: string): Promise<void> {
+    const job = await this.store.get(jobId);
+    if (!job || job.status === 'cancelled') return;
+
+    this.finishJob(job, 'cancelled');
+    await this.save(job);
+  }
+
+  // Keep a cancellation recorded while this video was being analyzed
+  private async mergeProgress(job: AnalysisJob, video: AnalysisJobVideo): Promise<AnalysisJob> {
+    const latest = await this.store.get(job.id);
+    if (latest?.status === 'cancelled') {
+      const stored = latest.videos.find(item => item.id === video.id);
+      if (stored) stored.result = video.result;
+      await this.save(latest);
+      return latest;
+    }
+
+    await this.save(job);
+    return job;
+  }
+
+  private async analyzeVideo(job: AnalysisJob, video: AnalysisJobVideo, signal: AbortSignal): Promise<VideoAnalysisResult> {
+    const startTime = Date.now();
+    const { analysisOptions } = job;
+    const providerInfo = getProviderInfo(analysisOptions.provider)!;
+    const base = { id: video.id, filename: video.filename, contentHash: video.contentHash, createdAt: video.result.createdAt };
+
+    // Serve identical videos from the result cache without calling the model
+    const cacheTarget = getAnalysisCacheTarget(analysisOptions, video.contentHash);
+    if (cacheTarget && !job.forceReanalysis) {
+      const cachedData = await readCachedAnalysis(cacheTarget.store, cacheTarget.key);
+      if (cachedData) {
+        return {
+          ...base,
+          ...toResultData(cachedData),
+          status: 'completed',
+          cached: true,
+          processingTime: Date.now() - startTime,
+          completedAt: new Date(),
+        };
+      }
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      await this.waitForRateLimit(job.rateLimitKey, signal);
+      if (signal.aborted) throw new Error('Job cancelled');
+
+      try {
+        const data = await runVideoAnalysis({
+          video: await this.store.readVideo(job, video),
+          analysisOptions,
+          apiKey: this.apiKeys.get(job.id),
+          uploadMode: resolveUploadMode(null, video.size),
+          keyframes: video.keyframes,
+          signal,
+        });
+
+        if (cacheTarget) {
+          await writeCachedAnalysis(cacheTarget.store, cacheTarget.key, data);
+        }
+
+        return {
+          ...base,
+          ...toResultData(data),
+          status: 'completed',
+          cached: false,
+          processingTime: Date.now() - startTime,
+          completedAt: new Date(),
+        };
+      } catch (error) {
+        if (signal.aborted) throw error;
+
+        const { message, code } = describeAnalysisError(error, providerInfo);
+        // Same transient failures the browser queue retries, matched against the provider's own message
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (attempt < MAX_RETRIES && isRetryableAnalysisError(errorMessage, code)) {
+          console.warn(`Job ${job.id}: retrying ${video.filename} after ${code}`);
+          await sleep(RETRY_BACKOFF_BASE * Math.pow(2, attempt - 1), signal);
+          continue;
+        }
+
+        console.error(`Job ${job.id}: ${providerInfo.label} API Error for ${video.filename}:`, error);
+        return {
+          ...base,
+          status: 'error',
+          error: message,
+          processingTime: Date.now() - startTime,
+          completedAt: new Date(),
+        };
+      }
+    }
+  }
+
+  // Wait until the submitting client has budget left in the current window
+  private async waitForRateLimit(key: string, signal: AbortSignal): Promise<void> {
+    while (!signal.aborted) {
+      const check = checkRateLimit(key);
+      if (check.allowed) return;
+      await sleep((check.retryAfter || 60) * 1000, signal);
+    }
+  }
+
+  private finishJob(job: AnalysisJob, status: 'completed' | 'cancelled' | 'failed'): void {
+    const now = new Date();
+    job.status = status;
+    job.completedAt = now.toISOString();
+
+    // Whatever did not run gets a final status too
+    job.videos.forEach(video => {
+      if (FINISHED_VIDEO_STATUSES.includes(video.result.status)) return;
+      video.result = {
+        ...video.result,
+        status: status === 'failed' ? 'error' : 'cancelled',
+        error: status === 'failed' ? job.error : undefined,
+        completedAt: now,
+      };
+    });
+  }
+
+  private async save(job: AnalysisJob): Promise<void> {
+    job.updatedAt = new Date().toISOString();
+    await this.store.update(job);
+  }
+}
+
+// Singleton instance
+let workerInstance: AnalysisJobWorker | null = null;
+
+export function getAnalysisJobWorker(): AnalysisJobWorker {
+  if (!workerInstance) {
+    workerInstance = new AnalysisJobWorker(createAnalysisJobStore());
+    void workerInstance.recoverUnfinishedJobs();
+  }
+  return workerInstance;
+}
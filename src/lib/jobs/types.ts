@@ -0,0 +1,43 @@
+import { AnalysisJobStatus, AnalysisOptions, VideoAnalysisResult, VideoKeyframe } from '@/types/video-analysis';
+
+export interface AnalysisJobVideo {
+  id: string;
+  filename: string;
+  size: number;
+  contentHash: string; // computed on submit, keys the result cache
+  keyframes?: VideoKeyframe[]; // for providers without native video support
+  result: VideoAnalysisResult; // status and outcome of this video
+}
+
+// Stored job record; the user's API key is never part of it
+export interface AnalysisJob {
+  id: string;
+  status: AnalysisJobStatus;
+  analysisOptions: AnalysisOptions;
+  forceReanalysis: boolean;
+  rateLimitKey: string; // submitting client, shares its rate limit with direct requests
+  ownerId?: string; // submitting client's token hash, the only client that can read the job; absent on older jobs
+  videos: AnalysisJobVideo[];
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  error?: string;
+}
+
+export interface AnalysisJobStore {
+  readonly backend: 'file' | 'memory';
+  create(job: AnalysisJob, files: Map<string, File>): Promise<void>;
+  get(id: string): Promise<AnalysisJob | null>;
+  update(job: AnalysisJob): Promise<void>;
+  list(): Promise<AnalysisJob[]>;
+  readVideo(job: AnalysisJob, video: AnalysisJobVideo): Promise<File>;
+  deleteVideos(id: string): Promise<void>;
+  delete(id: string): Promise<void>; // the record and any videos left
+}
+
+export class AnalysisJobError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'AnalysisJobError';
+  }
+}
@@ -0,0 +1,15 @@
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { getProviderInfo } from './catalog';
+import { analyzeKeyframes } from './frameAnalysis';
+import { ProviderAnalysisInput, VideoAnalysisProvider } from './types';
+
+export class AnthropicAnalysisProvider implements VideoAnalysisProvider {
+  readonly info = getProviderInfo('anthropic')!;
+
+  constructor(private apiKey: string) {}
+
+  async analyze(input: ProviderAnalysisInput): Promise<Record<string, unknown>> {
+    const anthropic = createAnthropic({ apiKey: this.apiKey });
+    return analyzeKeyframes(anthropic(input.model), input);
+  }
+}
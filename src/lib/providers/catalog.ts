@@ -0,0 +1,69 @@
+/**
+ * Analysis Provider Catalog
+ *
+ * Describes the available providers and models. Safe to import on the client;
+ * the implementations live next to this file and are server-only.
+ */
+
+import { AnalysisProviderId } from '@/types/video-analysis';
+
+export interface AnalysisProviderInfo {
+  id: AnalysisProviderId;
+  label: string;
+  supportsNativeVideo: boolean; // false: analyzed from sampled keyframes plus a transcript
+  requiresUserApiKey: boolean; // true: uses the Gemini key entered in the browser
+  models: string[];
+  defaultModel: string;
+}
+
+export const ANALYSIS_PROVIDERS: AnalysisProviderInfo[] = [
+  {
+    id: 'gemini',
+    label: 'Google Gemini',
+    supportsNativeVideo: true,
+    requiresUserApiKey: true,
+    models: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.0-flash'],
+    defaultModel: 'gemini-2.5-flash',
+  },
+  {
+    id: 'openai',
+    label: 'OpenAI',
+    supportsNativeVideo: false,
+    requiresUserApiKey: false,
+    models: ['gpt-4o', 'gpt-4o-mini'],
+    defaultModel: 'gpt-4o',
+  },
+  {
+    id: 'anthropic',
+    label: 'Anthropic',
+    supportsNativeVideo: false,
+    requiresUserApiKey: false,
+    models: ['claude-3-5-sonnet-20240620', 'claude-3-haiku-20240307'],
+    defaultModel: 'claude-3-5-sonnet-20240620',
+  },
+  {
+    id: 'mock',
+    label: 'Mock (offline testing)',
+    supportsNativeVideo: true,
+    requiresUserApiKey: false,
+    models: ['mock-1'],
+    defaultModel: 'mock-1',
+  },
+];
+
+export const DEFAULT_PROVIDER_ID: AnalysisProviderId = 'gemini';
+
+export function getProviderInfo(id: string): AnalysisProviderInfo | undefined {
+  return ANALYSIS_PROVIDERS.find(provider => provider.id === id);
+}
+
+/**
+ * Mock provider is only offered outside production unless explicitly enabled
+ */
+export function isMockProviderEnabled(): boolean {
+  return process.env.NODE_ENV !== 'production' || process.env.NEXT_PUBLIC_ENABLE_MOCK_PROVIDER === 'true';
+}
+
+export function getSelectableProviders(): AnalysisProviderInfo[] {
+  return ANALYSIS_PROVIDERS.filter(provider => provider.id !== 'mock' || isMockProviderEnabled());
+}
@@ -0,0 +1,145 @@
+/**
+ * Keyframe Analysis
+ *
+ * Shared path for providers that cannot ingest video: the model receives
+ * sampled keyframes plus a Whisper transcript of the audio track
+ */
+
+import { generateObject, jsonSchema, LanguageModel } from 'ai';
+import OpenAI from 'openai';
+import { AnalysisFieldDefinition, VideoKeyframe } from '@/types/video-analysis';
+import { buildAnalysisPrompt } from '@/lib/utils/analysisFields';
+import { AnalysisProviderError, ProviderAnalysisInput, throwIfAborted } from './types';
+
+// Whisper rejects uploads above 25MB
+const MAX_TRANSCRIPTION_SIZE_BYTES = 25 * 1024 * 1024;
+
+// Helper function to build a JSON schema for the enabled fields
+function buildJsonSchema(fields: AnalysisFieldDefinition[]) {
+  const properties: Record<string, object> = {};
+  fields.forEach(field => {
+    const description = `${field.label}: ${field.instruction}`;
+    switch (field.type) {
+      case 'enum':
+        properties[field.key] = { type: 'string', enum: field.enumValues || [], description };
+        break;
+      case 'number':
+        properties[field.key] = { type: 'number', description };
+        break;
+      case 'string[]':
+        properties[field.key] = { type: 'array', items: { type: 'string' }, description };
+        break;
+      default:
+        properties[field.key] = { type: 'string', description };
+    }
+  });
+
+  return jsonSchema<Record<string, unknown>>({
+    type: 'object',
+    properties,
+    required: fields.map(field => field.key),
+    additionalProperties: false,
+  });
+}
+
+// Helper function to split a data URL into raw base64 and its mime type
+function parseDataUrl(dataUrl: string): { data: string; mimeType: string } {
+  const match = /^data:([^;]+);base64,(.*)$/.exec(dataUrl);
+  if (!match) {
+    throw new AnalysisProviderError('Keyframes must be base64 data URLs', 'INVALID_KEYFRAMES');
+  }
+  return { mimeType: match[1], data: match[2] };
+}
+
+function formatTimestamp(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Transcribe the audio track with Whisper. Returns null when transcription
+ * is not configured or the file is too large, so analysis can continue on frames alone.
+ * With maxSeconds only the speech starting before that point is kept.
+ */
+export async function transcribeVideo(video: File, signal?: AbortSignal, maxSeconds?: number): Promise<string | null> {
+  if (!process.env.OPENAI_API_KEY || video.size > MAX_TRANSCRIPTION_SIZE_BYTES) {
+    return null;
+  }
+
+  try {
+    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    if (maxSeconds === undefined) {
+      const transcription = await openai.audio.transcriptions.create({
+        file: video,
+        model: 'whisper-1',
+      }, { signal });
+      return transcription.text;
+    }
+
+    // verbose_json adds timed segments, which this SDK version does not type
+    const transcription = await openai.audio.transcriptions.create({
+      file: video,
+      model: 'whisper-1',
+      response_format: 'verbose_json',
+    }, { signal }) as { text: string; segments?: Array<{ start: number; text: string }> };
+    return (transcription.segments || [])
+      .filter(segment => segment.start < maxSeconds)
+      .map(segment => `[${formatTimestamp(segment.start)}] ${segment.text.trim()}`)
+      .join('\n');
+  } catch (error) {
+    if (signal?.aborted) return null;
+    console.warn('Transcription failed, continuing without audio:', error);
+    return null;
+  }
+}
+
+/**
+ * Run the analysis prompt against keyframes and transcript on an AI SDK model
+ */
+export async function analyzeKeyframes(
+  model: LanguageModel,
+  input: ProviderAnalysisInput
+): Promise<Record<string, unknown>> {
+  const keyframes: VideoKeyframe[] = input.keyframes || [];
+  if (keyframes.length === 0) {
+    throw new AnalysisProviderError(
+      'This provider analyzes sampled keyframes, but none were provided',
+      'MISSING_KEYFRAMES'
+    );
+  }
+
+  const transcript = await transcribeVideo(input.video, input.signal, input.hookWindowSeconds);
+  throwIfAborted(input.signal);
+
+  const sampledRange = input.hookWindowSeconds !== undefined ? ` from the first ${input.hookWindowSeconds} seconds` : '';
+  const context = `
+The video is provided as ${keyframes.length} keyframes sampled in order${sampledRange}, each labeled with its timestamp.
+${transcript
+  ? `Audio transcript:\n${transcript}`
+  : 'No audio transcript is available; base audio-related fields on on-screen content and state that the audio was not analyzed.'}
+`;
+
+  const { object } = await generateObject({
+    model,
+    abortSignal: input.signal,
+    schema: buildJsonSchema(input.fields),
+    messages: [
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: buildAnalysisPrompt(input.fields, input.hookWindowSeconds) + context },
+          ...keyframes.flatMap(frame => {
+            const { data, mimeType } = parseDataUrl(frame.dataUrl);
+            return [
+              { type: 'text' as const, text: `[${formatTimestamp(frame.timestamp)}]` },
+              { type: 'image' as const, image: data, mimeType },
+            ];
+          }),
+        ],
+      },
+    ],
+  });
+
+  return object;
+}
@@ -0,0 +1,102 @@
+/**
+ * Gemini Analysis Provider
+ *
+ * Sends the video itself to Gemini, inline for small files and through the
+ * file store for large ones
+ */
+
+import { GoogleGenerativeAI, Part } from '@google/generative-ai';
+import {
+  createVideoFileStore,
+  waitForFileActive,
+  cleanupUploadedFile,
+  VideoFileStore,
+} from '@/lib/gemini/videoFileStore';
+import { buildResponseSchema } from '@/lib/gemini/analysisSchema';
+import { buildAnalysisPrompt } from '@/lib/utils/analysisFields';
+import { getProviderInfo } from './catalog';
+import { ProviderAnalysisInput, VideoAnalysisProvider, throwIfAborted } from './types';
+
+// Helper function to convert File to base64
+async function fileToBase64(file: File): Promise<string> {
+  const bytes = await file.arrayBuffer();
+  const buffer = Buffer.from(bytes);
+  return buffer.toString('base64');
+}
+
+export class GeminiAnalysisProvider implements VideoAnalysisProvider {
+  readonly info = getProviderInfo('gemini')!;
+
+  constructor(private apiKey: string) {}
+
+  async analyze(input: ProviderAnalysisInput): Promise<Record<string, unknown>> {
+    const genAI = new GoogleGenerativeAI(this.apiKey);
+
+    // Initialize Gemini model with structured output configuration
+    const model = genAI.getGenerativeModel({
+      model: input.model,
+      generationConfig: {
+        responseMimeType: "application/json",
+        responseSchema: buildResponseSchema(input.fields),
+      },
+    });
+
+    // Uploaded file to clean up once the analysis is finished
+    let fileStore: VideoFileStore | null = null;
+    let uploadedFileName: string | null = null;
+
+    try {
+      // Prepare the request: small videos go inline, large ones through the file store
+      let videoPart: Part;
+      if (input.uploadMode === 'file') {
+        fileStore = createVideoFileStore('gemini', this.apiKey);
+        const uploaded = await fileStore.upload(input.video, input.mimeType);
+        uploadedFileName = uploaded.name;
+        const activeFile = await waitForFileActive(fileStore, uploaded.name, undefined, input.signal);
+        videoPart = {
+          fileData: {
+            fileUri: activeFile.uri,
+            mimeType: activeFile.mimeType,
+          },
+        };
+      } else {
+        videoPart = {
+          inlineData: {
+            data: await fileToBase64(input.video),
+            mimeType: input.mimeType,
+          },
+        };
+      }
+
+      // Hook-window mode: Gemini samples only the opening seconds of the video.
+      // The API accepts videoMetadata on video parts; this SDK version does not type it.
+      if (input.hookWindowSeconds !== undefined) {
+        videoPart = {
+          ...videoPart,
+          videoMetadata: { startOffset: '0s', endOffset: `${input.hookWindowSeconds}s` },
+        } as unknown as Part;
+      }
+
+      throwIfAborted(input.signal);
+      const result = await model.generateContent(
+        [buildAnalysisPrompt(input.fields, input.hookWindowSeconds), videoPart],
+        { signal: input.signal }
+      );
+      const response = await result.response;
+      const text = response.text();
+
+      // Parse the JSON response (structured output guarantees valid JSON)
+      try {
+        return JSON.parse(text);
+      } catch (parseError) {
+        console.error('Structured output JSON parsing failed:', parseError);
+        console.log('Raw response text:', text);
+        throw new Error('Failed to parse structured output response');
+      }
+    } finally {
+      if (fileStore && uploadedFileName) {
+        await cleanupUploadedFile(fileStore, uploadedFileName);
+      }
+    }
+  }
+}
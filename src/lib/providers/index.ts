@@ -0,0 +1,46 @@
+/**
+ * Video Analysis Providers
+ *
+ * Server-side factory for the provider implementations. Gemini runs on the
+ * user's own key; OpenAI and Anthropic use the server keys, like the chat routes.
+ */
+
+import { AnalysisProviderId } from '@/types/video-analysis';
+import { isMockProviderEnabled } from './catalog';
+import { GeminiAnalysisProvider } from './geminiProvider';
+import { OpenAIAnalysisProvider } from './openaiProvider';
+import { AnthropicAnalysisProvider } from './anthropicProvider';
+import { MockAnalysisProvider } from './mockProvider';
+import { AnalysisProviderError, VideoAnalysisProvider } from './types';
+
+export * from './types';
+
+export function createAnalysisProvider(
+  id: AnalysisProviderId,
+  options: { apiKey?: string } = {}
+): VideoAnalysisProvider {
+  switch (id) {
+    case 'gemini':
+      if (!options.apiKey) {
+        throw new AnalysisProviderError('Gemini requires a user API key', 'MISSING_API_KEY');
+      }
+      return new GeminiAnalysisProvider(options.apiKey);
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        throw new AnalysisProviderError('OpenAI API key not configured on the server', 'PROVIDER_NOT_CONFIGURED');
+      }
+      return new OpenAIAnalysisProvider(process.env.OPENAI_API_KEY);
+    case 'anthropic':
+      if (!process.env.ANTHROPIC_API_KEY) {
+        throw new AnalysisProviderError('Anthropic API key not configured on the server', 'PROVIDER_NOT_CONFIGURED');
+      }
+      return new AnthropicAnalysisProvider(process.env.ANTHROPIC_API_KEY);
+    case 'mock':
+      if (!isMockProviderEnabled()) {
+        throw new AnalysisProviderError('Mock provider is disabled in production', 'PROVIDER_NOT_CONFIGURED');
+      }
+      return new MockAnalysisProvider();
+    default:
+      throw new AnalysisProviderError(`Unknown analysis provider: ${id}`, 'INVALID_OPTIONS');
+  }
+}
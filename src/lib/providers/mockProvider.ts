@@ -0,0 +1,67 @@
+/**
+ * Mock Analysis Provider
+ *
+ * Returns deterministic values derived from the file name and size so the
+ * pipeline can be exercised offline without any API keys. File uploads go
+ * through the local file store, like Gemini's go through the Files API.
+ */
+
+import { AnalysisFieldDefinition } from '@/types/video-analysis';
+import { createVideoFileStore, waitForFileActive, cleanupUploadedFile } from '@/lib/gemini/videoFileStore';
+import { getProviderInfo } from './catalog';
+import { ProviderAnalysisInput, VideoAnalysisProvider, throwIfAborted } from './types';
+
+// Helper function to hash a string into a stable 32-bit seed (FNV-1a)
+function hashSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function mockValue(field: AnalysisFieldDefinition, seed: number, filename: string): unknown {
+  const fieldSeed = hashSeed(`${seed}:${field.key}`);
+
+  switch (field.type) {
+    case 'enum': {
+      const values = field.enumValues || [];
+      return values[fieldSeed % values.length] ?? '';
+    }
+    case 'number':
+      return fieldSeed % 101;
+    case 'string[]':
+      return Array.from({ length: (fieldSeed % 3) + 1 }, (_, i) => `Mock ${field.label} ${i + 1}`);
+    default:
+      return `Mock ${field.label} for ${filename} (#${fieldSeed.toString(16).slice(0, 6)})`;
+  }
+}
+
+export class MockAnalysisProvider implements VideoAnalysisProvider {
+  readonly info = getProviderInfo('mock')!;
+
+  async analyze(input: ProviderAnalysisInput): Promise<Record<string, unknown>> {
+    throwIfAborted(input.signal);
+
+    if (input.uploadMode === 'file') {
+      const fileStore = createVideoFileStore('mock');
+      const uploaded = await fileStore.upload(input.video, input.mimeType);
+      try {
+        await waitForFileActive(fileStore, uploaded.name, undefined, input.signal);
+      } finally {
+        await cleanupUploadedFile(fileStore, uploaded.name);
+      }
+      throwIfAborted(input.signal);
+    }
+
+    const seed = hashSeed(`${input.video.name}:${input.video.size}`);
+    const result: Record<string, unknown> = {};
+
+    input.fields.forEach(field => {
+      result[field.key] = mockValue(field, seed, input.video.name);
+    });
+
+    return result;
+  }
+}
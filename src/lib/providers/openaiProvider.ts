@@ -0,0 +1,15 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import { getProviderInfo } from './catalog';
+import { analyzeKeyframes } from './frameAnalysis';
+import { ProviderAnalysisInput, VideoAnalysisProvider } from './types';
+
+export class OpenAIAnalysisProvider implements VideoAnalysisProvider {
+  readonly info = getProviderInfo('openai')!;
+
+  constructor(private apiKey: string) {}
+
+  async analyze(input: ProviderAnalysisInput): Promise<Record<string, unknown>> {
+    const openai = createOpenAI({ apiKey: this.apiKey });
+    return analyzeKeyframes(openai(input.model), input);
+  }
+}
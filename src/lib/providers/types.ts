@@ -0,0 +1,33 @@
+import { AnalysisFieldDefinition, VideoKeyframe } from '@/types/video-analysis';
+import { AnalysisProviderInfo } from './catalog';
+
+export interface ProviderAnalysisInput {
+  video: File;
+  mimeType: string;
+  fields: AnalysisFieldDefinition[]; // enabled fields plus hook classification fields
+  model: string;
+  uploadMode: 'inline' | 'file';
+  keyframes?: VideoKeyframe[]; // required by providers without native video support
+  hookWindowSeconds?: number; // analyze only the opening seconds (hook-window mode)
+  signal?: AbortSignal; // aborted when the client cancels the request
+}
+
+export interface VideoAnalysisProvider {
+  readonly info: AnalysisProviderInfo;
+  // Resolves to the raw structured response keyed by field key
+  analyze(input: ProviderAnalysisInput): Promise<Record<string, unknown>>;
+}
+
+export class AnalysisProviderError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'AnalysisProviderError';
+  }
+}
+
+// Stop before the next expensive step once the client has gone away
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AnalysisProviderError('Analysis was cancelled', 'REQUEST_CANCELLED');
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Storyboard Image Generators
+ *
+ * Replicate renders the concept frames; the placeholder generator draws
+ * labeled SVG cards so storyboards can be exercised offline without a token.
+ *
+ * Server-only: the Replicate client reads REPLICATE_API_TOKEN.
+ */
+
+import Replicate from 'replicate';
+import { StoryboardAspectRatio, StoryboardGeneratorId } from '@/types/video-analysis';
+import { StoryboardError } from './storyboardPrompts';
+
+export interface ImageGenerationInput {
+  prompt: string;
+  caption: string; // short label, used by the placeholder
+  model: string;
+  aspectRatio: StoryboardAspectRatio;
+  parameters: Record<string, unknown>;
+  signal?: AbortSignal;
+}
+
+export interface ImageGenerator {
+  readonly id: StoryboardGeneratorId;
+  // Resolves to a data URL of the generated image
+  generate(input: ImageGenerationInput): Promise<string>;
+}
+
+// Generated images above this size are rejected instead of bloating the saved session
+const MAX_IMAGE_BYTES = parseInt(process.env.STORYBOARD_MAX_IMAGE_KB || '1024') * 1024;
+
+/**
+ * Create the generator selected by STORYBOARD_IMAGE_GENERATOR: 'replicate'
+ * (the default when REPLICATE_API_TOKEN is set) or 'placeholder'
+ */
+export function createImageGenerator(): ImageGenerator {
+  const selected = process.env.STORYBOARD_IMAGE_GENERATOR || (process.env.REPLICATE_API_TOKEN ? 'replicate' : 'placeholder');
+
+  switch (selected) {
+    case 'replicate':
+      if (!process.env.REPLICATE_API_TOKEN) {
+        throw new StoryboardError('Replicate API token not configured on the server', 'PROVIDER_NOT_CONFIGURED');
+      }
+      return new ReplicateImageGenerator(process.env.REPLICATE_API_TOKEN);
+    case 'placeholder':
+      return new PlaceholderImageGenerator();
+    default:
+      throw new StoryboardError(`Unknown storyboard image generator: ${selected}`, 'PROVIDER_NOT_CONFIGURED');
+  }
+}
+
+export class ReplicateImageGenerator implements ImageGenerator {
+  readonly id = 'replicate' as const;
+  private client: Replicate;
+
+  constructor(apiToken: string) {
+    this.client = new Replicate({ auth: apiToken });
+  }
+
+  async generate(input: ImageGenerationInput): Promise<string> {
+    const output = await this.client.run(input.model as `${string}/${string}`, {
+      input: {
+        ...input.parameters,
+        prompt: input.prompt,
+        aspect_ratio: input.aspectRatio,
+      },
+      signal: input.signal,
+    });
+
+    const imageUrl = findImageUrl(output);
+    if (!imageUrl) {
+      throw new StoryboardError('The model returned no image', 'INVALID_RESPONSE');
+    }
+
+    // Replicate links expire after an hour, so the image itself is returned
+    const response = await fetch(imageUrl, { signal: input.signal });
+    if (!response.ok) {
+      throw new StoryboardError(`Failed to download the generated image (${response.status})`, 'INVALID_RESPONSE');
+    }
+    const bytes = Buffer.from(await response.arrayBuffer());
+    if (bytes.length > MAX_IMAGE_BYTES) {
+      throw new StoryboardError(
+        `Generated image is larger than ${MAX_IMAGE_BYTES / 1024}KB; lower the output size or quality parameters`,
+        'IMAGE_TOO_LARGE'
+      );
+    }
+    const mimeType = response.headers.get('content-type')?.split(';')[0] || 'image/png';
+    return `data:${mimeType};base64,${bytes.toString('base64')}`;
+  }
+}
+
+// Models return a URL, a list of URLs or file objects that print as URLs
+function findImageUrl(output: unknown): string | null {
+  const first = Array.isArray(output) ? output[0] : output;
+  if (!first) return null;
+  const url = typeof first === 'string' ? first : String(first);
+  return /^https?:\/\//.test(url) ? url : null;
+}
+
+const PLACEHOLDER_SIZES: Record<StoryboardAspectRatio, [number, number]> = {
+  '9:16': [360, 640],
+  '1:1': [480, 480],
+  '4:5': [432, 540],
+  '16:9': [640, 360],
+};
+
+// Helper function to hash a string into a stable 32-bit seed (FNV-1a)
+function hashSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Greedy word wrap for the caption lines
+function wrapText(text: string, lineLength: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && (line + ' ' + word).length > lineLength) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.length > maxLines ? [...lines.slice(0, maxLines - 1), `${lines[maxLines - 1]}…`] : lines;
+}
+
+export class PlaceholderImageGenerator implements ImageGenerator {
+  readonly id = 'placeholder' as const;
+
+  async generate(input: ImageGenerationInput): Promise<string> {
+    const [width, height] = PLACEHOLDER_SIZES[input.aspectRatio];
+    const hue = hashSeed(input.prompt) % 360;
+    const lines = wrapText(input.caption, Math.floor(width / 14), 8);
+    const startY = height / 2 - (lines.length - 1) * 12;
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+      + `<rect width="100%" height="100%" fill="hsl(${hue},45%,85%)"/>`
+      + `<rect x="12" y="12" width="${width - 24}" height="${height - 24}" fill="none" stroke="hsl(${hue},45%,55%)" stroke-dasharray="8 6" stroke-width="2"/>`
+      + `<text x="50%" y="40" text-anchor="middle" font-family="sans-serif" font-size="14" fill="hsl(${hue},45%,30%)">Placeholder frame</text>`
+      + lines.map((line, i) =>
+        `<text x="50%" y="${startY + i * 24}" text-anchor="middle" font-family="sans-serif" font-size="18" fill="#1f2937">${escapeXml(line)}</text>`
+      ).join('')
+      + '</svg>';
+
+    return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Storyboard Frame Images
+ *
+ * Generated frames arrive at the model's full resolution (up to
+ * STORYBOARD_MAX_IMAGE_KB each). They are only shown as thumbnails and in
+ * the dialog, so they are redrawn as smaller JPEGs before being kept with
+ * the result. Browser-only: uses canvas.
+ */
+
+import { Storyboard } from '@/types/video-analysis';
+
+const MAX_FRAME_SIDE = 768; // pixels, long side
+const FRAME_QUALITY = 0.8;
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Storyboard frame could not be decoded'));
+    image.src = url;
+  });
+}
+
+/**
+ * Redraw a frame as a JPEG no larger than MAX_FRAME_SIDE. Vector
+ * placeholders and frames that would not get smaller are kept as they are.
+ */
+export async function downscaleFrameImage(imageUrl: string): Promise<string> {
+  if (imageUrl.startsWith('data:image/svg+xml')) return imageUrl;
+
+  const image = await loadImage(imageUrl);
+  const scale = Math.min(1, MAX_FRAME_SIDE / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return imageUrl;
+
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const downscaled = canvas.toDataURL('image/jpeg', FRAME_QUALITY);
+  return downscaled.length < imageUrl.length ? downscaled : imageUrl;
+}
+
+/**
+ * Downscale every frame of a storyboard; frames that fail to decode are kept
+ * at full size
+ */
+export async function downscaleStoryboard(storyboard: Storyboard): Promise<Storyboard> {
+  const frames = await Promise.all(storyboard.frames.map(async frame => {
+    try {
+      return { ...frame, imageUrl: await downscaleFrameImage(frame.imageUrl) };
+    } catch (error) {
+      console.warn('Failed to downscale storyboard frame:', error);
+      return frame;
+    }
+  }));
+  return { ...storyboard, frames };
+}
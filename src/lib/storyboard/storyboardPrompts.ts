@@ -0,0 +1,133 @@
+/**
+ * Storyboard Prompts
+ *
+ * Turns a result's visual hook and script beats into image prompts, and
+ * validates the storyboard options the client sends. Safe to import in the browser.
+ */
+
+import { StoryboardAspectRatio, StoryboardOptions, StoryboardRequest } from '@/types/video-analysis';
+import { parseVideoScript } from '@/lib/utils/subtitleUtils';
+
+export const STORYBOARD_ASPECT_RATIOS: StoryboardAspectRatio[] = ['9:16', '1:1', '4:5', '16:9'];
+export const MAX_STORYBOARD_FRAMES = 8;
+
+// flux-schnell is fast and cheap; small JPEGs keep frames light enough for the saved session
+export const DEFAULT_STORYBOARD_OPTIONS: StoryboardOptions = {
+  model: 'black-forest-labs/flux-schnell',
+  aspectRatio: '9:16',
+  frameCount: 4,
+  includeScriptBeats: true,
+  style: 'photorealistic still from a vertical social video ad',
+  parameters: { output_format: 'jpg', output_quality: 80, megapixels: '0.25' },
+};
+
+// "owner/name" with an optional ":version" hash
+const MODEL_PATTERN = /^[a-z0-9][\w.-]*\/[a-z0-9][\w.-]*(:[a-f0-9]{64})?$/i;
+
+const MAX_CAPTION_LENGTH = 300;
+
+export interface StoryboardPrompt {
+  source: 'visualHook' | 'script';
+  caption: string;
+  timestamp?: number;
+  prompt: string;
+}
+
+export class StoryboardError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'StoryboardError';
+  }
+}
+
+/**
+ * Validate options sent by the client; missing values fall back to the defaults
+ */
+export function normalizeStoryboardOptions(raw: unknown): StoryboardOptions {
+  const options = (raw && typeof raw === 'object' ? raw : {}) as Partial<StoryboardOptions>;
+
+  const model = typeof options.model === 'string' && options.model.trim()
+    ? options.model.trim()
+    : DEFAULT_STORYBOARD_OPTIONS.model;
+  if (!MODEL_PATTERN.test(model)) {
+    throw new StoryboardError('Model must look like "owner/name" or "owner/name:version"', 'INVALID_OPTIONS');
+  }
+
+  const aspectRatio = options.aspectRatio ?? DEFAULT_STORYBOARD_OPTIONS.aspectRatio;
+  if (!STORYBOARD_ASPECT_RATIOS.includes(aspectRatio)) {
+    throw new StoryboardError(`Unsupported aspect ratio: ${aspectRatio}`, 'INVALID_OPTIONS');
+  }
+
+  const frameCount = options.frameCount ?? DEFAULT_STORYBOARD_OPTIONS.frameCount;
+  if (!Number.isInteger(frameCount) || frameCount < 1 || frameCount > MAX_STORYBOARD_FRAMES) {
+    throw new StoryboardError(`Frame count must be between 1 and ${MAX_STORYBOARD_FRAMES}`, 'INVALID_OPTIONS');
+  }
+
+  const parameters = options.parameters ?? DEFAULT_STORYBOARD_OPTIONS.parameters;
+  if (!parameters || typeof parameters !== 'object' || Array.isArray(parameters)) {
+    throw new StoryboardError('Model parameters must be a JSON object', 'INVALID_OPTIONS');
+  }
+
+  return {
+    model,
+    aspectRatio,
+    frameCount,
+    includeScriptBeats: options.includeScriptBeats ?? DEFAULT_STORYBOARD_OPTIONS.includeScriptBeats,
+    style: typeof options.style === 'string' ? options.style.trim() : DEFAULT_STORYBOARD_OPTIONS.style,
+    parameters,
+  };
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+// Captions are quoted inside sentences, so their own closing punctuation goes
+function stripEndPunctuation(text: string): string {
+  return text.replace(/[.!?,;:]+$/, '');
+}
+
+// Evenly spaced picks, always including the first and last items
+function pickEvenly<T>(items: T[], count: number): T[] {
+  if (items.length <= count) return items;
+  if (count === 1) return [items[0]];
+  return Array.from({ length: count }, (_, i) => items[Math.round(i * (items.length - 1) / (count - 1))]);
+}
+
+/**
+ * One prompt for the visual hook, then one per script beat up to the frame count.
+ * Beats come from the timestamped video script, spread over the whole video.
+ */
+export function buildStoryboardPrompts(source: StoryboardRequest['source'], options: StoryboardOptions): StoryboardPrompt[] {
+  const context = source.painPoint ? ` The ad addresses: ${stripEndPunctuation(truncate(source.painPoint, 200))}.` : '';
+  const style = options.style ? ` Style: ${options.style}.` : '';
+  const prompts: StoryboardPrompt[] = [];
+
+  if (source.visualHook) {
+    const caption = truncate(source.visualHook, MAX_CAPTION_LENGTH);
+    prompts.push({
+      source: 'visualHook',
+      caption,
+      timestamp: 0,
+      prompt: `Opening shot of a video ad: ${stripEndPunctuation(caption)}.${context}${style} No text or captions in the image.`,
+    });
+  }
+
+  if (options.includeScriptBeats) {
+    const beats = pickEvenly(parseVideoScript(source.videoScript), options.frameCount - prompts.length);
+    beats.forEach(cue => {
+      const caption = truncate(cue.text, MAX_CAPTION_LENGTH);
+      prompts.push({
+        source: 'script',
+        caption,
+        timestamp: cue.start,
+        prompt: `Scene from a video ad while the narrator says "${stripEndPunctuation(caption)}".${context}${style} No text or captions in the image.`,
+      });
+    });
+  }
+
+  if (prompts.length === 0) {
+    throw new StoryboardError('The result has no visual hook or timed script to storyboard', 'INVALID_SOURCE');
+  }
+  return prompts.slice(0, options.frameCount);
+}
@@ -0,0 +1,621 @@
+import {
+  AnalysisOptions,
+  AnalysisFieldDefinition,
+  AnalysisFieldType,
+  AnalysisFieldValue,
+  BuiltInFieldKey,
+  CustomFieldResult,
+  HookCategories,
+  HookFieldKey,
+  HookTaxonomy,
+  HookWindow,
+  VideoAnalysisResult,
+} from '@/types/video-analysis';
+import { DEFAULT_PROVIDER_ID, getProviderInfo } from '@/lib/providers/catalog';
+
+// Built-in fields (the original five insights)
+export const DEFAULT_ANALYSIS_FIELDS: AnalysisFieldDefinition[] = [
+  {
+    key: 'visualHook',
+    label: 'Visual Hook',
+    instruction: 'Identify the most compelling visual element that grabs attention in the first 3 seconds. Focus on colors, movement, composition, and visual storytelling elements.',
+    type: 'string',
+    enabled: true,
+    builtIn: true,
+  },
+  {
+    key: 'textHook',
+    label: 'Text Hook',
+    instruction: 'Extract or suggest the most engaging text/caption that would accompany this video. This should be a short, attention-grabbing phrase or question.',
+    type: 'string',
+    enabled: true,
+    builtIn: true,
+  },
+  {
+    key: 'voiceHook',
+    label: 'Voice Hook',
+    instruction: 'Analyze the audio/speech and identify the most compelling verbal hook, tagline, or opening line that creates curiosity and engagement.',
+    type: 'string',
+    enabled: true,
+    builtIn: true,
+  },
+  {
+    key: 'videoScript',
+    label: 'Video Script',
+    instruction: 'Provide a COMPLETE and DETAILED transcript of ALL spoken content in the video. Include every word spoken, with precise timestamps in [MM:SS] format. Do not summarize or truncate - capture the entire verbal content from start to finish. If no speech is detected, indicate "No spoken content detected".',
+    type: 'string',
+    enabled: true,
+    builtIn: true,
+  },
+  {
+    key: 'painPoint',
+    label: 'Pain Point',
+    instruction: 'Identify what problem this video addresses and how it positions the solution. What frustration or desire does it tap into?',
+    type: 'string',
+    enabled: true,
+    builtIn: true,
+  },
+];
+
+export const BUILT_IN_FIELD_KEYS: BuiltInFieldKey[] = ['visualHook', 'textHook', 'voiceHook', 'videoScript', 'painPoint'];
+
+// The per-field toggles options had before fields became configurable
+const LEGACY_FIELD_TOGGLES: Record<BuiltInFieldKey, LegacyFieldToggle> = {
+  visualHook: 'includeVisualHook',
+  textHook: 'includeTextHook',
+  voiceHook: 'includeVoiceHook',
+  videoScript: 'includeVideoScript',
+  painPoint: 'includePainPoint',
+};
+
+type LegacyFieldToggle = 'includeVisualHook' | 'includeTextHook' | 'includeVoiceHook' | 'includeVideoScript' | 'includePainPoint';
+
+/**
+ * Analysis options as sent by clients or read from storage: any part may be
+ * missing, and older ones have the include* toggles instead of fields
+ */
+export type AnalysisOptionsInput = Partial<Pick<AnalysisOptions, 'provider' | 'model'>> & {
+  fields?: Array<Partial<AnalysisFieldDefinition>>;
+  hookTaxonomy?: Partial<HookTaxonomy>;
+  hookWindow?: Partial<HookWindow>;
+} & Partial<Record<LegacyFieldToggle, boolean>>;
+
+export const ANALYSIS_FIELD_TYPES: Array<{ type: AnalysisFieldType; label: string }> = [
+  { type: 'string', label: 'Text' },
+  { type: 'enum', label: 'One of a list' },
+  { type: 'number', label: 'Number' },
+  { type: 'string[]', label: 'List of text' },
+];
+
+export const MAX_ANALYSIS_FIELDS = 20;
+
+// Hooks that can be classified into the hook taxonomy
+export const HOOK_FIELD_KEYS: HookFieldKey[] = ['visualHook', 'textHook', 'voiceHook'];
+
+export const DEFAULT_HOOK_CATEGORIES = [
+  'Question', 'Bold claim', 'Pattern interrupt', 'Testimonial', 'Before/after', 'Problem-agitate', 'Curiosity gap', 'Other',
+];
+
+// Classification is opt-in: it adds a category and confidence per hook to the schema
+export const DEFAULT_HOOK_TAXONOMY: HookTaxonomy = {
+  enabled: false,
+  categories: DEFAULT_HOOK_CATEGORIES,
+};
+
+export const MAX_HOOK_CATEGORIES = 20;
+
+// Hook-window mode is off by default; the window covers the opening 3 seconds
+export const DEFAULT_HOOK_WINDOW: HookWindow = {
+  enabled: false,
+  seconds: 3,
+};
+
+export const MIN_HOOK_WINDOW_SECONDS = 1;
+export const MAX_HOOK_WINDOW_SECONDS = 30;
+
+// Hook-focused instructions for the fields analyzed in hook-window mode; the
+// rest need the whole video ({seconds} is replaced with the window's length)
+const HOOK_WINDOW_INSTRUCTIONS: Partial<Record<BuiltInFieldKey, string>> = {
+  visualHook: 'Describe what is on screen in the first {seconds} seconds and what makes it stop the scroll (or fail to): movement, faces, colors, framing, pattern interrupts.',
+  textHook: 'Quote the on-screen text shown in the first {seconds} seconds exactly. If there is none, write "No on-screen text".',
+  voiceHook: 'Quote the first words spoken in the first {seconds} seconds exactly and say what curiosity or tension they create. If nothing is said, write "No spoken hook".',
+  videoScript: 'Transcribe everything spoken in the first {seconds} seconds, with timestamps in [MM:SS] format. If no speech is detected, indicate "No spoken content detected".',
+};
+
+// Schema keys of a hook's classification, e.g. "textHookCategory" and "textHookConfidence"
+function getHookClassificationKeys(key: HookFieldKey): { category: string; confidence: string } {
+  return { category: `${key}Category`, confidence: `${key}Confidence` };
+}
+
+// Result properties a custom field key must not shadow
+const RESERVED_FIELD_KEYS = [
+  'id', 'filename', 'status', 'processingTime', 'error', 'createdAt', 'completedAt', 'customFields', 'hookCategories',
+  'hookWindowSeconds',
+  ...HOOK_FIELD_KEYS.flatMap(key => Object.values(getHookClassificationKeys(key))),
+];
+
+const FIELD_KEY_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]*$/;
+
+export function isBuiltInFieldKey(key: string): key is BuiltInFieldKey {
+  return (BUILT_IN_FIELD_KEYS as string[]).includes(key);
+}
+
+/**
+ * Derive a schema-safe camelCase key from a field label, e.g. "Target persona" → "targetPersona"
+ */
+export function toFieldKey(label: string, existingKeys: string[] = []): string {
+  const words = label
+    .normalize('NFKD')
+    .replace(/[^a-zA-Z0-9\s]/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+
+  let key = words
+    .map((word, index) => index === 0
+      ? word.toLowerCase()
+      : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join('');
+
+  if (!key || !/^[a-zA-Z]/.test(key)) {
+    key = `field${key}`;
+  }
+
+  // Keep keys unique and clear of reserved result properties
+  const taken = new Set([...existingKeys, ...BUILT_IN_FIELD_KEYS, ...RESERVED_FIELD_KEYS]);
+  let uniqueKey = key;
+  let suffix = 2;
+  while (taken.has(uniqueKey)) {
+    uniqueKey = `${key}${suffix++}`;
+  }
+
+  return uniqueKey;
+}
+
+/**
+ * Create a custom field definition from user input
+ */
+export function createCustomField(
+  input: { label: string; instruction: string; type: AnalysisFieldType; enumValues?: string[] },
+  existingFields: AnalysisFieldDefinition[]
+): AnalysisFieldDefinition {
+  const field: AnalysisFieldDefinition = {
+    key: toFieldKey(input.label, existingFields.map(f => f.key)),
+    label: input.label.trim(),
+    instruction: input.instruction.trim(),
+    type: input.type,
+    enabled: true,
+  };
+
+  if (input.type === 'enum') {
+    field.enumValues = (input.enumValues || []).map(v => v.trim()).filter(Boolean);
+  }
+
+  const errors = validateFieldDefinition(field);
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+
+  return field;
+}
+
+/**
+ * Validate a single field definition, returning a list of problems
+ */
+export function validateFieldDefinition(field: AnalysisFieldDefinition): string[] {
+  const errors: string[] = [];
+
+  if (!field.key || !FIELD_KEY_PATTERN.test(field.key)) {
+    errors.push(`Invalid field key: "${field.key}"`);
+  }
+  if (!field.label?.trim()) {
+    errors.push(`Field "${field.key}" is missing a name`);
+  }
+  if (!field.instruction?.trim()) {
+    errors.push(`Field "${field.label || field.key}" is missing an instruction`);
+  }
+  if (!ANALYSIS_FIELD_TYPES.some(t => t.type === field.type)) {
+    errors.push(`Field "${field.label || field.key}" has unsupported type: ${field.type}`);
+  }
+  if (field.type === 'enum' && (!field.enumValues || field.enumValues.length < 2)) {
+    errors.push(`Field "${field.label || field.key}" needs at least two allowed values`);
+  }
+  if (!field.builtIn && RESERVED_FIELD_KEYS.includes(field.key)) {
+    errors.push(`Field key "${field.key}" is reserved`);
+  }
+
+  return errors;
+}
+
+/**
+ * Validate the categories of a hook taxonomy, returning a list of problems
+ */
+export function validateHookCategories(categories: string[]): string[] {
+  const errors: string[] = [];
+
+  if (categories.length < 2) {
+    errors.push('The hook taxonomy needs at least two categories');
+  }
+  if (categories.length > MAX_HOOK_CATEGORIES) {
+    errors.push(`Too many hook categories (max ${MAX_HOOK_CATEGORIES})`);
+  }
+
+  const seen = new Set<string>();
+  categories.forEach(category => {
+    const normalized = category.toLowerCase();
+    if (seen.has(normalized)) {
+      errors.push(`Duplicate hook category: "${category}"`);
+    }
+    seen.add(normalized);
+  });
+
+  return errors;
+}
+
+/**
+ * Normalize the hook taxonomy from a request or storage; classification is
+ * off unless enabled, with the default categories unless others are given
+ */
+export function normalizeHookTaxonomy(raw: Partial<HookTaxonomy> | undefined): HookTaxonomy {
+  if (!raw || typeof raw !== 'object') {
+    return { ...DEFAULT_HOOK_TAXONOMY };
+  }
+
+  const categories = Array.isArray(raw.categories)
+    ? raw.categories.map(category => String(category).trim()).filter(Boolean)
+    : DEFAULT_HOOK_CATEGORIES;
+
+  const errors = validateHookCategories(categories);
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+
+  return { enabled: raw.enabled === true, categories };
+}
+
+/**
+ * Normalize the hook window from a request or storage; off unless enabled
+ */
+export function normalizeHookWindow(raw: Partial<HookWindow> | undefined): HookWindow {
+  if (!raw || typeof raw !== 'object') {
+    return { ...DEFAULT_HOOK_WINDOW };
+  }
+
+  const seconds = raw.seconds === undefined ? DEFAULT_HOOK_WINDOW.seconds : Number(raw.seconds);
+  if (!Number.isFinite(seconds) || seconds < MIN_HOOK_WINDOW_SECONDS || seconds > MAX_HOOK_WINDOW_SECONDS) {
+    throw new Error(`Hook window must be between ${MIN_HOOK_WINDOW_SECONDS} and ${MAX_HOOK_WINDOW_SECONDS} seconds`);
+  }
+
+  return { enabled: raw.enabled === true, seconds: Math.round(seconds * 10) / 10 };
+}
+
+/**
+ * Resolve provider and model, falling back to the provider's default model
+ */
+function normalizeProviderSelection(options: AnalysisOptionsInput | undefined): Pick<AnalysisOptions, 'provider' | 'model'> {
+  const provider = getProviderInfo(options?.provider ?? DEFAULT_PROVIDER_ID);
+  if (!provider) {
+    throw new Error(`Unknown analysis provider: ${options?.provider}`);
+  }
+
+  const model = options?.model && provider.models.includes(options.model)
+    ? options.model
+    : provider.defaultModel;
+
+  return { provider: provider.id, model };
+}
+
+/**
+ * Normalize analysis options from a request or storage.
+ * Accepts the legacy include* toggles and maps them onto the built-in fields.
+ * Throws when a field definition or the provider is invalid.
+ */
+export function normalizeAnalysisOptions(options: AnalysisOptionsInput | undefined): AnalysisOptions {
+  const providerSelection = normalizeProviderSelection(options);
+
+  if (!options || !Array.isArray(options.fields)) {
+    return {
+      fields: DEFAULT_ANALYSIS_FIELDS.map(field => ({
+        ...field,
+        enabled: isBuiltInFieldKey(field.key) ? options?.[LEGACY_FIELD_TOGGLES[field.key]] ?? true : field.enabled,
+      })),
+      hookTaxonomy: normalizeHookTaxonomy(options?.hookTaxonomy),
+      hookWindow: normalizeHookWindow(options?.hookWindow),
+      ...providerSelection,
+    };
+  }
+
+  if (options.fields.length > MAX_ANALYSIS_FIELDS) {
+    throw new Error(`Too many analysis fields (max ${MAX_ANALYSIS_FIELDS})`);
+  }
+
+  const seenKeys = new Set<string>();
+  const fields = options.fields.map((raw): AnalysisFieldDefinition => {
+    const defaults = DEFAULT_ANALYSIS_FIELDS.find(f => f.key === raw?.key);
+
+    // Built-in fields keep their canonical definition; only the toggle is user-controlled
+    const field: AnalysisFieldDefinition = defaults
+      ? { ...defaults, enabled: raw.enabled ?? true }
+      : {
+          key: String(raw?.key ?? ''),
+          label: String(raw?.label ?? ''),
+          instruction: String(raw?.instruction ?? ''),
+          type: raw?.type as AnalysisFieldType, // checked by validateFieldDefinition below
+          enumValues: Array.isArray(raw?.enumValues) ? raw.enumValues.map(String) : undefined,
+          enabled: raw?.enabled ?? true,
+        };
+
+    const errors = validateFieldDefinition(field);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+    if (seenKeys.has(field.key)) {
+      throw new Error(`Duplicate field key: "${field.key}"`);
+    }
+    seenKeys.add(field.key);
+
+    return field;
+  });
+
+  return {
+    fields,
+    hookTaxonomy: normalizeHookTaxonomy(options.hookTaxonomy),
+    hookWindow: normalizeHookWindow(options.hookWindow),
+    ...providerSelection,
+  };
+}
+
+export function getEnabledFields(options: AnalysisOptions): AnalysisFieldDefinition[] {
+  return options.fields.filter(field => field.enabled);
+}
+
+// Length of the analyzed window, or undefined when the whole video is analyzed
+export function getHookWindowSeconds(options: AnalysisOptions): number | undefined {
+  return options.hookWindow?.enabled ? options.hookWindow.seconds : undefined;
+}
+
+/**
+ * Fields the analysis extracts: the enabled fields, or in hook-window mode
+ * the enabled hooks and transcript with instructions limited to the window
+ */
+export function getAnalysisFields(options: AnalysisOptions): AnalysisFieldDefinition[] {
+  const seconds = getHookWindowSeconds(options);
+  if (seconds === undefined) return getEnabledFields(options);
+
+  return getEnabledFields(options).flatMap(field => {
+    const instruction = isBuiltInFieldKey(field.key) ? HOOK_WINDOW_INSTRUCTIONS[field.key] : undefined;
+    return instruction ? [{ ...field, instruction: instruction.replace('{seconds}', String(seconds)) }] : [];
+  });
+}
+
+// How much of the video a result covers, as shown in the table and exports
+export function formatAnalyzedWindow(hookWindowSeconds?: number): string {
+  return hookWindowSeconds !== undefined ? `First ${hookWindowSeconds}s` : 'Full video';
+}
+
+// Whether any result was analyzed in hook-window mode (adds the analyzed window column)
+export function hasHookWindowResults(results: VideoAnalysisResult[]): boolean {
+  return results.some(result => result.hookWindowSeconds !== undefined);
+}
+
+// Validation message when getAnalysisFields() comes back empty
+export function getNoFieldsMessage(options: AnalysisOptions): string {
+  return getHookWindowSeconds(options) !== undefined
+    ? 'Hook-window mode analyzes the hooks and video script; enable at least one of them'
+    : 'Select at least one analysis field';
+}
+
+function isHookFieldKey(key: string): key is HookFieldKey {
+  return (HOOK_FIELD_KEYS as string[]).includes(key);
+}
+
+function getHookLabel(key: HookFieldKey): string {
+  return DEFAULT_ANALYSIS_FIELDS.find(field => field.key === key)!.label;
+}
+
+export function getHookCategoryLabel(key: HookFieldKey): string {
+  return `${getHookLabel(key)} Category`;
+}
+
+export function getHookConfidenceLabel(key: HookFieldKey): string {
+  return `${getHookLabel(key)} Confidence`;
+}
+
+/**
+ * Category and confidence fields for each enabled hook when hook
+ * classification is on. They are requested alongside the enabled fields
+ * and stored as the result's hookCategories.
+ */
+export function getHookClassificationFields(options: AnalysisOptions): AnalysisFieldDefinition[] {
+  const taxonomy = options.hookTaxonomy;
+  if (!taxonomy?.enabled) return [];
+
+  return getAnalysisFields(options).flatMap(field => {
+    if (!isHookFieldKey(field.key)) return [];
+    const keys = getHookClassificationKeys(field.key);
+    const hook = field.label.toLowerCase();
+
+    return [
+      {
+        key: keys.category,
+        label: getHookCategoryLabel(field.key),
+        instruction: `Classify the ${hook} by the technique it uses to grab attention.`,
+        type: 'enum' as const,
+        enumValues: taxonomy.categories,
+        enabled: true,
+      },
+      {
+        key: keys.confidence,
+        label: getHookConfidenceLabel(field.key),
+        instruction: `How confident the ${hook} category is, from 0 (a guess) to 1 (certain).`,
+        type: 'number' as const,
+        enabled: true,
+      },
+    ];
+  });
+}
+
+// Everything requested from the model: the analysis fields plus hook classification
+export function getModelFields(options: AnalysisOptions): AnalysisFieldDefinition[] {
+  return [...getAnalysisFields(options), ...getHookClassificationFields(options)];
+}
+
+// Bump when the prompt wording changes so cached results are not reused
+export const ANALYSIS_PROMPT_VERSION = '1';
+
+/**
+ * Build the analysis prompt from the enabled field definitions. With a hook
+ * window the model is told to look at the opening seconds only.
+ */
+export function buildAnalysisPrompt(fields: AnalysisFieldDefinition[], hookWindowSeconds?: number): string {
+  const items = fields.map((field, index) => {
+    let instruction = field.instruction;
+
+    if (field.type === 'enum' && field.enumValues) {
+      instruction += ` Answer with exactly one of: ${field.enumValues.join(', ')}.`;
+    } else if (field.type === 'number') {
+      instruction += ' Answer with a single number.';
+    } else if (field.type === 'string[]') {
+      instruction += ' Answer with a list of short items.';
+    }
+
+    return `${index + 1}. **${field.label}**: ${instruction}`;
+  });
+
+  if (hookWindowSeconds !== undefined) {
+    return `
+Analyze only the first ${hookWindowSeconds} seconds of the provided video ad: the hook that decides whether viewers keep watching. Ignore everything after ${hookWindowSeconds} seconds.
+
+${items.join('\n\n')}
+
+Keep each field short (max 60 words per field).
+`;
+  }
+
+  return `
+Analyze the provided video and extract marketing insights:
+
+${items.join('\n\n')}
+
+Keep each field concise but informative (max 200 words per field).
+`;
+}
+
+function coerceText(value: unknown): string {
+  return value == null ? '' : String(value);
+}
+
+function coerceNumber(value: unknown): number {
+  const parsed = typeof value === 'number' ? value : parseFloat(coerceText(value));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+/**
+ * Coerce a raw model value to the field's declared type
+ */
+export function coerceFieldValue(value: unknown, type: AnalysisFieldType): AnalysisFieldValue {
+  switch (type) {
+    case 'number':
+      return coerceNumber(value);
+    case 'string[]':
+      if (Array.isArray(value)) return value.map(String);
+      return value == null || value === '' ? [] : [String(value)];
+    default:
+      return coerceText(value);
+  }
+}
+
+/**
+ * Split a structured model response into built-in properties and custom field results
+ */
+export function mapAnalysisResults(
+  raw: Record<string, unknown>,
+  fields: AnalysisFieldDefinition[]
+): Partial<Record<BuiltInFieldKey, string>> & { customFields?: Record<string, CustomFieldResult> } {
+  const mapped: Partial<Record<BuiltInFieldKey, string>> = {};
+  const customFields: Record<string, CustomFieldResult> = {};
+
+  fields.forEach(field => {
+    if (!(field.key in raw)) return;
+
+    if (isBuiltInFieldKey(field.key)) {
+      mapped[field.key] = coerceText(raw[field.key]);
+    } else {
+      customFields[field.key] = {
+        label: field.label,
+        type: field.type,
+        value: coerceFieldValue(raw[field.key], field.type),
+      };
+    }
+  });
+
+  return Object.keys(customFields).length > 0 ? { ...mapped, customFields } : mapped;
+}
+
+// Confidence as 0-1 with two decimals; models sometimes answer in percent
+function normalizeConfidence(value: unknown): number {
+  let confidence = coerceNumber(value);
+  if (confidence > 1 && confidence <= 100) {
+    confidence /= 100;
+  }
+  return Math.round(Math.min(Math.max(confidence, 0), 1) * 100) / 100;
+}
+
+/**
+ * Read the hook classifications out of a structured model response.
+ * Categories are matched to the taxonomy's spelling.
+ */
+export function mapHookCategories(
+  raw: Record<string, unknown>,
+  options: AnalysisOptions
+): HookCategories | undefined {
+  const taxonomy = options.hookTaxonomy;
+  if (!taxonomy?.enabled) return undefined;
+
+  const hookCategories: HookCategories = {};
+  HOOK_FIELD_KEYS.forEach(key => {
+    const keys = getHookClassificationKeys(key);
+    const category = coerceText(raw[keys.category]);
+    if (!category) return;
+
+    hookCategories[key] = {
+      category: taxonomy.categories.find(allowed => allowed.toLowerCase() === category.toLowerCase()) || category,
+      confidence: normalizeConfidence(raw[keys.confidence]),
+    };
+  });
+
+  return Object.keys(hookCategories).length > 0 ? hookCategories : undefined;
+}
+
+/**
+ * Collect the hooks classified in at least one result, in hook order
+ */
+export function collectHookCategoryColumns(results: VideoAnalysisResult[]): HookFieldKey[] {
+  return HOOK_FIELD_KEYS.filter(key => results.some(result => result.hookCategories?.[key]));
+}
+
+/**
+ * Format a field value as a single line of text for tables and exports
+ */
+export function formatFieldValue(value: AnalysisFieldValue | undefined): string {
+  if (value == null) return '';
+  if (Array.isArray(value)) return value.join('; ');
+  return String(value);
+}
+
+/**
+ * Collect the custom field columns present across results, in first-seen order
+ */
+export function collectCustomFieldColumns(results: VideoAnalysisResult[]): Array<{ key: string; label: string }> {
+  const columns = new Map<string, string>();
+
+  results.forEach(result => {
+    Object.entries(result.customFields || {}).forEach(([key, field]) => {
+      if (!columns.has(key)) {
+        columns.set(key, field.label);
+      }
+    });
+  });
+
+  return Array.from(columns, ([key, label]) => ({ key, label }));
+}
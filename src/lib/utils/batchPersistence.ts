@@ -0,0 +1,253 @@
+/**
+ * Batch Persistence
+ *
+ * Stores queued video files and queue metadata in IndexedDB so an interrupted
+ * batch can be resumed after a reload. localStorage can't hold File contents,
+ * IndexedDB stores the File blobs directly. Contact sheets and storyboards
+ * are kept here too, since their images would overflow the localStorage quota.
+ */
+
+import { AnalysisOptions, VideoAnalysisRequest, VideoAnalysisResult, VideoFileMetadata } from '@/types/video-analysis';
+
+const DB_NAME = 'video-analyzer';
+const DB_VERSION = 3;
+const VIDEO_STORE = 'batch-videos';
+const STATE_STORE = 'batch-state';
+const STATE_KEY = 'current';
+
+// Result fields kept out of localStorage, one store each, keyed by result id
+export type StoredAttachments = Required<Pick<VideoAnalysisResult, 'contactSheet' | 'storyboard'>>;
+export type StoredAttachmentKey = keyof StoredAttachments;
+
+const ATTACHMENT_STORES: Record<StoredAttachmentKey, string> = {
+  contactSheet: 'contact-sheets',
+  storyboard: 'storyboards',
+};
+
+export const STORED_ATTACHMENT_KEYS = Object.keys(ATTACHMENT_STORES) as StoredAttachmentKey[];
+
+// Headroom kept free so the browser doesn't evict other site data
+const QUOTA_SAFETY_MARGIN = 1.1;
+
+export interface PersistedBatchState {
+  queue: string[]; // request ids still to process, in order; the first may have been in flight
+  batchId?: string; // reported to the server with each request; missing in batches saved before it existed
+  analysisOptions: AnalysisOptions;
+  forceReanalysis: boolean;
+  totalVideos: number;
+  startedAt: number;
+  updatedAt: number;
+}
+
+export interface InterruptedBatch {
+  state: PersistedBatchState;
+  requests: VideoAnalysisRequest[];
+}
+
+interface PersistedVideo {
+  id: string;
+  file: File;
+  createdAt: number;
+  contentHash?: string;
+  videoMetadata?: VideoFileMetadata;
+}
+
+export interface StorageQuotaCheck {
+  ok: boolean;
+  required: number;
+  available: number | null; // null when the browser doesn't report an estimate
+}
+
+export function isBatchPersistenceAvailable(): boolean {
+  return typeof window !== 'undefined' && 'indexedDB' in window;
+}
+
+// Helper function to open the database, creating stores on first use
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(VIDEO_STORE)) {
+        db.createObjectStore(VIDEO_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STATE_STORE)) {
+        db.createObjectStore(STATE_STORE);
+      }
+      Object.values(ATTACHMENT_STORES).forEach(storeName => {
+        if (!db.objectStoreNames.contains(storeName)) {
+          db.createObjectStore(storeName);
+        }
+      });
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error('Failed to open IndexedDB'));
+  });
+}
+
+// Helper function to run a transaction and resolve once it commits
+async function withStores<T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  run: (transaction: IDBTransaction) => T
+): Promise<T> {
+  const db = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeNames, mode);
+      const result = run(transaction);
+      transaction.oncomplete = () => resolve(result);
+      transaction.onerror = () => reject(transaction.error || new Error('IndexedDB transaction failed'));
+      transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction aborted'));
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// Helper function to read a request's result once its transaction completes
+function requestResult<T>(request: IDBRequest<T>): { value?: T } {
+  const holder: { value?: T } = {};
+  request.onsuccess = () => {
+    holder.value = request.result;
+  };
+  return holder;
+}
+
+/**
+ * Check whether the browser can store the given number of bytes
+ */
+export async function checkStorageQuota(requiredBytes: number): Promise<StorageQuotaCheck> {
+  const required = Math.ceil(requiredBytes * QUOTA_SAFETY_MARGIN);
+
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+    return { ok: true, required, available: null };
+  }
+
+  const { quota = 0, usage = 0 } = await navigator.storage.estimate();
+  const available = Math.max(0, quota - usage);
+  return { ok: available >= required, required, available };
+}
+
+/**
+ * Persist the batch: the video files and the initial queue state.
+ * Replaces any previously stored batch.
+ */
+export async function saveBatch(requests: VideoAnalysisRequest[], state: PersistedBatchState): Promise<void> {
+  // Ask the browser not to evict the data under storage pressure (best effort)
+  await navigator.storage?.persist?.().catch(() => false);
+
+  await withStores([VIDEO_STORE, STATE_STORE], 'readwrite', transaction => {
+    const videoStore = transaction.objectStore(VIDEO_STORE);
+    videoStore.clear();
+    requests.forEach(request => {
+      const record: PersistedVideo = {
+        id: request.id,
+        file: request.videoFile,
+        createdAt: new Date(request.createdAt).getTime(),
+        contentHash: request.contentHash,
+        videoMetadata: request.videoMetadata,
+      };
+      videoStore.put(record);
+    });
+    transaction.objectStore(STATE_STORE).put(state, STATE_KEY);
+  });
+}
+
+/**
+ * Record the remaining queue after each processed video
+ */
+export async function updateBatchQueue(queue: string[]): Promise<void> {
+  await withStores([STATE_STORE], 'readwrite', transaction => {
+    const stateStore = transaction.objectStore(STATE_STORE);
+    const read = stateStore.get(STATE_KEY);
+    read.onsuccess = () => {
+      const state = read.result as PersistedBatchState | undefined;
+      if (state) {
+        stateStore.put({ ...state, queue, updatedAt: Date.now() }, STATE_KEY);
+      }
+    };
+  });
+}
+
+/**
+ * Load a batch that still has queued videos, or null if there is none
+ */
+export async function loadInterruptedBatch(): Promise<InterruptedBatch | null> {
+  const { stateRead, videosRead } = await withStores([VIDEO_STORE, STATE_STORE], 'readonly', transaction => ({
+    stateRead: requestResult<PersistedBatchState | undefined>(transaction.objectStore(STATE_STORE).get(STATE_KEY)),
+    videosRead: requestResult<PersistedVideo[]>(transaction.objectStore(VIDEO_STORE).getAll()),
+  }));
+
+  const state = stateRead.value;
+  if (!state || state.queue.length === 0) return null;
+
+  const requests: VideoAnalysisRequest[] = (videosRead.value || []).map(record => ({
+    id: record.id,
+    videoFile: record.file,
+    filename: record.file.name,
+    analysisOptions: state.analysisOptions,
+    contentHash: record.contentHash,
+    videoMetadata: record.videoMetadata,
+    forceReanalysis: state.forceReanalysis,
+    createdAt: new Date(record.createdAt),
+  }));
+
+  // Drop queue entries whose file didn't survive (e.g. partially evicted storage)
+  const storedIds = new Set(requests.map(request => request.id));
+  const queue = state.queue.filter(id => storedIds.has(id));
+  if (queue.length === 0) return null;
+
+  return { state: { ...state, queue }, requests };
+}
+
+export async function clearPersistedBatch(): Promise<void> {
+  await withStores([VIDEO_STORE, STATE_STORE], 'readwrite', transaction => {
+    transaction.objectStore(VIDEO_STORE).clear();
+    transaction.objectStore(STATE_STORE).delete(STATE_KEY);
+  });
+}
+
+/**
+ * Store new or changed attachments of one kind and drop those of results
+ * that no longer exist
+ */
+export async function syncResultAttachments<K extends StoredAttachmentKey>(
+  key: K,
+  changed: Record<string, StoredAttachments[K]>,
+  resultIds: string[]
+): Promise<void> {
+  await withStores([ATTACHMENT_STORES[key]], 'readwrite', transaction => {
+    const store = transaction.objectStore(ATTACHMENT_STORES[key]);
+    Object.keys(changed).forEach(id => store.put(changed[id], id));
+    const keys = store.getAllKeys();
+    keys.onsuccess = () => {
+      keys.result.filter(storedId => !resultIds.includes(String(storedId))).forEach(storedId => store.delete(storedId));
+    };
+  });
+}
+
+export async function loadResultAttachments<K extends StoredAttachmentKey>(key: K): Promise<Record<string, StoredAttachments[K]>> {
+  const { keysRead, valuesRead } = await withStores([ATTACHMENT_STORES[key]], 'readonly', transaction => ({
+    keysRead: requestResult<IDBValidKey[]>(transaction.objectStore(ATTACHMENT_STORES[key]).getAllKeys()),
+    valuesRead: requestResult<StoredAttachments[K][]>(transaction.objectStore(ATTACHMENT_STORES[key]).getAll()),
+  }));
+
+  // getAllKeys and getAll list records in the same key order
+  const attachments: Record<string, StoredAttachments[K]> = {};
+  (keysRead.value || []).forEach((id, index) => {
+    const value = valuesRead.value?.[index];
+    if (value) attachments[String(id)] = value;
+  });
+  return attachments;
+}
+
+export async function clearResultAttachments(): Promise<void> {
+  const storeNames = Object.values(ATTACHMENT_STORES);
+  await withStores(storeNames, 'readwrite', transaction => {
+    storeNames.forEach(storeName => transaction.objectStore(storeName).clear());
+  });
+}
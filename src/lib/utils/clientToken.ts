@@ -0,0 +1,41 @@
+/**
+ * Client Token
+ *
+ * A random token that identifies this browser to the server. Webhooks and
+ * analysis jobs belong to the token that created them, so it is sent with
+ * every request to those APIs and with analyses whose results should reach
+ * this browser's webhooks. Clearing site data starts over with a new token
+ * (and none of the old webhooks or jobs).
+ */
+
+const STORAGE_KEY = 'video-analysis-client-token';
+
+let memoryToken: string | null = null; // when localStorage is unavailable
+
+function generateToken(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function getClientToken(): string {
+  try {
+    let token = localStorage.getItem(STORAGE_KEY);
+    if (!token) {
+      token = generateToken();
+      localStorage.setItem(STORAGE_KEY, token);
+    }
+    return token;
+  } catch (error) {
+    console.warn('Failed to persist client token:', error);
+    memoryToken = memoryToken || generateToken();
+    return memoryToken;
+  }
+}
+
+/**
+ * Authorization header for the webhook, job and analysis APIs
+ */
+export function getClientAuthHeaders(): Record<string, string> {
+  return { Authorization: `Bearer ${getClientToken()}` };
+}
@@ -0,0 +1,310 @@
+import {
+  ComplianceCheck,
+  ComplianceReport,
+  ComplianceSettings,
+  ComplianceStatus,
+  CompliancePreset,
+  VideoFileMetadata,
+} from '@/types/video-analysis';
+import { formatDuration, formatFileSize } from './videoUtils';
+
+const STORAGE_KEY = 'video-analysis-compliance';
+
+// Ratios within 2% of a spec count as that spec (1080x1920 and 1088x1920 are both 9:16)
+const ASPECT_RATIO_TOLERANCE = 0.02;
+
+// Named when a video's ratio is close to one of them, otherwise shown as "1.33:1"
+const NAMED_ASPECT_RATIOS = ['9:16', '16:9', '1:1', '4:5', '2:3', '4:3', '3:4', '1.91:1', '21:9'];
+
+/**
+ * Built-in platform presets, from the platforms' published video ad specs.
+ * Limits outside the accepted range fail; recommendations only warn.
+ */
+export const DEFAULT_COMPLIANCE_PRESETS: CompliancePreset[] = [
+  {
+    id: 'tiktok',
+    name: 'TikTok',
+    aspectRatios: ['9:16', '1:1', '16:9'],
+    recommendedAspectRatios: ['9:16'],
+    minShortSide: 540,
+    recommendedShortSide: 720,
+    minDuration: 5,
+    maxDuration: 600,
+    recommendedMaxDuration: 60,
+    maxFileSizeMB: 500,
+    recommendedVideoCodecs: ['H.264', 'HEVC'],
+    audio: 'required',
+  },
+  {
+    id: 'reels',
+    name: 'Instagram Reels',
+    aspectRatios: ['9:16', '4:5', '1:1'],
+    recommendedAspectRatios: ['9:16'],
+    minShortSide: 500,
+    recommendedShortSide: 1080,
+    minDuration: 1,
+    maxDuration: 900,
+    recommendedMaxDuration: 90,
+    maxFileSizeMB: 4096,
+    recommendedVideoCodecs: ['H.264', 'HEVC'],
+    audio: 'recommended',
+  },
+  {
+    id: 'youtube-shorts',
+    name: 'YouTube Shorts',
+    aspectRatios: ['9:16', '1:1'],
+    recommendedAspectRatios: ['9:16'],
+    recommendedShortSide: 1080,
+    maxDuration: 180,
+    recommendedMaxDuration: 60,
+    audio: 'recommended',
+  },
+  {
+    id: 'meta-feed',
+    name: 'Meta Feed',
+    aspectRatios: ['1:1', '4:5', '16:9', '1.91:1'],
+    recommendedAspectRatios: ['4:5', '1:1'],
+    minShortSide: 120,
+    recommendedShortSide: 1080,
+    minDuration: 1,
+    maxDuration: 241 * 60,
+    recommendedMaxDuration: 15,
+    maxFileSizeMB: 4096,
+    recommendedVideoCodecs: ['H.264', 'HEVC'],
+    audio: 'recommended',
+  },
+];
+
+export const DEFAULT_COMPLIANCE_SETTINGS: ComplianceSettings = {
+  presets: DEFAULT_COMPLIANCE_PRESETS,
+  enabledPresetIds: [],
+};
+
+const STATUS_ORDER: ComplianceStatus[] = ['pass', 'warn', 'fail'];
+
+function worstStatus(statuses: ComplianceStatus[]): ComplianceStatus {
+  return statuses.reduce<ComplianceStatus>(
+    (worst, status) => STATUS_ORDER.indexOf(status) > STATUS_ORDER.indexOf(worst) ? status : worst,
+    'pass'
+  );
+}
+
+// "9:16" or "1.91:1" as width / height; NaN when malformed
+export function parseAspectRatio(ratio: string): number {
+  const match = ratio.trim().match(/^(\d+(?:\.\d+)?)\s*:\s*(\d+(?:\.\d+)?)$/);
+  if (!match || Number(match[2]) === 0) return NaN;
+  return Number(match[1]) / Number(match[2]);
+}
+
+function matchesAspectRatio(width: number, height: number, ratios: string[]): boolean {
+  const actual = width / height;
+  return ratios.some(ratio => Math.abs(actual / parseAspectRatio(ratio) - 1) <= ASPECT_RATIO_TOLERANCE);
+}
+
+export function formatAspectRatio(width: number, height: number): string {
+  const named = NAMED_ASPECT_RATIOS.find(ratio => matchesAspectRatio(width, height, [ratio]));
+  return named || `${(width / height).toFixed(2)}:1`;
+}
+
+function checkAspectRatio(metadata: VideoFileMetadata, preset: CompliancePreset): ComplianceCheck {
+  const { width, height } = metadata.dimensions;
+  if (!width || !height) {
+    return { rule: 'aspectRatio', status: 'warn', message: 'Aspect ratio unknown' };
+  }
+  const ratio = formatAspectRatio(width, height);
+  if (preset.aspectRatios?.length && !matchesAspectRatio(width, height, preset.aspectRatios)) {
+    return { rule: 'aspectRatio', status: 'fail', message: `${ratio} not accepted (${preset.aspectRatios.join(', ')})` };
+  }
+  if (preset.recommendedAspectRatios?.length && !matchesAspectRatio(width, height, preset.recommendedAspectRatios)) {
+    return { rule: 'aspectRatio', status: 'warn', message: `${ratio}; ${preset.recommendedAspectRatios.join(' or ')} recommended` };
+  }
+  return { rule: 'aspectRatio', status: 'pass', message: ratio };
+}
+
+function checkResolution(metadata: VideoFileMetadata, preset: CompliancePreset): ComplianceCheck {
+  const { width, height } = metadata.dimensions;
+  if (!width || !height) {
+    return { rule: 'resolution', status: 'warn', message: 'Resolution unknown' };
+  }
+  const shortSide = Math.min(width, height);
+  const size = `${width}x${height}`;
+  if (preset.minShortSide && shortSide < preset.minShortSide) {
+    return { rule: 'resolution', status: 'fail', message: `${size} below the ${preset.minShortSide}px minimum` };
+  }
+  if (preset.recommendedShortSide && shortSide < preset.recommendedShortSide) {
+    return { rule: 'resolution', status: 'warn', message: `${size}; ${preset.recommendedShortSide}px or more recommended` };
+  }
+  return { rule: 'resolution', status: 'pass', message: size };
+}
+
+function checkDuration(metadata: VideoFileMetadata, preset: CompliancePreset): ComplianceCheck {
+  if (!metadata.duration) {
+    return { rule: 'duration', status: 'warn', message: 'Duration unknown' };
+  }
+  const duration = formatDuration(metadata.duration);
+  if (preset.minDuration && metadata.duration < preset.minDuration) {
+    return { rule: 'duration', status: 'fail', message: `${duration} shorter than ${formatDuration(preset.minDuration)}` };
+  }
+  if (preset.maxDuration && metadata.duration > preset.maxDuration) {
+    return { rule: 'duration', status: 'fail', message: `${duration} longer than ${formatDuration(preset.maxDuration)}` };
+  }
+  if (preset.recommendedMaxDuration && metadata.duration > preset.recommendedMaxDuration) {
+    return { rule: 'duration', status: 'warn', message: `${duration}; ${formatDuration(preset.recommendedMaxDuration)} or less recommended` };
+  }
+  return { rule: 'duration', status: 'pass', message: duration };
+}
+
+function checkFileSize(metadata: VideoFileMetadata, maxFileSizeMB: number): ComplianceCheck {
+  const size = formatFileSize(metadata.fileSize);
+  return metadata.fileSize > maxFileSizeMB * 1024 * 1024
+    ? { rule: 'fileSize', status: 'fail', message: `${size} over the ${formatFileSize(maxFileSizeMB * 1024 * 1024)} limit` }
+    : { rule: 'fileSize', status: 'pass', message: size };
+}
+
+function checkVideoCodec(metadata: VideoFileMetadata, preset: CompliancePreset): ComplianceCheck {
+  const codec = metadata.videoCodec;
+  if (!codec) {
+    return { rule: 'videoCodec', status: 'warn', message: 'Video codec unknown' };
+  }
+  const includes = (codecs: string[]) => codecs.some(name => name.toLowerCase() === codec.toLowerCase());
+  if (preset.videoCodecs?.length && !includes(preset.videoCodecs)) {
+    return { rule: 'videoCodec', status: 'fail', message: `${codec} not accepted (${preset.videoCodecs.join(', ')})` };
+  }
+  if (preset.recommendedVideoCodecs?.length && !includes(preset.recommendedVideoCodecs)) {
+    return { rule: 'videoCodec', status: 'warn', message: `${codec}; ${preset.recommendedVideoCodecs.join(' or ')} recommended` };
+  }
+  return { rule: 'videoCodec', status: 'pass', message: codec };
+}
+
+function checkAudio(metadata: VideoFileMetadata, audio: 'required' | 'recommended'): ComplianceCheck {
+  if (metadata.hasAudio === undefined) {
+    return { rule: 'audio', status: 'warn', message: 'Audio track unknown' };
+  }
+  if (!metadata.hasAudio) {
+    return { rule: 'audio', status: audio === 'required' ? 'fail' : 'warn', message: `No audio track (${audio})` };
+  }
+  return { rule: 'audio', status: 'pass', message: 'Has audio' };
+}
+
+/**
+ * Check a video against one platform preset. Only the rules the preset sets
+ * are checked; a value the container didn't record is a warning, not a failure.
+ */
+export function checkCompliance(metadata: VideoFileMetadata, preset: CompliancePreset): ComplianceReport {
+  const checks: ComplianceCheck[] = [];
+
+  if (preset.aspectRatios?.length || preset.recommendedAspectRatios?.length) {
+    checks.push(checkAspectRatio(metadata, preset));
+  }
+  if (preset.minShortSide || preset.recommendedShortSide) {
+    checks.push(checkResolution(metadata, preset));
+  }
+  if (preset.minDuration || preset.maxDuration || preset.recommendedMaxDuration) {
+    checks.push(checkDuration(metadata, preset));
+  }
+  if (preset.maxFileSizeMB) {
+    checks.push(checkFileSize(metadata, preset.maxFileSizeMB));
+  }
+  if (preset.videoCodecs?.length || preset.recommendedVideoCodecs?.length) {
+    checks.push(checkVideoCodec(metadata, preset));
+  }
+  if (preset.audio) {
+    checks.push(checkAudio(metadata, preset.audio));
+  }
+
+  return {
+    presetId: preset.id,
+    presetName: preset.name,
+    status: worstStatus(checks.map(check => check.status)),
+    checks,
+  };
+}
+
+export function getEnabledPresets(settings: ComplianceSettings): CompliancePreset[] {
+  return settings.presets.filter(preset => settings.enabledPresetIds.includes(preset.id));
+}
+
+const NUMBER_KEYS = [
+  'minShortSide', 'recommendedShortSide', 'minDuration', 'maxDuration', 'recommendedMaxDuration', 'maxFileSizeMB',
+] as const;
+const RATIO_KEYS = ['aspectRatios', 'recommendedAspectRatios'] as const;
+const CODEC_KEYS = ['videoCodecs', 'recommendedVideoCodecs'] as const;
+
+/**
+ * Validate presets edited as JSON; returns one message per problem
+ */
+export function validateCompliancePresets(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return ['Presets must be a JSON array'];
+  }
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  value.forEach((preset, index) => {
+    if (!preset || typeof preset !== 'object' || Array.isArray(preset)) {
+      errors.push(`Preset ${index + 1} must be an object`);
+      return;
+    }
+    const label = typeof preset.name === 'string' && preset.name.trim() ? `"${preset.name}"` : `Preset ${index + 1}`;
+
+    if (typeof preset.id !== 'string' || !preset.id.trim()) {
+      errors.push(`${label} needs an id`);
+    } else if (seen.has(preset.id)) {
+      errors.push(`Duplicate preset id: "${preset.id}"`);
+    } else {
+      seen.add(preset.id);
+    }
+    if (typeof preset.name !== 'string' || !preset.name.trim()) {
+      errors.push(`${label} needs a name`);
+    }
+    NUMBER_KEYS.forEach(key => {
+      if (preset[key] !== undefined && !(typeof preset[key] === 'number' && preset[key] > 0)) {
+        errors.push(`${label}: ${key} must be a positive number`);
+      }
+    });
+    RATIO_KEYS.forEach(key => {
+      if (preset[key] === undefined) return;
+      if (!Array.isArray(preset[key]) || preset[key].some((ratio: unknown) => typeof ratio !== 'string' || isNaN(parseAspectRatio(ratio)))) {
+        errors.push(`${label}: ${key} must be a list of ratios like "9:16"`);
+      }
+    });
+    CODEC_KEYS.forEach(key => {
+      if (preset[key] !== undefined && (!Array.isArray(preset[key]) || preset[key].some((codec: unknown) => typeof codec !== 'string'))) {
+        errors.push(`${label}: ${key} must be a list of codec names like "H.264"`);
+      }
+    });
+    if (preset.audio !== undefined && preset.audio !== 'required' && preset.audio !== 'recommended') {
+      errors.push(`${label}: audio must be "required" or "recommended"`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Settings saved in this browser, or the built-in presets when none are
+ * saved (or the saved ones no longer validate)
+ */
+export function loadComplianceSettings(): ComplianceSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_COMPLIANCE_SETTINGS;
+    const settings = JSON.parse(stored);
+    if (validateCompliancePresets(settings.presets).length > 0) return DEFAULT_COMPLIANCE_SETTINGS;
+    return {
+      presets: settings.presets,
+      enabledPresetIds: Array.isArray(settings.enabledPresetIds) ? settings.enabledPresetIds : [],
+    };
+  } catch (error) {
+    console.warn('Failed to load compliance presets:', error);
+    return DEFAULT_COMPLIANCE_SETTINGS;
+  }
+}
+
+export function saveComplianceSettings(settings: ComplianceSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save compliance presets:', error);
+  }
+}
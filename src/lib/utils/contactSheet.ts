@@ -0,0 +1,234 @@
+/**
+ * Scene Keyframes and Contact Sheets
+ *
+ * Detects scene changes by seeking through a video and comparing downscaled
+ * frames on a canvas (mean luma difference), then draws one representative
+ * frame per scene into a single timestamped image. Reviewers can check the
+ * visual hook from the sheet without opening the file.
+ */
+
+import { ContactSheet, SceneKeyframe } from '@/types/video-analysis';
+import { formatDuration } from './videoUtils';
+
+const MAX_SAMPLES = 120; // frames compared per video
+const MIN_SAMPLE_INTERVAL = 0.25; // seconds
+const DIFF_WIDTH = 64; // frames are compared at this width
+const DEFAULT_SCENE_THRESHOLD = 0.12; // mean luma difference (0-1) that counts as a cut
+const SEEK_TIMEOUT = 10000;
+
+const MAX_KEYFRAMES = 9;
+const MIN_KEYFRAMES = 4; // videos with fewer scenes are filled with evenly spaced frames
+const THUMB_WIDTH = 160;
+const SHEET_COLUMNS = 3;
+const SHEET_GAP = 4;
+const SHEET_QUALITY = 0.6;
+
+export interface SceneDetectionOptions {
+  threshold?: number; // 0-1; lower finds more (and softer) scene changes
+  signal?: AbortSignal;
+}
+
+export class ContactSheetError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'ContactSheetError';
+  }
+}
+
+function loadVideo(file: File): Promise<HTMLVideoElement> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.preload = 'auto';
+    video.muted = true;
+    video.playsInline = true;
+    video.addEventListener('loadedmetadata', () => resolve(video), { once: true });
+    video.addEventListener('error', () => {
+      URL.revokeObjectURL(video.src);
+      reject(new ContactSheetError(`${file.name} could not be decoded by this browser`, 'UNSUPPORTED_FORMAT'));
+    }, { once: true });
+    video.src = URL.createObjectURL(file);
+  });
+}
+
+function seek(video: HTMLVideoElement, time: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(new ContactSheetError('Contact sheet was cancelled', 'CANCELLED'));
+  }
+  return new Promise((resolve, reject) => {
+    const finish = (error?: ContactSheetError) => {
+      clearTimeout(timeout);
+      video.removeEventListener('seeked', onSeeked);
+      signal?.removeEventListener('abort', onAbort);
+      if (error) reject(error);
+      else resolve();
+    };
+    const onSeeked = () => finish();
+    const onAbort = () => finish(new ContactSheetError('Contact sheet was cancelled', 'CANCELLED'));
+    const timeout = setTimeout(() => {
+      finish(new ContactSheetError(`Timed out seeking to ${formatDuration(time)}`, 'SEEK_TIMEOUT'));
+    }, SEEK_TIMEOUT);
+
+    video.addEventListener('seeked', onSeeked, { once: true });
+    signal?.addEventListener('abort', onAbort, { once: true });
+    video.currentTime = time;
+  });
+}
+
+function getVideoDuration(video: HTMLVideoElement): number {
+  if (!Number.isFinite(video.duration) || video.duration <= 0) {
+    throw new ContactSheetError('Video duration is unknown', 'UNKNOWN_DURATION');
+  }
+  return video.duration;
+}
+
+function create2dContext(width: number, height: number): CanvasRenderingContext2D {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new ContactSheetError('Canvas 2D context not supported', 'UNSUPPORTED_BROWSER');
+  }
+  return ctx;
+}
+
+// Rec. 601 luma of each pixel
+function readLuma(ctx: CanvasRenderingContext2D): Uint8Array {
+  const { data } = ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+  const luma = new Uint8Array(data.length / 4);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  return luma;
+}
+
+// Mean absolute difference of two luma frames, 0 (identical) to 1
+export function frameDifference(a: Uint8Array, b: Uint8Array): number {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) {
+    total += Math.abs(a[i] - b[i]);
+  }
+  return a.length > 0 ? total / (a.length * 255) : 0;
+}
+
+// Evenly spaced sample times, at the midpoint of each interval
+function getSampleTimes(duration: number): number[] {
+  const count = Math.max(2, Math.min(MAX_SAMPLES, Math.floor(duration / MIN_SAMPLE_INTERVAL)));
+  const step = duration / count;
+  return Array.from({ length: count }, (_, i) => (i + 0.5) * step);
+}
+
+async function detectInVideo(video: HTMLVideoElement, options: SceneDetectionOptions): Promise<SceneKeyframe[]> {
+  const threshold = options.threshold ?? DEFAULT_SCENE_THRESHOLD;
+  const ctx = create2dContext(DIFF_WIDTH, Math.max(1, Math.round(DIFF_WIDTH * video.videoHeight / video.videoWidth)));
+  const scenes: SceneKeyframe[] = [];
+  let previous: Uint8Array | null = null;
+
+  for (const time of getSampleTimes(getVideoDuration(video))) {
+    await seek(video, time, options.signal);
+    ctx.drawImage(video, 0, 0, ctx.canvas.width, ctx.canvas.height);
+    const luma = readLuma(ctx);
+    const score = previous ? frameDifference(previous, luma) : 1;
+    if (score >= threshold) {
+      scenes.push({ timestamp: time, sceneScore: Math.round(score * 1000) / 1000 });
+    }
+    previous = luma;
+  }
+
+  return scenes;
+}
+
+/**
+ * Find where the scenes of a video start. The first scene starts at the
+ * first sampled frame with a score of 1.
+ */
+export async function detectSceneChanges(file: File, options: SceneDetectionOptions = {}): Promise<SceneKeyframe[]> {
+  const video = await loadVideo(file);
+  try {
+    return await detectInVideo(video, options);
+  } finally {
+    URL.revokeObjectURL(video.src);
+  }
+}
+
+/**
+ * Pick up to maxKeyframes scenes (the most distinct cuts) and return the
+ * middle of each, away from transition frames. Videos with fewer scenes get
+ * evenly spaced frames in between, with a score of 0.
+ */
+export function pickKeyframes(
+  scenes: SceneKeyframe[],
+  duration: number,
+  maxKeyframes: number = MAX_KEYFRAMES,
+  minKeyframes: number = MIN_KEYFRAMES
+): SceneKeyframe[] {
+  const sceneEnd = (index: number) => index + 1 < scenes.length ? scenes[index + 1].timestamp : duration;
+  const keyframes = scenes
+    .map((scene, index) => ({ scene, index }))
+    .sort((a, b) => b.scene.sceneScore - a.scene.sceneScore)
+    .slice(0, maxKeyframes)
+    .map(({ scene, index }) => ({
+      timestamp: (scene.timestamp + sceneEnd(index)) / 2,
+      sceneScore: scene.sceneScore,
+    }));
+
+  const fillCount = Math.min(minKeyframes, maxKeyframes);
+  const spacing = duration / fillCount;
+  for (let i = 0; i < fillCount && keyframes.length < fillCount; i++) {
+    const timestamp = (i + 0.5) * spacing;
+    if (keyframes.every(keyframe => Math.abs(keyframe.timestamp - timestamp) >= spacing / 2)) {
+      keyframes.push({ timestamp, sceneScore: 0 });
+    }
+  }
+
+  return keyframes.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+function drawTimestamp(ctx: CanvasRenderingContext2D, label: string, x: number, y: number) {
+  ctx.font = '12px sans-serif';
+  const width = ctx.measureText(label).width + 8;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.65)';
+  ctx.fillRect(x, y - 18, width, 18);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillText(label, x + 4, y - 5);
+}
+
+/**
+ * Detect the scenes of a video and draw their keyframes into one JPEG,
+ * left to right and top to bottom, each labeled with its timestamp.
+ */
+export async function createContactSheet(file: File, options: SceneDetectionOptions = {}): Promise<ContactSheet> {
+  const video = await loadVideo(file);
+  try {
+    const scenes = await detectInVideo(video, options);
+    const keyframes = pickKeyframes(scenes, getVideoDuration(video));
+
+    const thumbHeight = Math.max(1, Math.round(THUMB_WIDTH * video.videoHeight / video.videoWidth));
+    const columns = Math.min(SHEET_COLUMNS, keyframes.length);
+    const rows = Math.ceil(keyframes.length / columns);
+    const ctx = create2dContext(
+      columns * THUMB_WIDTH + (columns + 1) * SHEET_GAP,
+      rows * thumbHeight + (rows + 1) * SHEET_GAP
+    );
+    ctx.fillStyle = '#111827';
+    ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+
+    for (let i = 0; i < keyframes.length; i++) {
+      await seek(video, keyframes[i].timestamp, options.signal);
+      const x = SHEET_GAP + (i % columns) * (THUMB_WIDTH + SHEET_GAP);
+      const y = SHEET_GAP + Math.floor(i / columns) * (thumbHeight + SHEET_GAP);
+      ctx.drawImage(video, x, y, THUMB_WIDTH, thumbHeight);
+      drawTimestamp(ctx, formatDuration(keyframes[i].timestamp), x + 4, y + thumbHeight - 4);
+    }
+
+    return {
+      imageUrl: ctx.canvas.toDataURL('image/jpeg', SHEET_QUALITY),
+      keyframes: keyframes.map(keyframe => ({ ...keyframe, timestamp: Math.round(keyframe.timestamp * 100) / 100 })),
+      sceneCount: scenes.length,
+      createdAt: new Date(),
+    };
+  } finally {
+    video.pause();
+    URL.revokeObjectURL(video.src);
+  }
+}
@@ -0,0 +1,221 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ContainerParseError, parseContainerMetadata, writeMatroskaDuration } from './containerMetadata';
+
+// --- MP4 building blocks: big-endian fields and size-prefixed boxes ---
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    bytes.set(part, offset);
+    offset += part.length;
+  });
+  return bytes;
+}
+
+function u16(value: number): Uint8Array {
+  return new Uint8Array([value >> 8, value & 0xff]);
+}
+
+function u32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setInt32(0, value);
+  return bytes;
+}
+
+function ascii(text: string): Uint8Array {
+  return Uint8Array.from(text, char => char.charCodeAt(0));
+}
+
+function zeros(length: number): Uint8Array {
+  return new Uint8Array(length);
+}
+
+function box(type: string, ...payload: Uint8Array[]): Uint8Array {
+  const body = concat(payload);
+  return concat([u32(body.length + 8), ascii(type), body]);
+}
+
+// Version 0 mvhd/mdhd: version and flags, creation and modification time, timescale, duration
+function timeHeader(type: 'mvhd' | 'mdhd', timescale: number, duration: number, rest: number): Uint8Array {
+  return box(type, zeros(4), u32(0), u32(0), u32(timescale), u32(duration), zeros(rest));
+}
+
+// Track header with the rotation as its transformation matrix (16.16 fixed point)
+function tkhd(rotation: 0 | 90, width: number, height: number): Uint8Array {
+  const [a, b, c, d] = rotation === 90 ? [0, 1, -1, 0] : [1, 0, 0, 1];
+  const matrix = [a, b, 0, c, d, 0, 0, 0].map(value => u32(value * 65536));
+  return box('tkhd', zeros(4), zeros(20), zeros(16), ...matrix, u32(0x40000000), u32(width * 65536), u32(height * 65536));
+}
+
+interface Mp4Options {
+  codec?: string; // sample entry type
+  rotation?: 0 | 90;
+  sampleCount?: number;
+  sampleDelta?: number;
+  declaredSttsEntries?: number; // more than the one written: a damaged sample table
+}
+
+function buildMp4({ codec = 'avc1', rotation = 0, sampleCount = 300, sampleDelta = 1000, declaredSttsEntries = 1 }: Mp4Options = {}): Uint8Array {
+  const sampleEntry = box(codec, zeros(24), u16(1920), u16(1080), zeros(50));
+  const stbl = box('stbl',
+    box('stsd', zeros(4), u32(1), sampleEntry),
+    box('stts', zeros(4), u32(declaredSttsEntries), u32(sampleCount), u32(sampleDelta)));
+  const trak = box('trak',
+    tkhd(rotation, 1920, 1080),
+    box('mdia',
+      timeHeader('mdhd', 30000, sampleCount * sampleDelta, 4),
+      box('hdlr', zeros(4), zeros(4), ascii('vide'), zeros(12), ascii('Video\0')),
+      box('minf', stbl)));
+
+  return concat([
+    box('ftyp', ascii('isom'), u32(512), ascii('isomavc1')),
+    box('moov', timeHeader('mvhd', 1000, 10000, 80), trak),
+    box('mdat', zeros(64)),
+  ]);
+}
+
+// --- WebM building blocks: EBML elements with IDs and one- or two-byte sizes ---
+
+function ebmlId(id: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) bytes.unshift(value % 256);
+  return new Uint8Array(bytes);
+}
+
+function el(id: number, ...payload: Uint8Array[]): Uint8Array {
+  const body = concat(payload);
+  const size = body.length < 0x7f ? new Uint8Array([0x80 | body.length]) : u16(0x4000 | body.length);
+  return concat([ebmlId(id), size, body]);
+}
+
+function uint(value: number, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1, rest = value; i >= 0; i--, rest = Math.floor(rest / 256)) bytes[i] = rest % 256;
+  return bytes;
+}
+
+function float64(value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+}
+
+const UNKNOWN_SIZE = new Uint8Array([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]);
+
+interface WebmOptions {
+  duration?: number; // in TimecodeScale units (milliseconds)
+  unknownSegmentSize?: boolean; // like MediaRecorder output
+}
+
+function buildWebm({ duration, unknownSegmentSize = false }: WebmOptions = {}): Uint8Array {
+  const info = el(0x1549A966,
+    el(0x2AD7B1, uint(1000000, 3)),
+    ...(duration === undefined ? [] : [el(0x4489, float64(duration))]));
+  const videoTrack = el(0xAE,
+    el(0x83, uint(1, 1)),
+    el(0x86, ascii('V_VP9')),
+    el(0x23E383, uint(33366667, 4)),
+    el(0xE0,
+      el(0xB0, uint(1280, 2)),
+      el(0xBA, uint(720, 2)),
+      el(0x7670, el(0x7675, float64(90)))));
+  const audioTrack = el(0xAE,
+    el(0x83, uint(2, 1)),
+    el(0x86, ascii('A_OPUS')),
+    el(0xE1, el(0xB5, float64(48000)), el(0x9F, uint(2, 1))));
+  const cluster = el(0x1F43B675, zeros(32).fill(0x2a));
+
+  const segmentBody = concat([info, el(0x1654AE6B, videoTrack, audioTrack), cluster]);
+  const segment = unknownSegmentSize
+    ? concat([ebmlId(0x18538067), UNKNOWN_SIZE, segmentBody])
+    : concat([ebmlId(0x18538067), new Uint8Array([0x01]), uint(segmentBody.length, 7), segmentBody]);
+
+  return concat([el(0x1A45DFA3, el(0x4282, ascii('webm'))), segment]);
+}
+
+function blob(bytes: Uint8Array): Blob {
+  return new Blob([bytes]);
+}
+
+async function assertParseError(bytes: Uint8Array, code: string): Promise<void> {
+  await assert.rejects(parseContainerMetadata(blob(bytes)), (error: unknown) => {
+    assert.ok(error instanceof ContainerParseError);
+    assert.equal(error.code, code);
+    return true;
+  });
+}
+
+test('MP4 codec, frame rate, duration and size come from the movie header', async () => {
+  const metadata = await parseContainerMetadata(blob(buildMp4()));
+
+  assert.equal(metadata.container, 'mp4');
+  assert.equal(metadata.videoCodec, 'H.264');
+  assert.equal(metadata.frameRate, 30);
+  assert.equal(metadata.duration, 10);
+  assert.equal(metadata.rotation, 0);
+  assert.equal(metadata.width, 1920);
+  assert.equal(metadata.height, 1080);
+  assert.equal(metadata.hasAudio, false);
+});
+
+test('MP4 rotation is read from the track matrix', async () => {
+  const metadata = await parseContainerMetadata(blob(buildMp4({ codec: 'hvc1', rotation: 90, sampleDelta: 1001 })));
+
+  assert.equal(metadata.videoCodec, 'HEVC');
+  assert.equal(metadata.rotation, 90);
+  assert.equal(metadata.frameRate, 29.97);
+});
+
+test('WebM tracks, frame rate and rotation are read from the segment', async () => {
+  const metadata = await parseContainerMetadata(blob(buildWebm({ duration: 4500 })));
+
+  assert.equal(metadata.container, 'webm');
+  assert.equal(metadata.videoCodec, 'VP9');
+  assert.equal(metadata.frameRate, 29.97);
+  assert.equal(metadata.duration, 4.5);
+  assert.equal(metadata.width, 1280);
+  assert.equal(metadata.height, 720);
+  assert.equal(metadata.rotation, 270); // a 90° counter-clockwise roll
+  assert.equal(metadata.hasAudio, true);
+  assert.equal(metadata.audioCodec, 'Opus');
+  assert.equal(metadata.audioSampleRate, 48000);
+  assert.equal(metadata.channelLayout, 'stereo');
+});
+
+test('truncated or damaged containers are reported as corrupt', async () => {
+  await assertParseError(buildWebm().slice(0, 6), 'CORRUPT_CONTAINER');
+  // The sample table claims more entries than the movie header holds
+  await assertParseError(buildMp4({ declaredSttsEntries: 50 }), 'CORRUPT_CONTAINER');
+});
+
+test('MP4 files cut off before the movie header have no moov', async () => {
+  const mp4 = buildMp4();
+  await assertParseError(mp4.slice(0, 40), 'MISSING_MOOV');
+});
+
+test('unknown containers are refused', async () => {
+  await assertParseError(ascii('RIFF\0\0\0\0AVI LIST'), 'UNSUPPORTED_CONTAINER');
+  await assertParseError(new Uint8Array(0), 'UNSUPPORTED_CONTAINER');
+});
+
+test('writeMatroskaDuration adds a readable duration and keeps the rest of the file', async () => {
+  for (const unknownSegmentSize of [false, true]) {
+    const original = buildWebm({ unknownSegmentSize });
+    assert.equal((await parseContainerMetadata(blob(original))).duration, undefined);
+
+    const written = await writeMatroskaDuration(blob(original), 12.5);
+    const metadata = await parseContainerMetadata(written);
+    assert.equal(metadata.duration, 12.5);
+    assert.equal(metadata.videoCodec, 'VP9');
+    assert.equal(metadata.audioCodec, 'Opus');
+
+    // The clusters after Info are carried over byte for byte
+    const bytes = new Uint8Array(await written.arrayBuffer());
+    assert.deepEqual(bytes.slice(-34), original.slice(-34));
+
+    // A file that has a duration is left alone
+    assert.equal(await writeMatroskaDuration(written, 20), written);
+  }
+});
@@ -0,0 +1,601 @@
+/**
+ * Container Metadata
+ *
+ * Reads the technical details of a video from its container, without decoding:
+ * the boxes of MP4/MOV files (ISO BMFF) and the EBML elements of WebM/Matroska.
+ * Only the parts of the file that hold metadata are read, so large videos are
+ * cheap to inspect. Works on any Blob, in the browser and in Node.
+ */
+
+import { ContainerMetadata } from '@/types/video-analysis';
+
+// What the container records; duration and size fill in for the player's when it has none
+export interface ParsedContainer extends ContainerMetadata {
+  duration?: number; // seconds
+  width?: number; // coded size, before rotation
+  height?: number;
+}
+
+export class ContainerParseError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'ContainerParseError';
+  }
+}
+
+// The movie header of long videos can be several MB; anything larger is not a sane file
+const MAX_MOOV_SIZE = 64 * 1024 * 1024;
+// Matroska keeps its Info and Tracks ahead of the first cluster
+const MATROSKA_HEADER_READ_SIZE = 1024 * 1024;
+
+// Seconds from the MP4 epoch (1904-01-01) to the Unix epoch
+const MP4_EPOCH_OFFSET = 2082844800;
+// The Matroska epoch is 2001-01-01
+const MATROSKA_EPOCH = Date.UTC(2001, 0, 1);
+
+const MP4_TOP_LEVEL_BOXES = ['ftyp', 'moov', 'mdat', 'free', 'skip', 'wide', 'pnot'];
+
+const EBML_ID = {
+  header: 0x1A45DFA3,
+  docType: 0x4282,
+  segment: 0x18538067,
+  seekHead: 0x114D9B74,
+  info: 0x1549A966,
+  timecodeScale: 0x2AD7B1,
+  duration: 0x4489,
+  dateUtc: 0x4461,
+  tracks: 0x1654AE6B,
+  trackEntry: 0xAE,
+  trackType: 0x83,
+  codecId: 0x86,
+  defaultDuration: 0x23E383,
+  video: 0xE0,
+  pixelWidth: 0xB0,
+  pixelHeight: 0xBA,
+  projection: 0x7670,
+  projectionPoseRoll: 0x7675,
+  audio: 0xE1,
+  samplingFrequency: 0xB5,
+  channels: 0x9F,
+  cluster: 0x1F43B675,
+};
+
+// Display names by MP4 sample entry type or Matroska codec ID
+const CODEC_NAMES: Record<string, string> = {
+  avc1: 'H.264', avc3: 'H.264', hvc1: 'HEVC', hev1: 'HEVC', vp08: 'VP8', vp09: 'VP9', av01: 'AV1',
+  mp4v: 'MPEG-4 Visual', jpeg: 'Motion JPEG',
+  apch: 'ProRes', apcn: 'ProRes', apcs: 'ProRes', apco: 'ProRes', ap4h: 'ProRes', ap4x: 'ProRes',
+  mp4a: 'AAC', Opus: 'Opus', 'ac-3': 'AC-3', 'ec-3': 'E-AC-3', alac: 'ALAC', fLaC: 'FLAC', '.mp3': 'MP3',
+  lpcm: 'PCM', sowt: 'PCM', twos: 'PCM', in24: 'PCM', in32: 'PCM', fl32: 'PCM', fl64: 'PCM',
+  'V_MPEG4/ISO/AVC': 'H.264', 'V_MPEGH/ISO/HEVC': 'HEVC', V_VP8: 'VP8', V_VP9: 'VP9', V_AV1: 'AV1',
+  A_OPUS: 'Opus', A_VORBIS: 'Vorbis', A_AAC: 'AAC', 'A_MPEG/L3': 'MP3', A_AC3: 'AC-3', A_EAC3: 'E-AC-3', A_FLAC: 'FLAC',
+};
+
+// MPEG-4 object types in an esds box that are MP3 rather than AAC
+const MP3_OBJECT_TYPES = [0x69, 0x6B];
+
+// AAC channel configurations 1-7 (7 is 7.1)
+const AAC_CHANNEL_COUNTS = [0, 1, 2, 3, 4, 5, 6, 8];
+
+/**
+ * Read codec, frame rate, bitrate, rotation, audio and creation time from an
+ * MP4, MOV, WebM or MKV file. Fields the file does not record are left out.
+ */
+export async function parseContainerMetadata(file: Blob): Promise<ParsedContainer> {
+  const head = new DataView(await file.slice(0, 8).arrayBuffer());
+  try {
+    if (head.byteLength >= 4 && head.getUint32(0) === EBML_ID.header) {
+      return await parseMatroska(file);
+    }
+    if (head.byteLength === 8 && MP4_TOP_LEVEL_BOXES.includes(readFourCC(head, 4))) {
+      return await parseMp4(file);
+    }
+  } catch (error) {
+    // Reads past the end of a box mean the file is truncated or damaged
+    if (error instanceof RangeError) {
+      throw new ContainerParseError('The video container is damaged or incomplete', 'CORRUPT_CONTAINER');
+    }
+    throw error;
+  }
+  throw new ContainerParseError('Not an MP4, MOV, WebM or MKV file', 'UNSUPPORTED_CONTAINER');
+}
+
+export function describeChannelLayout(channels: number): string {
+  switch (channels) {
+    case 1: return 'mono';
+    case 2: return 'stereo';
+    case 6: return '5.1';
+    case 8: return '7.1';
+    default: return `${channels} channels`;
+  }
+}
+
+function getCodecName(id: string): string {
+  return CODEC_NAMES[id] || (id.startsWith('A_AAC') ? 'AAC' : id.startsWith('A_PCM') ? 'PCM' : id.trim());
+}
+
+function roundFrameRate(frameRate: number): number | undefined {
+  return Number.isFinite(frameRate) && frameRate > 0 ? Math.round(frameRate * 100) / 100 : undefined;
+}
+
+function withBitrate(result: ParsedContainer, fileSize: number): ParsedContainer {
+  if (result.duration && result.duration > 0) {
+    result.bitrate = Math.round(fileSize * 8 / result.duration);
+  }
+  return result;
+}
+
+// --- MP4 / MOV ---
+
+interface Box {
+  type: string;
+  start: number; // first byte after the header
+  end: number;
+}
+
+function readFourCC(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3)
+  );
+}
+
+function getUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset) * 4294967296 + view.getUint32(offset + 4);
+}
+
+// Header of the box at offset, or null when it does not fit before end
+function readBoxHeader(view: DataView, offset: number, end: number): Box | null {
+  if (offset + 8 > Math.min(end, view.byteLength)) return null;
+
+  let size = view.getUint32(offset);
+  let headerSize = 8;
+  if (size === 1) {
+    if (offset + 16 > view.byteLength) return null;
+    size = getUint64(view, offset + 8);
+    headerSize = 16;
+  } else if (size === 0) {
+    size = end - offset; // runs to the end of its parent (or of the file)
+  }
+
+  if (size < headerSize || offset + size > end) return null;
+  return { type: readFourCC(view, offset + 4), start: offset + headerSize, end: offset + size };
+}
+
+function readBoxes(view: DataView, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  let box: Box | null;
+  let offset = start;
+  while ((box = readBoxHeader(view, offset, end))) {
+    boxes.push(box);
+    offset = box.end;
+  }
+  return boxes;
+}
+
+function findBox(view: DataView, parent: Box | undefined, path: string[]): Box | undefined {
+  let box = parent;
+  for (const type of path) {
+    if (!box) return undefined;
+    box = readBoxes(view, box.start, box.end).find(child => child.type === type);
+  }
+  return box;
+}
+
+// mvhd and mdhd share their first fields; version 1 widens times and duration to 64 bits
+function readTimeHeader(view: DataView, box: Box): { creationTime: number; timescale: number; duration: number } {
+  const offset = box.start + 4;
+  if (view.getUint8(box.start) === 1) {
+    return { creationTime: getUint64(view, offset), timescale: view.getUint32(offset + 16), duration: getUint64(view, offset + 20) };
+  }
+  const duration = view.getUint32(offset + 12);
+  return {
+    creationTime: view.getUint32(offset),
+    timescale: view.getUint32(offset + 8),
+    duration: duration === 0xFFFFFFFF ? 0 : duration, // all ones means unknown
+  };
+}
+
+async function parseMp4(file: Blob): Promise<ParsedContainer> {
+  let container: ParsedContainer['container'] = 'mov'; // QuickTime files may have no ftyp
+  let moov: DataView | undefined;
+  let position = 0;
+
+  // Walk the top-level boxes by their headers, skipping the media data
+  while (position < file.size && !moov) {
+    const header = new DataView(await file.slice(position, position + 16).arrayBuffer());
+    const box = readBoxHeader(header, 0, file.size - position);
+    if (!box) break;
+
+    if (box.type === 'ftyp' && box.start + 4 <= header.byteLength) {
+      container = readFourCC(header, box.start) === 'qt  ' ? 'mov' : 'mp4';
+    } else if (box.type === 'moov') {
+      if (box.end - box.start > MAX_MOOV_SIZE) {
+        throw new ContainerParseError('The movie header is too large to read', 'MOOV_TOO_LARGE');
+      }
+      moov = new DataView(await file.slice(position + box.start, position + box.end).arrayBuffer());
+    }
+    position += box.end;
+  }
+
+  if (!moov) {
+    throw new ContainerParseError('No movie header (moov box) found; the file may be incomplete', 'MISSING_MOOV');
+  }
+
+  const result: ParsedContainer = { container, hasAudio: false };
+  const root: Box = { type: 'moov', start: 0, end: moov.byteLength };
+
+  const mvhd = findBox(moov, root, ['mvhd']);
+  if (mvhd) {
+    const header = readTimeHeader(moov, mvhd);
+    let duration = header.duration;
+    // Fragmented files keep the total duration in mvex/mehd
+    const mehd = duration === 0 ? findBox(moov, root, ['mvex', 'mehd']) : undefined;
+    if (mehd) {
+      duration = moov.getUint8(mehd.start) === 1 ? getUint64(moov, mehd.start + 4) : moov.getUint32(mehd.start + 4);
+    }
+    if (header.timescale > 0 && duration > 0) {
+      result.duration = duration / header.timescale;
+    }
+    if (header.creationTime > MP4_EPOCH_OFFSET) {
+      result.creationTime = new Date((header.creationTime - MP4_EPOCH_OFFSET) * 1000).toISOString();
+    }
+  }
+
+  readBoxes(moov, root.start, root.end)
+    .filter(box => box.type === 'trak')
+    .forEach(trak => {
+      const handler = findBox(moov!, trak, ['mdia', 'hdlr']);
+      const type = handler ? readFourCC(moov!, handler.start + 8) : '';
+      if (type === 'vide' && !result.videoCodec) {
+        readMp4VideoTrack(moov!, trak, result);
+      } else if (type === 'soun' && !result.hasAudio) {
+        result.hasAudio = true;
+        readMp4AudioTrack(moov!, trak, result);
+      }
+    });
+
+  return withBitrate(result, file.size);
+}
+
+function readMp4VideoTrack(view: DataView, trak: Box, result: ParsedContainer): void {
+  const tkhd = findBox(view, trak, ['tkhd']);
+  if (tkhd) {
+    const fields = tkhd.start + (view.getUint8(tkhd.start) === 1 ? 36 : 24);
+    // The first column of the 16.16 transformation matrix gives the rotation
+    const a = view.getInt32(fields + 16) / 65536;
+    const b = view.getInt32(fields + 20) / 65536;
+    const degrees = Math.round(Math.atan2(b, a) * 180 / Math.PI);
+    result.rotation = (degrees % 360 + 360) % 360;
+    result.width = Math.round(view.getUint32(fields + 52) / 65536) || undefined;
+    result.height = Math.round(view.getUint32(fields + 56) / 65536) || undefined;
+  }
+
+  const stbl = findBox(view, trak, ['mdia', 'minf', 'stbl']);
+  const stsd = findBox(view, stbl, ['stsd']);
+  const entry = stsd ? readBoxHeader(view, stsd.start + 8, stsd.end) : null;
+  if (entry) {
+    result.videoCodec = getCodecName(entry.type);
+    // Sample entries carry the coded size when the track header has none
+    result.width = result.width || view.getUint16(entry.start + 24) || undefined;
+    result.height = result.height || view.getUint16(entry.start + 26) || undefined;
+  }
+
+  // Frame rate from the sample durations (stts) in the media timescale
+  const mdhd = findBox(view, trak, ['mdia', 'mdhd']);
+  const stts = findBox(view, stbl, ['stts']);
+  if (mdhd && stts) {
+    const { timescale } = readTimeHeader(view, mdhd);
+    const entryCount = view.getUint32(stts.start + 4);
+    let samples = 0;
+    let ticks = 0;
+    for (let i = 0; i < entryCount; i++) {
+      const offset = stts.start + 8 + i * 8;
+      const count = view.getUint32(offset);
+      samples += count;
+      ticks += count * view.getUint32(offset + 4);
+    }
+    result.frameRate = ticks > 0 ? roundFrameRate(samples * timescale / ticks) : undefined;
+  }
+}
+
+function readMp4AudioTrack(view: DataView, trak: Box, result: ParsedContainer): void {
+  const stsd = findBox(view, trak, ['mdia', 'minf', 'stbl', 'stsd']);
+  const entry = stsd ? readBoxHeader(view, stsd.start + 8, stsd.end) : null;
+  if (!entry) return;
+
+  result.audioCodec = getCodecName(entry.type);
+  const version = view.getUint16(entry.start + 8);
+  if (version === 2) {
+    // QuickTime sound description v2: float64 sample rate and 32-bit channel count
+    result.audioSampleRate = Math.round(view.getFloat64(entry.start + 32));
+    result.audioChannels = view.getUint32(entry.start + 40);
+  } else {
+    result.audioChannels = view.getUint16(entry.start + 16);
+    result.audioSampleRate = view.getUint32(entry.start + 24) >>> 16;
+
+    // MPEG-4 audio says in its esds whether it is AAC or MP3, and the real channel count
+    const children = entry.start + (version === 1 ? 44 : 28);
+    const esds = readBoxes(view, children, entry.end).find(box => box.type === 'esds');
+    if (entry.type === 'mp4a' && esds) {
+      const config = readEsdsConfig(view, esds);
+      if (config && MP3_OBJECT_TYPES.includes(config.objectType)) result.audioCodec = 'MP3';
+      if (config?.channels) result.audioChannels = config.channels;
+    }
+  }
+
+  if (result.audioChannels) {
+    result.channelLayout = describeChannelLayout(result.audioChannels);
+  }
+}
+
+interface Descriptor {
+  tag: number;
+  start: number;
+  end: number;
+}
+
+// MPEG-4 descriptors: a tag byte, then a size of up to four 7-bit groups
+function readDescriptor(view: DataView, offset: number, end: number): Descriptor | null {
+  if (offset + 2 > end) return null;
+  const tag = view.getUint8(offset);
+  let size = 0;
+  let position = offset + 1;
+  for (let i = 0; i < 4; i++) {
+    const byte = view.getUint8(position++);
+    size = size * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) break;
+  }
+  return position + size <= end ? { tag, start: position, end: position + size } : null;
+}
+
+function readEsdsConfig(view: DataView, esds: Box): { objectType: number; channels?: number } | null {
+  const es = readDescriptor(view, esds.start + 4, esds.end);
+  if (!es || es.tag !== 0x03) return null;
+
+  // Skip the ES_ID, then the optional stream dependency, URL and OCR fields
+  const flags = view.getUint8(es.start + 2);
+  let offset = es.start + 3;
+  if (flags & 0x80) offset += 2;
+  if (flags & 0x40) offset += 1 + view.getUint8(offset);
+  if (flags & 0x20) offset += 2;
+
+  const decoderConfig = readDescriptor(view, offset, es.end);
+  if (!decoderConfig || decoderConfig.tag !== 0x04) return null;
+  const objectType = view.getUint8(decoderConfig.start);
+
+  // AudioSpecificConfig: object type, sampling frequency index, channel configuration
+  const specific = readDescriptor(view, decoderConfig.start + 13, decoderConfig.end);
+  if (!specific || specific.tag !== 0x05 || specific.end - specific.start < 2) return { objectType };
+  const bits = new BitReader(view, specific.start);
+  if (bits.read(5) === 31) bits.read(6);
+  if (bits.read(4) === 15) bits.read(24);
+  const channelConfig = bits.read(4);
+  return { objectType, channels: AAC_CHANNEL_COUNTS[channelConfig] || undefined };
+}
+
+class BitReader {
+  private bit = 0;
+
+  constructor(private view: DataView, private offset: number) {}
+
+  read(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++, this.bit++) {
+      const byte = this.view.getUint8(this.offset + (this.bit >> 3));
+      value = value * 2 + ((byte >> (7 - (this.bit & 7))) & 1);
+    }
+    return value;
+  }
+}
+
+// --- WebM / Matroska ---
+
+interface EbmlElement {
+  id: number;
+  offset: number; // first byte of the ID
+  start: number; // first byte of the data
+  end: number;
+}
+
+// Variable-length integer: the position of the first set bit gives the length.
+// IDs keep that marker bit; sizes drop it, and all ones means "unknown size".
+function readVint(view: DataView, offset: number, keepMarker: boolean): { value: number; length: number; unknown: boolean } | null {
+  if (offset >= view.byteLength) return null;
+  const first = view.getUint8(offset);
+  let length = 1;
+  let mask = 0x80;
+  while (length <= 8 && !(first & mask)) {
+    length++;
+    mask >>= 1;
+  }
+  if (length > 8 || offset + length > view.byteLength) return null;
+
+  let value = keepMarker ? first : first & (mask - 1);
+  let allOnes = (first & (mask - 1)) === mask - 1;
+  for (let i = 1; i < length; i++) {
+    const byte = view.getUint8(offset + i);
+    value = value * 256 + byte;
+    allOnes = allOnes && byte === 0xff;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+}
+
+function readElementHeader(view: DataView, offset: number, end: number): EbmlElement | null {
+  const id = readVint(view, offset, true);
+  const size = id && readVint(view, offset + id.length, false);
+  if (!id || !size) return null;
+  const start = offset + id.length + size.length;
+  return { id: id.value, offset, start, end: size.unknown ? end : start + size.value };
+}
+
+// Child elements that were read completely
+function readElements(view: DataView, start: number, end: number): EbmlElement[] {
+  const elements: EbmlElement[] = [];
+  let offset = start;
+  while (offset < end) {
+    const element = readElementHeader(view, offset, end);
+    if (!element || element.end > view.byteLength) break;
+    elements.push(element);
+    offset = element.end;
+  }
+  return elements;
+}
+
+function findElement(view: DataView, parent: EbmlElement | undefined, id: number): EbmlElement | undefined {
+  return parent && readElements(view, parent.start, parent.end).find(element => element.id === id);
+}
+
+function readEbmlUint(view: DataView, element: EbmlElement | undefined): number | undefined {
+  if (!element) return undefined;
+  let value = 0;
+  for (let offset = element.start; offset < element.end; offset++) {
+    value = value * 256 + view.getUint8(offset);
+  }
+  return value;
+}
+
+function readEbmlFloat(view: DataView, element: EbmlElement | undefined): number | undefined {
+  if (!element) return undefined;
+  const size = element.end - element.start;
+  return size === 4 ? view.getFloat32(element.start) : size === 8 ? view.getFloat64(element.start) : undefined;
+}
+
+function readEbmlString(view: DataView, element: EbmlElement | undefined): string | undefined {
+  if (!element) return undefined;
+  let text = '';
+  for (let offset = element.start; offset < element.end; offset++) {
+    const code = view.getUint8(offset);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text;
+}
+
+// Info and Tracks come before the media clusters
+function readSegmentSections(view: DataView, segment: EbmlElement): EbmlElement[] {
+  const sections: EbmlElement[] = [];
+  for (const element of readElements(view, segment.start, Math.min(segment.end, view.byteLength))) {
+    if (element.id === EBML_ID.cluster) break;
+    sections.push(element);
+  }
+  return sections;
+}
+
+async function parseMatroska(file: Blob): Promise<ParsedContainer> {
+  const view = new DataView(await file.slice(0, MATROSKA_HEADER_READ_SIZE).arrayBuffer());
+  const header = readElementHeader(view, 0, view.byteLength);
+  if (!header) {
+    throw new ContainerParseError('The WebM header is incomplete', 'CORRUPT_CONTAINER');
+  }
+  const docType = readEbmlString(view, findElement(view, header, EBML_ID.docType));
+  const result: ParsedContainer = { container: docType === 'webm' ? 'webm' : 'mkv', hasAudio: false };
+
+  const segment = readElementHeader(view, header.end, view.byteLength);
+  if (!segment || segment.id !== EBML_ID.segment) {
+    throw new ContainerParseError('No Matroska segment found', 'CORRUPT_CONTAINER');
+  }
+
+  const sections = readSegmentSections(view, segment);
+  const info = sections.find(element => element.id === EBML_ID.info);
+  if (info) {
+    const timecodeScale = readEbmlUint(view, findElement(view, info, EBML_ID.timecodeScale)) || 1000000;
+    const duration = readEbmlFloat(view, findElement(view, info, EBML_ID.duration));
+    if (duration && duration > 0) {
+      result.duration = duration * timecodeScale / 1e9;
+    }
+    const date = findElement(view, info, EBML_ID.dateUtc);
+    if (date && date.end - date.start === 8) {
+      const nanoseconds = view.getInt32(date.start) * 4294967296 + view.getUint32(date.start + 4);
+      result.creationTime = new Date(MATROSKA_EPOCH + nanoseconds / 1e6).toISOString();
+    }
+  }
+
+  const tracks = sections.find(element => element.id === EBML_ID.tracks);
+  const entries = tracks ? readElements(view, tracks.start, tracks.end).filter(element => element.id === EBML_ID.trackEntry) : [];
+  entries.forEach(entry => {
+    const type = readEbmlUint(view, findElement(view, entry, EBML_ID.trackType));
+    const codecId = readEbmlString(view, findElement(view, entry, EBML_ID.codecId)) || '';
+
+    if (type === 1 && !result.videoCodec) {
+      result.videoCodec = getCodecName(codecId);
+      const defaultDuration = readEbmlUint(view, findElement(view, entry, EBML_ID.defaultDuration));
+      result.frameRate = defaultDuration ? roundFrameRate(1e9 / defaultDuration) : undefined;
+
+      const video = findElement(view, entry, EBML_ID.video);
+      result.width = readEbmlUint(view, findElement(view, video, EBML_ID.pixelWidth));
+      result.height = readEbmlUint(view, findElement(view, video, EBML_ID.pixelHeight));
+      // Roll is counter-clockwise; rotation is reported clockwise like MP4
+      const roll = readEbmlFloat(view, findElement(view, findElement(view, video, EBML_ID.projection), EBML_ID.projectionPoseRoll));
+      result.rotation = roll ? (Math.round(360 - roll) % 360 + 360) % 360 : 0;
+    } else if (type === 2 && !result.hasAudio) {
+      result.hasAudio = true;
+      result.audioCodec = getCodecName(codecId);
+      const audio = findElement(view, entry, EBML_ID.audio);
+      const sampleRate = readEbmlFloat(view, findElement(view, audio, EBML_ID.samplingFrequency));
+      result.audioSampleRate = sampleRate ? Math.round(sampleRate) : undefined;
+      result.audioChannels = readEbmlUint(view, findElement(view, audio, EBML_ID.channels)) || 1;
+      result.channelLayout = describeChannelLayout(result.audioChannels);
+    }
+  });
+
+  return withBitrate(result, file.size);
+}
+
+// Element size as an 8-byte variable-length integer, wide enough for any size
+function encodeEbmlSize(size: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  bytes[0] = 0x01;
+  let value = size;
+  for (let i = 7; i > 0; i--) {
+    bytes[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  return bytes;
+}
+
+/**
+ * Add the duration (in seconds) to a WebM or MKV file that has none, like the
+ * recordings of MediaRecorder; players report those as Infinity and cannot
+ * seek in them. Files that already have a duration, or a seek index that the
+ * added bytes would shift, are returned unchanged.
+ */
+export async function writeMatroskaDuration(file: Blob, duration: number): Promise<Blob> {
+  if (!Number.isFinite(duration) || duration <= 0) return file;
+  const head = new Uint8Array(await file.slice(0, MATROSKA_HEADER_READ_SIZE).arrayBuffer());
+  const view = new DataView(head.buffer);
+  const header = readElementHeader(view, 0, view.byteLength);
+  const segment = header?.id === EBML_ID.header ? readElementHeader(view, header.end, view.byteLength) : null;
+  if (!segment || segment.id !== EBML_ID.segment) return file;
+
+  const sections = readSegmentSections(view, segment);
+  const info = sections.find(element => element.id === EBML_ID.info);
+  if (!info || sections.some(element => element.id === EBML_ID.seekHead) || findElement(view, info, EBML_ID.duration)) {
+    return file;
+  }
+
+  const timecodeScale = readEbmlUint(view, findElement(view, info, EBML_ID.timecodeScale)) || 1000000;
+  const durationElement = new Uint8Array(11);
+  const durationView = new DataView(durationElement.buffer);
+  durationView.setUint16(0, EBML_ID.duration);
+  durationView.setUint8(2, 0x88); // 8 bytes of data
+  durationView.setFloat64(3, duration * 1e9 / timecodeScale);
+
+  // Info grows by the new element and, when its size field gets wider, by that too
+  const infoSizeOffset = info.offset + readVint(view, info.offset, true)!.length;
+  const growth = durationElement.length + 8 - (info.start - infoSizeOffset);
+  const segmentSizeOffset = segment.offset + readVint(view, segment.offset, true)!.length;
+  const segmentSize = readVint(view, segmentSizeOffset, false)!;
+  const segmentSizeField = segmentSize.unknown
+    ? head.subarray(segmentSizeOffset, segment.start)
+    : encodeEbmlSize(segmentSize.value + growth);
+
+  return new Blob([
+    head.subarray(0, segmentSizeOffset),
+    segmentSizeField,
+    head.subarray(segment.start, infoSizeOffset),
+    encodeEbmlSize(info.end - info.start + durationElement.length),
+    head.subarray(info.start, info.end),
+    durationElement,
+    file.slice(info.end),
+  ], { type: file.type });
+}
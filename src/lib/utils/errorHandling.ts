@@ -453,6 +453,25 @@ export function isRetryableError(error: VideoAnalyzerError): boolean {
   return error.retryable;
 }
 
+const RETRYABLE_ANALYSIS_ERRORS = [
+  'network',
+  'failed to fetch',
+  'fetch failed', // Node's fetch, for server-side jobs
+  'timeout',
+  'rate limit',
+  'temporary',
+  'service unavailable',
+  'internal server error',
+];
+
+// Whether a failed analysis request is retried, by the browser queue and by
+// server-side jobs; the analyze route uses it to tell which failures are final
+export function isRetryableAnalysisError(message: string, code?: string): boolean {
+  if (code === 'QUOTA_EXCEEDED') return true;
+  const lowerMessage = message.toLowerCase();
+  return RETRYABLE_ANALYSIS_ERRORS.some(error => lowerMessage.includes(error));
+}
+
 export function shouldShowToUser(error: VideoAnalyzerError): boolean {
   // Don't show critical internal errors to users
   return error.severity !== ErrorSeverity.CRITICAL;
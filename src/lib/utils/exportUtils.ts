@@ -1,7 +1,38 @@
 import { saveAs } from 'file-saver';
-import { VideoAnalysisResult, ExportConfig } from '@/types/video-analysis';
+import { VideoAnalysisResult, ExportConfig, ExportFormat, HookFieldKey, SubtitleFormat } from '@/types/video-analysis';
 import { signInWithGoogle, isAuthenticated, waitForGoogleAuth } from './googleSheetsAuth';
-import { createSpreadsheet, validateSpreadsheetData, formatSheetsError } from './googleSheetsExport';
+import {
+  createSpreadsheet,
+  upsertToSpreadsheet,
+  validateSpreadsheetData,
+  formatSheetsError,
+  saveLastSpreadsheetTarget,
+  SpreadsheetTarget,
+} from './googleSheetsExport';
+import {
+  collectCustomFieldColumns,
+  collectHookCategoryColumns,
+  formatAnalyzedWindow,
+  formatFieldValue,
+  getHookCategoryLabel,
+  getHookConfidenceLabel,
+  hasHookWindowResults,
+} from './analysisFields';
+import { parseVideoScript, formatSubtitles, getSubtitleFilename } from './subtitleUtils';
+import { formatDuration, VIDEO_METADATA_COLUMNS } from './videoUtils';
+import { createZipArchive, uniqueZipNames, ZipEntry } from './zipUtils';
+import { createPdfDocument, PdfPage, readJpeg } from './pdfUtils';
+import { createXlsxWorkbook, XlsxCell, XlsxCellStyle, XlsxSheet } from './xlsxUtils';
+
+type CustomFieldColumn = { key: string; label: string };
+
+interface ResultColumns {
+  custom: CustomFieldColumn[];
+  hooks: HookFieldKey[];
+  analyzedWindow: boolean; // some results cover only the opening seconds
+  videoMetadata: boolean; // some results have codec, frame rate... of their video
+  error: boolean; // some results failed; CSV only, XLSX lists them on its Errors sheet
+}
 
 // Default export configuration
 const DEFAULT_EXPORT_CONFIG: ExportConfig = {
@@ -13,6 +44,7 @@ const DEFAULT_EXPORT_CONFIG: ExportConfig = {
     voiceHook: true,
     videoScript: true,
     painPoint: true,
+    customFields: true,
     processingTime: true,
     status: true,
     timestamps: true,
@@ -24,14 +56,7 @@ export function exportToCSV(
   results: VideoAnalysisResult[], 
   config: Partial<ExportConfig> = {}
 ): void {
-  const exportConfig = { ...DEFAULT_EXPORT_CONFIG, ...config, format: 'csv' as const };
-  const filteredResults = filterResults(results, exportConfig);
-  
-  if (filteredResults.length === 0) {
-    throw new Error('No data to export');
-  }
-
-  const csvContent = generateCSVContent(filteredResults, exportConfig);
+  const csvContent = formatResultsAsCSV(results, config);
   const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
   const filename = generateFilename('csv');
   
@@ -42,25 +67,64 @@ export function exportToJSON(
   results: VideoAnalysisResult[], 
   config: Partial<ExportConfig> = {}
 ): void {
-  const exportConfig = { ...DEFAULT_EXPORT_CONFIG, ...config, format: 'json' as const };
+  const jsonContent = formatResultsAsJSON(results, config);
+  const blob = new Blob([jsonContent], { type: 'application/json;charset=utf-8;' });
+  const filename = generateFilename('json');
+  
+  saveAs(blob, filename);
+}
+
+export function exportToXLSX(
+  results: VideoAnalysisResult[],
+  config: Partial<ExportConfig> = {}
+): void {
+  const exportConfig = { ...DEFAULT_EXPORT_CONFIG, ...config, format: 'xlsx' as const };
   const filteredResults = filterResults(results, exportConfig);
   
   if (filteredResults.length === 0) {
     throw new Error('No data to export');
   }
 
-  const exportData = prepareJSONData(filteredResults, exportConfig);
-  const jsonContent = JSON.stringify(exportData, null, 2);
-  const blob = new Blob([jsonContent], { type: 'application/json;charset=utf-8;' });
-  const filename = generateFilename('json');
+  const blob = createXlsxWorkbook(generateXLSXSheets(filteredResults, exportConfig));
+  const filename = generateFilename('xlsx');
   
   saveAs(blob, filename);
 }
 
+// Export file contents without the download (e.g. for the command-line analyzer)
+export function formatResultsAsCSV(
+  results: VideoAnalysisResult[],
+  config: Partial<ExportConfig> = {}
+): string {
+  const exportConfig = { ...DEFAULT_EXPORT_CONFIG, ...config, format: 'csv' as const };
+  const filteredResults = filterResults(results, exportConfig);
+  
+  if (filteredResults.length === 0) {
+    throw new Error('No data to export');
+  }
+
+  return generateCSVContent(filteredResults, exportConfig);
+}
+
+export function formatResultsAsJSON(
+  results: VideoAnalysisResult[],
+  config: Partial<ExportConfig> = {}
+): string {
+  const exportConfig = { ...DEFAULT_EXPORT_CONFIG, ...config, format: 'json' as const };
+  const filteredResults = filterResults(results, exportConfig);
+  
+  if (filteredResults.length === 0) {
+    throw new Error('No data to export');
+  }
+
+  return JSON.stringify(prepareJSONData(filteredResults, exportConfig), null, 2);
+}
+
 // Generate CSV content
 function generateCSVContent(results: VideoAnalysisResult[], config: ExportConfig): string {
-  const headers = getCSVHeaders(config);
-  const rows = results.map(result => generateCSVRow(result, config));
+  const columns = getResultColumns(results, config);
+  const headers = getCSVHeaders(config, columns);
+  const rows = results.map(result => generateCSVRow(result, config, columns));
   
   const csvLines = [
     headers.join(','),
@@ -70,17 +134,49 @@ function generateCSVContent(results: VideoAnalysisResult[], config: ExportConfig
   return csvLines.join('\n');
 }
 
+// Custom field columns to export (one per user-defined field found in the results)
+function getCustomFieldColumns(results: VideoAnalysisResult[], config: ExportConfig): CustomFieldColumn[] {
+  return config.includeFields.customFields ? collectCustomFieldColumns(results) : [];
+}
+
+// Hooks whose category and confidence are exported (classified and included hooks only)
+function getHookCategoryColumns(results: VideoAnalysisResult[], config: ExportConfig): HookFieldKey[] {
+  return collectHookCategoryColumns(results).filter(key => config.includeFields[key]);
+}
+
+// Columns that depend on what the exported results contain
+function getResultColumns(results: VideoAnalysisResult[], config: ExportConfig): ResultColumns {
+  return {
+    custom: getCustomFieldColumns(results, config),
+    hooks: getHookCategoryColumns(results, config),
+    analyzedWindow: hasHookWindowResults(results),
+    videoMetadata: results.some(result => result.videoMetadata),
+    error: results.some(result => result.error),
+  };
+}
+
 // Get CSV headers based on configuration
-function getCSVHeaders(config: ExportConfig): string[] {
+function getCSVHeaders(config: ExportConfig, columns: ResultColumns): string[] {
+  const headers = getResultHeaders(config, columns);
+  if (columns.error) headers.push('Error');
+  return headers.map(escapeCSVField);
+}
+
+// Column labels in export order (shared by CSV and XLSX)
+function getResultHeaders(config: ExportConfig, columns: ResultColumns): string[] {
   const headers: string[] = [];
   
   if (config.includeFields.filename) headers.push('Filename');
   if (config.includeFields.status) headers.push('Status');
+  if (columns.analyzedWindow) headers.push('Analyzed Window');
   if (config.includeFields.visualHook) headers.push('Visual Hook');
   if (config.includeFields.textHook) headers.push('Text Hook');
   if (config.includeFields.voiceHook) headers.push('Voice Hook');
+  columns.hooks.forEach(key => headers.push(getHookCategoryLabel(key), getHookConfidenceLabel(key)));
   if (config.includeFields.videoScript) headers.push('Video Script');
   if (config.includeFields.painPoint) headers.push('Pain Point');
+  columns.custom.forEach(column => headers.push(column.label));
+  if (columns.videoMetadata) VIDEO_METADATA_COLUMNS.forEach(column => headers.push(column.label));
   if (config.includeFields.processingTime) headers.push('Processing Time (ms)');
   if (config.includeFields.timestamps) {
     headers.push('Created At');
@@ -91,44 +187,78 @@ function getCSVHeaders(config: ExportConfig): string[] {
 }
 
 // Generate CSV row for a single result
-function generateCSVRow(result: VideoAnalysisResult, config: ExportConfig): string[] {
-  const row: string[] = [];
+function generateCSVRow(result: VideoAnalysisResult, config: ExportConfig, columns: ResultColumns): string[] {
+  const values = getResultValues(result, config, columns);
+  if (columns.error) values.push(result.error || '');
+  return values.map(value => {
+    if (value === null) return '';
+    return typeof value === 'number' ? value.toString() : escapeCSVField(value);
+  });
+}
+
+// Unescaped cell values for a single result, in the order of getResultHeaders
+function getResultValues(
+  result: VideoAnalysisResult,
+  config: ExportConfig,
+  columns: ResultColumns
+): Array<string | number | null> {
+  const row: Array<string | number | null> = [];
   
   if (config.includeFields.filename) {
-    row.push(escapeCSVField(result.filename));
+    row.push(result.filename);
   }
   
   if (config.includeFields.status) {
-    row.push(escapeCSVField(result.status));
+    row.push(result.status);
+  }
+  
+  if (columns.analyzedWindow) {
+    row.push(formatAnalyzedWindow(result.hookWindowSeconds));
   }
   
   if (config.includeFields.visualHook) {
-    row.push(escapeCSVField(result.visualHook || ''));
+    row.push(result.visualHook || '');
   }
   
   if (config.includeFields.textHook) {
-    row.push(escapeCSVField(result.textHook || ''));
+    row.push(result.textHook || '');
   }
   
   if (config.includeFields.voiceHook) {
-    row.push(escapeCSVField(result.voiceHook || ''));
+    row.push(result.voiceHook || '');
   }
   
+  columns.hooks.forEach(key => {
+    const classification = result.hookCategories?.[key];
+    row.push(classification?.category || '');
+    row.push(classification ? classification.confidence : null);
+  });
+  
   if (config.includeFields.videoScript) {
-    row.push(escapeCSVField(result.videoScript || ''));
+    row.push(result.videoScript || '');
   }
   
   if (config.includeFields.painPoint) {
-    row.push(escapeCSVField(result.painPoint || ''));
+    row.push(result.painPoint || '');
+  }
+  
+  columns.custom.forEach(column => {
+    row.push(formatFieldValue(result.customFields?.[column.key]?.value));
+  });
+  
+  if (columns.videoMetadata) {
+    VIDEO_METADATA_COLUMNS.forEach(column => {
+      row.push(result.videoMetadata ? column.value(result.videoMetadata) : null);
+    });
   }
   
   if (config.includeFields.processingTime) {
-    row.push(result.processingTime?.toString() || '');
+    row.push(result.processingTime ?? null);
   }
   
   if (config.includeFields.timestamps) {
-    row.push(escapeCSVField(formatTimestamp(result.createdAt)));
-    row.push(escapeCSVField(result.completedAt ? formatTimestamp(result.completedAt) : ''));
+    row.push(formatTimestamp(result.createdAt));
+    row.push(result.completedAt ? formatTimestamp(result.completedAt) : '');
   }
   
   return row;
@@ -147,6 +277,11 @@ function escapeCSVField(field: string): string {
   return field;
 }
 
+// 1.1 added id and contentHash so imports can match results exactly, 1.2 added hookCategories,
+// 1.3 added script variants, 1.4 added storyboards, 1.5 added hookWindowSeconds, 1.6 added videoMetadata,
+// 1.7 added contact sheets
+export const JSON_EXPORT_VERSION = '1.7';
+
 // Prepare JSON export data
 function prepareJSONData(results: VideoAnalysisResult[], config: ExportConfig) {
   const exportData = {
@@ -154,7 +289,7 @@ function prepareJSONData(results: VideoAnalysisResult[], config: ExportConfig) {
       exportDate: new Date().toISOString(),
       totalResults: results.length,
       exportConfig: config,
-      version: '1.0',
+      version: JSON_EXPORT_VERSION,
     },
     results: results.map(result => prepareJSONResult(result, config)),
   };
@@ -164,7 +299,11 @@ function prepareJSONData(results: VideoAnalysisResult[], config: ExportConfig) {
 
 // Prepare single result for JSON export
 function prepareJSONResult(result: VideoAnalysisResult, config: ExportConfig) {
-  const exportResult: any = {};
+  const exportResult: any = { id: result.id };
+  
+  if (result.contentHash) {
+    exportResult.contentHash = result.contentHash;
+  }
   
   if (config.includeFields.filename) {
     exportResult.filename = result.filename;
@@ -174,6 +313,14 @@ function prepareJSONResult(result: VideoAnalysisResult, config: ExportConfig) {
     exportResult.status = result.status;
   }
   
+  if (result.hookWindowSeconds !== undefined) {
+    exportResult.hookWindowSeconds = result.hookWindowSeconds;
+  }
+  
+  if (result.videoMetadata) {
+    exportResult.videoMetadata = result.videoMetadata;
+  }
+  
   if (config.includeFields.visualHook && result.visualHook) {
     exportResult.visualHook = result.visualHook;
   }
@@ -186,6 +333,11 @@ function prepareJSONResult(result: VideoAnalysisResult, config: ExportConfig) {
     exportResult.voiceHook = result.voiceHook;
   }
   
+  const hookCategories = getHookCategoryColumns([result], config);
+  if (hookCategories.length > 0) {
+    exportResult.hookCategories = Object.fromEntries(hookCategories.map(key => [key, result.hookCategories![key]]));
+  }
+  
   if (config.includeFields.videoScript && result.videoScript) {
     exportResult.videoScript = result.videoScript;
   }
@@ -194,10 +346,36 @@ function prepareJSONResult(result: VideoAnalysisResult, config: ExportConfig) {
     exportResult.painPoint = result.painPoint;
   }
   
+  if (config.includeFields.customFields && result.customFields && Object.keys(result.customFields).length > 0) {
+    exportResult.customFields = result.customFields;
+  }
+  
+  if (result.variants && result.variants.length > 0) {
+    exportResult.variants = result.variants;
+  }
+  
+  if (result.storyboard) {
+    exportResult.storyboard = result.storyboard;
+  }
+  
+  if (result.contactSheet) {
+    exportResult.contactSheet = result.contactSheet;
+  }
+  
   if (config.includeFields.processingTime && result.processingTime) {
     exportResult.processingTime = result.processingTime;
   }
   
+  // Record which model produced the analysis
+  if (result.provider) {
+    exportResult.provider = result.provider;
+    exportResult.model = result.model;
+  }
+  
+  if (result.cached) {
+    exportResult.cached = true;
+  }
+  
   if (config.includeFields.timestamps) {
     exportResult.timestamps = {
       createdAt: result.createdAt,
@@ -243,6 +421,7 @@ export function generateExportSummary(results: VideoAnalysisResult[]): {
   totalVideos: number;
   completedCount: number;
   errorCount: number;
+  cancelledCount: number;
   pendingCount: number;
   totalProcessingTime: number;
   averageProcessingTime: number;
@@ -250,6 +429,7 @@ export function generateExportSummary(results: VideoAnalysisResult[]): {
 } {
   const completed = results.filter(r => r.status === 'completed');
   const errors = results.filter(r => r.status === 'error');
+  const cancelled = results.filter(r => r.status === 'cancelled');
   const pending = results.filter(r => r.status === 'pending' || r.status === 'processing');
   
   const totalProcessingTime = completed.reduce((sum, r) => sum + (r.processingTime || 0), 0);
@@ -259,6 +439,7 @@ export function generateExportSummary(results: VideoAnalysisResult[]): {
     totalVideos: results.length,
     completedCount: completed.length,
     errorCount: errors.length,
+    cancelledCount: cancelled.length,
     pendingCount: pending.length,
     totalProcessingTime,
     averageProcessingTime,
@@ -269,7 +450,7 @@ export function generateExportSummary(results: VideoAnalysisResult[]): {
 // Export with custom fields
 export function exportWithCustomFields(
   results: VideoAnalysisResult[],
-  format: 'csv' | 'json',
+  format: ExportFormat,
   customFields: string[]
 ): void {
   const config: ExportConfig = {
@@ -281,23 +462,20 @@ export function exportWithCustomFields(
       voiceHook: customFields.includes('voiceHook'),
       videoScript: customFields.includes('videoScript'),
       painPoint: customFields.includes('painPoint'),
+      customFields: customFields.includes('customFields'),
       processingTime: customFields.includes('processingTime'),
       status: customFields.includes('status'),
       timestamps: customFields.includes('timestamps'),
     },
   };
   
-  if (format === 'csv') {
-    exportToCSV(results, config);
-  } else {
-    exportToJSON(results, config);
-  }
+  exportInFormat(results, config);
 }
 
 // Export completed results only
 export function exportCompletedResults(
   results: VideoAnalysisResult[],
-  format: 'csv' | 'json'
+  format: ExportFormat
 ): void {
   const config: ExportConfig = {
     ...DEFAULT_EXPORT_CONFIG,
@@ -305,21 +483,31 @@ export function exportCompletedResults(
     filterByStatus: ['completed'],
   };
   
-  if (format === 'csv') {
-    exportToCSV(results, config);
-  } else {
+  exportInFormat(results, config);
+}
+
+// Download in the format the config asks for
+function exportInFormat(results: VideoAnalysisResult[], config: ExportConfig): void {
+  if (config.format === 'xlsx') {
+    exportToXLSX(results, config);
+  } else if (config.format === 'json') {
     exportToJSON(results, config);
+  } else {
+    exportToCSV(results, config);
   }
 }
 
 // Export with summary report
 export function exportWithSummary(
   results: VideoAnalysisResult[],
-  format: 'csv' | 'json'
+  format: ExportFormat
 ): void {
   const summary = generateExportSummary(results);
   
-  if (format === 'json') {
+  if (format === 'xlsx') {
+    // The workbook already has a Summary sheet
+    exportToXLSX(results);
+  } else if (format === 'json') {
     const exportData = {
       summary,
       ...prepareJSONData(results, { ...DEFAULT_EXPORT_CONFIG, format }),
@@ -349,18 +537,258 @@ export function exportWithSummary(
 function generateSummaryCSV(summary: ReturnType<typeof generateExportSummary>): string {
   const lines = [
     'Metric,Value',
-    `Total Videos,${summary.totalVideos}`,
-    `Completed,${summary.completedCount}`,
-    `Errors,${summary.errorCount}`,
-    `Pending,${summary.pendingCount}`,
-    `Total Processing Time (ms),${summary.totalProcessingTime}`,
-    `Average Processing Time (ms),${Math.round(summary.averageProcessingTime)}`,
-    `Export Date,${summary.exportDate}`,
+    ...getSummaryRows(summary).map(([metric, value]) => `${metric},${value}`),
   ];
   
   return lines.join('\n');
 }
 
+// Summary metrics as label/value pairs (shared by CSV and XLSX)
+function getSummaryRows(summary: ReturnType<typeof generateExportSummary>): Array<[string, string | number]> {
+  return [
+    ['Total Videos', summary.totalVideos],
+    ['Completed', summary.completedCount],
+    ['Errors', summary.errorCount],
+    ['Cancelled', summary.cancelledCount],
+    ['Pending', summary.pendingCount],
+    ['Total Processing Time (ms)', summary.totalProcessingTime],
+    ['Average Processing Time (ms)', Math.round(summary.averageProcessingTime)],
+    ['Export Date', summary.exportDate],
+  ];
+}
+
+// XLSX fill color per result status
+const XLSX_STATUS_STYLES: Record<VideoAnalysisResult['status'], XlsxCellStyle> = {
+  completed: 'success',
+  error: 'error',
+  cancelled: 'warning',
+  pending: 'info',
+  processing: 'info',
+};
+
+// Column widths (in characters) for the results sheet
+const XLSX_COLUMN_WIDTHS: Record<string, number> = {
+  'Filename': 32,
+  'Status': 12,
+  'Visual Hook': 45,
+  'Text Hook': 45,
+  'Voice Hook': 45,
+  'Video Script': 80,
+  'Pain Point': 45,
+  'Analyzed Window': 16,
+  'Resolution': 14,
+  'Video Codec': 14,
+  'Audio Track': 24,
+  'Recorded At': 24,
+  'Processing Time (ms)': 20,
+  'Created At': 24,
+  'Completed At': 24,
+};
+const XLSX_CUSTOM_FIELD_WIDTH = 30;
+
+// Results, Summary and, when timestamps are included, Errors sheets
+function generateXLSXSheets(results: VideoAnalysisResult[], config: ExportConfig): XlsxSheet[] {
+  const columns = getResultColumns(results, config);
+  const headers = getResultHeaders(config, columns);
+  const statusColumn = config.includeFields.status ? headers.indexOf('Status') : -1;
+
+  const resultRows = results.map(result =>
+    getResultValues(result, config, columns).map((value, index): XlsxCell => ({
+      value,
+      style: index === statusColumn ? XLSX_STATUS_STYLES[result.status] : 'wrap',
+    }))
+  );
+
+  const sheets: XlsxSheet[] = [
+    {
+      name: 'Results',
+      columns: headers.map(header => ({ header, width: XLSX_COLUMN_WIDTHS[header] || XLSX_CUSTOM_FIELD_WIDTH })),
+      rows: resultRows,
+      freezeHeader: true,
+    },
+    {
+      name: 'Summary',
+      columns: [{ header: 'Metric', width: 30 }, { header: 'Value', width: 26 }],
+      rows: getSummaryRows(generateExportSummary(results)).map(([metric, value]) => [{ value: metric }, { value }]),
+    },
+  ];
+
+  if (config.includeFields.timestamps) {
+    const failed = results.filter(result => result.status === 'error' || result.status === 'cancelled');
+    sheets.push({
+      name: 'Errors',
+      columns: [
+        { header: 'Filename', width: 32 },
+        { header: 'Status', width: 12 },
+        { header: 'Error', width: 60 },
+        { header: 'Created At', width: 24 },
+        { header: 'Completed At', width: 24 },
+      ],
+      rows: failed.map(result => [
+        { value: result.filename, style: 'wrap' },
+        { value: result.status, style: XLSX_STATUS_STYLES[result.status] },
+        { value: result.error || '', style: 'wrap' },
+        { value: formatTimestamp(result.createdAt), style: 'wrap' },
+        { value: result.completedAt ? formatTimestamp(result.completedAt) : '', style: 'wrap' },
+      ]),
+      freezeHeader: true,
+    });
+  }
+
+  return sheets;
+}
+
+// Subtitle export from the timestamped video script
+const SUBTITLE_MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip;charset=utf-8;',
+  vtt: 'text/vtt;charset=utf-8;',
+};
+
+export function exportSubtitles(result: VideoAnalysisResult, format: SubtitleFormat): void {
+  const cues = parseVideoScript(result.videoScript);
+  if (cues.length === 0) {
+    throw new Error(`${result.filename} has no timed speech to export`);
+  }
+
+  const blob = new Blob([formatSubtitles(cues, format)], { type: SUBTITLE_MIME_TYPES[format] });
+  saveAs(blob, getSubtitleFilename(result.filename, format));
+}
+
+// Script variants of one result, as a Markdown brief for copywriters or a CSV for ad tools
+export type ScriptVariantsFormat = 'md' | 'csv';
+
+export function formatScriptVariants(result: VideoAnalysisResult, format: ScriptVariantsFormat): string {
+  const variants = result.variants || [];
+
+  if (format === 'csv') {
+    const headers = ['Variant', 'Text Hook', 'Voice Hook', 'Script', 'Brief', 'Provider', 'Model', 'Edited', 'Created At'];
+    const rows = variants.map((variant, index) => [
+      String(index + 1),
+      variant.textHook,
+      variant.voiceHook,
+      variant.script,
+      variant.brief,
+      variant.provider,
+      variant.model,
+      variant.edited ? 'Yes' : 'No',
+      formatTimestamp(new Date(variant.createdAt)),
+    ]);
+    return [headers, ...rows].map(row => row.map(escapeCSVField).join(',')).join('\n');
+  }
+
+  const sections = variants.map((variant, index) => [
+    `## Variant ${index + 1}${variant.edited ? ' (edited)' : ''}`,
+    '',
+    `**Text hook:** ${variant.textHook}`,
+    '',
+    `**Voice hook:** ${variant.voiceHook}`,
+    '',
+    '**Script:**',
+    '',
+    variant.script,
+  ].join('\n'));
+
+  return [
+    `# Script variants: ${result.filename}`,
+    '',
+    `Original text hook: ${result.textHook || 'n/a'}`,
+    `Original voice hook: ${result.voiceHook || 'n/a'}`,
+    `Pain point: ${result.painPoint || 'n/a'}`,
+    '',
+    ...sections.flatMap(section => [section, '']),
+  ].join('\n');
+}
+
+export function exportScriptVariants(result: VideoAnalysisResult, format: ScriptVariantsFormat): void {
+  if (!result.variants || result.variants.length === 0) {
+    throw new Error(`${result.filename} has no script variants to export`);
+  }
+
+  const type = format === 'csv' ? 'text/csv;charset=utf-8;' : 'text/markdown;charset=utf-8;';
+  const blob = new Blob([formatScriptVariants(result, format)], { type });
+  const baseName = getSubtitleFilename(result.filename, 'srt').slice(0, -4);
+  saveAs(blob, `${baseName}_variants.${format}`);
+}
+
+/**
+ * Download one ZIP with an .srt and a .vtt file per video.
+ * Videos without timed speech are skipped; returns their filenames.
+ */
+export function exportSubtitlesZip(results: VideoAnalysisResult[]): { exported: number; skipped: string[] } {
+  const withCues = results.map(result => ({ result, cues: parseVideoScript(result.videoScript) }));
+  const exportable = withCues.filter(({ cues }) => cues.length > 0);
+  if (exportable.length === 0) {
+    throw new Error('None of the selected videos has timed speech to export');
+  }
+
+  // Number repeated base names once so the .srt and .vtt of a video keep matching names
+  const baseNames = uniqueZipNames(exportable.map(({ result }) => getSubtitleFilename(result.filename, 'srt').slice(0, -4)));
+  const entries: ZipEntry[] = exportable.flatMap(({ cues }, index) => [
+    { name: `${baseNames[index]}.srt`, content: formatSubtitles(cues, 'srt') },
+    { name: `${baseNames[index]}.vtt`, content: formatSubtitles(cues, 'vtt') },
+  ]);
+
+  saveAs(createZipArchive(entries), generateFilename('zip'));
+
+  return {
+    exported: exportable.length,
+    skipped: withCues.filter(({ cues }) => cues.length === 0).map(({ result }) => result.filename),
+  };
+}
+
+export type ContactSheetExportFormat = 'zip' | 'pdf';
+
+function dataUrlToBytes(dataUrl: string): Uint8Array {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+// "0:00, 0:04 (cut), 0:11 (cut)": keyframes that start a detected scene are marked
+function formatKeyframes(result: VideoAnalysisResult): string {
+  return (result.contactSheet?.keyframes || [])
+    .map(keyframe => `${formatDuration(keyframe.timestamp)}${keyframe.sceneScore > 0 ? ' (cut)' : ''}`)
+    .join(', ');
+}
+
+function getContactSheetPage(result: VideoAnalysisResult, image: Uint8Array): PdfPage {
+  const lines = [
+    `Status: ${result.status}${result.hookWindowSeconds !== undefined ? ` (${formatAnalyzedWindow(result.hookWindowSeconds)})` : ''}`,
+    `Scenes: ${result.contactSheet!.sceneCount}; keyframes at ${formatKeyframes(result)}`,
+  ];
+  if (result.visualHook) lines.push(`Visual hook: ${result.visualHook}`);
+  if (result.textHook) lines.push(`Text hook: ${result.textHook}`);
+  if (result.voiceHook) lines.push(`Voice hook: ${result.voiceHook}`);
+  return { title: result.filename, lines, image: readJpeg(image) };
+}
+
+/**
+ * Download the contact sheets of the given results: a ZIP with one JPEG per
+ * video, or a PDF with a page per video showing the sheet under its hooks.
+ * Videos without a contact sheet are skipped; returns their filenames.
+ */
+export function exportContactSheets(
+  results: VideoAnalysisResult[],
+  format: ContactSheetExportFormat
+): { exported: number; skipped: string[] } {
+  const exportable = results.filter(result => result.contactSheet);
+  if (exportable.length === 0) {
+    throw new Error('None of the selected videos has a contact sheet yet');
+  }
+
+  const images = exportable.map(result => dataUrlToBytes(result.contactSheet!.imageUrl));
+  if (format === 'pdf') {
+    saveAs(createPdfDocument(exportable.map((result, index) => getContactSheetPage(result, images[index]))), generateFilename('pdf'));
+  } else {
+    const names = uniqueZipNames(exportable.map(result => getSubtitleFilename(result.filename, 'srt').slice(0, -4) + '_contact-sheet.jpg'));
+    saveAs(createZipArchive(names.map((name, index) => ({ name, content: images[index] }))), generateFilename('zip'));
+  }
+
+  return {
+    exported: exportable.length,
+    skipped: results.filter(result => !result.contactSheet).map(result => result.filename),
+  };
+}
+
 // Batch export utilities
 export function exportBatch(
   resultsBatch: VideoAnalysisResult[][],
@@ -434,11 +862,17 @@ export function validateExportData(results: VideoAnalysisResult[]): {
   }
   
   const resultsWithoutAnalysis = completedResults.filter(r => 
-    !r.visualHook && !r.textHook && !r.voiceHook && !r.videoScript && !r.painPoint
+    !r.visualHook && !r.textHook && !r.voiceHook && !r.videoScript && !r.painPoint &&
+    Object.keys(r.customFields || {}).length === 0
   );
   if (resultsWithoutAnalysis.length > 0) {
     warnings.push(`${resultsWithoutAnalysis.length} completed results have no analysis data`);
   }
+
+  const cancelledResults = results.filter(r => r.status === 'cancelled');
+  if (cancelledResults.length > 0) {
+    warnings.push(`${cancelledResults.length} results were cancelled before analysis finished`);
+  }
   
   return {
     isValid: errors.length === 0,
@@ -461,6 +895,7 @@ export function getAvailableExportFields(): Array<{
     { key: 'voiceHook', label: 'Voice Hook', description: 'Verbal hook and tagline analysis' },
     { key: 'videoScript', label: 'Video Script', description: 'Complete transcript with timestamps' },
     { key: 'painPoint', label: 'Pain Point', description: 'Problem-solving angle analysis' },
+    { key: 'customFields', label: 'Custom Fields', description: 'User-defined analysis fields' },
     { key: 'processingTime', label: 'Processing Time', description: 'Time taken for analysis (ms)' },
     { key: 'timestamps', label: 'Timestamps', description: 'Created and completed timestamps' },
   ];
@@ -503,12 +938,13 @@ export async function exportLargeDataset(
   
   if (format === 'csv') {
     // Add headers once
-    const headers = getCSVHeaders(exportConfig);
+    const columns = getResultColumns(filteredResults, exportConfig);
+    const headers = getCSVHeaders(exportConfig, columns);
     allContent = headers.join(',') + '\n';
     
     for (let i = 0; i < chunks.length; i++) {
       const chunk = chunks[i];
-      const rows = chunk.map(result => generateCSVRow(result, exportConfig));
+      const rows = chunk.map(result => generateCSVRow(result, exportConfig, columns));
       allContent += rows.map(row => row.join(',')).join('\n');
       
       if (i < chunks.length - 1) {
@@ -673,4 +1109,65 @@ export async function exportToGoogleSheetsWithProgress(
       error: formatSheetsError(error),
     };
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Upsert into a tab of an existing spreadsheet, with progress callback.
+ * A successful export remembers the target for the rest of the session.
+ */
+export async function upsertToGoogleSheetsWithProgress(
+  results: VideoAnalysisResult[],
+  target: SpreadsheetTarget,
+  config?: Partial<ExportConfig>,
+  onProgress?: (progress: { stage: string; message: string }) => void
+): Promise<{
+  success: boolean;
+  spreadsheetUrl?: string;
+  updatedRows?: number;
+  appendedRows?: number;
+  addedColumns?: string[];
+  error?: string;
+}> {
+  try {
+    if (onProgress) onProgress({ stage: 'validating', message: 'Validating data...' });
+    
+    const validation = validateSpreadsheetData(results);
+    if (!validation.isValid) {
+      throw new Error(validation.errors.join('; '));
+    }
+    
+    if (onProgress) onProgress({ stage: 'authenticating', message: 'Checking authentication...' });
+    
+    await waitForGoogleAuth(5000);
+    
+    if (!isAuthenticated()) {
+      if (onProgress) onProgress({ stage: 'authenticating', message: 'Please sign in with Google...' });
+      await signInWithGoogle();
+    }
+    
+    if (onProgress) onProgress({ stage: 'updating', message: `Updating "${target.sheetTitle}"...` });
+    
+    const result = await upsertToSpreadsheet(target, results, config);
+    
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to update spreadsheet');
+    }
+    
+    saveLastSpreadsheetTarget(target);
+    if (onProgress) onProgress({ stage: 'complete', message: 'Export complete!' });
+    
+    return {
+      success: true,
+      spreadsheetUrl: result.spreadsheetUrl,
+      updatedRows: result.updatedRows,
+      appendedRows: result.appendedRows,
+      addedColumns: result.addedColumns,
+    };
+  } catch (error) {
+    console.error('Google Sheets export error:', error);
+    return {
+      success: false,
+      error: formatSheetsError(error),
+    };
+  }
+}
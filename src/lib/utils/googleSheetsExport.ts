@@ -1,14 +1,46 @@
 /**
  * Google Sheets Export Utility
  * 
- * Creates and populates Google Spreadsheets with video analysis results
+ * Creates and populates Google Spreadsheets with video analysis results,
+ * or upserts them into a tab of an existing spreadsheet
  * Uses Google Sheets API v4
  */
 
 import { VideoAnalysisResult, ExportConfig } from '@/types/video-analysis';
 import { getAccessToken } from './googleSheetsAuth';
+import { VIDEO_METADATA_COLUMNS } from './videoUtils';
+import {
+  collectCustomFieldColumns,
+  collectHookCategoryColumns,
+  formatAnalyzedWindow,
+  formatFieldValue,
+  getHookCategoryLabel,
+  getHookConfidenceLabel,
+  hasHookWindowResults,
+} from './analysisFields';
 
 const SHEETS_API_BASE = 'https://sheets.googleapis.com/v4/spreadsheets';
+const DEFAULT_SHEET_TITLE = 'Analysis Results';
+const TARGET_STORAGE_KEY = 'google_sheets_export_target';
+
+// Columns that identify a video's row when upserting into an existing sheet
+const VIDEO_ID_HEADER = 'Video ID';
+const CONTENT_HASH_HEADER = 'Content Hash';
+
+const HEADER_CELL_FORMAT = {
+  backgroundColor: { red: 0.2, green: 0.4, blue: 0.8 },
+  textFormat: {
+    foregroundColor: { red: 1, green: 1, blue: 1 },
+    bold: true,
+    fontSize: 11,
+  },
+  horizontalAlignment: 'CENTER',
+};
+
+const DATA_CELL_FORMAT = {
+  wrapStrategy: 'WRAP',
+  verticalAlignment: 'TOP',
+};
 
 export interface CreateSpreadsheetResponse {
   spreadsheetId: string;
@@ -17,6 +49,31 @@ export interface CreateSpreadsheetResponse {
   error?: string;
 }
 
+// Existing spreadsheet and tab to upsert results into
+export interface SpreadsheetTarget {
+  spreadsheetId: string;
+  sheetTitle: string;
+}
+
+export interface UpsertSpreadsheetResponse {
+  spreadsheetId: string;
+  spreadsheetUrl: string;
+  success: boolean;
+  updatedRows: number;
+  appendedRows: number;
+  addedColumns: string[];
+  error?: string;
+}
+
+interface SheetProperties {
+  sheetId: number;
+  title: string;
+  gridProperties?: {
+    rowCount?: number;
+    columnCount?: number;
+  };
+}
+
 /**
  * Create a new Google Spreadsheet with video analysis data
  */
@@ -50,7 +107,7 @@ export async function createSpreadsheet(
       sheets: [
         {
           properties: {
-            title: 'Analysis Results',
+            title: DEFAULT_SHEET_TITLE,
             gridProperties: {
               rowCount: rows.length + 1, // +1 for header
               columnCount: headers.length,
@@ -66,25 +123,14 @@ export async function createSpreadsheet(
                 {
                   values: headers.map(header => ({
                     userEnteredValue: { stringValue: header },
-                    userEnteredFormat: {
-                      backgroundColor: { red: 0.2, green: 0.4, blue: 0.8 },
-                      textFormat: {
-                        foregroundColor: { red: 1, green: 1, blue: 1 },
-                        bold: true,
-                        fontSize: 11,
-                      },
-                      horizontalAlignment: 'CENTER',
-                    },
+                    userEnteredFormat: HEADER_CELL_FORMAT,
                   })),
                 },
                 // Data rows
                 ...rows.map(row => ({
                   values: row.map(cell => ({
                     userEnteredValue: { stringValue: cell },
-                    userEnteredFormat: {
-                      wrapStrategy: 'WRAP',
-                      verticalAlignment: 'TOP',
-                    },
+                    userEnteredFormat: DATA_CELL_FORMAT,
                   })),
                 })),
               ],
@@ -135,6 +181,241 @@ export async function createSpreadsheet(
   }
 }
 
+/**
+ * Extract the spreadsheet ID from a Google Sheets URL, or accept a bare ID
+ */
+export function parseSpreadsheetId(input: string): string | null {
+  const trimmed = input.trim();
+  const fromUrl = trimmed.match(/\/spreadsheets\/d\/([a-zA-Z0-9_-]+)/);
+  if (fromUrl) return fromUrl[1];
+  
+  return /^[a-zA-Z0-9_-]{20,}$/.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * Last spreadsheet target used in this browser session
+ */
+export function getLastSpreadsheetTarget(): SpreadsheetTarget | null {
+  if (typeof window === 'undefined') return null;
+  
+  try {
+    const stored = sessionStorage.getItem(TARGET_STORAGE_KEY);
+    const target = stored ? JSON.parse(stored) : null;
+    return target?.spreadsheetId && target?.sheetTitle ? target : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveLastSpreadsheetTarget(target: SpreadsheetTarget): void {
+  sessionStorage.setItem(TARGET_STORAGE_KEY, JSON.stringify(target));
+}
+
+/**
+ * Upsert results into a tab of an existing spreadsheet.
+ * Rows are matched by content hash, then by video ID; matches are updated in
+ * place, everything else is appended. Header columns the tab doesn't have yet
+ * are added after the existing ones, and a missing tab is created.
+ */
+export async function upsertToSpreadsheet(
+  target: SpreadsheetTarget,
+  results: VideoAnalysisResult[],
+  config?: Partial<ExportConfig>
+): Promise<UpsertSpreadsheetResponse> {
+  try {
+    const accessToken = getAccessToken();
+    
+    if (!accessToken) {
+      throw new Error('Not authenticated. Please sign in with Google first.');
+    }
+    
+    if (results.length === 0) {
+      throw new Error('No data to export');
+    }
+    
+    const spreadsheetId = encodeURIComponent(target.spreadsheetId);
+    const sheetTitle = target.sheetTitle.trim() || DEFAULT_SHEET_TITLE;
+    const sheetRange = `'${sheetTitle.replace(/'/g, "''")}'`;
+    
+    // Find the tab, creating it when it doesn't exist yet
+    const info = await sheetsRequest<{ spreadsheetUrl: string; sheets?: Array<{ properties: SheetProperties }> }>(
+      `${spreadsheetId}?fields=spreadsheetUrl,sheets.properties(sheetId,title,gridProperties)`,
+      accessToken
+    );
+    const sheet = info.sheets?.find(({ properties }) => properties.title === sheetTitle)?.properties
+      ?? await addSheet(spreadsheetId, sheetTitle, accessToken);
+    
+    const existing = await sheetsRequest<{ values?: string[][] }>(
+      `${spreadsheetId}/values/${encodeURIComponent(sheetRange)}`,
+      accessToken
+    );
+    const sheetRows = existing.values || [];
+    const existingHeaders = (sheetRows[0] || []).map(String);
+    
+    // Our columns, plus the key columns used to find rows again next time
+    const { headers, rows } = prepareSpreadsheetData(results, config);
+    const upsertHeaders = [...headers, VIDEO_ID_HEADER, CONTENT_HASH_HEADER];
+    const addedColumns = upsertHeaders.filter(header => !existingHeaders.includes(header));
+    const sheetHeaders = [...existingHeaders, ...addedColumns];
+    const columnIndex = (header: string) => sheetHeaders.indexOf(header);
+    
+    // Index existing rows by key (row numbers are 0-based, header is row 0)
+    const rowsById = new Map<string, number>();
+    const rowsByHash = new Map<string, number>();
+    const indexRow = (row: string[], rowNumber: number) => {
+      const id = row[columnIndex(VIDEO_ID_HEADER)];
+      const hash = row[columnIndex(CONTENT_HASH_HEADER)];
+      if (id && !rowsById.has(id)) rowsById.set(id, rowNumber);
+      if (hash && !rowsByHash.has(hash)) rowsByHash.set(hash, rowNumber);
+    };
+    sheetRows.slice(1).forEach((row, index) => indexRow(row, index + 1));
+    
+    const data: Array<{ range: string; values: string[][] }> = [];
+    const firstNewRow = Math.max(sheetRows.length, 1);
+    let nextRow = firstNewRow;
+    let updatedRows = 0;
+    
+    results.forEach((result, resultIndex) => {
+      const matchedRow = (result.contentHash ? rowsByHash.get(result.contentHash) : undefined)
+        ?? rowsById.get(result.id);
+      const rowNumber = matchedRow ?? nextRow++;
+      
+      // Keep cells of columns we don't export, overwrite ours
+      const row = [...(sheetRows[rowNumber] || [])];
+      const values = [...rows[resultIndex], result.id, result.contentHash || ''];
+      upsertHeaders.forEach((header, index) => {
+        row[columnIndex(header)] = values[index];
+      });
+      const filledRow = Array.from(row, cell => cell ?? '');
+      
+      sheetRows[rowNumber] = filledRow;
+      if (matchedRow === undefined) {
+        indexRow(filledRow, rowNumber);
+      } else {
+        updatedRows++;
+      }
+      data.push({ range: `${sheetRange}!A${rowNumber + 1}`, values: [filledRow] });
+    });
+    
+    if (addedColumns.length > 0) {
+      data.unshift({ range: `${sheetRange}!A1`, values: [sheetHeaders] });
+    }
+    
+    // Grow the grid and format the new header cells and rows before writing
+    const requests: object[] = [];
+    const missingRows = nextRow - (sheet.gridProperties?.rowCount ?? 0);
+    const missingColumns = sheetHeaders.length - (sheet.gridProperties?.columnCount ?? 0);
+    if (missingRows > 0) {
+      requests.push({ appendDimension: { sheetId: sheet.sheetId, dimension: 'ROWS', length: missingRows } });
+    }
+    if (missingColumns > 0) {
+      requests.push({ appendDimension: { sheetId: sheet.sheetId, dimension: 'COLUMNS', length: missingColumns } });
+    }
+    if (addedColumns.length > 0) {
+      requests.push({
+        repeatCell: {
+          range: {
+            sheetId: sheet.sheetId,
+            startRowIndex: 0,
+            endRowIndex: 1,
+            startColumnIndex: existingHeaders.length,
+            endColumnIndex: sheetHeaders.length,
+          },
+          cell: { userEnteredFormat: HEADER_CELL_FORMAT },
+          fields: 'userEnteredFormat(backgroundColor,textFormat,horizontalAlignment)',
+        },
+      });
+    }
+    if (nextRow > firstNewRow) {
+      requests.push({
+        repeatCell: {
+          range: { sheetId: sheet.sheetId, startRowIndex: firstNewRow, endRowIndex: nextRow },
+          cell: { userEnteredFormat: DATA_CELL_FORMAT },
+          fields: 'userEnteredFormat(wrapStrategy,verticalAlignment)',
+        },
+      });
+    }
+    if (requests.length > 0) {
+      await sheetsRequest(`${spreadsheetId}:batchUpdate`, accessToken, {
+        method: 'POST',
+        body: JSON.stringify({ requests }),
+      });
+    }
+    
+    await sheetsRequest(`${spreadsheetId}/values:batchUpdate`, accessToken, {
+      method: 'POST',
+      body: JSON.stringify({ valueInputOption: 'RAW', data }),
+    });
+    
+    return {
+      spreadsheetId: target.spreadsheetId,
+      spreadsheetUrl: `${info.spreadsheetUrl}#gid=${sheet.sheetId}`,
+      success: true,
+      updatedRows,
+      appendedRows: nextRow - firstNewRow,
+      addedColumns,
+    };
+  } catch (error) {
+    console.error('Error updating spreadsheet:', error);
+    return {
+      spreadsheetId: target.spreadsheetId,
+      spreadsheetUrl: '',
+      success: false,
+      updatedRows: 0,
+      appendedRows: 0,
+      addedColumns: [],
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
+
+/**
+ * Add a tab with a frozen header row to an existing spreadsheet
+ */
+async function addSheet(spreadsheetId: string, title: string, accessToken: string): Promise<SheetProperties> {
+  const response = await sheetsRequest<{ replies: Array<{ addSheet: { properties: SheetProperties } }> }>(
+    `${spreadsheetId}:batchUpdate`,
+    accessToken,
+    {
+      method: 'POST',
+      body: JSON.stringify({
+        requests: [{ addSheet: { properties: { title, gridProperties: { frozenRowCount: 1 } } } }],
+      }),
+    }
+  );
+  
+  return response.replies[0].addSheet.properties;
+}
+
+/**
+ * Call the Sheets API and turn error responses into GoogleSheetsError
+ */
+async function sheetsRequest<T = unknown>(path: string, accessToken: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${SHEETS_API_BASE}/${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+  });
+  
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    if (response.status === 404) {
+      throw new GoogleSheetsError('Spreadsheet not found. Check the URL or ID.', 'NOT_FOUND');
+    }
+    if (response.status === 403) {
+      throw new GoogleSheetsError('Your Google account cannot edit this spreadsheet.', 'PERMISSION_DENIED');
+    }
+    throw new GoogleSheetsError(
+      errorData.error?.message || `Google Sheets request failed: ${response.statusText}`,
+      errorData.error?.status
+    );
+  }
+  
+  return response.json();
+}
+
 /**
  * Prepare spreadsheet data from video analysis results
  * Same format as CSV export
@@ -152,20 +433,37 @@ function prepareSpreadsheetData(
     voiceHook: true,
     videoScript: true,
     painPoint: true,
+    customFields: true,
     processingTime: true,
     timestamps: true,
     ...config?.includeFields,
   };
   
+  // One column per user-defined field found in the results
+  const customColumns = includeFields.customFields ? collectCustomFieldColumns(results) : [];
+  
+  // Category and confidence columns for the included hooks that were classified
+  const hookColumns = collectHookCategoryColumns(results).filter(key => includeFields[key]);
+  
+  // Analyzed window column when some results cover only the opening seconds
+  const windowColumn = hasHookWindowResults(results);
+  
+  // Codec, frame rate... columns when the results carry their video's metadata
+  const metadataColumns = results.some(result => result.videoMetadata) ? VIDEO_METADATA_COLUMNS : [];
+  
   // Build headers
   const headers: string[] = [];
   if (includeFields.filename) headers.push('Filename');
   if (includeFields.status) headers.push('Status');
+  if (windowColumn) headers.push('Analyzed Window');
   if (includeFields.visualHook) headers.push('Visual Hook');
   if (includeFields.textHook) headers.push('Text Hook');
   if (includeFields.voiceHook) headers.push('Voice Hook');
+  hookColumns.forEach(key => headers.push(getHookCategoryLabel(key), getHookConfidenceLabel(key)));
   if (includeFields.videoScript) headers.push('Video Script');
   if (includeFields.painPoint) headers.push('Pain Point');
+  customColumns.forEach(column => headers.push(column.label));
+  metadataColumns.forEach(column => headers.push(column.label));
   if (includeFields.processingTime) headers.push('Processing Time (ms)');
   if (includeFields.timestamps) {
     headers.push('Created At');
@@ -184,6 +482,10 @@ function prepareSpreadsheetData(
       row.push(result.status || '');
     }
     
+    if (windowColumn) {
+      row.push(formatAnalyzedWindow(result.hookWindowSeconds));
+    }
+    
     if (includeFields.visualHook) {
       row.push(result.visualHook || '');
     }
@@ -196,6 +498,12 @@ function prepareSpreadsheetData(
       row.push(result.voiceHook || '');
     }
     
+    hookColumns.forEach(key => {
+      const classification = result.hookCategories?.[key];
+      row.push(classification?.category || '');
+      row.push(classification ? classification.confidence.toString() : '');
+    });
+    
     if (includeFields.videoScript) {
       row.push(result.videoScript || '');
     }
@@ -204,6 +512,15 @@ function prepareSpreadsheetData(
       row.push(result.painPoint || '');
     }
     
+    customColumns.forEach(column => {
+      row.push(formatFieldValue(result.customFields?.[column.key]?.value));
+    });
+    
+    metadataColumns.forEach(column => {
+      const value = result.videoMetadata ? column.value(result.videoMetadata) : null;
+      row.push(value === null ? '' : String(value));
+    });
+    
     if (includeFields.processingTime) {
       row.push(result.processingTime?.toString() || '');
     }
@@ -269,7 +586,8 @@ async function autoResizeColumns(
 }
 
 /**
- * Append data to an existing spreadsheet (for future enhancement)
+ * Append data to an existing spreadsheet without matching rows
+ * (upsertToSpreadsheet updates rows that are already there)
  */
 export async function appendToSpreadsheet(
   spreadsheetId: string,
@@ -0,0 +1,126 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AnalysisFieldDefinition, VideoAnalysisResult } from '@/types/video-analysis';
+import { JSON_EXPORT_VERSION, formatResultsAsCSV, formatResultsAsJSON } from './exportUtils';
+import { ResultsImportError, mergeImportedResults, parseCSV, parseResultsFile } from './importUtils';
+
+const PERSONA_FIELD: AnalysisFieldDefinition = {
+  key: 'targetPersona',
+  label: 'Target persona',
+  instruction: 'Who the video is for',
+  type: 'string',
+  enabled: true,
+};
+
+const SCORE_FIELD: AnalysisFieldDefinition = {
+  key: 'hookScore',
+  label: 'Hook score',
+  instruction: 'How strong the hook is, 1-10',
+  type: 'number',
+  enabled: true,
+};
+
+function result(id: string, overrides: Partial<VideoAnalysisResult> = {}): VideoAnalysisResult {
+  return {
+    id,
+    filename: `${id}.mp4`,
+    status: 'completed',
+    createdAt: new Date('2026-03-01T10:00:00Z'),
+    completedAt: new Date('2026-03-01T10:00:12Z'),
+    processingTime: 12000,
+    ...overrides,
+  };
+}
+
+// Text the CSV quoting has to survive: commas, quotes and line breaks inside a cell
+const TRICKY = result('tricky', {
+  filename: 'ads, final "v2".mp4',
+  visualHook: 'Close-up of a "before" shot, then the product',
+  textHook: 'Stop, wait "what?"',
+  voiceHook: 'Line one\nline two, with a comma',
+  videoScript: '[00:00] Hello, "world"\n[00:04] Second line\r\n[00:09] Done',
+  painPoint: 'Ads that feel like ads',
+  customFields: {
+    targetPersona: { label: 'Target persona', type: 'string', value: 'Busy parents, "on the go"' },
+    hookScore: { label: 'Hook score', type: 'number', value: 8 },
+  },
+});
+
+function exportedFile(name: string, content: string): File {
+  return new File([content], name, { type: name.endsWith('.json') ? 'application/json' : 'text/csv' });
+}
+
+test('parseCSV keeps quoted commas, doubled quotes and embedded newlines in one cell', () => {
+  const rows = parseCSV('a,b,c\n"x, y","say ""hi""","line 1\nline 2"\r\nlast,,\n');
+
+  assert.deepEqual(rows, [
+    ['a', 'b', 'c'],
+    ['x, y', 'say "hi"', 'line 1\nline 2'],
+    ['last', '', ''],
+  ]);
+});
+
+test('CSV exports round-trip through the importer, custom fields included', async () => {
+  const csv = formatResultsAsCSV([TRICKY, result('plain', { textHook: 'Simple' })]);
+  const imported = await parseResultsFile(exportedFile('results.csv', csv), [PERSONA_FIELD, SCORE_FIELD]);
+
+  assert.equal(imported.format, 'csv');
+  assert.equal(imported.results.length, 2);
+
+  const [tricky, plain] = imported.results;
+  assert.equal(tricky.filename, TRICKY.filename);
+  assert.equal(tricky.visualHook, TRICKY.visualHook);
+  assert.equal(tricky.textHook, TRICKY.textHook);
+  assert.equal(tricky.voiceHook, TRICKY.voiceHook);
+  assert.equal(tricky.painPoint, TRICKY.painPoint);
+  assert.equal(tricky.status, 'completed');
+  assert.match(tricky.videoScript || '', /^\[00:00\] Hello, "world"\r?\n\[00:04\] Second line\r?\n\[00:09\] Done$/);
+  assert.deepEqual(tricky.customFields?.targetPersona, TRICKY.customFields!.targetPersona);
+  assert.deepEqual(tricky.customFields?.hookScore, TRICKY.customFields!.hookScore);
+
+  assert.equal(plain.textHook, 'Simple');
+  assert.equal(plain.customFields, undefined);
+});
+
+test('JSON exports round-trip with ids, dates and custom fields', async () => {
+  const json = formatResultsAsJSON([TRICKY]);
+  const imported = await parseResultsFile(exportedFile('results.json', json));
+
+  assert.equal(imported.format, 'json');
+  assert.equal(imported.version, JSON_EXPORT_VERSION);
+  assert.equal(imported.results.length, 1);
+
+  const [tricky] = imported.results;
+  assert.equal(tricky.id, TRICKY.id);
+  assert.equal(tricky.videoScript, TRICKY.videoScript);
+  assert.deepEqual(tricky.customFields, TRICKY.customFields);
+  assert.equal(new Date(tricky.createdAt).toISOString(), TRICKY.createdAt.toISOString());
+});
+
+test('JSON exports from unsupported versions are rejected', async () => {
+  const exported = JSON.parse(formatResultsAsJSON([TRICKY]));
+
+  for (const version of ['2.0', '1.99', 'latest']) {
+    const file = exportedFile('results.json', JSON.stringify({ ...exported, metadata: { ...exported.metadata, version } }));
+    await assert.rejects(parseResultsFile(file), (error: unknown) => {
+      assert.ok(error instanceof ResultsImportError);
+      assert.equal(error.code, 'UNSUPPORTED_VERSION');
+      assert.match(error.message, new RegExp(`Unsupported export version ${version}`));
+      return true;
+    });
+  }
+});
+
+test('merging replaces or skips results that are already present', () => {
+  const current = [result('a', { textHook: 'Old' }), result('b')];
+  const imported = [result('a', { textHook: 'New' }), result('c')];
+
+  const replaced = mergeImportedResults(current, imported, 'replace');
+  assert.deepEqual(replaced.results.map(item => item.id), ['a', 'b', 'c']);
+  assert.equal(replaced.results[0].textHook, 'New');
+  assert.deepEqual([replaced.added, replaced.replaced, replaced.skipped], [1, 1, 0]);
+
+  const skipped = mergeImportedResults(current, imported, 'skip');
+  assert.equal(skipped.results[0].textHook, 'Old');
+  assert.deepEqual([skipped.added, skipped.replaced, skipped.skipped], [1, 0, 1]);
+});
@@ -0,0 +1,521 @@
+import {
+  AnalysisFieldDefinition,
+  AnalysisFieldType,
+  ContactSheet,
+  CustomFieldResult,
+  HookCategories,
+  HookFieldKey,
+  ImportConflictStrategy,
+  SceneKeyframe,
+  ScriptVariant,
+  Storyboard,
+  StoryboardFrame,
+  VideoAnalysisResult,
+  VideoFileMetadata,
+} from '@/types/video-analysis';
+import { getProviderInfo } from '@/lib/providers/catalog';
+import { STORYBOARD_ASPECT_RATIOS } from '@/lib/storyboard/storyboardPrompts';
+import {
+  coerceFieldValue,
+  getHookCategoryLabel,
+  getHookConfidenceLabel,
+  toFieldKey,
+  HOOK_FIELD_KEYS,
+} from './analysisFields';
+import { JSON_EXPORT_VERSION, validateExportData } from './exportUtils';
+import { getFileExtension, parseContainerName, VIDEO_METADATA_COLUMNS } from './videoUtils';
+
+// Import of results exported as JSON (prepareJSONData) or CSV (generateCSVContent)
+
+export class ResultsImportError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'ResultsImportError';
+  }
+}
+
+export interface ParsedImport {
+  format: 'json' | 'csv';
+  version?: string; // metadata.version of JSON exports
+  results: VideoAnalysisResult[];
+  warnings: string[];
+}
+
+export interface ImportMergeSummary {
+  results: VideoAnalysisResult[];
+  added: number;
+  replaced: number;
+  skipped: number;
+}
+
+// JSON export versions this importer understands: 1.0 up to the current one; 1.0 exports have no ids
+const [EXPORT_MAJOR_VERSION, EXPORT_MINOR_VERSION] = JSON_EXPORT_VERSION.split('.').map(Number);
+const SUPPORTED_JSON_VERSIONS = Array.from(
+  { length: EXPORT_MINOR_VERSION + 1 },
+  (_, minor) => `${EXPORT_MAJOR_VERSION}.${minor}`
+);
+
+const RESULT_STATUSES: VideoAnalysisResult['status'][] = ['pending', 'processing', 'completed', 'error', 'cancelled'];
+
+// Columns the CSV exporter writes for built-in properties; any other column is a custom field
+const BUILT_IN_CSV_HEADERS = new Set([
+  'Filename', 'Status', 'Analyzed Window', 'Visual Hook', 'Text Hook', 'Voice Hook', 'Video Script', 'Pain Point',
+  'Processing Time (ms)', 'Created At', 'Completed At', 'Error',
+  ...VIDEO_METADATA_COLUMNS.map(column => column.label),
+  ...HOOK_FIELD_KEYS.flatMap(key => [getHookCategoryLabel(key), getHookConfidenceLabel(key)]),
+]);
+
+/**
+ * Parse CSV text per RFC 4180: quoted fields may contain commas, doubled
+ * quotes and line breaks; records end with CRLF or LF.
+ */
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text; // strip BOM
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new ResultsImportError('CSV has an unterminated quoted field', 'INVALID_CSV');
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines are not records
+  return rows.filter(cells => cells.length > 1 || cells[0] !== '');
+}
+
+function generateImportId(index: number): string {
+  return `imported_${Date.now()}_${index}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function parseDate(value: unknown): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function parseStatus(value: unknown, index: number, errors: string[]): VideoAnalysisResult['status'] {
+  const status = String(value ?? '').trim() as VideoAnalysisResult['status'];
+  if (status && !RESULT_STATUSES.includes(status)) {
+    errors.push(`Result at index ${index} has an unknown status: ${status}`);
+  }
+  return status;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+// A JSON object's properties, or undefined for anything else
+type JsonObject = Record<string, unknown>;
+
+function asObject(value: unknown): JsonObject | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as JsonObject : undefined;
+}
+
+function asObjects(value: unknown): JsonObject[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item: unknown): JsonObject[] => {
+    const object = asObject(item);
+    return object ? [object] : [];
+  });
+}
+
+const FIELD_TYPES: AnalysisFieldType[] = ['string', 'enum', 'number', 'string[]'];
+
+function parseCustomFields(value: unknown): Record<string, CustomFieldResult> | undefined {
+  const object = asObject(value);
+  if (!object) return undefined;
+
+  const fields: Record<string, CustomFieldResult> = {};
+  Object.entries(object).forEach(([key, entry]) => {
+    const field = asObject(entry);
+    if (!field) return;
+    const type = FIELD_TYPES.find(fieldType => fieldType === field.type) || 'string';
+    fields[key] = { label: String(field.label ?? key), type, value: coerceFieldValue(field.value, type) };
+  });
+
+  return Object.keys(fields).length > 0 ? fields : undefined;
+}
+
+// Classifications read from JSON objects or from the category/confidence CSV columns
+function parseHookCategories(
+  read: (key: HookFieldKey) => { category: unknown; confidence: unknown } | undefined
+): HookCategories | undefined {
+  const hookCategories: HookCategories = {};
+  HOOK_FIELD_KEYS.forEach(key => {
+    const classification = read(key);
+    const category = optionalString(classification?.category);
+    if (!category) return;
+    const confidence = parseFloat(String(classification?.confidence ?? ''));
+    hookCategories[key] = { category, confidence: Number.isFinite(confidence) ? confidence : 0 };
+  });
+
+  return Object.keys(hookCategories).length > 0 ? hookCategories : undefined;
+}
+
+function parseVariants(value: unknown, index: number): ScriptVariant[] | undefined {
+  const variants: ScriptVariant[] = asObjects(value)
+    .filter(variant => optionalString(variant.script))
+    .map((variant, variantIndex) => ({
+      id: optionalString(variant.id) || `variant_imported_${index}_${variantIndex}`,
+      textHook: String(variant.textHook ?? ''),
+      voiceHook: String(variant.voiceHook ?? ''),
+      script: String(variant.script),
+      brief: String(variant.brief ?? ''),
+      provider: getProviderInfo(String(variant.provider ?? ''))?.id || 'gemini',
+      model: String(variant.model ?? ''),
+      createdAt: parseDate(variant.createdAt) || new Date(),
+      edited: variant.edited === true ? true : undefined,
+    }));
+
+  return variants.length > 0 ? variants : undefined;
+}
+
+// Container details are informational; fields of the wrong type are left out
+function parseVideoMetadata(value: unknown): VideoFileMetadata | undefined {
+  const metadata = asObject(value);
+  const dimensions = asObject(metadata?.dimensions);
+  if (!metadata || !dimensions) return undefined;
+  return {
+    duration: Number(metadata.duration) || 0,
+    dimensions: { width: Number(dimensions.width) || 0, height: Number(dimensions.height) || 0 },
+    fileSize: Number(metadata.fileSize) || 0,
+    format: String(metadata.format ?? ''),
+    container: parseContainerName(String(metadata.container ?? '')),
+    videoCodec: optionalString(metadata.videoCodec),
+    frameRate: optionalNumber(metadata.frameRate),
+    bitrate: optionalNumber(metadata.bitrate),
+    rotation: optionalNumber(metadata.rotation),
+    hasAudio: typeof metadata.hasAudio === 'boolean' ? metadata.hasAudio : undefined,
+    audioCodec: optionalString(metadata.audioCodec),
+    audioChannels: optionalNumber(metadata.audioChannels),
+    channelLayout: optionalString(metadata.channelLayout),
+    audioSampleRate: optionalNumber(metadata.audioSampleRate),
+    creationTime: optionalString(metadata.creationTime),
+  };
+}
+
+// Metadata columns of a CSV row; results exported without metadata leave them blank
+function parseVideoMetadataColumns(cell: (header: string) => string, filename: string): VideoFileMetadata | undefined {
+  const cells = VIDEO_METADATA_COLUMNS.map(column => cell(column.label));
+  if (cells.every(value => value === '')) return undefined;
+
+  // The file size is not exported
+  return VIDEO_METADATA_COLUMNS.reduce<VideoFileMetadata>(
+    (metadata, column, index) => ({ ...metadata, ...column.parse(cells[index]) }),
+    { duration: 0, dimensions: { width: 0, height: 0 }, fileSize: 0, format: getFileExtension(filename) }
+  );
+}
+
+// "First 3s" from the analyzed window column; "Full video" and blanks mean the whole video
+function parseAnalyzedWindow(value: string): number | undefined {
+  const match = value.match(/^First ([\d.]+)s$/);
+  return match ? Number(match[1]) : undefined;
+}
+
+function optionalImageUrl(value: unknown): string | undefined {
+  return typeof value === 'string' && value.startsWith('data:image/') ? value : undefined;
+}
+
+function parseStoryboard(value: unknown): Storyboard | undefined {
+  const storyboard = asObject(value);
+  const frames: StoryboardFrame[] = asObjects(storyboard?.frames).flatMap((frame, frameIndex) => {
+    const imageUrl = optionalImageUrl(frame.imageUrl);
+    return imageUrl ? [{
+      id: optionalString(frame.id) || `frame_imported_${frameIndex}`,
+      source: frame.source === 'script' ? 'script' : 'visualHook',
+      caption: String(frame.caption ?? ''),
+      timestamp: optionalNumber(frame.timestamp),
+      prompt: String(frame.prompt ?? ''),
+      imageUrl,
+    }] : [];
+  });
+  if (!storyboard || frames.length === 0) return undefined;
+
+  return {
+    frames,
+    generator: storyboard.generator === 'replicate' ? 'replicate' : 'placeholder',
+    model: String(storyboard.model ?? ''),
+    aspectRatio: STORYBOARD_ASPECT_RATIOS.find(ratio => ratio === storyboard.aspectRatio) || '9:16',
+    createdAt: parseDate(storyboard.createdAt) || new Date(),
+  };
+}
+
+function parseContactSheet(value: unknown): ContactSheet | undefined {
+  const sheet = asObject(value);
+  const imageUrl = optionalImageUrl(sheet?.imageUrl);
+  if (!sheet || !imageUrl) return undefined;
+
+  const keyframes: SceneKeyframe[] = asObjects(sheet.keyframes).flatMap(keyframe => {
+    const timestamp = optionalNumber(keyframe.timestamp);
+    return timestamp !== undefined ? [{ timestamp, sceneScore: optionalNumber(keyframe.sceneScore) ?? 0 }] : [];
+  });
+
+  return {
+    imageUrl,
+    keyframes,
+    sceneCount: optionalNumber(sheet.sceneCount) ?? keyframes.length,
+    createdAt: parseDate(sheet.createdAt) || new Date(),
+  };
+}
+
+function parseJSONImport(text: string): ParsedImport {
+  let data: JsonObject | undefined;
+  try {
+    data = asObject(JSON.parse(text));
+  } catch {
+    throw new ResultsImportError('File is not valid JSON', 'INVALID_JSON');
+  }
+
+  if (!data || !Array.isArray(data.results)) {
+    throw new ResultsImportError('JSON file is not a video analysis export (no "results" list)', 'INVALID_FORMAT');
+  }
+
+  const exportVersion = asObject(data.metadata)?.version;
+  const version = exportVersion ? String(exportVersion) : undefined;
+  if (version && !SUPPORTED_JSON_VERSIONS.includes(version)) {
+    throw new ResultsImportError(`Unsupported export version ${version}`, 'UNSUPPORTED_VERSION');
+  }
+
+  const errors: string[] = [];
+  const results: VideoAnalysisResult[] = data.results.map((entry: unknown, index) => {
+    const item = asObject(entry) || {};
+    const timestamps = asObject(item.timestamps);
+    return {
+      id: optionalString(item.id) || generateImportId(index),
+      filename: String(item.filename ?? ''),
+      status: parseStatus(item.status, index, errors),
+      visualHook: optionalString(item.visualHook),
+      textHook: optionalString(item.textHook),
+      voiceHook: optionalString(item.voiceHook),
+      videoScript: optionalString(item.videoScript),
+      painPoint: optionalString(item.painPoint),
+      customFields: parseCustomFields(item.customFields),
+      hookCategories: parseHookCategories(key => {
+        const classification = asObject(asObject(item.hookCategories)?.[key]);
+        return classification && { category: classification.category, confidence: classification.confidence };
+      }),
+      variants: parseVariants(item.variants, index),
+      storyboard: parseStoryboard(item.storyboard),
+      contactSheet: parseContactSheet(item.contactSheet),
+      hookWindowSeconds: optionalNumber(item.hookWindowSeconds),
+      videoMetadata: parseVideoMetadata(item.videoMetadata),
+      provider: getProviderInfo(String(item.provider ?? ''))?.id,
+      model: optionalString(item.model),
+      processingTime: optionalNumber(item.processingTime),
+      cached: item.cached === true ? true : undefined,
+      contentHash: optionalString(item.contentHash),
+      error: optionalString(item.error),
+      createdAt: parseDate(timestamps?.createdAt) || new Date(),
+      completedAt: parseDate(timestamps?.completedAt),
+    };
+  });
+
+  const warnings: string[] = [];
+  if (!version || version === '1.0') {
+    warnings.push('This export has no result IDs; duplicates are matched by filename');
+  }
+
+  return finishImport({ format: 'json', version, results, warnings }, errors);
+}
+
+function parseCSVImport(text: string, knownFields: AnalysisFieldDefinition[]): ParsedImport {
+  const [headers, ...rows] = parseCSV(text);
+  if (!headers || !headers.includes('Filename')) {
+    throw new ResultsImportError('CSV file is not a video analysis export (no "Filename" column)', 'INVALID_FORMAT');
+  }
+
+  // Columns that aren't built in are custom fields; reuse keys and types of fields with the same label
+  const fieldsByLabel = new Map(knownFields.map(field => [field.label, field]));
+  const customKeys: string[] = [];
+  const customColumns = headers
+    .map((label, index) => ({ label, index }))
+    .filter(({ label }) => !BUILT_IN_CSV_HEADERS.has(label))
+    .map(({ label, index }) => {
+      const known = fieldsByLabel.get(label);
+      const key = known && !known.builtIn ? known.key : toFieldKey(label, customKeys);
+      customKeys.push(key);
+      return { label, index, key, type: known && !known.builtIn ? known.type : 'string' as AnalysisFieldType };
+    });
+
+  const errors: string[] = [];
+  const results: VideoAnalysisResult[] = rows.map((cells, index) => {
+    const cell = (header: string) => {
+      const column = headers.indexOf(header);
+      return column === -1 ? '' : cells[column] ?? '';
+    };
+
+    const customFields: Record<string, CustomFieldResult> = {};
+    customColumns.forEach(({ label, index: column, key, type }) => {
+      const raw = cells[column] ?? '';
+      if (raw === '') return;
+      const value = type === 'string[]' ? raw.split('; ') : raw;
+      customFields[key] = { label, type, value: coerceFieldValue(value, type) };
+    });
+
+    const processingTime = parseInt(cell('Processing Time (ms)'), 10);
+
+    return {
+      id: generateImportId(index),
+      filename: cell('Filename'),
+      status: parseStatus(cell('Status') || 'completed', index, errors),
+      visualHook: optionalString(cell('Visual Hook')),
+      textHook: optionalString(cell('Text Hook')),
+      voiceHook: optionalString(cell('Voice Hook')),
+      videoScript: optionalString(cell('Video Script')),
+      painPoint: optionalString(cell('Pain Point')),
+      customFields: Object.keys(customFields).length > 0 ? customFields : undefined,
+      hookCategories: parseHookCategories(key => ({
+        category: cell(getHookCategoryLabel(key)),
+        confidence: cell(getHookConfidenceLabel(key)),
+      })),
+      hookWindowSeconds: parseAnalyzedWindow(cell('Analyzed Window')),
+      videoMetadata: parseVideoMetadataColumns(cell, cell('Filename')),
+      processingTime: Number.isFinite(processingTime) ? processingTime : undefined,
+      error: optionalString(cell('Error')),
+      createdAt: parseDate(cell('Created At')) || new Date(),
+      completedAt: parseDate(cell('Completed At')),
+    };
+  });
+
+  const warnings = ['CSV exports have no result IDs; duplicates are matched by filename'];
+  if (!headers.includes('Status')) {
+    warnings.push('No "Status" column; imported results are marked completed');
+  }
+
+  return finishImport({ format: 'csv', results, warnings }, errors);
+}
+
+// Drop unset properties and run the export validation on what was read
+function finishImport(parsed: ParsedImport, errors: string[]): ParsedImport {
+  const results = parsed.results.map(result =>
+    Object.fromEntries(Object.entries(result).filter(([, value]) => value !== undefined)) as unknown as VideoAnalysisResult
+  );
+
+  if (results.length === 0) {
+    throw new ResultsImportError('The file contains no results', 'EMPTY_IMPORT');
+  }
+
+  const validation = validateExportData(results);
+  const allErrors = [...errors, ...validation.errors];
+  if (allErrors.length > 0) {
+    const more = allErrors.length > 5 ? ` (and ${allErrors.length - 5} more)` : '';
+    throw new ResultsImportError(allErrors.slice(0, 5).join('; ') + more, 'INVALID_DATA');
+  }
+
+  return { ...parsed, results, warnings: [...parsed.warnings, ...validation.warnings] };
+}
+
+/**
+ * Read an exported results file. JSON and CSV are told apart by extension,
+ * falling back to the content. knownFields maps CSV custom columns back to
+ * field keys and types.
+ */
+export async function parseResultsFile(
+  file: File,
+  knownFields: AnalysisFieldDefinition[] = []
+): Promise<ParsedImport> {
+  const text = await file.text();
+  const isJSON = /\.json$/i.test(file.name) || (!/\.csv$/i.test(file.name) && /^\s*[{[]/.test(text));
+
+  return isJSON ? parseJSONImport(text) : parseCSVImport(text, knownFields);
+}
+
+/**
+ * Find the current result an imported one duplicates: same id, same file
+ * contents, or (for exports without ids) the same filename
+ */
+function findConflict(
+  current: VideoAnalysisResult[],
+  imported: VideoAnalysisResult
+): number {
+  const byId = current.findIndex(result => result.id === imported.id);
+  if (byId !== -1) return byId;
+
+  if (imported.contentHash) {
+    const byHash = current.findIndex(result => result.contentHash === imported.contentHash);
+    if (byHash !== -1) return byHash;
+  }
+
+  if (imported.id.startsWith('imported_')) {
+    return current.findIndex(result => result.filename === imported.filename);
+  }
+
+  return -1;
+}
+
+export function countImportConflicts(current: VideoAnalysisResult[], imported: VideoAnalysisResult[]): number {
+  return imported.filter(result => findConflict(current, result) !== -1).length;
+}
+
+/**
+ * Merge imported results into the session.
+ * skip keeps the session's version, replace takes the file's (keeping the
+ * session id), keepBoth adds the file's version under a new id.
+ */
+export function mergeImportedResults(
+  current: VideoAnalysisResult[],
+  imported: VideoAnalysisResult[],
+  strategy: ImportConflictStrategy
+): ImportMergeSummary {
+  const results = [...current];
+  let added = 0;
+  let replaced = 0;
+  let skipped = 0;
+
+  imported.forEach((result, index) => {
+    const conflict = findConflict(results, result);
+
+    if (conflict === -1) {
+      results.push(result);
+      added++;
+    } else if (strategy === 'replace') {
+      results[conflict] = { ...result, id: results[conflict].id };
+      replaced++;
+    } else if (strategy === 'keepBoth') {
+      results.push({ ...result, id: generateImportId(index) });
+      added++;
+    } else {
+      skipped++;
+    }
+  });
+
+  return { results, added, replaced, skipped };
+}
@@ -0,0 +1,439 @@
+import { saveAs } from 'file-saver';
+import { VideoAnalysisResult } from '@/types/video-analysis';
+import { generateExportSummary } from './exportUtils';
+import { formatFieldValue } from './analysisFields';
+import { parseVideoScript } from './subtitleUtils';
+
+// Cross-video insights for a batch, computed locally from the results
+
+export type HookType =
+  | 'Question'
+  | 'How-to / list'
+  | 'Warning'
+  | 'Number / statistic'
+  | 'Personal story'
+  | 'Command'
+  | 'Statement';
+
+export interface PhraseCount {
+  phrase: string;
+  videos: number; // videos the phrase appears in
+  occurrences: number;
+}
+
+export interface PainPointCluster {
+  label: string; // most frequent terms in the cluster
+  count: number;
+  share: number; // of videos with a pain point, 0-1
+  representative: string; // pain point closest to the rest of the cluster
+  filenames: string[];
+}
+
+export interface HookTypeCount {
+  type: string; // hook taxonomy category, or a HookType for hooks the model did not classify
+  textHooks: number;
+  voiceHooks: number;
+}
+
+// A property results can be grouped by: status or a custom field with few distinct values
+export interface OutcomeField {
+  key: string;
+  label: string;
+}
+
+export interface DurationGroup {
+  outcome: string;
+  videos: number;
+  measured: number; // videos with a known duration
+  averageDuration: number | null; // seconds
+}
+
+export interface BatchInsights {
+  summary: ReturnType<typeof generateExportSummary>;
+  analyzedCount: number;
+  painPointClusters: PainPointCluster[];
+  textHookPhrases: PhraseCount[];
+  transcriptKeywords: PhraseCount[];
+  transcriptPhrases: PhraseCount[];
+  hookTypes: HookTypeCount[];
+  outcomeField: OutcomeField;
+  durationByOutcome: DurationGroup[];
+  generatedAt: string;
+}
+
+const STATUS_OUTCOME: OutcomeField = { key: 'status', label: 'Status' };
+
+// Custom fields with more distinct values than this are not useful groupings
+const MAX_OUTCOME_VALUES = 12;
+
+// Pain points join a cluster at this average token overlap (Jaccard)
+const CLUSTER_SIMILARITY = 0.2;
+
+const TOP_TERMS = 15;
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because',
+  'been', 'before', 'being', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'don', 'down', 'each',
+  'even', 'every', 'for', 'from', 'get', 'gets', 'got', 'had', 'has', 'have', 'having', 'he', 'her', 'here',
+  'him', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'like', 'll', 'me', 'more', 'most',
+  'my', 'no', 'not', 'now', 'of', 'off', 'on', 'one', 'only', 'or', 'other', 'our', 'out', 'over', 're', 'really',
+  'right', 's', 'so', 'some', 'such', 't', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these',
+  'they', 'this', 'those', 'through', 'to', 'too', 'up', 'us', 've', 'very', 'was', 'way', 'we', 'well',
+  'were', 'what', 'when', 'where', 'which', 'while', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+  'yours', 'yeah', 'oh', 'okay', 'ok', 'um', 'uh', 'gonna', 'going', 'want', 'know', 'thing', 'things',
+  'video', 'viewer', 'viewers', 'speaker',
+]);
+
+const QUESTION_START = /^(why|what|how come|did you|do you|are you|have you|is it|is your|can you|would you|who|when|where|ever)\b/;
+const HOW_TO = /\bhow to\b|\b\d+\s+(ways|tips|steps|reasons|secrets|hacks|mistakes|things)\b|\b(tips|hacks|secrets) (for|to)\b/;
+const WARNING = /\b(stop|don'?t|never|avoid|mistakes?|warning|worst|wrong|quit)\b/;
+const NUMBER = /\d|\b(one|two|three|four|five|ten|hundred|thousand|million|percent)\b/;
+const PERSONAL = /^(i|i'm|i've|my|we|when i|this is how i)\b/;
+const COMMAND = /^(try|get|watch|meet|imagine|discover|look|check|save|buy|grab|join|see|learn|start|make|stop|say|tap|swipe)\b/;
+
+/**
+ * Heuristic hook type from the wording of a text or voice hook
+ */
+export function classifyHook(hook: string): HookType {
+  const text = hook.toLowerCase().replace(/^["'“”\s]+/, '').trim();
+
+  if (text.includes('?') || QUESTION_START.test(text)) return 'Question';
+  if (HOW_TO.test(text)) return 'How-to / list';
+  if (WARNING.test(text)) return 'Warning';
+  if (NUMBER.test(text)) return 'Number / statistic';
+  if (PERSONAL.test(text)) return 'Personal story';
+  if (COMMAND.test(text)) return 'Command';
+  return 'Statement';
+}
+
+/**
+ * Hook type of a result's text or voice hook: the taxonomy category the model
+ * assigned, or the wording heuristic for older and unclassified results
+ */
+export function getHookType(result: VideoAnalysisResult, key: 'textHook' | 'voiceHook'): string | null {
+  const hook = result[key];
+  if (!hook?.trim()) return null;
+  return result.hookCategories?.[key]?.category || classifyHook(hook);
+}
+
+function countHookTypes(results: VideoAnalysisResult[]): HookTypeCount[] {
+  const counts = new Map<string, HookTypeCount>();
+  const count = (type: string | null, key: 'textHooks' | 'voiceHooks') => {
+    if (!type) return;
+    const entry = counts.get(type) || { type, textHooks: 0, voiceHooks: 0 };
+    entry[key]++;
+    counts.set(type, entry);
+  };
+
+  results.forEach(result => {
+    count(getHookType(result, 'textHook'), 'textHooks');
+    count(getHookType(result, 'voiceHook'), 'voiceHooks');
+  });
+
+  return Array.from(counts.values())
+    .sort((a, b) => (b.textHooks + b.voiceHooks) - (a.textHooks + a.voiceHooks));
+}
+
+// Lowercase words without [MM:SS] timestamps or punctuation
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/\[[\d:.,\s\-–—>]+\]/g, ' ')
+    .replace(/[’‘]/g, "'")
+    .split(/[^a-z0-9']+/)
+    .map(word => word.replace(/^'+|'+$/g, ''))
+    .filter(Boolean);
+}
+
+function isKeyword(word: string): boolean {
+  return word.length > 2 && !STOP_WORDS.has(word) && !/^\d+$/.test(word);
+}
+
+// Crude plural folding so "ads" and "ad" cluster together
+function stem(word: string): string {
+  if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('s') && !word.endsWith('ss') && word.length > 3) return word.slice(0, -1);
+  return word;
+}
+
+// Count terms (single keywords) or phrases (2-3 words, not starting or ending with a stop word)
+function countTerms(texts: string[], mode: 'keywords' | 'phrases', minVideos: number): PhraseCount[] {
+  const counts = new Map<string, PhraseCount>();
+
+  texts.forEach(text => {
+    const tokens = words(text);
+    const terms: string[] = [];
+
+    if (mode === 'keywords') {
+      terms.push(...tokens.filter(isKeyword));
+    } else {
+      for (let size = 2; size <= 3; size++) {
+        for (let i = 0; i + size <= tokens.length; i++) {
+          const gram = tokens.slice(i, i + size);
+          if (isKeyword(gram[0]) && isKeyword(gram[gram.length - 1])) {
+            terms.push(gram.join(' '));
+          }
+        }
+      }
+    }
+
+    const seen = new Set<string>();
+    terms.forEach(term => {
+      const entry = counts.get(term) || { phrase: term, videos: 0, occurrences: 0 };
+      entry.occurrences++;
+      if (!seen.has(term)) {
+        entry.videos++;
+        seen.add(term);
+      }
+      counts.set(term, entry);
+    });
+  });
+
+  return Array.from(counts.values())
+    .filter(entry => entry.videos >= minVideos)
+    .sort((a, b) => b.videos - a.videos || b.occurrences - a.occurrences || a.phrase.localeCompare(b.phrase))
+    .slice(0, TOP_TERMS);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(term => {
+    if (b.has(term)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Group similar pain points: each joins the cluster it overlaps most with on
+ * average (by shared keywords), or starts a new one
+ */
+export function clusterPainPoints(results: VideoAnalysisResult[]): PainPointCluster[] {
+  const items = results
+    .filter(result => result.painPoint?.trim())
+    .map(result => {
+      const keywords = words(result.painPoint!).filter(isKeyword);
+      return { result, keywords, terms: new Set(keywords.map(stem)) };
+    });
+
+  const clusters: Array<typeof items> = [];
+  items.forEach(item => {
+    let bestCluster: typeof items | undefined;
+    let bestSimilarity = CLUSTER_SIMILARITY;
+    for (const cluster of clusters) {
+      const similarity = cluster.reduce((sum, member) => sum + jaccard(item.terms, member.terms), 0) / cluster.length;
+      if (similarity >= bestSimilarity) {
+        bestCluster = cluster;
+        bestSimilarity = similarity;
+      }
+    }
+    if (bestCluster) {
+      bestCluster.push(item);
+    } else {
+      clusters.push([item]);
+    }
+  });
+
+  return clusters
+    .map(members => {
+      // Label with the most common terms, shown in their most common spelling
+      const termCounts = new Map<string, { count: number; spellings: Map<string, number> }>();
+      members.forEach(member => {
+        member.keywords.forEach(word => {
+          const entry = termCounts.get(stem(word)) || { count: 0, spellings: new Map<string, number>() };
+          entry.count++;
+          entry.spellings.set(word, (entry.spellings.get(word) || 0) + 1);
+          termCounts.set(stem(word), entry);
+        });
+      });
+      const label = Array.from(termCounts.values())
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 3)
+        .map(entry => Array.from(entry.spellings).sort((a, b) => b[1] - a[1])[0][0])
+        .join(', ');
+
+      const representative = members
+        .map(member => ({
+          member,
+          score: members.reduce((sum, other) => sum + (other === member ? 0 : jaccard(member.terms, other.terms)), 0),
+        }))
+        .sort((a, b) => b.score - a.score)[0].member;
+
+      return {
+        label: label || representative.result.painPoint!.slice(0, 40),
+        count: members.length,
+        share: items.length > 0 ? members.length / items.length : 0,
+        representative: representative.result.painPoint!,
+        filenames: members.map(member => member.result.filename),
+      };
+    })
+    .sort((a, b) => b.count - a.count);
+}
+
+// Video length as far as the script shows it: the end of its last timed line
+export function getScriptDuration(result: VideoAnalysisResult): number | null {
+  const cues = parseVideoScript(result.videoScript);
+  return cues.length > 0 ? cues[cues.length - 1].end : null;
+}
+
+// Length of the uploaded file; results without file metadata (e.g. imported
+// from older exports) fall back to the script. Hook-window scripts only cover
+// the opening seconds, so the script is never preferred.
+export function getVideoDuration(result: VideoAnalysisResult): number | null {
+  const duration = result.videoMetadata?.duration;
+  if (typeof duration === 'number' && Number.isFinite(duration) && duration > 0) return duration;
+  return getScriptDuration(result);
+}
+
+/**
+ * Properties results can be grouped by for outcome comparisons
+ */
+export function getOutcomeFields(results: VideoAnalysisResult[]): OutcomeField[] {
+  const fields = new Map<string, { label: string; values: Set<string> }>();
+
+  results.forEach(result => {
+    Object.entries(result.customFields || {}).forEach(([key, field]) => {
+      if (field.type !== 'enum' && field.type !== 'string') return;
+      const entry = fields.get(key) || { label: field.label, values: new Set<string>() };
+      entry.values.add(formatFieldValue(field.value));
+      fields.set(key, entry);
+    });
+  });
+
+  const customOutcomes = Array.from(fields)
+    .filter(([, { values }]) => values.size >= 2 && values.size <= MAX_OUTCOME_VALUES)
+    .map(([key, { label }]) => ({ key, label }));
+
+  return [STATUS_OUTCOME, ...customOutcomes];
+}
+
+function getOutcome(result: VideoAnalysisResult, field: OutcomeField): string {
+  if (field.key === STATUS_OUTCOME.key) return result.status;
+  return formatFieldValue(result.customFields?.[field.key]?.value) || '(none)';
+}
+
+export function getDurationByOutcome(results: VideoAnalysisResult[], field: OutcomeField): DurationGroup[] {
+  const groups = new Map<string, { videos: number; durations: number[] }>();
+
+  results.forEach(result => {
+    const outcome = getOutcome(result, field);
+    const group = groups.get(outcome) || { videos: 0, durations: [] };
+    const duration = getVideoDuration(result);
+    group.videos++;
+    if (duration !== null) group.durations.push(duration);
+    groups.set(outcome, group);
+  });
+
+  return Array.from(groups, ([outcome, { videos, durations }]) => ({
+    outcome,
+    videos,
+    measured: durations.length,
+    averageDuration: durations.length > 0 ? durations.reduce((sum, value) => sum + value, 0) / durations.length : null,
+  })).sort((a, b) => b.videos - a.videos);
+}
+
+/**
+ * Patterns across a batch: pain point clusters, recurring hook wording,
+ * transcript vocabulary, hook types and video length by outcome.
+ * Only completed results contribute analysis text.
+ */
+export function generateBatchInsights(
+  results: VideoAnalysisResult[],
+  outcomeField: OutcomeField = STATUS_OUTCOME
+): BatchInsights {
+  const analyzed = results.filter(result => result.status === 'completed');
+  const textHooks = analyzed.map(result => result.textHook).filter((hook): hook is string => !!hook?.trim());
+  const transcripts = analyzed.map(result => result.videoScript).filter((script): script is string => !!script?.trim());
+
+  return {
+    summary: generateExportSummary(results),
+    analyzedCount: analyzed.length,
+    painPointClusters: clusterPainPoints(analyzed),
+    textHookPhrases: countTerms(textHooks, 'phrases', 2),
+    transcriptKeywords: countTerms(transcripts, 'keywords', 2),
+    transcriptPhrases: countTerms(transcripts, 'phrases', 2),
+    hookTypes: countHookTypes(analyzed),
+    outcomeField,
+    durationByOutcome: getDurationByOutcome(results, outcomeField),
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+function formatSeconds(seconds: number | null): string {
+  if (seconds === null) return 'n/a';
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.round(seconds % 60);
+  return minutes > 0 ? `${minutes}m ${rest}s` : `${rest}s`;
+}
+
+function markdownCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * Insights as a Markdown report
+ */
+export function formatInsightsMarkdown(insights: BatchInsights): string {
+  const { summary } = insights;
+  const phraseTable = (rows: PhraseCount[]) => rows.length === 0
+    ? ['_Nothing recurs in at least two videos._']
+    : ['| Phrase | Videos | Occurrences |', '| --- | ---: | ---: |',
+      ...rows.map(row => `| ${markdownCell(row.phrase)} | ${row.videos} | ${row.occurrences} |`)];
+
+  const lines = [
+    '# Video Analysis Insights',
+    '',
+    `Generated ${insights.generatedAt} from ${summary.totalVideos} videos (${insights.analyzedCount} analyzed, ${summary.errorCount} failed, ${summary.cancelledCount} cancelled).`,
+    '',
+    '## Pain Points',
+    '',
+    ...(insights.painPointClusters.length === 0
+      ? ['_No pain points in the analyzed videos._']
+      : ['| Theme | Videos | Share | Example |', '| --- | ---: | ---: | --- |',
+        ...insights.painPointClusters.map(cluster =>
+          `| ${markdownCell(cluster.label)} | ${cluster.count} | ${Math.round(cluster.share * 100)}% | ${markdownCell(cluster.representative)} |`)]),
+    '',
+    '## Hook Types',
+    '',
+    ...(insights.hookTypes.length === 0
+      ? ['_No hooks in the analyzed videos._']
+      : ['| Type | Text hooks | Voice hooks |', '| --- | ---: | ---: |',
+        ...insights.hookTypes.map(row => `| ${markdownCell(row.type)} | ${row.textHooks} | ${row.voiceHooks} |`)]),
+    '',
+    '## Recurring Text Hook Phrases',
+    '',
+    ...phraseTable(insights.textHookPhrases),
+    '',
+    '## Transcript Keywords',
+    '',
+    ...phraseTable(insights.transcriptKeywords),
+    '',
+    '## Transcript Phrases',
+    '',
+    ...phraseTable(insights.transcriptPhrases),
+    '',
+    `## Average Video Length by ${insights.outcomeField.label}`,
+    '',
+    'Length is the duration of the video file, or the last timestamp of the script for results without file metadata.',
+    '',
+    `| ${markdownCell(insights.outcomeField.label)} | Videos | With known length | Average length |`,
+    '| --- | ---: | ---: | ---: |',
+    ...insights.durationByOutcome.map(group =>
+      `| ${markdownCell(group.outcome)} | ${group.videos} | ${group.measured} | ${formatSeconds(group.averageDuration)} |`),
+    '',
+  ];
+
+  return lines.join('\n');
+}
+
+/**
+ * Download the insights as a Markdown report or as JSON
+ */
+export function exportInsightsReport(insights: BatchInsights, format: 'md' | 'json'): void {
+  const timestamp = new Date().toISOString().replace(/[-:]/g, '').split('.')[0].replace('T', '-');
+  const blob = format === 'md'
+    ? new Blob([formatInsightsMarkdown(insights)], { type: 'text/markdown;charset=utf-8;' })
+    : new Blob([JSON.stringify(insights, null, 2)], { type: 'application/json;charset=utf-8;' });
+
+  saveAs(blob, `video-analysis-insights-${timestamp}.${format}`);
+}
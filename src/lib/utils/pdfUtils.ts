@@ -0,0 +1,185 @@
+// Minimal PDF writer for client-side exports: A4 pages with a title, wrapped
+// text lines and one JPEG image each. JPEGs are embedded as-is (DCTDecode) and
+// text uses the built-in Helvetica fonts, so no font files are needed;
+// characters the fonts' WinAnsi encoding lacks are written as "?".
+
+export interface PdfJpeg {
+  data: Uint8Array;
+  width: number; // pixels
+  height: number;
+  components: number; // 1 gray, 3 RGB, 4 CMYK
+}
+
+export interface PdfPage {
+  title: string;
+  lines: string[]; // wrapped to the page width
+  image?: PdfJpeg; // scaled to fit below the text
+}
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const TITLE_SIZE = 14;
+const TEXT_SIZE = 10;
+const LINE_HEIGHT = 14;
+const AVERAGE_CHAR_WIDTH = 0.5; // of the font size, for wrapping Helvetica
+
+// Typographic characters WinAnsi has outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+const COLOR_SPACES: Record<number, string> = { 1: '/DeviceGray', 3: '/DeviceRGB', 4: '/DeviceCMYK' };
+
+/**
+ * Read the size and color components of a JPEG from its start-of-frame marker
+ */
+export function readJpeg(data: Uint8Array): PdfJpeg {
+  if (data[0] !== 0xff || data[1] !== 0xd8) {
+    throw new Error('Image is not a JPEG');
+  }
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+    const marker = data[offset + 1];
+    const length = (data[offset + 2] << 8) | data[offset + 3];
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        data,
+        height: (data[offset + 5] << 8) | data[offset + 6],
+        width: (data[offset + 7] << 8) | data[offset + 8],
+        components: data[offset + 9],
+      };
+    }
+    offset += 2 + length;
+  }
+  throw new Error('JPEG has no frame header');
+}
+
+function wrapText(text: string, fontSize: number): string[] {
+  const maxChars = Math.floor((PAGE_WIDTH - 2 * MARGIN) / (fontSize * AVERAGE_CHAR_WIDTH));
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      if (line && line.length + 1 + word.length > maxChars) {
+        lines.push(line);
+        line = '';
+      }
+      // Words longer than a line are cut
+      while (word.length > maxChars) {
+        lines.push(word.slice(0, maxChars));
+        word = word.slice(maxChars);
+      }
+      line = line ? `${line} ${word}` : word;
+    });
+    lines.push(line);
+  });
+  return lines;
+}
+
+// PDF string literal in the fonts' WinAnsi encoding
+function pdfString(text: string): string {
+  const winAnsi = Array.from(text, char => {
+    if (WIN_ANSI_EXTRAS[char]) return String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    return char.charCodeAt(0) <= 0xff ? char : '?';
+  }).join('');
+  return `(${winAnsi.replace(/[\\()]/g, match => `\\${match}`).replace(/[\r\n\t]/g, ' ')})`;
+}
+
+function textCommand(text: string, font: string, size: number, y: number): string {
+  return `BT ${font} ${size} Tf ${MARGIN} ${y} Td ${pdfString(text)} Tj ET`;
+}
+
+/**
+ * Build a PDF with one page per entry. Text that does not fit on the page
+ * is cut off, so keep the lines short.
+ */
+export function createPdfDocument(pages: PdfPage[]): Blob {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (content: string | Uint8Array) => {
+    // Object headers and streams are Latin-1; one byte per character
+    const bytes = typeof content === 'string' ? Uint8Array.from(content, char => char.charCodeAt(0) & 0xff) : content;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // 1 catalog, 2 page tree, 3-4 fonts, then page, content and image per page
+  const pageIds = pages.map((_, index) => 5 + index * 3);
+  write('%PDF-1.4\n%âãÏÓ\n');
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  writeObject(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  writeObject(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  writeObject(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+
+  pages.forEach((page, index) => {
+    const pageId = pageIds[index];
+    const commands: string[] = [];
+    let y = PAGE_HEIGHT - MARGIN - TITLE_SIZE;
+
+    wrapText(page.title, TITLE_SIZE).forEach(line => {
+      commands.push(textCommand(line, '/F1', TITLE_SIZE, y));
+      y -= TITLE_SIZE + 6;
+    });
+    y -= 4;
+    page.lines.flatMap(line => wrapText(line, TEXT_SIZE)).forEach(line => {
+      if (y < MARGIN) return;
+      commands.push(textCommand(line, '/F2', TEXT_SIZE, y));
+      y -= LINE_HEIGHT;
+    });
+
+    const image = page.image;
+    const availableHeight = y - MARGIN;
+    if (image && availableHeight > 0) {
+      const scale = Math.min((PAGE_WIDTH - 2 * MARGIN) / image.width, availableHeight / image.height, 1);
+      const width = image.width * scale;
+      const height = image.height * scale;
+      commands.push(`q ${width.toFixed(2)} 0 0 ${height.toFixed(2)} ${MARGIN} ${(y - height).toFixed(2)} cm /Im1 Do Q`);
+    }
+
+    const xObject = image ? ` /XObject << /Im1 ${pageId + 2} 0 R >>` : '';
+    writeObject(pageId, [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}]`,
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObject} >> /Contents ${pageId + 1} 0 R >>`,
+    ].join(' '));
+    const content = Uint8Array.from(commands.join('\n'), char => char.charCodeAt(0) & 0xff);
+    writeObject(pageId + 1, `<< /Length ${content.length} >>`, content);
+    if (image) {
+      writeObject(pageId + 2, [
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height}`,
+        `/ColorSpace ${COLOR_SPACES[image.components] || '/DeviceRGB'} /BitsPerComponent 8`,
+        `/Filter /DCTDecode /Length ${image.data.length} >>`,
+      ].join(' '), image.data);
+    } else {
+      // Keep object numbers contiguous
+      writeObject(pageId + 2, 'null');
+    }
+  });
+
+  const objectCount = 5 + pages.length * 3;
+  const xrefOffset = length;
+  const xref = ['xref', `0 ${objectCount}`, '0000000000 65535 f '];
+  for (let id = 1; id < objectCount; id++) {
+    xref.push(`${String(offsets[id]).padStart(10, '0')} 00000 n `);
+  }
+  write(`${xref.join('\n')}\ntrailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+}
@@ -1,123 +1,350 @@
-import { 
-  VideoAnalysisRequest, 
-  VideoAnalysisResult, 
-  QueueStatus, 
-  RateLimitInfo, 
+import {
+  VideoAnalysisRequest,
+  VideoAnalysisResult,
+  QueueStatus,
+  RateLimitInfo,
   VideoAnalysisApiResponse,
-  DEFAULT_RATE_LIMIT_PER_MINUTE 
+  DEFAULT_RATE_LIMIT_PER_MINUTE,
+  DEFAULT_MAX_CONCURRENCY,
+  MAX_CONCURRENCY_LIMIT
 } from '@/types/video-analysis';
-
-export type QueueProgressCallback = (status: QueueStatus) => void;
-export type RateLimitUpdateCallback = (info: RateLimitInfo) => void;
+import { getProviderInfo } from '@/lib/providers/catalog';
+import { extractKeyframes, formatFileSize } from './videoUtils';
+import { getHookWindowSeconds } from './analysisFields';
+import {
+  InterruptedBatch,
+  isBatchPersistenceAvailable,
+  checkStorageQuota,
+  saveBatch,
+  updateBatchQueue,
+  clearPersistedBatch,
+} from './batchPersistence';
+import { isRetryableAnalysisError } from './errorHandling';
+import { getClientAuthHeaders } from './clientToken';
+
+export type QueueListener = () => void;
 export type ResultCallback = (result: VideoAnalysisResult) => void;
 
+export interface QueueStatistics {
+  totalProcessed: number;
+  successCount: number;
+  errorCount: number;
+  cancelledCount: number;
+  cachedCount: number;
+  avgProcessingTime: number; // ms, successful analyses only
+  startTime?: Date;
+}
+
+export interface QueueConcurrency {
+  current: number; // adaptive level: grows on success, halves on 429 / quota errors
+  max: number; // user setting
+  inFlight: number;
+}
+
+// Everything the UI renders; replaced as a whole on every change
+export interface QueueSnapshot {
+  status: QueueStatus;
+  rateLimitInfo: RateLimitInfo;
+  statistics: QueueStatistics;
+  concurrency: QueueConcurrency;
+  throughputPerMinute: number; // analyses completed per minute, over the last minute
+  persistenceNotice: string | null;
+}
+
 interface QueueItem {
   request: VideoAnalysisRequest;
   retryCount: number;
   maxRetries: number;
   lastAttempt?: Date;
+  notBefore?: number; // backoff: don't attempt again before this timestamp
+  controller?: AbortController; // set while in flight; aborting cancels the request
 }
 
 interface QueueState {
   items: QueueItem[];
+  inFlight: Map<string, QueueItem>;
+  batchTotal: number;
+  concurrency: number;
+  maxConcurrency: number;
+  successStreak: number; // successes since the concurrency last changed
+  lastBackoffAt: number; // requests started before this don't shrink concurrency again
+  completionTimes: number[];
   isProcessing: boolean;
   isPaused: boolean;
   rateLimitInfo: RateLimitInfo;
-  statistics: {
-    totalProcessed: number;
-    successCount: number;
-    errorCount: number;
-    startTime?: Date;
-  };
+  statistics: QueueStatistics;
+  persistenceNotice: string | null;
+}
+
+export class QueueRequestError extends Error {
+  constructor(message: string, public code: string, public retryAfter?: number) {
+    super(message);
+    this.name = 'QueueRequestError';
+  }
 }
 
 const STORAGE_KEY = 'video-analysis-queue';
 const MAX_RETRIES = 3;
 const RETRY_BACKOFF_BASE = 2000; // 2 seconds base delay
-const PROCESSING_DELAY = 6000; // 6 seconds between requests (10/minute)
+const MIN_REQUEST_DELAY = 1000; // at most one request per second
+const CACHE_HIT_DELAY = 100; // cached results don't count against the rate limit
+const REQUEST_TIMEOUT = 120000; // 2 minutes for the analysis itself
+const UPLOAD_TIMEOUT_PER_MB = 2000; // browser to server and server to the provider, at 1 MB/s each
+const FILE_PROCESSING_TIMEOUT = 300000; // Files API uploads wait up to 5 minutes to become active
+const INLINE_UPLOAD_MAX_BYTES = 20 * 1024 * 1024; // server default; larger videos use the Files API
+const THROUGHPUT_WINDOW = 60000; // 1 minute
+
+function generateBatchId(): string {
+  return `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Large videos take longer to upload, and Files API uploads also wait for the provider to process them
+function getRequestTimeout(fileSize: number): number {
+  const processingTime = fileSize > INLINE_UPLOAD_MAX_BYTES ? FILE_PROCESSING_TIMEOUT : 0;
+  return REQUEST_TIMEOUT + (fileSize / (1024 * 1024)) * UPLOAD_TIMEOUT_PER_MB + processingTime;
+}
+
+function initializeState(): QueueState {
+  return {
+    items: [],
+    inFlight: new Map(),
+    batchTotal: 0,
+    concurrency: 1,
+    maxConcurrency: DEFAULT_MAX_CONCURRENCY,
+    successStreak: 0,
+    lastBackoffAt: 0,
+    completionTimes: [],
+    isProcessing: false,
+    isPaused: false,
+    rateLimitInfo: {
+      remaining: DEFAULT_RATE_LIMIT_PER_MINUTE,
+      resetTime: Date.now() + 60000,
+      requestsInLastMinute: 0,
+      maxRequestsPerMinute: DEFAULT_RATE_LIMIT_PER_MINUTE,
+    },
+    statistics: emptyStatistics(),
+    persistenceNotice: null,
+  };
+}
+
+function emptyStatistics(): QueueStatistics {
+  return {
+    totalProcessed: 0,
+    successCount: 0,
+    errorCount: 0,
+    cancelledCount: 0,
+    cachedCount: 0,
+    avgProcessingTime: 0,
+  };
+}
+
+function clampConcurrency(value: number): number {
+  return Math.min(MAX_CONCURRENCY_LIMIT, Math.max(1, Math.floor(value) || 1));
+}
+
+// Completions per minute, measured since processing started if that was less than a window ago
+function throughputOf(state: QueueState): number {
+  const now = Date.now();
+  const recent = state.completionTimes.filter(time => now - time <= THROUGHPUT_WINDOW);
+  if (recent.length === 0) return 0;
+
+  const startTime = state.statistics.startTime ? new Date(state.statistics.startTime).getTime() : now;
+  const elapsed = Math.min(THROUGHPUT_WINDOW, Math.max(now - startTime, 1000));
+  return (recent.length / elapsed) * 60000;
+}
+
+function snapshotOf(state: QueueState): QueueSnapshot {
+  const remaining = state.items.length + state.inFlight.size;
+
+  return {
+    status: {
+      position: remaining,
+      estimatedWaitTime: remaining * (60 / state.rateLimitInfo.maxRequestsPerMinute),
+      isProcessing: state.isProcessing,
+      isPaused: state.isPaused,
+      totalInQueue: state.batchTotal,
+      completedCount: state.statistics.successCount,
+      errorCount: state.statistics.errorCount,
+    },
+    rateLimitInfo: { ...state.rateLimitInfo },
+    statistics: { ...state.statistics },
+    concurrency: {
+      current: state.concurrency,
+      max: state.maxConcurrency,
+      inFlight: state.inFlight.size,
+    },
+    throughputPerMinute: throughputOf(state),
+    persistenceNotice: state.persistenceNotice,
+  };
+}
+
+// Snapshot used before the queue exists (server render, first hydration pass)
+export const INITIAL_QUEUE_SNAPSHOT: QueueSnapshot = snapshotOf(initializeState());
 
 export class VideoAnalysisQueue {
   private state: QueueState;
+  private snapshot: QueueSnapshot;
+  private apiKey = '';
   private processingTimer: NodeJS.Timeout | null = null;
-  private rateLimitTimer: NodeJS.Timeout | null = null;
-  
-  // Callbacks
-  private progressCallback?: QueueProgressCallback;
-  private rateLimitCallback?: RateLimitUpdateCallback;
-  private resultCallback?: ResultCallback;
-  
+  private nextRequestAt = 0; // earliest start of the next request, for spacing
+  private batchPersisted = false;
+  // Sent with each request so the server can send batch.completed once every video reported
+  private batch: { id: string; size: number } | null = null;
+
+  // Requests of the current batch by id, so failed items can be retried later
+  private requests = new Map<string, VideoAnalysisRequest>();
+  private cancelledIds = new Set<string>();
+
+  // Subscribers
+  private listeners = new Set<QueueListener>();
+  private resultCallbacks = new Set<ResultCallback>();
+
   constructor() {
-    this.state = this.initializeState();
+    this.state = initializeState();
     this.loadFromStorage();
+    this.snapshot = snapshotOf(this.state);
   }
 
-  private initializeState(): QueueState {
-    return {
-      items: [],
-      isProcessing: false,
-      isPaused: false,
-      rateLimitInfo: {
-        remaining: DEFAULT_RATE_LIMIT_PER_MINUTE,
-        resetTime: Date.now() + 60000,
-        requestsInLastMinute: 0,
-        maxRequestsPerMinute: DEFAULT_RATE_LIMIT_PER_MINUTE,
-      },
-      statistics: {
-        totalProcessed: 0,
-        successCount: 0,
-        errorCount: 0,
-      },
+  // Event subscription methods (each returns an unsubscribe function)
+  subscribe = (listener: QueueListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
     };
-  }
+  };
 
-  // Event subscription methods
-  onProgress(callback: QueueProgressCallback): void {
-    this.progressCallback = callback;
+  onResult(callback: ResultCallback): () => void {
+    this.resultCallbacks.add(callback);
+    return () => {
+      this.resultCallbacks.delete(callback);
+    };
   }
 
-  onRateLimitUpdate(callback: RateLimitUpdateCallback): void {
-    this.rateLimitCallback = callback;
+  getSnapshot = (): QueueSnapshot => this.snapshot;
+
+  setApiKey(apiKey: string): void {
+    this.apiKey = apiKey;
   }
 
-  onResult(callback: ResultCallback): void {
-    this.resultCallback = callback;
+  /**
+   * Set the upper bound for concurrent analyses; the live level adapts below it
+   */
+  setMaxConcurrency(maxConcurrency: number): void {
+    this.state.maxConcurrency = clampConcurrency(maxConcurrency);
+    this.state.concurrency = Math.min(this.state.concurrency, this.state.maxConcurrency);
+    this.saveToStorage();
+    this.notifyProgress();
+
+    if (this.state.isProcessing) {
+      this.processNext();
+    }
   }
 
   // Queue management
   addToQueue(request: VideoAnalysisRequest): void {
-    const queueItem: QueueItem = {
-      request,
-      retryCount: 0,
-      maxRetries: MAX_RETRIES,
-    };
-
-    this.state.items.push(queueItem);
-    this.saveToStorage();
-    this.notifyProgress();
+    this.addMultipleToQueue([request]);
   }
 
   addMultipleToQueue(requests: VideoAnalysisRequest[]): void {
-    const queueItems: QueueItem[] = requests.map(request => ({
-      request,
-      retryCount: 0,
-      maxRetries: MAX_RETRIES,
-    }));
+    requests.forEach(request => this.requests.set(request.id, request));
+    this.state.items.push(...requests.map(request => this.createItem(request)));
+    this.state.batchTotal += requests.length;
+    if (this.state.isProcessing && this.batch) {
+      this.batch.size += requests.length;
+    } else {
+      this.batch = { id: generateBatchId(), size: requests.length };
+    }
+    this.persistQueue();
+    this.notifyProgress();
+  }
 
-    this.state.items.push(...queueItems);
-    this.saveToStorage();
+  /**
+   * Replace the queue with a new batch, store it for resuming and start processing
+   */
+  async startBatch(requests: VideoAnalysisRequest[]): Promise<void> {
+    this.haltProcessing();
+    this.cancelledIds.clear();
+
+    this.requests = new Map(requests.map(request => [request.id, request]));
+    this.state.items = requests.map(request => this.createItem(request));
+    this.state.batchTotal = requests.length;
+    this.batch = { id: generateBatchId(), size: requests.length };
+    this.resetStatistics();
     this.notifyProgress();
+
+    await this.persistBatch(requests);
+    this.startProcessing();
+  }
+
+  /**
+   * Continue a batch restored from IndexedDB with the requests that were still queued
+   */
+  resumeInterruptedBatch(batch: InterruptedBatch): void {
+    this.haltProcessing();
+    this.cancelledIds.clear();
+
+    this.requests = new Map(batch.requests.map(request => [request.id, request]));
+    this.state.items = batch.state.queue
+      .map(id => this.requests.get(id))
+      .filter((request): request is VideoAnalysisRequest => Boolean(request))
+      .map(request => this.createItem(request));
+    this.state.batchTotal = batch.state.totalVideos;
+    this.batch = { id: batch.state.batchId || generateBatchId(), size: batch.state.totalVideos };
+    this.batchPersisted = true;
+
+    this.startProcessing();
+  }
+
+  /**
+   * Re-queue requests of the current batch (e.g. failed or cancelled analyses).
+   * Returns the ids that were queued again.
+   */
+  retryRequests(requestIds: string[]): string[] {
+    const queuedIds = new Set([
+      ...this.state.items.map(item => item.request.id),
+      ...Array.from(this.state.inFlight.keys()),
+    ]);
+    const retryIds = requestIds.filter(id => this.requests.has(id) && !queuedIds.has(id));
+    if (retryIds.length === 0) return [];
+
+    const { statistics } = this.state;
+    retryIds.forEach(id => {
+      this.state.items.push(this.createItem(this.requests.get(id)!));
+      if (this.cancelledIds.delete(id)) {
+        statistics.cancelledCount = Math.max(0, statistics.cancelledCount - 1);
+      } else {
+        statistics.errorCount = Math.max(0, statistics.errorCount - 1);
+      }
+    });
+    statistics.totalProcessed = Math.max(0, statistics.totalProcessed - retryIds.length);
+
+    if (this.state.isProcessing) {
+      this.persistQueue();
+      this.notifyProgress();
+    } else {
+      // Retrying a finished batch runs the retried videos as a batch of their own
+      this.batch = { id: generateBatchId(), size: retryIds.length };
+      this.startProcessing();
+    }
+
+    return retryIds;
   }
 
   startProcessing(): void {
     if (this.state.isProcessing) return;
-    
+
     this.state.isProcessing = true;
     this.state.isPaused = false;
     this.state.statistics.startTime = new Date();
-    
+    this.state.completionTimes = [];
+
+    // Start slow and let successful responses raise the concurrency
+    this.state.concurrency = 1;
+    this.state.successStreak = 0;
+
     this.saveToStorage();
     this.notifyProgress();
-    
+
     this.processNext();
   }
 
@@ -130,161 +357,330 @@ export class VideoAnalysisQueue {
 
   resumeProcessing(): void {
     if (!this.state.isProcessing) return;
-    
+
     this.state.isPaused = false;
     this.saveToStorage();
     this.notifyProgress();
-    
+
     this.processNext();
   }
 
+  /**
+   * Stop the batch: queued items are reported as cancelled and in-flight requests are aborted
+   */
   stopProcessing(): void {
-    this.state.isProcessing = false;
-    this.state.isPaused = false;
-    this.clearTimers();
+    const queuedItems = this.state.items;
+    this.closeBatch();
+    this.haltProcessing();
+
+    queuedItems.forEach(item => this.reportCancelled(item));
+    this.saveToStorage();
+    this.notifyProgress();
+  }
+
+  /**
+   * Cancel a single request, whether it is still queued or already in flight
+   */
+  cancelRequest(requestId: string): void {
+    const inFlightItem = this.state.inFlight.get(requestId);
+    if (inFlightItem) {
+      // processItem reports the cancellation once the aborted request settles
+      inFlightItem.controller?.abort();
+      return;
+    }
+
+    const index = this.state.items.findIndex(item => item.request.id === requestId);
+    if (index === -1) return;
+
+    const [item] = this.state.items.splice(index, 1);
+    this.reportCancelled(item);
+
+    this.persistQueue();
     this.saveToStorage();
     this.notifyProgress();
+
+    // The cancelled item may have been the last one
+    if (this.state.isProcessing) {
+      this.processNext();
+    }
   }
 
   clearQueue(): void {
-    this.stopProcessing();
-    this.state.items = [];
+    this.haltProcessing();
+    this.requests.clear();
+    this.cancelledIds.clear();
+    this.state.batchTotal = 0;
+    this.state.persistenceNotice = null;
     this.resetStatistics();
     this.saveToStorage();
     this.notifyProgress();
   }
 
-  removeFromQueue(requestId: string): void {
-    this.state.items = this.state.items.filter(item => item.request.id !== requestId);
+  // Stop without reporting anything; in-flight requests are aborted and their outcome dropped
+  private haltProcessing(): void {
+    this.state.isProcessing = false;
+    this.state.isPaused = false;
+    this.state.items = [];
+    this.state.inFlight.forEach(item => item.controller?.abort());
+    this.state.inFlight.clear();
+    this.batch = null;
+    this.clearTimers();
+    this.discardPersistedBatch();
     this.saveToStorage();
     this.notifyProgress();
   }
 
-  retryFailedItem(requestId: string): void {
-    const item = this.state.items.find(item => item.request.id === requestId);
-    if (item) {
-      item.retryCount = 0;
-      item.lastAttempt = undefined;
-      
-      if (!this.state.isProcessing) {
-        this.startProcessing();
-      }
-    }
+  removeFromQueue(requestId: string): void {
+    this.state.items = this.state.items.filter(item => item.request.id !== requestId);
+    this.persistQueue();
+    this.notifyProgress();
   }
 
   // Queue status
   getQueueStatus(): QueueStatus {
-    const totalInQueue = this.state.items.length;
-    const position = this.state.isProcessing ? Math.max(1, totalInQueue) : 0;
-    const estimatedWaitTime = totalInQueue * (PROCESSING_DELAY / 1000);
-
-    return {
-      position,
-      estimatedWaitTime,
-      isProcessing: this.state.isProcessing,
-      isPaused: this.state.isPaused,
-      totalInQueue,
-      completedCount: this.state.statistics.successCount,
-      errorCount: this.state.statistics.errorCount,
-    };
+    return { ...this.snapshot.status };
   }
 
   getRateLimitInfo(): RateLimitInfo {
     return { ...this.state.rateLimitInfo };
   }
 
-  getStatistics() {
+  getStatistics(): QueueStatistics {
     return { ...this.state.statistics };
   }
 
   // Private processing methods
-  private async processNext(): Promise<void> {
-    if (!this.state.isProcessing || this.state.isPaused || this.state.items.length === 0) {
-      if (this.state.items.length === 0 && this.state.isProcessing) {
-        // Queue is empty, stop processing
-        this.stopProcessing();
+  private createItem(request: VideoAnalysisRequest): QueueItem {
+    return {
+      request,
+      retryCount: 0,
+      maxRetries: MAX_RETRIES,
+    };
+  }
+
+  // Start queued items until the concurrency level, rate limit or request spacing says stop
+  private processNext(): void {
+    this.clearTimers();
+
+    if (!this.state.isProcessing || this.state.isPaused) return;
+
+    if (this.state.items.length === 0) {
+      // Queue is empty, the batch is finished once the last worker returns
+      if (this.state.inFlight.size === 0) {
+        this.finishBatch();
       }
       return;
     }
 
-    // Check rate limit
-    if (this.state.rateLimitInfo.remaining <= 0) {
-      const waitTime = this.state.rateLimitInfo.resetTime - Date.now();
-      if (waitTime > 0) {
-        this.rateLimitTimer = setTimeout(() => this.processNext(), waitTime);
-        return;
-      } else {
+    while (this.state.items.length > 0 && this.state.inFlight.size < this.state.concurrency) {
+      const now = Date.now();
+
+      // Check rate limit
+      if (this.state.rateLimitInfo.remaining <= 0) {
+        const waitTime = this.state.rateLimitInfo.resetTime - now;
+        if (waitTime > 0) {
+          this.scheduleNext(waitTime);
+          return;
+        }
+
         // Reset rate limit
         this.state.rateLimitInfo.remaining = this.state.rateLimitInfo.maxRequestsPerMinute;
-        this.state.rateLimitInfo.resetTime = Date.now() + 60000;
+        this.state.rateLimitInfo.resetTime = now + 60000;
         this.state.rateLimitInfo.requestsInLastMinute = 0;
-        this.notifyRateLimit();
       }
-    }
 
-    const item = this.state.items.shift();
-    if (!item) return;
+      if (now < this.nextRequestAt) {
+        this.scheduleNext(this.nextRequestAt - now);
+        return;
+      }
+
+      // Take the first item that isn't backing off
+      const index = this.state.items.findIndex(item => !item.notBefore || item.notBefore <= now);
+      if (index === -1) {
+        const nextAttempt = Math.min(...this.state.items.map(item => item.notBefore || now));
+        this.scheduleNext(nextAttempt - now);
+        return;
+      }
+
+      const [item] = this.state.items.splice(index, 1);
+      this.nextRequestAt = now + this.getRequestDelay();
+
+      // Reserve a request; the server's count replaces this when the response arrives
+      this.state.rateLimitInfo.remaining--;
+      this.state.rateLimitInfo.requestsInLastMinute++;
 
+      void this.processItem(item);
+    }
+  }
+
+  private async processItem(item: QueueItem): Promise<void> {
+    const controller = new AbortController();
     item.lastAttempt = new Date();
-    
+    item.controller = controller;
+    this.state.inFlight.set(item.request.id, item);
+
+    this.persistQueue();
+    this.notifyProgress();
+    this.notifyResult({
+      id: item.request.id,
+      filename: item.request.filename,
+      contentHash: item.request.contentHash,
+      status: 'processing',
+      createdAt: item.request.createdAt,
+    });
+
     try {
-      const result = await this.processVideoAnalysis(item.request);
-      
+      const finalAttempt = item.retryCount + 1 >= item.maxRetries;
+      const result = await this.processVideoAnalysis(item.request, controller.signal, finalAttempt);
+
       // Success
-      this.state.statistics.successCount++;
-      this.state.statistics.totalProcessed++;
-      
-      // Update rate limit
-      this.state.rateLimitInfo.remaining = Math.max(0, this.state.rateLimitInfo.remaining - 1);
-      this.state.rateLimitInfo.requestsInLastMinute++;
-      
-      this.saveToStorage();
-      this.notifyProgress();
-      this.notifyRateLimit();
+      const { statistics } = this.state;
+      statistics.avgProcessingTime =
+        (statistics.avgProcessingTime * statistics.successCount + (result.processingTime || 0)) /
+        (statistics.successCount + 1);
+      statistics.successCount++;
+      statistics.totalProcessed++;
+      this.state.completionTimes.push(Date.now());
+
+      if (result.cached) {
+        statistics.cachedCount++;
+        this.nextRequestAt = Math.min(this.nextRequestAt, Date.now() + CACHE_HIT_DELAY);
+      } else {
+        this.growConcurrency();
+      }
+
       this.notifyResult(result);
-      
+
     } catch (error) {
-      // Handle error
-      await this.handleProcessingError(item, error);
+      if (!controller.signal.aborted) {
+        // Handle error
+        this.handleProcessingError(item, error);
+      } else if (this.requests.get(item.request.id) === item.request) {
+        // Cancelled by the user; requests from a replaced or cleared batch are dropped silently
+        this.reportCancelled(item);
+      }
+    } finally {
+      item.controller = undefined;
+      if (this.state.inFlight.get(item.request.id) === item) {
+        this.state.inFlight.delete(item.request.id);
+      }
     }
 
-    // Schedule next item
-    this.processingTimer = setTimeout(() => this.processNext(), PROCESSING_DELAY);
+    this.pruneCompletionTimes();
+    this.persistQueue();
+    this.saveToStorage();
+    this.notifyProgress();
+
+    // Fill the free slot
+    this.processNext();
   }
 
-  private async processVideoAnalysis(request: VideoAnalysisRequest): Promise<VideoAnalysisResult> {
+  private async processVideoAnalysis(
+    request: VideoAnalysisRequest,
+    signal: AbortSignal,
+    finalAttempt: boolean
+  ): Promise<VideoAnalysisResult> {
+    const startTime = Date.now();
     const formData = new FormData();
     formData.append('video', request.videoFile);
+    // Identify the result in this browser's webhook events, which the server sends
+    formData.append('resultId', request.id);
+    formData.append('filename', request.filename);
+    formData.append('finalAttempt', String(finalAttempt));
     formData.append('options', JSON.stringify(request.analysisOptions));
+    formData.append('apiKey', this.apiKey); // Pass user's API key
+    if (request.contentHash) {
+      formData.append('contentHash', request.contentHash);
+    }
+    formData.append('forceReanalysis', String(Boolean(request.forceReanalysis)));
+    if (this.batch) {
+      formData.append('batchId', this.batch.id);
+      formData.append('batchSize', String(this.batch.size));
+    }
 
-    const response = await fetch('/api/gemini/analyze-video', {
-      method: 'POST',
-      body: formData,
-    });
+    // Providers without native video support get sampled keyframes instead
+    const provider = getProviderInfo(request.analysisOptions?.provider || '');
+    if (provider && !provider.supportsNativeVideo) {
+      const hookWindowSeconds = request.analysisOptions ? getHookWindowSeconds(request.analysisOptions) : undefined;
+      const keyframes = await extractKeyframes(request.videoFile, undefined, undefined, hookWindowSeconds);
+      formData.append('keyframes', JSON.stringify(keyframes));
+    }
+
+    if (signal.aborted) {
+      throw new QueueRequestError('Analysis cancelled', 'CANCELLED');
+    }
+
+    // One signal for both the timeout and user cancellation; the server sees it as a disconnect
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), getRequestTimeout(request.videoFile.size));
+    const abortRequest = () => controller.abort();
+    signal.addEventListener('abort', abortRequest);
+
+    let response: Response;
+    try {
+      response = await fetch('/api/gemini/analyze-video', {
+        method: 'POST',
+        headers: getClientAuthHeaders(),
+        body: formData,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        if (signal.aborted) {
+          throw new QueueRequestError('Analysis cancelled', 'CANCELLED');
+        }
+        throw new QueueRequestError('Request timeout - video may be too large or complex', 'TIMEOUT');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      signal.removeEventListener('abort', abortRequest);
+    }
 
     const apiResponse: VideoAnalysisApiResponse = await response.json();
+    if (signal.aborted) {
+      throw new QueueRequestError('Analysis cancelled', 'CANCELLED');
+    }
 
     // Update rate limit info from API response
     if (apiResponse.rateLimitInfo) {
       this.state.rateLimitInfo = apiResponse.rateLimitInfo;
-      this.notifyRateLimit();
     }
 
-    if (!apiResponse.success || !apiResponse.data) {
-      throw new Error(apiResponse.error?.message || 'Analysis failed');
+    if (response.status === 429) {
+      throw new QueueRequestError(
+        apiResponse.error?.message || 'Rate limit exceeded',
+        'RATE_LIMIT_EXCEEDED',
+        apiResponse.error?.details?.retryAfter || 60
+      );
+    }
+
+    if (!response.ok || !apiResponse.success || !apiResponse.data) {
+      throw new QueueRequestError(
+        apiResponse.error?.message || 'Analysis failed',
+        apiResponse.error?.code || 'ANALYSIS_FAILED'
+      );
     }
 
     // Convert API response to VideoAnalysisResult
     const result: VideoAnalysisResult = {
       id: request.id,
       filename: request.filename,
+      contentHash: request.contentHash,
+      videoMetadata: request.videoMetadata,
       status: 'completed',
       visualHook: apiResponse.data.visualHook,
       textHook: apiResponse.data.textHook,
       voiceHook: apiResponse.data.voiceHook,
       videoScript: apiResponse.data.videoScript,
       painPoint: apiResponse.data.painPoint,
-      processingTime: apiResponse.data.processingTime,
+      customFields: apiResponse.data.customFields,
+      hookCategories: apiResponse.data.hookCategories,
+      hookWindowSeconds: apiResponse.data.hookWindowSeconds,
+      provider: apiResponse.data.provider,
+      model: apiResponse.data.model,
+      cached: apiResponse.data.cached,
+      processingTime: apiResponse.data.processingTime || Date.now() - startTime,
       createdAt: request.createdAt,
       completedAt: new Date(),
     };
@@ -292,55 +688,118 @@ export class VideoAnalysisQueue {
     return result;
   }
 
-  private async handleProcessingError(item: QueueItem, error: unknown): Promise<void> {
+  /**
+   * Put the item back for a retry or report a permanent failure
+   */
+  private handleProcessingError(item: QueueItem, error: unknown): void {
+    const errorCode = error instanceof QueueRequestError ? error.code : undefined;
+
+    // Server-side rate limit: wait it out without using up a retry
+    if (error instanceof QueueRequestError && errorCode === 'RATE_LIMIT_EXCEEDED') {
+      this.shrinkConcurrency(item);
+      this.nextRequestAt = Math.max(this.nextRequestAt, Date.now() + (error.retryAfter || 60) * 1000);
+      this.state.items.unshift(item);
+      return;
+    }
+
+    if (errorCode === 'QUOTA_EXCEEDED') {
+      this.shrinkConcurrency(item);
+    }
+
     item.retryCount++;
-    
+
     const errorMessage = error instanceof Error ? error.message : String(error);
-    const isRetryable = this.isRetryableError(errorMessage);
-    
+    const isRetryable = isRetryableAnalysisError(errorMessage, errorCode);
+
     if (isRetryable && item.retryCount < item.maxRetries) {
-      // Retry with exponential backoff
-      const backoffDelay = RETRY_BACKOFF_BASE * Math.pow(2, item.retryCount - 1);
-      
-      setTimeout(() => {
-        this.state.items.unshift(item); // Add back to front of queue
-        this.saveToStorage();
-        this.notifyProgress();
-      }, backoffDelay);
-      
-    } else {
-      // Permanent failure
-      this.state.statistics.errorCount++;
-      this.state.statistics.totalProcessed++;
-      
-      const errorResult: VideoAnalysisResult = {
-        id: item.request.id,
-        filename: item.request.filename,
-        status: 'error',
-        error: errorMessage,
-        createdAt: item.request.createdAt,
-        completedAt: new Date(),
-      };
-      
-      this.notifyResult(errorResult);
+      // Retry with exponential backoff, ahead of the rest of the queue
+      item.notBefore = Date.now() + RETRY_BACKOFF_BASE * Math.pow(2, item.retryCount - 1);
+      this.state.items.unshift(item);
+      return;
     }
-    
+
+    // Permanent failure
+    this.state.statistics.errorCount++;
+    this.state.statistics.totalProcessed++;
+
+    this.notifyResult({
+      id: item.request.id,
+      filename: item.request.filename,
+      contentHash: item.request.contentHash,
+      videoMetadata: item.request.videoMetadata,
+      status: 'error',
+      error: errorMessage,
+      createdAt: item.request.createdAt,
+      completedAt: new Date(),
+    });
+  }
+
+  private reportCancelled(item: QueueItem): void {
+    this.state.statistics.cancelledCount++;
+    this.state.statistics.totalProcessed++;
+    this.cancelledIds.add(item.request.id);
+
+    this.notifyResult({
+      id: item.request.id,
+      filename: item.request.filename,
+      contentHash: item.request.contentHash,
+      videoMetadata: item.request.videoMetadata,
+      status: 'cancelled',
+      createdAt: item.request.createdAt,
+      completedAt: new Date(),
+    });
+  }
+
+  // Additive increase: one more worker after a full round of successes at the current level
+  private growConcurrency(): void {
+    this.state.successStreak++;
+
+    if (this.state.successStreak >= this.state.concurrency && this.state.concurrency < this.state.maxConcurrency) {
+      this.state.concurrency++;
+      this.state.successStreak = 0;
+    }
+  }
+
+  // Multiplicative decrease, once per burst: requests already in flight when we backed off don't count again
+  private shrinkConcurrency(item: QueueItem): void {
+    const startedAt = item.lastAttempt ? item.lastAttempt.getTime() : Date.now();
+    if (startedAt < this.state.lastBackoffAt) return;
+
+    this.state.concurrency = Math.max(1, Math.floor(this.state.concurrency / 2));
+    this.state.successStreak = 0;
+    this.state.lastBackoffAt = Date.now();
+  }
+
+  // Spread request starts evenly over the rate limit window
+  private getRequestDelay(): number {
+    return Math.max(MIN_REQUEST_DELAY, 60000 / this.state.rateLimitInfo.maxRequestsPerMinute);
+  }
+
+  private scheduleNext(delay: number): void {
+    this.clearTimers();
+    this.processingTimer = setTimeout(() => this.processNext(), Math.max(0, delay));
+  }
+
+  private finishBatch(): void {
+    this.state.isProcessing = false;
+    this.state.isPaused = false;
+    this.closeBatch();
+    this.discardPersistedBatch();
     this.saveToStorage();
     this.notifyProgress();
   }
 
-  private isRetryableError(errorMessage: string): boolean {
-    const retryableErrors = [
-      'network',
-      'timeout',
-      'rate limit',
-      'temporary',
-      'service unavailable',
-      'internal server error',
-    ];
-    
-    const lowerMessage = errorMessage.toLowerCase();
-    return retryableErrors.some(error => lowerMessage.includes(error));
+  // Batches with cancelled or unsent videos never complete on the server by themselves;
+  // closing them sends batch.completed with the videos that did report
+  private closeBatch(): void {
+    const batch = this.batch;
+    this.batch = null;
+    if (!batch) return;
+
+    fetch(`/api/webhooks/batches/${encodeURIComponent(batch.id)}`, {
+      method: 'POST',
+      headers: getClientAuthHeaders(),
+    }).catch(error => console.warn('Failed to close batch:', error));
   }
 
   private clearTimers(): void {
@@ -348,61 +807,86 @@ export class VideoAnalysisQueue {
       clearTimeout(this.processingTimer);
       this.processingTimer = null;
     }
-    
-    if (this.rateLimitTimer) {
-      clearTimeout(this.rateLimitTimer);
-      this.rateLimitTimer = null;
-    }
   }
 
   private resetStatistics(): void {
-    this.state.statistics = {
-      totalProcessed: 0,
-      successCount: 0,
-      errorCount: 0,
-    };
+    this.state.statistics = emptyStatistics();
+    this.state.completionTimes = [];
+  }
+
+  private pruneCompletionTimes(): void {
+    const cutoff = Date.now() - THROUGHPUT_WINDOW;
+    this.state.completionTimes = this.state.completionTimes.filter(time => time > cutoff);
   }
 
   // Notification methods
   private notifyProgress(): void {
-    if (this.progressCallback) {
-      this.progressCallback(this.getQueueStatus());
-    }
+    this.snapshot = snapshotOf(this.state);
+    this.listeners.forEach(listener => listener());
   }
 
-  private notifyRateLimit(): void {
-    if (this.rateLimitCallback) {
-      this.rateLimitCallback(this.getRateLimitInfo());
-    }
+  private notifyResult(result: VideoAnalysisResult): void {
+    this.resultCallbacks.forEach(callback => callback(result));
   }
 
-  private notifyResult(result: VideoAnalysisResult): void {
-    if (this.resultCallback) {
-      this.resultCallback(result);
+  // Batch persistence (IndexedDB); failures only cost the ability to resume
+  private async persistBatch(requests: VideoAnalysisRequest[]): Promise<void> {
+    if (!isBatchPersistenceAvailable() || requests.length === 0) return;
+
+    try {
+      const totalBytes = requests.reduce((sum, request) => sum + request.videoFile.size, 0);
+      const quota = await checkStorageQuota(totalBytes);
+      if (!quota.ok) {
+        this.state.persistenceNotice =
+          `Not enough browser storage to save this batch for resuming (needs ${formatFileSize(quota.required)}, ` +
+          `${formatFileSize(quota.available || 0)} available). Keep this tab open until analysis finishes.`;
+        return;
+      }
+
+      await saveBatch(requests, {
+        queue: requests.map(request => request.id),
+        batchId: this.batch?.id,
+        analysisOptions: requests[0].analysisOptions!,
+        forceReanalysis: Boolean(requests[0].forceReanalysis),
+        totalVideos: requests.length,
+        startedAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+      this.batchPersisted = true;
+      this.state.persistenceNotice = null;
+    } catch (error) {
+      console.warn('Failed to persist batch:', error);
+      this.state.persistenceNotice = 'This batch could not be saved for resuming. Keep this tab open until analysis finishes.';
     }
   }
 
-  // Persistence methods
+  // Record the remaining queue; in-flight items stay first so a reload re-runs them
+  private persistQueue(): void {
+    if (!this.batchPersisted) return;
+
+    const queue = [
+      ...Array.from(this.state.inFlight.keys()),
+      ...this.state.items.map(item => item.request.id),
+    ];
+    updateBatchQueue(queue).catch(error => console.warn('Failed to persist queue:', error));
+  }
+
+  private discardPersistedBatch(): void {
+    if (!this.batchPersisted) return;
+
+    this.batchPersisted = false;
+    clearPersistedBatch().catch(error => console.warn('Failed to clear persisted batch:', error));
+  }
+
+  // Persistence methods (queue items themselves live in IndexedDB)
   private saveToStorage(): void {
     try {
-      const serializedState = {
-        ...this.state,
-        items: this.state.items.map(item => ({
-          ...item,
-          // Convert File objects to basic info (can't serialize Files)
-          request: {
-            ...item.request,
-            videoFile: {
-              name: item.request.videoFile.name,
-              size: item.request.videoFile.size,
-              type: item.request.videoFile.type,
-              // Note: File content is lost in persistence
-            } as any,
-          },
-        })),
-      };
-      
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(serializedState));
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({
+        rateLimitInfo: this.state.rateLimitInfo,
+        statistics: this.state.statistics,
+        batchTotal: this.state.batchTotal,
+        maxConcurrency: this.state.maxConcurrency,
+      }));
     } catch (error) {
       console.warn('Failed to save queue state to localStorage:', error);
     }
@@ -413,19 +897,23 @@ export class VideoAnalysisQueue {
       const stored = localStorage.getItem(STORAGE_KEY);
       if (stored) {
         const parsedState = JSON.parse(stored);
-        
-        // Note: We can't restore File objects from localStorage
-        // This is mainly for restoring queue metadata and statistics
-        if (parsedState.rateLimitInfo) {
+
+        // Only restore the rate limit window if it hasn't expired
+        if (parsedState.rateLimitInfo && parsedState.rateLimitInfo.resetTime > Date.now()) {
           this.state.rateLimitInfo = parsedState.rateLimitInfo;
         }
-        
+
         if (parsedState.statistics) {
-          this.state.statistics = parsedState.statistics;
+          this.state.statistics = { ...emptyStatistics(), ...parsedState.statistics };
+        }
+
+        if (typeof parsedState.batchTotal === 'number') {
+          this.state.batchTotal = parsedState.batchTotal;
+        }
+
+        if (typeof parsedState.maxConcurrency === 'number') {
+          this.state.maxConcurrency = clampConcurrency(parsedState.maxConcurrency);
         }
-        
-        // Don't restore items since File objects can't be serialized
-        // The UI will need to handle queue restoration differently
       }
     } catch (error) {
       console.warn('Failed to load queue state from localStorage:', error);
@@ -435,9 +923,8 @@ export class VideoAnalysisQueue {
   // Cleanup method
   destroy(): void {
     this.clearTimers();
-    this.progressCallback = undefined;
-    this.rateLimitCallback = undefined;
-    this.resultCallback = undefined;
+    this.listeners.clear();
+    this.resultCallbacks.clear();
   }
 }
 
@@ -456,4 +943,4 @@ export function destroyVideoAnalysisQueue(): void {
     queueInstance.destroy();
     queueInstance = null;
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SubtitleCue } from '@/types/video-analysis';
+import { formatSRT, parseVideoScript } from './subtitleUtils';
+
+// Every cue ends after it starts and no later than the next one starts
+function assertOrdered(cues: SubtitleCue[]): void {
+  cues.forEach((cue, index) => {
+    assert.ok(cue.end > cue.start, `cue ${index} ends at ${cue.end}, before its start ${cue.start}`);
+    const next = cues[index + 1];
+    if (next) assert.ok(cue.end <= next.start, `cue ${index} ends at ${cue.end}, after the next start ${next.start}`);
+  });
+}
+
+function timings(cues: SubtitleCue[]): [number, number][] {
+  return cues.map(cue => [cue.start, cue.end]);
+}
+
+test('cues run until the next timestamp, the last for its estimated speaking time', () => {
+  const cues = parseVideoScript('[00:00] Hello there\n[00:04] Second line\n[00:09] Done');
+
+  assert.deepEqual(cues.map(cue => cue.text), ['Hello there', 'Second line', 'Done']);
+  assert.deepEqual(timings(cues), [[0, 4], [4, 9], [9, 10.5]]);
+});
+
+test('ranges are kept, but never overlap the next cue', () => {
+  const cues = parseVideoScript('[00:00 - 00:03] First\n[00:02 - 00:06] Second\n[00:10] Third');
+
+  assert.deepEqual(timings(cues), [[0, 2], [2, 6], [10, 11.5]]);
+  assertOrdered(cues);
+});
+
+test('ranges that end before they start fall back to the next timestamp', () => {
+  const cues = parseVideoScript('[00:05 - 00:02] Backwards\n[00:08] Next\n[00:20 - 00:20] Empty range');
+
+  assert.deepEqual(timings(cues), [[5, 8], [8, 20], [20, 21.5]]);
+  assertOrdered(cues);
+});
+
+test('lines sharing a timestamp become one cue', () => {
+  const cues = parseVideoScript('[00:03] One\n[00:03] Two\n[00:06] Three');
+
+  assert.deepEqual(cues.map(cue => cue.text), ['One Two', 'Three']);
+  assert.deepEqual(timings(cues), [[3, 6], [6, 7.5]]);
+});
+
+test('out-of-order timestamps are sorted', () => {
+  const cues = parseVideoScript('[00:10] Later\n[00:02] Earlier');
+
+  assert.deepEqual(cues.map(cue => cue.text), ['Earlier', 'Later']);
+  assertOrdered(cues);
+});
+
+test('malformed timestamps neither split the script nor show up in the text', () => {
+  const cues = parseVideoScript('[00:01] Start [00:75] still start\n[01:99:00] more\n[00:05] End');
+
+  assert.deepEqual(cues.map(cue => cue.text), ['Start still start more', 'End']);
+  assert.deepEqual(timings(cues), [[1, 5], [5, 6.5]]);
+});
+
+test('malformed range ends are ignored', () => {
+  const cues = parseVideoScript('[00:01 - 00:99] Broken end\n[00:04] Next');
+
+  assert.deepEqual(timings(cues), [[1, 4], [4, 5.5]]);
+});
+
+test('scripts without valid timestamps or speech produce no cues', () => {
+  assert.deepEqual(parseVideoScript(undefined), []);
+  assert.deepEqual(parseVideoScript('Just a transcript without times'), []);
+  assert.deepEqual(parseVideoScript('[00:61] Only a malformed timestamp'), []);
+  assert.deepEqual(parseVideoScript('[00:00] No spoken content detected'), []);
+});
+
+test('text before the first timestamp starts at 0:00', () => {
+  const cues = parseVideoScript('Intro words [00:02] After');
+
+  assert.deepEqual(timings(cues), [[0, 2], [2, 3.5]]);
+});
+
+test('long segments are split into ordered cues within their time', () => {
+  const sentence = 'This sentence is long enough that it cannot fit on a single caption line. ';
+  const cues = parseVideoScript(`[00:00] ${sentence.repeat(4)}\n[00:20] Next`);
+
+  assert.ok(cues.length > 2);
+  assertOrdered(cues);
+  assert.equal(cues[cues.length - 2].end, 20);
+  assert.match(formatSRT(cues), /^1\n00:00:00,000 --> /);
+});
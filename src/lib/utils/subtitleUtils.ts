@@ -0,0 +1,192 @@
+import { SubtitleCue, SubtitleFormat } from '@/types/video-analysis';
+
+// Caption layout: two lines of up to 42 characters, the usual broadcast limit
+const MAX_LINE_LENGTH = 42;
+const MAX_CUE_LENGTH = MAX_LINE_LENGTH * 2;
+
+// Timing for cues without an end time
+const WORDS_PER_SECOND = 2.5; // typical speaking rate
+const MIN_CUE_DURATION = 1.5;
+
+// [MM:SS], [HH:MM:SS], optional milliseconds, optional "- end" range
+const TIME_PATTERN = String.raw`(?:\d{1,2}:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?`;
+const TIMESTAMP_PATTERN = new RegExp(String.raw`\[\s*(${TIME_PATTERN})\s*(?:[-–—]|-->)?\s*(${TIME_PATTERN})?\s*\]`, 'g');
+
+// What the prompt asks the model to return for videos without speech
+const NO_SPEECH_PATTERN = /^\W*no spoken content( detected)?\W*$/i;
+
+interface ScriptSegment {
+  start: number;
+  end?: number;
+  text: string;
+}
+
+// Seconds, or null when a minutes or seconds field is out of range (e.g. [00:75])
+function parseTime(value: string): number | null {
+  const [clock, fraction = '0'] = value.replace(',', '.').split('.');
+  const parts = clock.split(':').map(part => parseInt(part, 10));
+  if (parts.slice(1).some(part => part >= 60)) return null;
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds + parseInt(fraction.padEnd(3, '0').slice(0, 3), 10) / 1000;
+}
+
+function estimateDuration(text: string): number {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  return Math.max(MIN_CUE_DURATION, words / WORDS_PER_SECOND);
+}
+
+// Split the script at its timestamps; text before the first one starts at 0:00.
+// Malformed timestamps are dropped from the text and don't split it.
+function splitScript(script: string): ScriptSegment[] {
+  const segments: ScriptSegment[] = [];
+  const matches = Array.from(script.matchAll(TIMESTAMP_PATTERN)).filter(match => parseTime(match[1]) !== null);
+  if (matches.length === 0) return segments;
+
+  const leadingText = script.slice(0, matches[0].index).trim();
+  if (leadingText) {
+    segments.push({ start: 0, end: parseTime(matches[0][1])!, text: leadingText });
+  }
+
+  matches.forEach((match, index) => {
+    const textEnd = index + 1 < matches.length ? matches[index + 1].index : script.length;
+    segments.push({
+      start: parseTime(match[1])!,
+      end: match[2] ? parseTime(match[2]) ?? undefined : undefined,
+      text: script.slice(match.index! + match[0].length, textEnd).trim(),
+    });
+  });
+
+  return segments
+    .map(segment => ({
+      ...segment,
+      text: segment.text.replace(TIMESTAMP_PATTERN, ' ').replace(/\s+/g, ' ').trim().replace(/^[-–—:]\s*/, ''),
+    }))
+    .filter(segment => segment.text && !NO_SPEECH_PATTERN.test(segment.text))
+    .sort((a, b) => a.start - b.start)
+    .reduce<ScriptSegment[]>((merged, segment) => {
+      // Lines sharing a timestamp become one segment, so every cue gets time of its own
+      const previous = merged[merged.length - 1];
+      if (previous && previous.start === segment.start) {
+        previous.text = `${previous.text} ${segment.text}`;
+        previous.end = Math.max(previous.end ?? 0, segment.end ?? 0) || undefined;
+      } else {
+        merged.push(segment);
+      }
+      return merged;
+    }, []);
+}
+
+// Break long text into caption-sized chunks, preferring sentence boundaries
+function chunkText(text: string): string[] {
+  if (text.length <= MAX_CUE_LENGTH) return [text];
+
+  const chunks: string[] = [];
+  let current = '';
+  const sentences = text.match(/[^.!?]+[.!?]*\s*/g) || [text];
+
+  for (const sentence of sentences) {
+    for (const word of sentence.trim().split(' ')) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (candidate.length > MAX_CUE_LENGTH && current) {
+        chunks.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    }
+    // Start a new cue after a sentence once the current one is reasonably full
+    if (current.length > MAX_CUE_LENGTH / 2) {
+      chunks.push(current);
+      current = '';
+    }
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
+
+// Wrap a cue onto two balanced lines when it doesn't fit on one
+function wrapLines(text: string): string {
+  if (text.length <= MAX_LINE_LENGTH) return text;
+
+  const middle = text.length / 2;
+  let breakAt = -1;
+  for (let index = text.indexOf(' '); index !== -1; index = text.indexOf(' ', index + 1)) {
+    if (breakAt === -1 || Math.abs(index - middle) < Math.abs(breakAt - middle)) {
+      breakAt = index;
+    }
+  }
+  return breakAt === -1 ? text : `${text.slice(0, breakAt)}\n${text.slice(breakAt + 1)}`;
+}
+
+/**
+ * Turn a video script with [MM:SS] timestamps into subtitle cues.
+ * Segments without an end time run until the next timestamp, or for an
+ * estimated speaking time when they are last. Scripts without timestamps
+ * or without speech ("No spoken content detected") produce no cues.
+ */
+export function parseVideoScript(script: string | undefined): SubtitleCue[] {
+  if (!script) return [];
+
+  const segments = splitScript(script);
+  const cues: SubtitleCue[] = [];
+
+  segments.forEach((segment, index) => {
+    // Starts are unique and ascending, so the next start is always after this one
+    const nextStart: number | undefined = segments[index + 1]?.start;
+    const hasEnd = segment.end !== undefined && segment.end > segment.start;
+
+    // Ends before the start are ignored, and no cue overlaps the next one
+    let end = hasEnd ? segment.end! : nextStart ?? segment.start + estimateDuration(segment.text);
+    if (nextStart !== undefined) end = Math.min(end, nextStart);
+
+    // Long segments become several cues sharing the time by text length
+    const chunks = chunkText(segment.text);
+    const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    let chunkStart = segment.start;
+
+    chunks.forEach(chunk => {
+      const chunkEnd = chunkStart + (end - segment.start) * (chunk.length / totalLength);
+      cues.push({ start: chunkStart, end: chunkEnd, text: wrapLines(chunk) });
+      chunkStart = chunkEnd;
+    });
+  });
+
+  return cues;
+}
+
+function formatCueTime(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+export function formatSRT(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue, index) =>
+      `${index + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.text}\n`
+    )
+    .join('\n');
+}
+
+export function formatVTT(cues: SubtitleCue[]): string {
+  const body = cues
+    .map(cue => `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${cue.text}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
+
+export function formatSubtitles(cues: SubtitleCue[], format: SubtitleFormat): string {
+  return format === 'srt' ? formatSRT(cues) : formatVTT(cues);
+}
+
+// Subtitle filename for a video: same base name, subtitle extension
+export function getSubtitleFilename(videoFilename: string, format: SubtitleFormat): string {
+  const baseName = videoFilename.split(/[\\/]/).pop() || 'video';
+  const dot = baseName.lastIndexOf('.');
+  return `${dot > 0 ? baseName.slice(0, dot) : baseName}.${format}`;
+}
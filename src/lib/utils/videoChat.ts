@@ -0,0 +1,189 @@
+import { VideoAnalysisResult } from '@/types/video-analysis';
+import { formatFieldValue, getHookCategoryLabel, HOOK_FIELD_KEYS } from './analysisFields';
+
+// Chat grounded in analysis results: the browser picks the videos relevant to
+// a question and sends them as context; the chat routes turn it into the system prompt
+
+export type ChatProviderId = 'openai' | 'anthropic';
+
+export const CHAT_PROVIDERS: Array<{ id: ChatProviderId; label: string; api: string }> = [
+  { id: 'openai', label: 'OpenAI', api: '/api/openai/chat' },
+  { id: 'anthropic', label: 'Anthropic', api: '/api/anthropic/chat' },
+];
+
+// Sent with each chat request as the "videoContext" body property
+export interface VideoChatContext {
+  documents: string; // one block per video, headed by its filename
+  filenames: string[]; // videos included in documents
+  totalVideos: number; // videos the question was asked about
+  retrieved: boolean; // true when only the most relevant videos were included
+}
+
+// Upper bound of the context sent with a question (roughly 20k tokens)
+export const MAX_CONTEXT_CHARS = 80000;
+
+// Transcripts are cut to this length when videos are retrieved, so more of them fit
+const RETRIEVED_TRANSCRIPT_CHARS = 4000;
+
+// Most videos included once a question needs retrieval
+const MAX_RETRIEVED_VIDEOS = 15;
+
+const DEFAULT_SYSTEM_PROMPT = 'You are a helpful AI assistant';
+
+// BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'all', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from',
+  'had', 'has', 'have', 'how', 'i', 'in', 'is', 'it', 'its', 'me', 'most', 'my', 'of', 'on', 'or', 'our', 'so',
+  'that', 'the', 'their', 'them', 'these', 'they', 'this', 'those', 'to', 'us', 'was', 'we', 'what', 'when',
+  'where', 'which', 'who', 'why', 'with', 'you', 'your', 'ad', 'ads', 'video', 'videos', 'one', 'ones',
+]);
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(word => word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word);
+}
+
+/**
+ * Render one result as a plain-text document for the model
+ */
+export function formatVideoDocument(result: VideoAnalysisResult, maxTranscriptChars?: number): string {
+  const lines = [`### ${result.filename}`];
+
+  if (result.visualHook) lines.push(`Visual hook: ${result.visualHook}`);
+  if (result.textHook) lines.push(`Text hook: ${result.textHook}`);
+  if (result.voiceHook) lines.push(`Voice hook: ${result.voiceHook}`);
+  HOOK_FIELD_KEYS.forEach(key => {
+    const classification = result.hookCategories?.[key];
+    if (classification) lines.push(`${getHookCategoryLabel(key)}: ${classification.category}`);
+  });
+  if (result.painPoint) lines.push(`Pain point: ${result.painPoint}`);
+  Object.values(result.customFields || {}).forEach(field => {
+    lines.push(`${field.label}: ${formatFieldValue(field.value)}`);
+  });
+
+  if (result.videoScript) {
+    const transcript = maxTranscriptChars && result.videoScript.length > maxTranscriptChars
+      ? `${result.videoScript.slice(0, maxTranscriptChars)} [transcript truncated]`
+      : result.videoScript;
+    lines.push(`Transcript:\n${transcript}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Rank results by BM25 relevance of their analysis to the question.
+ * Returns indexes into results, best first; videos sharing no terms are left out.
+ */
+export function rankVideosByRelevance(question: string, results: VideoAnalysisResult[]): number[] {
+  const queryTerms = Array.from(new Set(tokenize(question)));
+  if (queryTerms.length === 0) return [];
+
+  const documents = results.map(result => tokenize(formatVideoDocument(result)));
+  const averageLength = documents.reduce((sum, tokens) => sum + tokens.length, 0) / Math.max(documents.length, 1);
+
+  const documentFrequency = new Map<string, number>();
+  documents.forEach(tokens => {
+    new Set(tokens).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+  });
+
+  const scores = documents.map((tokens, index) => {
+    const termCounts = new Map<string, number>();
+    tokens.forEach(term => termCounts.set(term, (termCounts.get(term) || 0) + 1));
+
+    const score = queryTerms.reduce((sum, term) => {
+      const frequency = termCounts.get(term) || 0;
+      if (frequency === 0) return sum;
+      const df = documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      const norm = frequency + BM25_K1 * (1 - BM25_B + BM25_B * tokens.length / (averageLength || 1));
+      return sum + idf * (frequency * (BM25_K1 + 1)) / norm;
+    }, 0);
+
+    return { index, score };
+  });
+
+  return scores
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ index }) => index);
+}
+
+/**
+ * Choose the context for a question. Small selections are sent whole;
+ * when they don't fit, the most relevant videos are retrieved instead.
+ */
+export function buildVideoChatContext(question: string, results: VideoAnalysisResult[]): VideoChatContext {
+  const analyzed = results.filter(result => result.status === 'completed');
+  const fullDocuments = analyzed.map(result => formatVideoDocument(result));
+  const fullLength = fullDocuments.reduce((sum, document) => sum + document.length + 2, 0);
+
+  if (fullLength <= MAX_CONTEXT_CHARS) {
+    return {
+      documents: fullDocuments.join('\n\n'),
+      filenames: analyzed.map(result => result.filename),
+      totalVideos: analyzed.length,
+      retrieved: false,
+    };
+  }
+
+  const documents: string[] = [];
+  const filenames: string[] = [];
+  let length = 0;
+
+  // Relevant videos first; the rest fill any room left (e.g. for questions about the whole batch)
+  const ranked = rankVideosByRelevance(question, analyzed);
+  const order = [...ranked, ...analyzed.map((_, index) => index).filter(index => !ranked.includes(index))];
+
+  for (const index of order) {
+    const document = formatVideoDocument(analyzed[index], RETRIEVED_TRANSCRIPT_CHARS);
+    if (length + document.length > MAX_CONTEXT_CHARS) break;
+    documents.push(document);
+    filenames.push(analyzed[index].filename);
+    length += document.length + 2;
+    if (documents.length >= MAX_RETRIEVED_VIDEOS) break;
+  }
+
+  return {
+    documents: documents.join('\n\n'),
+    filenames,
+    totalVideos: analyzed.length,
+    retrieved: true,
+  };
+}
+
+/**
+ * System prompt of the chat routes. Without video context the routes keep
+ * their generic assistant prompt.
+ */
+export function buildChatSystemPrompt(context: Partial<VideoChatContext> | undefined): string {
+  if (!context || typeof context.documents !== 'string' || !context.documents) {
+    return DEFAULT_SYSTEM_PROMPT;
+  }
+
+  const documents = context.documents.slice(0, MAX_CONTEXT_CHARS);
+  const coverage = context.retrieved
+    ? `These are the ${context.filenames?.length ?? 0} videos most relevant to the question, out of ${context.totalVideos} analyzed videos. Say so when the answer may depend on videos that are not included.`
+    : `These are all ${context.totalVideos} videos the user asked about.`;
+
+  return `You help a marketing team understand their video ads. Answer questions using only the video analyses below: hooks, pain points, custom fields and transcripts.
+
+${coverage}
+
+Cite every video you draw on by its filename in square brackets, e.g. [summer_sale.mp4]. If the analyses don't answer the question, say so instead of guessing.
+
+${documents}`;
+}
+
+/**
+ * Filenames cited in an answer as [filename], limited to the known videos
+ */
+export function findCitedFilenames(answer: string, filenames: string[]): string[] {
+  return filenames.filter(filename => answer.includes(`[${filename}]`));
+}
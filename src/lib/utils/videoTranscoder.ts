@@ -0,0 +1,217 @@
+/**
+ * In-Browser Transcoding
+ *
+ * Downscales and re-encodes videos before upload, so 4K and oversized files
+ * become analyzable and cheaper to send. The video is played into a canvas at
+ * the target resolution and recorded with the browser's own encoders
+ * (MediaRecorder), with the audio routed through Web Audio. This runs in real
+ * time: a 30 second video takes about 30 seconds.
+ */
+
+import { writeMatroskaDuration } from './containerMetadata';
+import { calculateCompressionRatio, shouldCompressVideo } from './videoUtils';
+
+export interface TranscodeSettings {
+  enabled: boolean;
+  maxShortSide: number; // 720 for 720p (the short side, so portrait videos become 720x1280)
+  targetSizeMB: number; // videos above this size are re-encoded even at low resolution
+}
+
+export const TRANSCODE_RESOLUTIONS = [1080, 720, 480];
+
+export const DEFAULT_TRANSCODE_SETTINGS: TranscodeSettings = {
+  enabled: true,
+  maxShortSide: 720,
+  targetSizeMB: 50,
+};
+
+// Bitrates that look clean at each resolution; lowered further to fit targetSizeMB
+const VIDEO_BITRATES: Record<number, number> = {
+  1080: 5000000,
+  720: 2500000,
+  480: 1200000,
+};
+const AUDIO_BITRATE = 128000;
+const MIN_VIDEO_BITRATE = 400000;
+const FRAME_RATE = 30;
+
+// MP4 first where the browser can record it; WebM is accepted by every provider too
+const OUTPUT_TYPES = [
+  { mimeType: 'video/mp4;codecs=avc1,mp4a.40.2', extension: 'mp4' },
+  { mimeType: 'video/mp4', extension: 'mp4' },
+  { mimeType: 'video/webm;codecs=vp9,opus', extension: 'webm' },
+  { mimeType: 'video/webm;codecs=vp8,opus', extension: 'webm' },
+  { mimeType: 'video/webm', extension: 'webm' },
+];
+
+export class TranscodeError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'TranscodeError';
+  }
+}
+
+export function isTranscodingSupported(): boolean {
+  return typeof window !== 'undefined'
+    && typeof MediaRecorder !== 'undefined'
+    && typeof AudioContext !== 'undefined'
+    && typeof HTMLCanvasElement.prototype.captureStream === 'function'
+    && OUTPUT_TYPES.some(type => MediaRecorder.isTypeSupported(type.mimeType));
+}
+
+/**
+ * Output size with the short side capped at maxShortSide, keeping the aspect
+ * ratio. Dimensions are rounded to even numbers, which encoders require.
+ */
+export function getTranscodeDimensions(width: number, height: number, maxShortSide: number): { width: number; height: number } {
+  const scale = Math.min(1, maxShortSide / Math.min(width, height));
+  const even = (value: number) => Math.max(2, Math.round(value * scale / 2) * 2);
+  return { width: even(width), height: even(height) };
+}
+
+/**
+ * Video bitrate for the output: the resolution's default, lowered when the
+ * source would otherwise still exceed the target size
+ */
+export function getTranscodeBitrate(fileSize: number, duration: number, settings: TranscodeSettings): number {
+  const defaultBitrate = VIDEO_BITRATES[settings.maxShortSide] ?? VIDEO_BITRATES[720];
+  if (!duration || !Number.isFinite(duration)) return defaultBitrate;
+
+  const sourceBitrate = fileSize * 8 / duration;
+  const budget = sourceBitrate * calculateCompressionRatio(fileSize, settings.targetSizeMB) * 0.9 - AUDIO_BITRATE;
+  return Math.round(Math.max(MIN_VIDEO_BITRATE, Math.min(defaultBitrate, budget)));
+}
+
+function getOutputName(filename: string, extension: string): string {
+  const dot = filename.lastIndexOf('.');
+  return `${dot > 0 ? filename.slice(0, dot) : filename}.${extension}`;
+}
+
+function loadVideo(file: File): Promise<HTMLVideoElement> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.preload = 'auto';
+    video.playsInline = true;
+    video.addEventListener('loadedmetadata', () => resolve(video), { once: true });
+    video.addEventListener('error', () => {
+      URL.revokeObjectURL(video.src);
+      reject(new TranscodeError(`${file.name} could not be decoded by this browser`, 'UNSUPPORTED_FORMAT'));
+    }, { once: true });
+    video.src = URL.createObjectURL(file);
+  });
+}
+
+/**
+ * Re-encode a video at the target resolution and bitrate. Resolves to null
+ * when the video is already small enough or re-encoding would not shrink it.
+ */
+export async function transcodeVideo(
+  file: File,
+  settings: TranscodeSettings,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<File | null> {
+  if (!isTranscodingSupported()) {
+    throw new TranscodeError('This browser cannot re-encode video', 'UNSUPPORTED_BROWSER');
+  }
+
+  const video = await loadVideo(file);
+  if (signal?.aborted) {
+    URL.revokeObjectURL(video.src);
+    throw new TranscodeError('Transcoding was cancelled', 'CANCELLED');
+  }
+  const cleanup: Array<() => void> = [() => {
+    video.pause();
+    URL.revokeObjectURL(video.src);
+  }];
+
+  try {
+    const needsDownscale = Math.min(video.videoWidth, video.videoHeight) > settings.maxShortSide;
+    if (!needsDownscale && !shouldCompressVideo(file, settings.targetSizeMB)) {
+      return null;
+    }
+
+    const { width, height } = getTranscodeDimensions(video.videoWidth, video.videoHeight, settings.maxShortSide);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new TranscodeError('Canvas is not available', 'UNSUPPORTED_BROWSER');
+    }
+
+    // The audio goes to the recording only, not to the speakers
+    const audioContext = new AudioContext();
+    cleanup.push(() => { audioContext.close().catch(() => undefined); });
+    const destination = audioContext.createMediaStreamDestination();
+    audioContext.createMediaElementSource(video).connect(destination);
+
+    const stream = canvas.captureStream(FRAME_RATE);
+    destination.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+    cleanup.push(() => stream.getTracks().forEach(track => track.stop()));
+
+    const output = OUTPUT_TYPES.find(type => MediaRecorder.isTypeSupported(type.mimeType))!;
+    const recorder = new MediaRecorder(stream, {
+      mimeType: output.mimeType,
+      videoBitsPerSecond: getTranscodeBitrate(file.size, video.duration, settings),
+      audioBitsPerSecond: AUDIO_BITRATE,
+    });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+
+    const recorded = new Promise<Blob>((resolve, reject) => {
+      recorder.onstop = () => {
+        if (signal?.aborted) {
+          reject(new TranscodeError('Transcoding was cancelled', 'CANCELLED'));
+        } else {
+          resolve(new Blob(chunks, { type: output.mimeType.split(';')[0] }));
+        }
+      };
+      recorder.onerror = () => reject(new TranscodeError(`Recording ${file.name} failed`, 'ENCODING_FAILED'));
+      video.addEventListener('ended', () => recorder.state !== 'inactive' && recorder.stop(), { once: true });
+      video.addEventListener('error', () => {
+        if (recorder.state !== 'inactive') recorder.stop();
+        reject(new TranscodeError(`${file.name} stopped playing while transcoding`, 'DECODE_FAILED'));
+      }, { once: true });
+      signal?.addEventListener('abort', () => recorder.state !== 'inactive' && recorder.stop(), { once: true });
+    });
+
+    // Copy each decoded frame into the canvas until playback ends
+    let drawing = true;
+    cleanup.push(() => { drawing = false; });
+    const drawFrame = () => {
+      if (!drawing) return;
+      ctx.drawImage(video, 0, 0, width, height);
+      if (video.duration) onProgress?.(Math.min(1, video.currentTime / video.duration));
+      requestAnimationFrame(drawFrame);
+    };
+
+    await audioContext.resume();
+    recorder.start(1000);
+    try {
+      await video.play();
+    } catch {
+      recorder.stop();
+      throw new TranscodeError('The browser blocked playback; click anywhere on the page and try again', 'PLAYBACK_BLOCKED');
+    }
+    drawFrame();
+
+    // MediaRecorder's WebM has no duration; without one the player reports
+    // Infinity and the output could not be checked or seeked
+    const recording = await recorded;
+    const blob = output.extension === 'webm'
+      ? await writeMatroskaDuration(recording, Number.isFinite(video.duration) ? video.duration : video.currentTime)
+      : recording;
+    onProgress?.(1);
+
+    // Keep the original when re-encoding did not help (e.g. an already efficient small file)
+    if (!needsDownscale && blob.size >= file.size) {
+      return null;
+    }
+    return new File([blob], getOutputName(file.name, output.extension), { type: blob.type, lastModified: Date.now() });
+  } finally {
+    cleanup.reverse().forEach(step => step());
+  }
+}
@@ -1,12 +1,16 @@
 import { 
   VideoValidationResult, 
   VideoMetadata, 
+  VideoFileMetadata,
+  ContainerMetadata,
   SUPPORTED_VIDEO_FORMATS, 
-  MAX_VIDEO_SIZE_BYTES 
+  MAX_FILE_UPLOAD_SIZE_BYTES,
+  VideoKeyframe
 } from '@/types/video-analysis';
+import { parseContainerMetadata, ParsedContainer } from './containerMetadata';
 
-// Video validation functions
-export function validateVideoFile(file: File): VideoValidationResult {
+// Video validation functions (only name, size and type are inspected, so files on disk can be checked too)
+export function validateVideoFile(file: Pick<File, 'name' | 'size' | 'type'>): VideoValidationResult {
   const errors: string[] = [];
 
   // Check if file exists
@@ -17,9 +21,9 @@ export function validateVideoFile(file: File): VideoValidationResult {
     };
   }
 
-  // Check file size
-  if (file.size > MAX_VIDEO_SIZE_BYTES) {
-    const maxSizeMB = MAX_VIDEO_SIZE_BYTES / (1024 * 1024);
+  // Check file size (large videos are routed through the Gemini Files API)
+  if (file.size > MAX_FILE_UPLOAD_SIZE_BYTES) {
+    const maxSizeMB = MAX_FILE_UPLOAD_SIZE_BYTES / (1024 * 1024);
     const actualSizeMB = (file.size / (1024 * 1024)).toFixed(2);
     errors.push(`File too large: ${actualSizeMB}MB (max ${maxSizeMB}MB)`);
   }
@@ -54,8 +58,10 @@ export function validateVideoFile(file: File): VideoValidationResult {
   };
 }
 
-// Extract video metadata
-export function extractVideoMetadata(file: File): Promise<VideoMetadata> {
+const PLAYER_METADATA_TIMEOUT = 15000;
+
+// Duration, displayed size and a thumbnail, as the browser's player sees the video
+function readPlayerMetadata(file: File): Promise<Pick<VideoMetadata, 'duration' | 'dimensions' | 'thumbnail'>> {
   return new Promise((resolve, reject) => {
     const video = document.createElement('video');
     const canvas = document.createElement('canvas');
@@ -63,18 +69,13 @@ export function extractVideoMetadata(file: File): Promise<VideoMetadata> {
     
     let thumbnailGenerated = false;
 
-    video.addEventListener('loadedmetadata', () => {
-      const metadata: VideoMetadata = {
-        duration: video.duration,
-        dimensions: {
-          width: video.videoWidth,
-          height: video.videoHeight,
-        },
-        fileSize: file.size,
-        format: getFileExtension(file.name),
-        thumbnail: '', // Will be set when thumbnail is generated
-      };
+    // Some videos load but never seek (e.g. HEVC without a hardware decoder)
+    const timeout = setTimeout(() => {
+      URL.revokeObjectURL(video.src);
+      reject(new Error('Timed out reading the video'));
+    }, PLAYER_METADATA_TIMEOUT);
 
+    video.addEventListener('loadedmetadata', () => {
       // Generate thumbnail at 1 second mark
       video.currentTime = Math.min(1, video.duration * 0.1); // 10% into video or 1 second
     });
@@ -82,6 +83,7 @@ export function extractVideoMetadata(file: File): Promise<VideoMetadata> {
     video.addEventListener('seeked', () => {
       if (!thumbnailGenerated && ctx) {
         thumbnailGenerated = true;
+        clearTimeout(timeout);
         
         try {
           canvas.width = video.videoWidth;
@@ -89,26 +91,26 @@ export function extractVideoMetadata(file: File): Promise<VideoMetadata> {
           ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
           
           const thumbnail = canvas.toDataURL('image/jpeg', 0.7);
+          URL.revokeObjectURL(video.src);
           
-          const metadata: VideoMetadata = {
+          resolve({
             duration: video.duration,
             dimensions: {
               width: video.videoWidth,
               height: video.videoHeight,
             },
-            fileSize: file.size,
-            format: getFileExtension(file.name),
             thumbnail,
-          };
-          
-          resolve(metadata);
+          });
         } catch (error) {
+          URL.revokeObjectURL(video.src);
           reject(new Error(`Failed to generate thumbnail: ${error instanceof Error ? error.message : 'Unknown error'}`));
         }
       }
     });
 
     video.addEventListener('error', (event) => {
+      clearTimeout(timeout);
+      URL.revokeObjectURL(video.src);
       const error = video.error;
       let errorMessage = 'Failed to load video';
       
@@ -145,6 +147,45 @@ export function extractVideoMetadata(file: File): Promise<VideoMetadata> {
   });
 }
 
+// Extract video metadata: what the container records (codec, frame rate, bitrate,
+// audio...) plus the player's duration, size and thumbnail. Files the browser cannot
+// play still get the container details, without a thumbnail.
+export async function extractVideoMetadata(file: File): Promise<VideoMetadata> {
+  const [container, player] = await Promise.all([
+    parseContainerMetadata(file).catch((): ParsedContainer => ({})),
+    readPlayerMetadata(file).catch((error: Error) => error),
+  ]);
+  if (player instanceof Error && !container.videoCodec) {
+    throw player;
+  }
+  return combineVideoMetadata(file, container, player instanceof Error ? undefined : player);
+}
+
+// Video metadata from the container's details and, when the file could be played, the player's
+export function combineVideoMetadata(
+  file: Pick<File, 'name' | 'size'>,
+  container: ParsedContainer,
+  played?: Pick<VideoMetadata, 'duration' | 'dimensions' | 'thumbnail'>
+): VideoMetadata {
+  const { duration: containerDuration, width = 0, height = 0, ...details } = container;
+  // The player's duration, or the container's when the player has none (Infinity for some WebM files)
+  const duration = played && Number.isFinite(played.duration) ? played.duration : containerDuration ?? 0;
+  // The container stores the coded size; the player reports it after rotation
+  const turned = details.rotation === 90 || details.rotation === 270;
+
+  return {
+    ...details,
+    bitrate: details.bitrate ?? (duration > 0 ? Math.round(file.size * 8 / duration) : undefined),
+    duration,
+    dimensions: played?.dimensions.width
+      ? played.dimensions
+      : { width: turned ? height : width, height: turned ? width : height },
+    fileSize: file.size,
+    format: getFileExtension(file.name),
+    thumbnail: played?.thumbnail ?? '',
+  };
+}
+
 // Generate video thumbnail
 export function generateVideoThumbnail(file: File, timeSeconds: number = 1): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -197,6 +238,79 @@ export function generateVideoThumbnail(file: File, timeSeconds: number = 1): Pro
   });
 }
 
+// Compute the SHA-256 of a video's contents as a hex string (used as the result cache key)
+export async function computeFileHash(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Sample evenly spaced keyframes for providers that cannot ingest video.
+// With endTime only the opening part of the video is sampled (hook-window mode).
+export function extractKeyframes(file: File, count: number = 8, maxWidth: number = 512, endTime?: number): Promise<VideoKeyframe[]> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    
+    if (!ctx) {
+      reject(new Error('Canvas 2D context not supported'));
+      return;
+    }
+
+    const keyframes: VideoKeyframe[] = [];
+    let timestamps: number[] = [];
+
+    video.addEventListener('loadedmetadata', () => {
+      const scale = Math.min(1, maxWidth / video.videoWidth);
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+
+      // Sample at the midpoint of each equal segment, so the first frame lands early in the hook
+      const videoDuration = isFinite(video.duration) ? video.duration : 0;
+      const duration = endTime !== undefined ? Math.min(videoDuration, endTime) : videoDuration;
+      timestamps = Array.from({ length: count }, (_, i) => (duration * (i + 0.5)) / count);
+      video.currentTime = timestamps[0];
+    });
+
+    video.addEventListener('seeked', () => {
+      try {
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+        keyframes.push({
+          timestamp: timestamps[keyframes.length],
+          dataUrl: canvas.toDataURL('image/jpeg', 0.7),
+        });
+
+        if (keyframes.length < timestamps.length) {
+          video.currentTime = timestamps[keyframes.length];
+          return;
+        }
+
+        URL.revokeObjectURL(video.src);
+        resolve(keyframes);
+      } catch (error) {
+        URL.revokeObjectURL(video.src);
+        reject(new Error(`Failed to extract keyframes: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      }
+    });
+
+    video.addEventListener('error', () => {
+      URL.revokeObjectURL(video.src);
+      reject(new Error('Failed to load video for keyframe extraction'));
+    });
+
+    // Set video source
+    try {
+      video.src = URL.createObjectURL(file);
+      video.muted = true;
+      video.preload = 'auto';
+    } catch (error) {
+      reject(new Error(`Failed to create video object URL: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    }
+  });
+}
+
 // File utility functions
 export function getFileExtension(filename: string): string {
   const parts = filename.toLowerCase().split('.');
@@ -244,6 +358,131 @@ export function formatVideoDimensions(width: number, height: number): string {
   return `${width} × ${height}`;
 }
 
+export function formatBitrate(bitsPerSecond: number): string {
+  return bitsPerSecond >= 1000000
+    ? `${(bitsPerSecond / 1000000).toFixed(1)} Mbps`
+    : `${Math.round(bitsPerSecond / 1000)} kbps`;
+}
+
+// Audio track in one line, e.g. "AAC stereo, 48 kHz" or "No audio"
+export function formatAudioSummary(metadata: ContainerMetadata): string {
+  if (metadata.hasAudio === undefined) return '';
+  if (!metadata.hasAudio) return 'No audio';
+  const track = [metadata.audioCodec, metadata.channelLayout].filter(Boolean).join(' ') || 'Audio';
+  return metadata.audioSampleRate ? `${track}, ${metadata.audioSampleRate / 1000} kHz` : track;
+}
+
+// Channel counts of the layouts describeChannelLayout writes by name
+const CHANNEL_LAYOUT_COUNTS: Record<string, number> = { mono: 1, stereo: 2, '5.1': 6, '7.1': 8 };
+
+/**
+ * Audio fields from a formatAudioSummary text, e.g. "AAC stereo, 48 kHz",
+ * for importing exported results
+ */
+export function parseAudioSummary(summary: string): ContainerMetadata {
+  if (!summary) return {};
+  if (summary === 'No audio') return { hasAudio: false };
+
+  const [track, rate] = summary.split(', ');
+  const layout = track.match(/^(?:(.*) )?(mono|stereo|5\.1|7\.1|(\d+) channels)$/);
+  const codec = layout ? layout[1] : track !== 'Audio' ? track : undefined;
+  const kilohertz = rate?.match(/^([\d.]+) kHz$/);
+  return {
+    hasAudio: true,
+    audioCodec: codec || undefined,
+    audioChannels: layout ? CHANNEL_LAYOUT_COUNTS[layout[2]] ?? Number(layout[3]) : undefined,
+    channelLayout: layout?.[2],
+    audioSampleRate: kilohertz ? Math.round(Number(kilohertz[1]) * 1000) : undefined,
+  };
+}
+
+function parseOptionalNumber(cell: string): number | undefined {
+  const value = parseFloat(cell);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+const CONTAINERS: Array<NonNullable<ContainerMetadata['container']>> = ['mp4', 'mov', 'webm', 'mkv'];
+
+export function parseContainerName(value: string): ContainerMetadata['container'] {
+  return CONTAINERS.find(container => container === value);
+}
+
+// Summary lines, e.g. "0:32 · 1080 × 1920 · H.264 · 30 fps · 8.2 Mbps" and "AAC stereo, 48 kHz · rotated 90°"
+export function describeVideoMetadata(metadata: VideoFileMetadata): string[] {
+  const video = [
+    metadata.duration ? formatDuration(metadata.duration) : '',
+    metadata.dimensions.width ? formatVideoDimensions(metadata.dimensions.width, metadata.dimensions.height) : '',
+    metadata.videoCodec || '',
+    metadata.frameRate ? `${metadata.frameRate} fps` : '',
+    metadata.bitrate ? formatBitrate(metadata.bitrate) : '',
+  ];
+  const audio = [
+    formatAudioSummary(metadata),
+    metadata.rotation ? `rotated ${metadata.rotation}°` : '',
+  ];
+  return [video.filter(Boolean).join(' · '), audio.filter(Boolean).join(' · ')].filter(Boolean);
+}
+
+// Export columns for the metadata of a result's video (shared by CSV, XLSX and Google Sheets);
+// parse reads a cell back when a CSV export is imported
+export const VIDEO_METADATA_COLUMNS: Array<{
+  label: string;
+  value: (metadata: VideoFileMetadata) => string | number | null;
+  parse: (cell: string) => Partial<VideoFileMetadata>;
+}> = [
+  {
+    label: 'Duration (s)',
+    value: metadata => metadata.duration ? Math.round(metadata.duration * 10) / 10 : null,
+    parse: cell => ({ duration: parseOptionalNumber(cell) || 0 }),
+  },
+  {
+    label: 'Resolution',
+    value: ({ dimensions }) => dimensions.width ? `${dimensions.width}x${dimensions.height}` : '',
+    parse: cell => {
+      const match = cell.match(/^(\d+)x(\d+)$/);
+      return match ? { dimensions: { width: Number(match[1]), height: Number(match[2]) } } : {};
+    },
+  },
+  {
+    label: 'Container',
+    value: metadata => metadata.container || '',
+    parse: cell => ({ container: parseContainerName(cell) }),
+  },
+  {
+    label: 'Video Codec',
+    value: metadata => metadata.videoCodec || '',
+    parse: cell => ({ videoCodec: cell || undefined }),
+  },
+  {
+    label: 'Frame Rate',
+    value: metadata => metadata.frameRate ?? null,
+    parse: cell => ({ frameRate: parseOptionalNumber(cell) }),
+  },
+  {
+    label: 'Bitrate (kbps)',
+    value: metadata => metadata.bitrate ? Math.round(metadata.bitrate / 1000) : null,
+    parse: cell => {
+      const kbps = parseOptionalNumber(cell);
+      return { bitrate: kbps !== undefined ? kbps * 1000 : undefined };
+    },
+  },
+  {
+    label: 'Rotation',
+    value: metadata => metadata.rotation ?? null,
+    parse: cell => ({ rotation: parseOptionalNumber(cell) }),
+  },
+  {
+    label: 'Audio Track',
+    value: formatAudioSummary,
+    parse: parseAudioSummary,
+  },
+  {
+    label: 'Recorded At',
+    value: metadata => metadata.creationTime || '',
+    parse: cell => ({ creationTime: cell || undefined }),
+  },
+];
+
 // Video processing utilities
 export function calculateVideoAspectRatio(width: number, height: number): number {
   return width / height;
@@ -0,0 +1,182 @@
+// Minimal XLSX (Office Open XML) writer for client-side exports: a few fixed
+// cell styles, column widths and a frozen header row. Text is written as
+// inline strings so no shared string table is needed, and the workbook parts
+// are bundled with the ZIP writer used for subtitles.
+
+import { createZipArchive, ZipEntry } from './zipUtils';
+
+export type XlsxCellStyle = 'default' | 'header' | 'wrap' | 'success' | 'error' | 'warning' | 'info';
+
+export interface XlsxCell {
+  value: string | number | null;
+  style?: XlsxCellStyle;
+}
+
+export interface XlsxColumn {
+  header: string;
+  width: number; // in characters
+}
+
+export interface XlsxSheet {
+  name: string;
+  columns: XlsxColumn[];
+  rows: XlsxCell[][];
+  freezeHeader?: boolean;
+}
+
+// Excel rejects longer cell text
+const MAX_CELL_LENGTH = 32767;
+
+// Index into cellXfs in styles.xml
+const STYLE_INDEX: Record<XlsxCellStyle, number> = {
+  default: 0,
+  header: 1,
+  wrap: 2,
+  success: 3,
+  error: 4,
+  warning: 5,
+  info: 6,
+};
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="7">
+<fill><patternFill patternType="none"/></fill>
+<fill><patternFill patternType="gray125"/></fill>
+<fill><patternFill patternType="solid"><fgColor rgb="FFE5E7EB"/></patternFill></fill>
+<fill><patternFill patternType="solid"><fgColor rgb="FFD1FAE5"/></patternFill></fill>
+<fill><patternFill patternType="solid"><fgColor rgb="FFFEE2E2"/></patternFill></fill>
+<fill><patternFill patternType="solid"><fgColor rgb="FFFEF3C7"/></patternFill></fill>
+<fill><patternFill patternType="solid"><fgColor rgb="FFDBEAFE"/></patternFill></fill>
+</fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="7">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" applyAlignment="1"><alignment vertical="top" wrapText="1"/></xf>
+<xf numFmtId="0" fontId="0" fillId="3" borderId="0" xfId="0" applyFill="1" applyAlignment="1"><alignment vertical="top"/></xf>
+<xf numFmtId="0" fontId="0" fillId="4" borderId="0" xfId="0" applyFill="1" applyAlignment="1"><alignment vertical="top"/></xf>
+<xf numFmtId="0" fontId="0" fillId="5" borderId="0" xfId="0" applyFill="1" applyAlignment="1"><alignment vertical="top"/></xf>
+<xf numFmtId="0" fontId="0" fillId="6" borderId="0" xfId="0" applyFill="1" applyAlignment="1"><alignment vertical="top"/></xf>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+// XML 1.0 allows no control characters except tab, line feed and carriage return,
+// and neither of the noncharacters U+FFFE and U+FFFF
+function isXmlChar(code: number): boolean {
+  if (code < 0x20) return code === 0x09 || code === 0x0a || code === 0x0d;
+  return code !== 0xfffe && code !== 0xffff;
+}
+
+// Escape XML and drop the characters it does not allow
+function escapeXml(text: string): string {
+  let valid = '';
+  for (let i = 0; i < text.length; i++) {
+    if (isXmlChar(text.charCodeAt(i))) valid += text[i];
+  }
+  return valid
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Column letters: 0 -> A, 25 -> Z, 26 -> AA
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Sheet names: at most 31 characters, none of []:*?/\
+function sanitizeSheetName(name: string, index: number): string {
+  const cleaned = name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31);
+  return cleaned || `Sheet${index + 1}`;
+}
+
+function cellXml(cell: XlsxCell, reference: string): string {
+  const style = STYLE_INDEX[cell.style || 'default'];
+  const styleAttr = style ? ` s="${style}"` : '';
+
+  if (cell.value === null || cell.value === '') {
+    return style ? `<c r="${reference}"${styleAttr}/>` : '';
+  }
+  if (typeof cell.value === 'number' && Number.isFinite(cell.value)) {
+    return `<c r="${reference}"${styleAttr}><v>${cell.value}</v></c>`;
+  }
+
+  const text = escapeXml(String(cell.value).slice(0, MAX_CELL_LENGTH));
+  return `<c r="${reference}"${styleAttr} t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+}
+
+function sheetXml(sheet: XlsxSheet): string {
+  const headerRow: XlsxCell[] = sheet.columns.map(column => ({ value: column.header, style: 'header' }));
+  const rows = [headerRow, ...sheet.rows].map((cells, rowIndex) => {
+    const rowNumber = rowIndex + 1;
+    const cellsXml = cells.map((cell, columnIndex) => cellXml(cell, `${columnName(columnIndex)}${rowNumber}`)).join('');
+    return `<row r="${rowNumber}">${cellsXml}</row>`;
+  });
+
+  const sheetView = sheet.freezeHeader
+    ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    : '<sheetViews><sheetView workbookViewId="0"/></sheetViews>';
+  const cols = sheet.columns
+    .map((column, index) => `<col min="${index + 1}" max="${index + 1}" width="${column.width}" customWidth="1"/>`)
+    .join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">${sheetView}<cols>${cols}</cols><sheetData>${rows.join('')}</sheetData></worksheet>`;
+}
+
+/**
+ * Build an .xlsx workbook; every sheet gets a bold header row from its columns
+ */
+export function createXlsxWorkbook(sheets: XlsxSheet[]): Blob {
+  const names = sheets.map((sheet, index) => sanitizeSheetName(sheet.name, index));
+
+  const entries: ZipEntry[] = [
+    {
+      name: '[Content_Types].xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${sheets.map((_, index) => `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n')}
+</Types>`,
+    },
+    {
+      name: '_rels/.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`,
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${names.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('')}</sheets>
+</workbook>`,
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets.map((_, index) => `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`).join('\n')}
+<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`,
+    },
+    { name: 'xl/styles.xml', content: STYLES_XML },
+    ...sheets.map((sheet, index) => ({ name: `xl/worksheets/sheet${index + 1}.xml`, content: sheetXml(sheet) })),
+  ];
+
+  const archive = createZipArchive(entries);
+  return new Blob([archive], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
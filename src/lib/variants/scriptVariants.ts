@@ -0,0 +1,191 @@
+/**
+ * Ad Script Variants
+ *
+ * Generates new scripts with alternative text and voice hooks from an
+ * analyzed video and a brand brief, on the provider configured for analysis
+ */
+
+import { GoogleGenerativeAI, ObjectSchema, SchemaType } from '@google/generative-ai';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createOpenAI } from '@ai-sdk/openai';
+import { generateObject, jsonSchema, LanguageModel } from 'ai';
+import { ScriptVariantDraft, ScriptVariantsRequest } from '@/types/video-analysis';
+import { isMockProviderEnabled } from '@/lib/providers/catalog';
+import { AnalysisProviderError } from '@/lib/providers/types';
+
+export const MAX_SCRIPT_VARIANTS = 5;
+export const MAX_BRIEF_LENGTH = 4000;
+
+// Long transcripts are cut so the prompt stays well inside every model's context
+const MAX_SOURCE_SCRIPT_CHARS = 12000;
+
+const VARIANT_PROPERTIES = {
+  textHook: 'On-screen text shown in the first seconds, different from the original text hook',
+  voiceHook: 'First spoken line, different from the original voice hook',
+  script: 'Full voiceover script, one line per beat, without timestamps',
+} as const;
+
+type VariantProperty = keyof typeof VARIANT_PROPERTIES;
+
+const VARIANT_KEYS = Object.keys(VARIANT_PROPERTIES) as VariantProperty[];
+
+function buildVariantsPrompt(request: ScriptVariantsRequest): string {
+  const { source } = request;
+  const script = source.videoScript && source.videoScript.length > MAX_SOURCE_SCRIPT_CHARS
+    ? `${source.videoScript.slice(0, MAX_SOURCE_SCRIPT_CHARS)} [truncated]`
+    : source.videoScript;
+
+  return `You are a direct-response copywriter. Write ${request.count} new versions of the video ad analyzed below.
+
+Each version keeps the pain point the original targets but opens with a new text hook and a new voice hook, and has its own full script. Make the versions clearly different from each other and from the original: vary the angle, the hook style and the structure. Follow the brand brief for tone, claims, product details and anything to avoid.
+
+Brand brief:
+${request.brief}
+
+Original ad (${source.filename}):
+Visual hook: ${source.visualHook || 'Not analyzed'}
+Text hook: ${source.textHook || 'Not analyzed'}
+Voice hook: ${source.voiceHook || 'Not analyzed'}
+Pain point: ${source.painPoint || 'Not analyzed'}
+Script:
+${script || 'Not analyzed'}
+
+Return exactly ${request.count} variants.`;
+}
+
+function buildGeminiSchema(): ObjectSchema {
+  return {
+    type: SchemaType.OBJECT,
+    properties: {
+      variants: {
+        type: SchemaType.ARRAY,
+        items: {
+          type: SchemaType.OBJECT,
+          properties: Object.fromEntries(
+            VARIANT_KEYS.map(key => [key, { type: SchemaType.STRING, description: VARIANT_PROPERTIES[key] }])
+          ),
+          required: VARIANT_KEYS,
+        },
+      },
+    },
+    required: ['variants'],
+  };
+}
+
+function buildJsonSchema() {
+  return jsonSchema<{ variants: Array<Record<string, unknown>> }>({
+    type: 'object',
+    properties: {
+      variants: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: Object.fromEntries(
+            VARIANT_KEYS.map(key => [key, { type: 'string', description: VARIANT_PROPERTIES[key] }])
+          ),
+          required: VARIANT_KEYS,
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['variants'],
+    additionalProperties: false,
+  });
+}
+
+// Keep complete variants only, at most the number requested
+function toDrafts(raw: unknown, count: number): ScriptVariantDraft[] {
+  const variants = (raw as { variants?: unknown })?.variants;
+  if (!Array.isArray(variants)) {
+    throw new AnalysisProviderError('The model returned no variants', 'INVALID_RESPONSE');
+  }
+
+  const drafts = variants
+    .filter((variant): variant is Record<string, unknown> => !!variant && typeof variant === 'object')
+    .map(variant => ({
+      textHook: String(variant.textHook ?? '').trim(),
+      voiceHook: String(variant.voiceHook ?? '').trim(),
+      script: String(variant.script ?? '').trim(),
+    }))
+    .filter(draft => draft.script && (draft.textHook || draft.voiceHook))
+    .slice(0, count);
+
+  if (drafts.length === 0) {
+    throw new AnalysisProviderError('The model returned no usable variants', 'INVALID_RESPONSE');
+  }
+  return drafts;
+}
+
+async function generateWithGemini(request: ScriptVariantsRequest, apiKey: string): Promise<unknown> {
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const model = genAI.getGenerativeModel({
+    model: request.model,
+    generationConfig: {
+      responseMimeType: 'application/json',
+      responseSchema: buildGeminiSchema(),
+    },
+  });
+
+  const result = await model.generateContent(buildVariantsPrompt(request));
+  return JSON.parse(result.response.text());
+}
+
+async function generateWithModel(request: ScriptVariantsRequest, model: LanguageModel): Promise<unknown> {
+  const { object } = await generateObject({
+    model,
+    schema: buildJsonSchema(),
+    prompt: buildVariantsPrompt(request),
+  });
+  return object;
+}
+
+// Deterministic variants for offline testing
+function generateMockVariants(request: ScriptVariantsRequest): unknown {
+  const painPoint = request.source.painPoint || 'the problem';
+  return {
+    variants: Array.from({ length: request.count }, (_, i) => ({
+      textHook: `Mock text hook ${i + 1} for ${request.source.filename}`,
+      voiceHook: `Mock voice hook ${i + 1}: still dealing with ${painPoint.toLowerCase()}?`,
+      script: `Mock script ${i + 1}\nOpen on the hook.\nShow how the product solves ${painPoint.toLowerCase()}.\nClose with the call to action.`,
+    })),
+  };
+}
+
+/**
+ * Generate script variants with the requested provider. Gemini runs on the
+ * user's key; OpenAI and Anthropic use the server keys, as in analysis.
+ */
+export async function generateScriptVariants(request: ScriptVariantsRequest): Promise<ScriptVariantDraft[]> {
+  let raw: unknown;
+
+  switch (request.provider) {
+    case 'gemini':
+      if (!request.apiKey) {
+        throw new AnalysisProviderError('Gemini requires a user API key', 'MISSING_API_KEY');
+      }
+      raw = await generateWithGemini(request, request.apiKey);
+      break;
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        throw new AnalysisProviderError('OpenAI API key not configured on the server', 'PROVIDER_NOT_CONFIGURED');
+      }
+      raw = await generateWithModel(request, createOpenAI({ apiKey: process.env.OPENAI_API_KEY })(request.model));
+      break;
+    case 'anthropic':
+      if (!process.env.ANTHROPIC_API_KEY) {
+        throw new AnalysisProviderError('Anthropic API key not configured on the server', 'PROVIDER_NOT_CONFIGURED');
+      }
+      raw = await generateWithModel(request, createAnthropic({ apiKey: process.env.ANTHROPIC_API_KEY })(request.model));
+      break;
+    case 'mock':
+      if (!isMockProviderEnabled()) {
+        throw new AnalysisProviderError('Mock provider is disabled in production', 'PROVIDER_NOT_CONFIGURED');
+      }
+      raw = generateMockVariants(request);
+      break;
+    default:
+      throw new AnalysisProviderError(`Unknown analysis provider: ${request.provider}`, 'INVALID_OPTIONS');
+  }
+
+  return toDrafts(raw, request.count);
+}
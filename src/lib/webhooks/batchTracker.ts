@@ -0,0 +1,89 @@
+/**
+ * Browser Batch Tracker
+ *
+ * The browser queue sends the videos of a batch to the analyze route one at
+ * a time, tagged with a batch id and the batch size. The route records the
+ * final outcome of each video here, and the batch is complete once every
+ * video has reported or the queue closes it (after cancellations or
+ * requests that never reached the server). batch.completed then carries
+ * only results the server produced itself. State is kept in memory of the
+ * running server process.
+ */
+
+import { VideoAnalysisResult } from '@/types/video-analysis';
+
+interface TrackedBatch {
+  size: number;
+  results: Map<string, VideoAnalysisResult>; // by result id; a retry replaces the earlier outcome
+  updatedAt: number;
+}
+
+export interface BatchReference {
+  id: string;
+  size: number;
+}
+
+const BATCH_TTL_MS = 6 * 60 * 60 * 1000; // batches nobody finishes are dropped after 6 hours
+const MAX_BATCH_ID_LENGTH = 100;
+
+const batches = new Map<string, TrackedBatch>();
+
+// Batch ids are chosen by the client, so they only mean something together with the owner
+function batchKey(ownerId: string, batchId: string): string {
+  return `${ownerId}:${batchId}`;
+}
+
+function pruneExpiredBatches(now: number): void {
+  batches.forEach((batch, key) => {
+    if (now - batch.updatedAt > BATCH_TTL_MS) batches.delete(key);
+  });
+}
+
+/**
+ * Batch the request belongs to, from its batchId and batchSize form fields,
+ * or null when it was sent on its own
+ */
+export function parseBatchReference(batchId: unknown, batchSize: unknown): BatchReference | null {
+  if (typeof batchId !== 'string' || !batchId || batchId.length > MAX_BATCH_ID_LENGTH) return null;
+  const size = Number(batchSize);
+  if (!Number.isInteger(size) || size < 1) return null;
+  return { id: batchId, size };
+}
+
+/**
+ * Record a video's final outcome. Returns the batch's results when this was
+ * the last video to report, otherwise null.
+ */
+export function recordBatchResult(
+  ownerId: string,
+  batch: BatchReference,
+  result: VideoAnalysisResult
+): VideoAnalysisResult[] | null {
+  const now = Date.now();
+  pruneExpiredBatches(now);
+
+  const key = batchKey(ownerId, batch.id);
+  const tracked = batches.get(key) || { size: batch.size, results: new Map(), updatedAt: now };
+  // Videos added to a running batch raise its size
+  tracked.size = Math.max(tracked.size, batch.size);
+  tracked.results.set(result.id, result);
+  tracked.updatedAt = now;
+  batches.set(key, tracked);
+
+  if (tracked.results.size < tracked.size) return null;
+  batches.delete(key);
+  return Array.from(tracked.results.values());
+}
+
+/**
+ * Finish a batch early with the results reported so far. Returns null when
+ * the batch is unknown, already complete or has no results.
+ */
+export function closeBatch(ownerId: string, batchId: string): VideoAnalysisResult[] | null {
+  const key = batchKey(ownerId, batchId);
+  const tracked = batches.get(key);
+  if (!tracked) return null;
+
+  batches.delete(key);
+  return tracked.results.size > 0 ? Array.from(tracked.results.values()) : null;
+}
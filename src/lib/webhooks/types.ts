@@ -0,0 +1,49 @@
+import type { VideoAnalysisResult, WebhookDelivery, WebhookEventType } from '@/types/video-analysis';
+import type { generateExportSummary } from '@/lib/utils/exportUtils';
+
+export type WebhookBatchSummary = ReturnType<typeof generateExportSummary>;
+
+// Stored registration; the secret never leaves the server after creation
+export interface StoredWebhook {
+  id: string;
+  url: string;
+  events: WebhookEventType[];
+  secret: string;
+  ownerId: string; // hash of the registering client's token; see getRequestOwner
+  createdAt: string;
+}
+
+export interface VideoEventData {
+  result: VideoAnalysisResult;
+  jobId?: string; // set when the video was analyzed by a server-side job
+}
+
+export interface BatchEventData {
+  summary: WebhookBatchSummary;
+  results: VideoAnalysisResult[];
+  jobId?: string;
+}
+
+// Body POSTed to webhook URLs
+export interface WebhookPayload {
+  id: string; // event id, the same for every webhook and retry (use it to deduplicate)
+  event: WebhookEventType;
+  createdAt: string;
+  data: VideoEventData | BatchEventData;
+}
+
+export interface WebhookStore {
+  readonly backend: 'file' | 'memory';
+  listWebhooks(): Promise<StoredWebhook[]>;
+  addWebhook(webhook: StoredWebhook): Promise<void>;
+  deleteWebhook(id: string): Promise<boolean>;
+  listDeliveries(): Promise<WebhookDelivery[]>; // newest first
+  saveDelivery(delivery: WebhookDelivery): Promise<void>; // insert or replace by id
+}
+
+export class WebhookError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Webhook Dispatcher
+ *
+ * Sends analysis events to registered webhook URLs. Each body is signed with
+ * the webhook's secret (HMAC-SHA256 over "<timestamp>.<body>") and failed
+ * deliveries are retried with exponential backoff. Every attempt updates the
+ * delivery log. Events only reach the webhooks of the client whose analysis
+ * produced them.
+ *
+ * Server-only: relies on Node's crypto module.
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+import { VideoAnalysisResult, WebhookDelivery, WebhookEventType, WebhookSubscription } from '@/types/video-analysis';
+import { generateExportSummary } from '@/lib/utils/exportUtils';
+import { createWebhookStore } from './webhookStore';
+import { postWebhook } from './webhookTargets';
+import { StoredWebhook, WebhookError, WebhookPayload, WebhookStore } from './types';
+
+// Configuration
+const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5');
+const WEBHOOK_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_SECONDS || '10') * 1000;
+const RETRY_BACKOFF_BASE = 5000; // 5 seconds, doubled per attempt
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+// Receivers may be busy or rate limiting; other client errors won't change on retry
+const RETRYABLE_STATUSES = [408, 425, 429];
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Signature header value: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ */
+export function signWebhookPayload(body: string, secret: string, timestamp: number): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Registration as the API returns it: the secret is reduced to a hint
+ */
+export function toWebhookSubscription({ secret, ownerId, ...webhook }: StoredWebhook): WebhookSubscription {
+  return { ...webhook, secretHint: secret.slice(-4) };
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class WebhookDispatcher {
+  constructor(readonly store: WebhookStore) {}
+
+  /**
+   * Report a finished video: completed results send video.completed, errors video.failed
+   */
+  async emitVideoResult(ownerId: string, result: VideoAnalysisResult, jobId?: string): Promise<number> {
+    if (result.status === 'completed') {
+      return this.emit(ownerId, 'video.completed', { result, jobId });
+    }
+    if (result.status === 'error') {
+      return this.emit(ownerId, 'video.failed', { result, jobId });
+    }
+    return 0;
+  }
+
+  /**
+   * Report a finished batch with the same summary the exports include
+   */
+  emitBatchCompleted(ownerId: string, results: VideoAnalysisResult[], jobId?: string): Promise<number> {
+    return this.emit(ownerId, 'batch.completed', { summary: generateExportSummary(results), results, jobId });
+  }
+
+  /**
+   * Queue the event for every webhook of the owner subscribed to it. Deliveries
+   * run in the background; this resolves once they are recorded in the log.
+   */
+  async emit(ownerId: string, event: WebhookEventType, data: WebhookPayload['data']): Promise<number> {
+    const webhooks = (await this.store.listWebhooks())
+      .filter(webhook => webhook.ownerId === ownerId && webhook.events.includes(event));
+    if (webhooks.length === 0) return 0;
+
+    const payload: WebhookPayload = {
+      id: generateId('evt'),
+      event,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+
+    await Promise.all(webhooks.map(async webhook => {
+      const now = new Date().toISOString();
+      const delivery: WebhookDelivery = {
+        id: generateId('dlv'),
+        webhookId: webhook.id,
+        url: webhook.url,
+        event,
+        eventId: payload.id,
+        status: 'pending',
+        attempts: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await this.store.saveDelivery(delivery);
+
+      this.deliver(webhook, payload, delivery)
+        .catch(error => console.error(`Webhook delivery ${delivery.id} failed:`, error));
+    }));
+
+    return webhooks.length;
+  }
+
+  private async deliver(webhook: StoredWebhook, payload: WebhookPayload, delivery: WebhookDelivery): Promise<void> {
+    const body = JSON.stringify(payload);
+
+    while (delivery.attempts < WEBHOOK_MAX_ATTEMPTS) {
+      delivery.attempts++;
+      let retryable = true;
+
+      try {
+        const response = await postWebhook(webhook.url, body, {
+          'Content-Type': 'application/json',
+          'User-Agent': 'video-analyzer-webhooks',
+          'X-Webhook-Event': payload.event,
+          'X-Webhook-Id': payload.id,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, webhook.secret, Math.floor(Date.now() / 1000)),
+        }, WEBHOOK_TIMEOUT_MS);
+
+        delivery.responseStatus = response.status;
+        if (response.status >= 200 && response.status < 300) {
+          await this.record(delivery, { status: 'delivered', error: undefined, nextAttemptAt: undefined });
+          return;
+        }
+
+        delivery.error = `Receiver responded with ${response.status} ${response.statusText}`.trim();
+        retryable = response.status >= 500 || RETRYABLE_STATUSES.includes(response.status);
+      } catch (error) {
+        delivery.responseStatus = undefined;
+        delivery.error = error instanceof Error ? error.message : String(error);
+        // Addresses that became private stay private for this delivery
+        retryable = !(error instanceof WebhookError && error.code === 'PRIVATE_TARGET');
+      }
+
+      if (!retryable || delivery.attempts >= WEBHOOK_MAX_ATTEMPTS) break;
+
+      // Webhooks removed in the meantime get no more attempts
+      const stillRegistered = (await this.store.listWebhooks()).some(item => item.id === webhook.id);
+      if (!stillRegistered) break;
+
+      const delay = RETRY_BACKOFF_BASE * Math.pow(2, delivery.attempts - 1);
+      await this.record(delivery, { nextAttemptAt: new Date(Date.now() + delay).toISOString() });
+      await sleep(delay);
+    }
+
+    await this.record(delivery, { status: 'failed', nextAttemptAt: undefined });
+  }
+
+  private async record(delivery: WebhookDelivery, changes: Partial<WebhookDelivery>): Promise<void> {
+    Object.assign(delivery, changes, { updatedAt: new Date().toISOString() });
+    await this.store.saveDelivery(delivery);
+  }
+}
+
+// Singleton instance
+let dispatcherInstance: WebhookDispatcher | null = null;
+
+export function getWebhookDispatcher(): WebhookDispatcher {
+  if (!dispatcherInstance) {
+    dispatcherInstance = new WebhookDispatcher(createWebhookStore());
+  }
+  return dispatcherInstance;
+}
@@ -0,0 +1,136 @@
+/**
+ * Webhook Store
+ *
+ * Keeps webhook registrations and the recent delivery log. The default
+ * backend writes two JSON files, so registrations survive a server restart.
+ *
+ * Server-only: relies on Node's fs module.
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { WebhookDelivery } from '@/types/video-analysis';
+import { StoredWebhook, WebhookStore } from './types';
+
+// Configuration
+const WEBHOOK_STORE_DIR = process.env.WEBHOOK_STORE_DIR || path.join(os.tmpdir(), 'video-analyzer-webhooks');
+const DELIVERY_LOG_SIZE = parseInt(process.env.WEBHOOK_DELIVERY_LOG_SIZE || '200');
+
+/**
+ * Create the webhook store selected by WEBHOOK_STORE ('file' by default)
+ */
+export function createWebhookStore(): WebhookStore {
+  if (process.env.WEBHOOK_STORE === 'memory') {
+    return memoryStore;
+  }
+  return new FileSystemWebhookStore(WEBHOOK_STORE_DIR);
+}
+
+// Newest first, trimmed to the log size
+function upsertDelivery(deliveries: WebhookDelivery[], delivery: WebhookDelivery): WebhookDelivery[] {
+  const index = deliveries.findIndex(item => item.id === delivery.id);
+  if (index === -1) {
+    return [delivery, ...deliveries].slice(0, DELIVERY_LOG_SIZE);
+  }
+  const updated = [...deliveries];
+  updated[index] = delivery;
+  return updated;
+}
+
+/**
+ * Default store: <dir>/webhooks.json and <dir>/deliveries.json
+ */
+export class FileSystemWebhookStore implements WebhookStore {
+  readonly backend = 'file' as const;
+
+  // Read-modify-write cycles run one at a time so concurrent deliveries don't drop updates
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(private directory: string) {}
+
+  listWebhooks(): Promise<StoredWebhook[]> {
+    return this.readList<StoredWebhook>('webhooks.json');
+  }
+
+  async addWebhook(webhook: StoredWebhook): Promise<void> {
+    await this.modify<StoredWebhook>('webhooks.json', webhooks => [...webhooks, webhook]);
+  }
+
+  async deleteWebhook(id: string): Promise<boolean> {
+    let deleted = false;
+    await this.modify<StoredWebhook>('webhooks.json', webhooks => {
+      deleted = webhooks.some(webhook => webhook.id === id);
+      return webhooks.filter(webhook => webhook.id !== id);
+    });
+    return deleted;
+  }
+
+  listDeliveries(): Promise<WebhookDelivery[]> {
+    return this.readList<WebhookDelivery>('deliveries.json');
+  }
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    await this.modify<WebhookDelivery>('deliveries.json', deliveries => upsertDelivery(deliveries, delivery));
+  }
+
+  private async readList<T>(filename: string): Promise<T[]> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.directory, filename), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private modify<T>(filename: string, change: (items: T[]) => T[]): Promise<void> {
+    const write = this.writes.then(async () => {
+      const items = change(await this.readList<T>(filename));
+      const filePath = path.join(this.directory, filename);
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(items));
+      await fs.rename(tempPath, filePath);
+    });
+
+    // Keep the chain going after a failed write; the caller still sees the error
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+}
+
+/**
+ * In-memory store for tests and single-process deployments
+ */
+export class MemoryWebhookStore implements WebhookStore {
+  readonly backend = 'memory' as const;
+
+  private webhooks: StoredWebhook[] = [];
+  private deliveries: WebhookDelivery[] = [];
+
+  async listWebhooks(): Promise<StoredWebhook[]> {
+    return [...this.webhooks];
+  }
+
+  async addWebhook(webhook: StoredWebhook): Promise<void> {
+    this.webhooks.push(webhook);
+  }
+
+  async deleteWebhook(id: string): Promise<boolean> {
+    const count = this.webhooks.length;
+    this.webhooks = this.webhooks.filter(webhook => webhook.id !== id);
+    return this.webhooks.length < count;
+  }
+
+  async listDeliveries(): Promise<WebhookDelivery[]> {
+    return [...this.deliveries];
+  }
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    this.deliveries = upsertDelivery(this.deliveries, { ...delivery });
+  }
+}
+
+// Shared across requests so the memory backend actually retains webhooks
+const memoryStore = new MemoryWebhookStore();
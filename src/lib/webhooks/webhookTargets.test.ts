@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebhookError } from './types';
+import { assertPublicWebhookTarget, guardedLookup, isPrivateAddress, postWebhook } from './webhookTargets';
+
+function isWebhookError(code: string) {
+  return (error: unknown) => {
+    assert.ok(error instanceof WebhookError);
+    assert.equal(error.code, code);
+    return true;
+  };
+}
+
+function lookup(hostname: string, all: boolean): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    guardedLookup(hostname, { all }, (error, address) => (error ? reject(error) : resolve(address)));
+  });
+}
+
+test('loopback, private, link-local and CGNAT IPv4 addresses are private', () => {
+  [
+    '127.0.0.1', '127.255.255.254', '0.0.0.0',
+    '10.0.0.1', '172.16.0.1', '172.31.255.255', '192.168.1.10',
+    '169.254.169.254', // cloud metadata
+    '100.64.0.1', '100.127.255.255',
+    '224.0.0.1', '255.255.255.255',
+  ].forEach(address => assert.equal(isPrivateAddress(address), true, address));
+
+  ['8.8.8.8', '1.1.1.1', '172.32.0.1', '100.63.255.255', '100.128.0.1', '11.0.0.1', '192.169.0.1']
+    .forEach(address => assert.equal(isPrivateAddress(address), false, address));
+});
+
+test('IPv6 loopback, local ranges and IPv4-mapped private addresses are private', () => {
+  [
+    '::1', '::', 'fc00::1', 'fd12:3456::1', 'fe80::1%eth0', 'ff02::1',
+    '::ffff:127.0.0.1', '::ffff:10.1.2.3', '::ffff:169.254.169.254', '::ffff:7f00:1', '::ffff:0:192.168.0.1',
+  ].forEach(address => assert.equal(isPrivateAddress(address), true, address));
+
+  ['2606:4700:4700::1111', '2001:4860:4860::8888', '::ffff:8.8.8.8']
+    .forEach(address => assert.equal(isPrivateAddress(address), false, address));
+});
+
+test('host names and malformed addresses count as private', () => {
+  ['localhost', 'example.com', '256.1.1.1', ''].forEach(address => assert.equal(isPrivateAddress(address), true, address));
+});
+
+test('webhook URLs must use http or https', async () => {
+  for (const url of ['ftp://example.com/hook', 'file:///etc/passwd', 'javascript:alert(1)', 'ws://example.com/hook']) {
+    await assert.rejects(assertPublicWebhookTarget(new URL(url)), isWebhookError('INVALID_URL'), url);
+  }
+});
+
+test('webhook URLs pointing at private addresses are refused', async () => {
+  for (const url of [
+    'http://127.0.0.1:3000/hook',
+    'http://2130706433/hook', // 127.0.0.1 in decimal
+    'http://[::1]/hook',
+    'http://[::ffff:127.0.0.1]/hook',
+    'https://169.254.169.254/latest/meta-data',
+    'http://localhost/hook',
+  ]) {
+    await assert.rejects(assertPublicWebhookTarget(new URL(url)), isWebhookError('PRIVATE_TARGET'), url);
+  }
+
+  await assertPublicWebhookTarget(new URL('https://8.8.8.8/hook'));
+});
+
+test('the delivery lookup refuses hosts that resolve to private addresses', async () => {
+  await assert.rejects(lookup('localhost', false), isWebhookError('PRIVATE_TARGET'));
+  await assert.rejects(lookup('localhost', true), isWebhookError('PRIVATE_TARGET'));
+});
+
+test('deliveries never connect to a private receiver', async () => {
+  let received = 0;
+  const server = http.createServer((request, response) => {
+    received++;
+    response.end();
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    for (const host of ['127.0.0.1', 'localhost']) {
+      await assert.rejects(
+        postWebhook(`http://${host}:${port}/hook`, '{}', { 'Content-Type': 'application/json' }, 5000),
+        isWebhookError('PRIVATE_TARGET'),
+        host
+      );
+    }
+    assert.equal(received, 0);
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+});
@@ -0,0 +1,181 @@
+/**
+ * Webhook Targets
+ *
+ * Webhook URLs are chosen by users but requested by the server, so they must
+ * not reach the server's own network: loopback, private ranges, link-local
+ * (including cloud metadata at 169.254.169.254) and other reserved addresses
+ * are refused. URLs are checked when they are registered and again on every
+ * delivery, against the addresses the host resolves to at that moment.
+ *
+ * Set WEBHOOK_ALLOW_PRIVATE_TARGETS=true to deliver to local receivers
+ * during development.
+ *
+ * Server-only: relies on Node's dns, http and net modules.
+ */
+
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { WebhookError } from './types';
+
+const ALLOW_PRIVATE_TARGETS = process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === 'true';
+
+// [network, prefix length] of IPv4 ranges that are not publicly routable
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, cloud metadata
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 3], // multicast, reserved and broadcast
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((total, octet) => total * 256 + parseInt(octet, 10), 0);
+}
+
+function isPrivateIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return PRIVATE_IPV4_RANGES.some(([network, prefix]) => {
+    const size = Math.pow(2, 32 - prefix);
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(network) / size);
+  });
+}
+
+function isPrivateIpv6(address: string): boolean {
+  const normalized = address.toLowerCase().split('%')[0];
+  if (normalized === '::' || normalized === '::1') return true;
+
+  // IPv4-mapped (::ffff:a.b.c.d) and its hex form (::ffff:7f00:1)
+  const mapped = normalized.match(/^::ffff:(?:0:)?(.+)$/);
+  if (mapped) {
+    if (net.isIPv4(mapped[1])) return isPrivateIpv4(mapped[1]);
+    const groups = mapped[1].split(':');
+    if (groups.length === 2) {
+      const high = parseInt(groups[0], 16);
+      const low = parseInt(groups[1], 16);
+      return isPrivateIpv4(`${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`);
+    }
+  }
+
+  const firstGroup = parseInt(normalized.split(':')[0] || '0', 16);
+  return (
+    (firstGroup & 0xfe00) === 0xfc00 || // unique local, fc00::/7
+    (firstGroup & 0xffc0) === 0xfe80 || // link-local, fe80::/10
+    (firstGroup & 0xff00) === 0xff00 // multicast, ff00::/8
+  );
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not
+ * publicly routable. Anything that is not an IP address counts as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) return isPrivateIpv4(address);
+  if (net.isIPv6(address)) return isPrivateIpv6(address);
+  return true;
+}
+
+function refuseAddress(hostname: string, address: string): WebhookError {
+  const target = hostname === address ? address : `${hostname} (${address})`;
+  return new WebhookError(
+    `Webhook URLs must point to a public address; ${target} is private, loopback or reserved`,
+    'PRIVATE_TARGET'
+  );
+}
+
+// URL hostnames keep the brackets around IPv6 literals
+function getHostname(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, '$1');
+}
+
+/**
+ * Check a webhook URL when it is registered: http(s) only, and every address
+ * the host currently resolves to must be public
+ */
+export async function assertPublicWebhookTarget(url: URL): Promise<void> {
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new WebhookError('Webhook URLs must use http or https', 'INVALID_URL');
+  }
+  if (ALLOW_PRIVATE_TARGETS) return;
+
+  const hostname = getHostname(url);
+  if (net.isIP(hostname)) {
+    if (isPrivateAddress(hostname)) throw refuseAddress(hostname, hostname);
+    return;
+  }
+
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(hostname, { all: true });
+  } catch (error) {
+    throw new WebhookError(`Could not resolve ${hostname}`, 'INVALID_URL');
+  }
+  const privateAddress = addresses.find(({ address }) => isPrivateAddress(address));
+  if (privateAddress) throw refuseAddress(hostname, privateAddress.address);
+}
+
+// Resolves like dns.lookup but fails when any address is private, so the
+// socket can only connect to addresses that were checked
+export const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    const privateAddress = addresses.find(({ address }) => isPrivateAddress(address));
+    if (privateAddress && !ALLOW_PRIVATE_TARGETS) {
+      callback(refuseAddress(hostname, privateAddress.address) as NodeJS.ErrnoException, '', 0);
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+export interface WebhookResponse {
+  status: number;
+  statusText: string;
+}
+
+/**
+ * POST a body to a webhook URL. Redirects are not followed, since they could
+ * lead to a private address; the receiver's 3xx is reported as the status.
+ */
+export function postWebhook(
+  target: string,
+  body: string,
+  headers: Record<string, string>,
+  timeoutMs: number
+): Promise<WebhookResponse> {
+  const url = new URL(target);
+  const hostname = getHostname(url);
+  // Literal IPs skip the lookup, so they are checked here
+  if (net.isIP(hostname) && isPrivateAddress(hostname) && !ALLOW_PRIVATE_TARGETS) {
+    return Promise.reject(refuseAddress(hostname, hostname));
+  }
+
+  const transport = url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = transport.request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+      lookup: guardedLookup,
+      signal: AbortSignal.timeout(timeoutMs),
+    }, response => {
+      // Only the status matters; drain the body so the socket is released
+      response.resume();
+      resolve({ status: response.statusCode || 0, statusText: response.statusMessage || '' });
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
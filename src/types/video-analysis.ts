@@ -5,19 +5,33 @@ export interface VideoAnalysisRequest {
   videoFile: File;
   filename: string;
   analysisOptions?: AnalysisOptions;
+  contentHash?: string;
+  forceReanalysis?: boolean;
+  videoMetadata?: VideoFileMetadata; // copied onto the result, for the table and exports
   createdAt: Date;
 }
 
 export interface VideoAnalysisResult {
   id: string;
   filename: string;
-  status: 'pending' | 'processing' | 'completed' | 'error';
+  status: 'pending' | 'processing' | 'completed' | 'error' | 'cancelled';
   visualHook?: string;
   textHook?: string;
   voiceHook?: string;
   videoScript?: string;
   painPoint?: string;
+  customFields?: Record<string, CustomFieldResult>;
+  hookCategories?: HookCategories;
+  hookWindowSeconds?: number; // only the first N seconds were analyzed (hook-window mode)
+  variants?: ScriptVariant[]; // ad script variants generated from this result
+  storyboard?: Storyboard; // concept frames generated from the hooks and script
+  contactSheet?: ContactSheet; // keyframes of the video's scenes, made in the browser
+  provider?: AnalysisProviderId;
+  model?: string;
   processingTime?: number;
+  cached?: boolean; // served from the content-hash result cache
+  contentHash?: string; // SHA-256 of the video file, keys Google Sheets upserts
+  videoMetadata?: VideoFileMetadata; // codec, frame rate, bitrate... of the uploaded file
   error?: string;
   createdAt: Date;
   completedAt?: Date;
@@ -38,13 +52,194 @@ export interface VideoAnalysisSession {
 }
 
 export interface AnalysisOptions {
-  includeVisualHook: boolean;
-  includeTextHook: boolean;
-  includeVoiceHook: boolean;
-  includeVideoScript: boolean;
-  includePainPoint: boolean;
+  fields: AnalysisFieldDefinition[];
+  hookTaxonomy?: HookTaxonomy; // absent in options saved before hook classification
+  hookWindow?: HookWindow; // absent in options saved before hook-window mode
+  provider: AnalysisProviderId;
+  model: string;
 }
 
+// Model providers that can run the analysis
+export type AnalysisProviderId = 'gemini' | 'openai' | 'anthropic' | 'mock';
+
+// Frame sampled in the browser for providers that cannot ingest video natively
+export interface VideoKeyframe {
+  timestamp: number; // seconds
+  dataUrl: string; // JPEG data URL
+}
+
+// Keyframe picked by scene-change detection (see contactSheet.ts)
+export interface SceneKeyframe {
+  timestamp: number; // seconds
+  sceneScore: number; // 0-1 difference from the frame before the scene; 1 for the opening frame
+}
+
+// Grid of a video's scene keyframes, each labeled with its timestamp
+export interface ContactSheet {
+  imageUrl: string; // JPEG data URL
+  keyframes: SceneKeyframe[];
+  sceneCount: number; // scenes detected, before picking keyframes
+  createdAt: Date;
+}
+
+// User-defined analysis fields
+export type AnalysisFieldType = 'string' | 'enum' | 'number' | 'string[]';
+
+export type AnalysisFieldValue = string | number | string[];
+
+// The five original insights, stored as top-level properties on results
+export type BuiltInFieldKey = 'visualHook' | 'textHook' | 'voiceHook' | 'videoScript' | 'painPoint';
+
+export interface AnalysisFieldDefinition {
+  key: string; // Property name in the response schema, e.g. "targetPersona"
+  label: string; // Display name, e.g. "Target persona"
+  instruction: string; // What the model should extract for this field
+  type: AnalysisFieldType;
+  enumValues?: string[]; // Allowed values when type is 'enum'
+  enabled: boolean;
+  builtIn?: boolean;
+}
+
+// Custom field values carry their label and type so tables and exports can render them as-is
+export interface CustomFieldResult {
+  label: string;
+  type: AnalysisFieldType;
+  value: AnalysisFieldValue;
+}
+
+// Hook classification: each enabled hook is also sorted into one category of a taxonomy
+export type HookFieldKey = 'visualHook' | 'textHook' | 'voiceHook';
+
+export interface HookTaxonomy {
+  enabled: boolean;
+  categories: string[];
+}
+
+export interface HookClassification {
+  category: string;
+  confidence: number; // 0-1
+}
+
+export type HookCategories = Partial<Record<HookFieldKey, HookClassification>>;
+
+// Hook-window mode: only the opening seconds are analyzed, with a hook-focused prompt
+export interface HookWindow {
+  enabled: boolean;
+  seconds: number;
+}
+
+// Platform compliance: uploads checked against the video specs of ad platforms (see compliance.ts)
+export interface CompliancePreset {
+  id: string;
+  name: string;
+  aspectRatios?: string[]; // accepted, e.g. ["9:16", "1.91:1"]
+  recommendedAspectRatios?: string[];
+  minShortSide?: number; // pixels on the shorter edge
+  recommendedShortSide?: number;
+  minDuration?: number; // seconds
+  maxDuration?: number;
+  recommendedMaxDuration?: number;
+  maxFileSizeMB?: number;
+  videoCodecs?: string[]; // named as in ContainerMetadata.videoCodec
+  recommendedVideoCodecs?: string[];
+  audio?: 'required' | 'recommended';
+}
+
+export interface ComplianceSettings {
+  presets: CompliancePreset[];
+  enabledPresetIds: string[];
+}
+
+export type ComplianceStatus = 'pass' | 'warn' | 'fail';
+
+export type ComplianceRule = 'aspectRatio' | 'resolution' | 'duration' | 'fileSize' | 'videoCodec' | 'audio';
+
+export interface ComplianceCheck {
+  rule: ComplianceRule;
+  status: ComplianceStatus;
+  message: string;
+}
+
+export interface ComplianceReport {
+  presetId: string;
+  presetName: string;
+  status: ComplianceStatus; // worst status of the checks
+  checks: ComplianceCheck[];
+}
+
+// Ad script variants: new hooks and scripts generated from an analyzed video and a brand brief
+export interface ScriptVariant {
+  id: string;
+  textHook: string;
+  voiceHook: string;
+  script: string;
+  brief: string; // brand brief the variant was generated from
+  provider: AnalysisProviderId;
+  model: string;
+  createdAt: Date;
+  edited?: boolean; // changed by the user after generation
+}
+
+// Analysis output a variant request is based on
+export type ScriptVariantSource = Pick<
+  VideoAnalysisResult,
+  'filename' | 'visualHook' | 'textHook' | 'voiceHook' | 'videoScript' | 'painPoint'
+>;
+
+export interface ScriptVariantsRequest {
+  source: ScriptVariantSource;
+  brief: string;
+  count: number;
+  provider: AnalysisProviderId;
+  model: string;
+  apiKey?: string; // user key for providers that need one (Gemini)
+}
+
+export type ScriptVariantDraft = Pick<ScriptVariant, 'textHook' | 'voiceHook' | 'script'>;
+
+export type ScriptVariantsApiResponse = AnalysisJobApiResponse<{ variants: ScriptVariantDraft[] }>;
+
+// Storyboards: concept frames generated from the visual hook and script beats
+export type StoryboardGeneratorId = 'replicate' | 'placeholder';
+
+export type StoryboardAspectRatio = '9:16' | '1:1' | '4:5' | '16:9';
+
+export interface StoryboardOptions {
+  model: string; // Replicate model, "owner/name" or "owner/name:version"
+  aspectRatio: StoryboardAspectRatio;
+  frameCount: number; // visual hook frame plus script beats
+  includeScriptBeats: boolean;
+  style: string; // appended to every prompt, e.g. "UGC phone footage"
+  parameters: Record<string, unknown>; // extra model input, e.g. num_inference_steps
+}
+
+export interface StoryboardFrame {
+  id: string;
+  source: 'visualHook' | 'script';
+  caption: string; // the hook or script beat the frame illustrates
+  timestamp?: number; // seconds into the video, for script beats
+  prompt: string;
+  imageUrl: string; // data URL, so frames outlive the generator's temporary links
+}
+
+export interface Storyboard {
+  frames: StoryboardFrame[];
+  generator: StoryboardGeneratorId;
+  model: string;
+  aspectRatio: StoryboardAspectRatio;
+  createdAt: Date;
+}
+
+export interface StoryboardRequest {
+  source: Pick<VideoAnalysisResult, 'filename' | 'visualHook' | 'videoScript' | 'painPoint'>;
+  options: StoryboardOptions;
+}
+
+export type StoryboardApiResponse = AnalysisJobApiResponse<Storyboard>;
+
+// How the video reaches the model: base64 inline data or a file store URI
+export type VideoUploadMode = 'auto' | 'inline' | 'file';
+
 export interface RateLimitInfo {
   remaining: number;
   resetTime: number;
@@ -61,6 +256,9 @@ export interface UploadedVideo {
   thumbnail?: string;
   uploadedAt: Date;
   status: 'uploaded' | 'processing' | 'completed' | 'error';
+  contentHash?: string; // SHA-256 of the file contents, used for result caching
+  originalSize?: number; // size before in-browser transcoding, when the file was re-encoded
+  metadata?: VideoFileMetadata;
 }
 
 export interface QueueStatus {
@@ -77,12 +275,19 @@ export interface VideoAnalysisApiResponse {
   success: boolean;
   data?: {
     id: string;
-    visualHook: string;
-    textHook: string;
-    voiceHook: string;
-    videoScript: string;
-    painPoint: string;
+    visualHook?: string;
+    textHook?: string;
+    voiceHook?: string;
+    videoScript?: string;
+    painPoint?: string;
+    customFields?: Record<string, CustomFieldResult>;
+    hookCategories?: HookCategories;
+    hookWindowSeconds?: number;
+    provider?: AnalysisProviderId;
+    model?: string;
     processingTime: number;
+    uploadMode?: Exclude<VideoUploadMode, 'auto'>;
+    cached?: boolean;
   };
   error?: {
     message: string;
@@ -92,33 +297,91 @@ export interface VideoAnalysisApiResponse {
   rateLimitInfo: RateLimitInfo;
 }
 
+// Server-side analysis jobs (/api/jobs)
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'cancelled' | 'failed';
+
+export interface AnalysisJobSummary {
+  id: string;
+  status: AnalysisJobStatus;
+  provider: AnalysisProviderId;
+  model: string;
+  queueStatus: QueueStatus;
+  videos: Array<Pick<VideoAnalysisResult, 'id' | 'filename' | 'status' | 'error'>>;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  error?: string;
+}
+
+export interface AnalysisJobApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: {
+    message: string;
+    code: string;
+    details?: any;
+  };
+}
+
+// Webhook notifications (/api/webhooks)
+export const WEBHOOK_EVENTS = ['video.completed', 'video.failed', 'batch.completed'] as const;
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number];
+
+// Registered webhook as the API returns it; the full secret is only included on creation
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: WebhookEventType[];
+  secretHint: string; // last characters of the signing secret
+  secret?: string;
+  createdAt: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+// One event sent to one webhook, with the outcome of its latest attempt
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  url: string;
+  event: WebhookEventType;
+  eventId: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+  nextAttemptAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WebhookApiResponse<T> = AnalysisJobApiResponse<T>;
+
 export interface VideoUploadProps {
   onVideosChange: (files: UploadedVideo[]) => void;
   maxFiles?: number;
   maxSizePerFile?: number; // in MB
   acceptedFormats?: string[];
+  compliancePresets?: CompliancePreset[]; // platforms each upload is checked against
   disabled?: boolean;
 }
 
 export interface VideoAnalysisTableProps {
   results: VideoAnalysisResult[];
   onRetry: (id: string) => void;
+  onCancel?: (id: string) => void;
   onDelete: (id: string) => void;
-  onExport: (format: 'csv' | 'json', results: VideoAnalysisResult[]) => void;
+  onExport: (format: ExportFormat, results: VideoAnalysisResult[]) => void;
   onRetryAllFailed?: () => void;
   onDeleteSelected?: (selectedIds: string[]) => void;
   onRetrySelected?: (selectedIds: string[]) => void;
+  onSelectionChange?: (selectedIds: string[]) => void;
+  onUpdateResult?: (id: string, changes: Partial<VideoAnalysisResult>) => void;
+  variantOptions?: Pick<ScriptVariantsRequest, 'provider' | 'model' | 'apiKey'>; // model used to generate script variants
+  compliancePresets?: CompliancePreset[]; // adds a compliance column when not empty
   loading?: boolean;
 }
 
-export interface RateLimitManagerProps {
-  queueStatus: QueueStatus;
-  rateLimitInfo: RateLimitInfo;
-  onPause: () => void;
-  onResume: () => void;
-  onStop: () => void;
-}
-
 // Error types
 export interface VideoAnalysisError {
   type: 'upload' | 'api' | 'rate_limit' | 'network' | 'validation';
@@ -140,9 +403,14 @@ export interface StoredAnalysisSession {
   savedAt: Date;
 }
 
+// How imported results that are already in the session are handled
+export type ImportConflictStrategy = 'skip' | 'replace' | 'keepBoth';
+
 // Export configuration
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
 export interface ExportConfig {
-  format: 'csv' | 'json';
+  format: ExportFormat;
   includeFields: {
     filename: boolean;
     visualHook: boolean;
@@ -150,15 +418,41 @@ export interface ExportConfig {
     voiceHook: boolean;
     videoScript: boolean;
     painPoint: boolean;
+    customFields: boolean;
     processingTime: boolean;
     status: boolean;
     timestamps: boolean;
   };
-  filterByStatus?: ('pending' | 'processing' | 'completed' | 'error')[];
+  filterByStatus?: VideoAnalysisResult['status'][];
+}
+
+// Subtitle export (cues parsed from the timestamped video script)
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleCue {
+  start: number; // seconds
+  end: number; // seconds
+  text: string; // at most two lines
+}
+
+// Technical details read from the container without decoding (see containerMetadata.ts).
+// Each one is missing when the file does not record it.
+export interface ContainerMetadata {
+  container?: 'mp4' | 'mov' | 'webm' | 'mkv';
+  videoCodec?: string; // e.g. "H.264", "HEVC", "VP9"
+  frameRate?: number;
+  bitrate?: number; // bits per second over the whole file
+  rotation?: number; // degrees clockwise the player turns the picture
+  hasAudio?: boolean;
+  audioCodec?: string; // e.g. "AAC", "Opus"
+  audioChannels?: number;
+  channelLayout?: string; // "mono", "stereo", "5.1"...
+  audioSampleRate?: number; // Hz
+  creationTime?: string; // ISO 8601, when the recording was made
 }
 
 // Video utilities types
-export interface VideoMetadata {
+export interface VideoMetadata extends ContainerMetadata {
   duration: number;
   dimensions: {
     width: number;
@@ -169,6 +463,9 @@ export interface VideoMetadata {
   thumbnail: string;
 }
 
+// Metadata kept with uploads and results (the thumbnail is shown separately)
+export type VideoFileMetadata = Omit<VideoMetadata, 'thumbnail'>;
+
 export interface VideoValidationResult {
   isValid: boolean;
   errors: string[];
@@ -178,5 +475,8 @@ export interface VideoValidationResult {
 // Constants
 export const SUPPORTED_VIDEO_FORMATS = ['.mp4', '.mov', '.avi', '.mkv', '.webm', '.m4v'];
 export const MAX_VIDEO_SIZE_BYTES = 100 * 1024 * 1024; // 100MB
+export const MAX_FILE_UPLOAD_SIZE_BYTES = 2 * 1024 * 1024 * 1024; // 2GB (Gemini Files API limit)
 export const DEFAULT_RATE_LIMIT_PER_MINUTE = 10;
+export const DEFAULT_MAX_CONCURRENCY = 3; // concurrent analyses per browser tab
+export const MAX_CONCURRENCY_LIMIT = 10;
 export const DEFAULT_MAX_VIDEOS_PER_BATCH = 500; // Increased to support hundreds of videos 
\ No newline at end of file